@@ -1,76 +1,73 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Settings2, ListMusic, Info, Zap } from 'lucide-react';
+import { Settings2, ListMusic, Info, Zap, BarChart3, Stethoscope } from 'lucide-react';
 import Player from './components/Player';
 import Equalizer from './components/Equalizer';
 import Library from './components/Library';
 import DSPSettings from './components/DSPSettings';
 import Settings from './components/Settings';
 import ArchitectureDoc from './components/ArchitectureDoc';
-import { getAllTracks, saveTrack, deleteTrack } from './utils/db';
-
-const extractDominantColor = (imageUrl: string, fallback: string = '#EAB308'): Promise<string> => {
-  return new Promise((resolve) => {
-    if (!imageUrl || imageUrl === 'https://i.postimg.cc/W4ND1Ypt/aguia.webp') {
-      resolve(fallback);
-      return;
-    }
-
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(fallback);
-        return;
-      }
-
-      canvas.width = 50;
-      canvas.height = 50;
-      ctx.drawImage(img, 0, 0, 50, 50);
-
-      try {
-        const imageData = ctx.getImageData(0, 0, 50, 50).data;
-        let r = 0, g = 0, b = 0, count = 0;
-
-        // Simple pixel average
-        for (let i = 0; i < imageData.length; i += 16) {
-          r += imageData[i];
-          g += imageData[i + 1];
-          b += imageData[i + 2];
-          count++;
-        }
+import Stats from './components/Stats';
+import LibraryHealth from './components/LibraryHealth';
+import { getTracksPage, getTrackBlob, saveTrackBlob, deleteTrackBlob, saveTrack, deleteTrack, getSetting, saveSetting, getAllPlaylists, savePlaylist, deletePlaylist, getAllSmartPlaylists, saveSmartPlaylist, deleteSmartPlaylist, addHistoryEvent, getRecentHistory, getAllLibraryFolders, saveLibraryFolder, deleteLibraryFolder, getArtwork, LibraryTrack } from './utils/db';
+import { Playlist, createPlaylist, isPlaylistFile, readPlaylistFile, resolveEntries } from './utils/playlists';
+import { SmartPlaylist } from './utils/smartPlaylists';
+import { ListenEvent, createListenTracker, recentTrackIds } from './utils/history';
+import { LibraryFolder, FileLink, supportsLinkedFolders, pickLibraryFolder, hasPermission, scanFolder, diffScan, linkFor, openLinkedFiles, writeLinkedFile } from './utils/libraryFolders';
+import { createPlaybackEngine, PlaybackEngine, EngineTrack } from './utils/playbackEngine';
+import { FadeCurve, isContinuousAlbum } from './utils/crossfade';
+import { analyzeTrack, TrackAnalysis } from './utils/analysis';
+import { readReplayGain, ReplayGainInfo } from './utils/metadata/replayGain';
+import { NormalizationMode, normalizationGain, needsLoudnessAnalysis } from './utils/normalization';
+import { albumKey } from './utils/library';
+import { EqBand, EqChain, createEqChain, defaultBands } from './utils/eq';
+import { EqPreset, findPreset } from './utils/eqPresets';
+import { Limiter, createLimiter } from './utils/limiter';
+import { readStreamInfo, isHiResStream } from './utils/metadata/streamInfo';
+import { readTrackMetadata, pickTags } from './utils/metadata/tags';
+import { hashAudio } from './utils/metadata/audioHash';
+import { HealthIssue, OrphanLyrics, mergeDuplicate, fillMissingTags, matchLyricsFile } from './utils/libraryHealth';
+import { pickLyrics, isSynced } from './utils/lyrics';
+import { ShuffleMode, ShuffleWeight, ShuffleState, SHUFFLE_OFF, newSeed, shuffleUpcoming, startShuffled, unshuffleUpcoming } from './utils/shuffle';
+import { QueueState, SavedQueue, distinctEntries, reorderUpcoming, removeEntries, clearUpcoming, clearPlayed, toSavedQueue, restoreQueue } from './utils/queue';
+import { writeTags, canWriteTags, TagChanges } from './utils/metadata/tagWriter';
+import { ArtworkRecord, DEFAULT_ACCENT, resolveArtwork, refreshArtwork, setUserArtwork, forgetArtwork, findFolderCover, parentPath } from './utils/artwork';
+import { readTelemetry } from './utils/telemetry';
+import { ResamplerQuality } from './utils/resampler';
+import { EqBindings, BindingScope, emptyBindings, setBinding, resolveBinding } from './utils/eqBindings';
+import {
+  OutputDevice,
+  DEFAULT_OUTPUT,
+  listOutputDevices,
+  onDeviceChange,
+  physicalDeviceKey,
+  setOutputDevice,
+  supportsOutputSelection
+} from './utils/outputDevices';
+
+interface EqState {
+  bands: EqBand[];
+  preamp: number;
+  preset: { id: string; name: string } | null;
+}
 
-        r = Math.floor(r / count);
-        g = Math.floor(g / count);
-        b = Math.floor(b / count);
-
-        // Boost saturation for better UI pop
-        const max = Math.max(r, g, b);
-        if (max > 0) {
-          const multiplier = 255 / max;
-          r = Math.min(255, Math.floor(r * multiplier * 0.8));
-          g = Math.min(255, Math.floor(g * multiplier * 0.8));
-          b = Math.min(255, Math.floor(b * multiplier * 0.8));
-        }
+// Track records read from the DB per step while the library loads
+const TRACK_PAGE_SIZE = 500;
+// Queue edits that can be undone, newest last
+const QUEUE_UNDO_LIMIT = 20;
+// How often the playing position is saved while playing, in ms
+const QUEUE_SAVE_INTERVAL = 5000;
 
-        resolve(`rgb(${r}, ${g}, ${b})`);
-      } catch (e) {
-        resolve(fallback);
-      }
-    };
-    img.onerror = () => resolve(fallback);
-    img.src = imageUrl;
-  });
-};
+const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(mp3|flac|wav|m4a|aiff?|ogg|opus)$/i.test(file.name);
 
+// Sidecar lyrics: LRC, or plain text named after the track
+const isLyricsFile = (file: File) => /\.(lrc|txt)$/i.test(file.name);
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'player' | 'eq' | 'library' | 'arch' | 'dsp' | 'settings'>('player');
+  const [activeTab, setActiveTab] = useState<'player' | 'eq' | 'library' | 'arch' | 'dsp' | 'settings' | 'stats' | 'health'>('player');
   const [isPlaying, setIsPlaying] = useState(false);
-  const [accentColor, setAccentColor] = useState('#EAB308');
-  const [audioSource, setAudioSource] = useState<string | null>(null);
+  const [accentColor, setAccentColor] = useState(DEFAULT_ACCENT);
+  const [loadedTrackId, setLoadedTrackId] = useState<number | null>(null);
   const [trackInfo, setTrackInfo] = useState({
     title: 'No Track Selected',
     artist: 'Upload from Library',
@@ -79,106 +76,198 @@ export default function App() {
   });
   const [volume, setVolume] = useState(0.8);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
-  const [isHiRes, setIsHiRes] = useState(false);
-  const [is24Bit, setIs24Bit] = useState(false);
-  const [isShuffle, setIsShuffle] = useState(false);
+  const [shuffle, setShuffle] = useState<ShuffleState>(SHUFFLE_OFF);
   const [isRepeat, setIsRepeat] = useState(false);
 
-  // Refs — all persistent, never recreated on tab switch
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const crossfadeAudioRef = useRef<HTMLAudioElement>(null);
-  const audioCtxRef = useRef<AudioContext | null>(null);
-
-  const [isCrossfading, setIsCrossfading] = useState(false);
+  // Playback engine — created once, never recreated on tab switch
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const [engine, setEngine] = useState<PlaybackEngine | null>(null);
 
   // Queue and Library
-  const [queue, setQueue] = useState<any[]>([]);
-  const [libraryTracks, setLibraryTracks] = useState<any[]>([]);
-  const [recentTracks, setRecentTracks] = useState<any[]>([]);
+  const [queue, setQueue] = useState<LibraryTrack[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [smartPlaylists, setSmartPlaylists] = useState<SmartPlaylist[]>([]);
+  const [libraryTracks, setLibraryTracks] = useState<LibraryTrack[]>([]);
+  const [libraryFolders, setLibraryFolders] = useState<LibraryFolder[]>([]);
+  const [orphanLyrics, setOrphanLyrics] = useState<OrphanLyrics[]>([]);
+  const [recentTracks, setRecentTracks] = useState<LibraryTrack[]>([]);
   const [currentQueueIndex, setCurrentQueueIndex] = useState(-1);
+  const [queueUndo, setQueueUndo] = useState<QueueState<LibraryTrack>[]>([]);
+  // Saving waits for the saved queue to be restored, which it would overwrite
+  const queueRestoredRef = useRef(false);
+  const lastQueueSaveRef = useRef({ key: '', at: 0 });
+  // Where the loading track starts, until the engine has it decoded
+  const pendingPositionRef = useRef(0);
   const [installPrompt, setInstallPrompt] = useState<any>(null);
+  const [analyzingId, setAnalyzingId] = useState<number | null>(null);
+  const failedAnalysisRef = useRef(new Set<number>());
+  const [backfillingId, setBackfillingId] = useState<number | null>(null);
+  const listenTrackerRef = useRef(createListenTracker());
 
   // EQ & DSP State
-  const [eqGains, setEqGains] = useState<number[]>(new Array(15).fill(0));
-  const [qFactor, setQFactor] = useState(1.41);
+  const [eqBands, setEqBands] = useState<EqBand[]>(defaultBands);
+  const [eqPreamp, setEqPreamp] = useState(0);
+  const [eqPreset, setEqPreset] = useState<{ id: string; name: string } | null>({ id: 'builtin-flat', name: 'Flat' });
+  const [eqRestored, setEqRestored] = useState(false);
+  const eqChainRef = useRef<EqChain | null>(null);
+  const [eqBindings, setEqBindings] = useState<EqBindings>(emptyBindings);
+  // Manual curve stashed while a bound profile is applied
+  const manualEqRef = useRef<EqState | null>(null);
+  const [outputDevices, setOutputDevices] = useState<OutputDevice[]>([]);
+  const [outputDeviceId, setOutputDeviceId] = useState(DEFAULT_OUTPUT);
   const [dspSettings, setDspSettings] = useState({
-    aiUpsampling: true,
-    upsamplingLevel: 2,
+    resampler: 'bypass' as ResamplerQuality,
+    outputRate: 0,
     smartCrossfade: true,
     crossfadeDuration: 3.5,
-    phaseCorrection: true
+    crossfadeCurve: 'equal-power' as FadeCurve,
+    phaseCorrection: false,
+    normalizationMode: 'off' as NormalizationMode,
+    targetLufs: -18,
+    preamp: 0,
+    preventClipping: true,
+    limiterEnabled: false,
+    limiterThreshold: -1,
+    limiterCeiling: -1,
+    limiterRelease: 100
   });
+  const limiterRef = useRef<Limiter | null>(null);
+  // Output rate the current AudioContext was created for (0 = device default)
+  const contextRateRef = useRef(0);
 
-  // ─── Initialize AudioContext once (called on first real user gesture) ───────
-  const initAudioContext = () => {
-    if (audioCtxRef.current || !audioRef.current) return;
+  // ─── Initialize AudioContext + engine once (on first track load) ────────────
+  const ensureEngine = (): PlaybackEngine => {
+    if (engineRef.current) return engineRef.current;
     const Ctx = (window.AudioContext || (window as any).webkitAudioContext) as typeof AudioContext;
-    const ctx = new Ctx();
+    let ctx: AudioContext;
+    try {
+      ctx = dspSettings.outputRate ? new Ctx({ sampleRate: dspSettings.outputRate }) : new Ctx();
+    } catch (err) {
+      console.warn(`Output rate ${dspSettings.outputRate} Hz not supported, using the device rate:`, err);
+      ctx = new Ctx();
+    }
+    contextRateRef.current = dspSettings.outputRate;
+    const playback = createPlaybackEngine(ctx);
+    playback.setVolume(volume);
+    playback.setResampler(dspSettings.resampler);
 
     // Create Analyser
     const analyserNode = ctx.createAnalyser();
     analyserNode.fftSize = 256;
 
     // Create EQ nodes
-    const bands = [20, 40, 63, 100, 160, 250, 400, 630, 1000, 1600, 2500, 4000, 6300, 10000, 20000];
-    const filters = bands.map((freq) => {
-      const filter = ctx.createBiquadFilter();
-      filter.type = 'peaking';
-      filter.frequency.value = freq;
-      filter.Q.value = qFactor;
-      filter.gain.value = 0;
-      return filter;
-    });
+    const eqChain = createEqChain(ctx, eqBands, eqPreamp);
 
     // Create DSP nodes
-    const compression = ctx.createDynamicsCompressor();
-    compression.threshold.setValueAtTime(-24, ctx.currentTime);
-    compression.knee.setValueAtTime(30, ctx.currentTime);
-    compression.ratio.setValueAtTime(12, ctx.currentTime);
-    compression.attack.setValueAtTime(0.003, ctx.currentTime);
-    compression.release.setValueAtTime(0.25, ctx.currentTime);
+    const limiter = createLimiter(ctx);
+    limiter.set(dspSettings);
+    eqChain.setLinearPhase(dspSettings.phaseCorrection);
 
-    try {
-      const src = ctx.createMediaElementSource(audioRef.current);
+    // Chain: Engine -> EQ -> Limiter -> Analyser -> Destination
+    playback.output.connect(eqChain.input);
+    eqChain.output.connect(limiter.input);
+    limiter.output.connect(analyserNode);
+    analyserNode.connect(ctx.destination);
 
-      // Chain: Source -> Filters -> Compression -> Analyser -> Destination
-      let lastNode: AudioNode = src;
-      filters.forEach(f => {
-        lastNode.connect(f);
-        lastNode = f;
-      });
-      lastNode.connect(compression);
-      compression.connect(analyserNode);
-      analyserNode.connect(ctx.destination);
+    engineRef.current = playback;
+    setEngine(playback);
+    setAnalyser(analyserNode);
 
-      audioCtxRef.current = ctx;
-      setAnalyser(analyserNode);
+    // Store EQ chain in ref for real-time updates
+    eqChainRef.current = eqChain;
+    limiterRef.current = limiter;
 
-      // Store filters in ref for real-time updates
-      (window as any)._audioFilters = filters;
-      (window as any)._audioCompressor = compression;
+    return playback;
+  };
 
-    } catch (err) {
-      console.warn('AudioContext init error:', err);
-    }
+  // Sync EQ bands to nodes
+  useEffect(() => {
+    eqChainRef.current?.setBands(eqBands);
+  }, [eqBands]);
+
+  useEffect(() => {
+    eqChainRef.current?.setPreamp(eqPreamp);
+  }, [eqPreamp]);
+
+  useEffect(() => {
+    eqChainRef.current?.setLinearPhase(dspSettings.phaseCorrection);
+  }, [dspSettings.phaseCorrection]);
+
+  useEffect(() => {
+    engineRef.current?.setResampler(dspSettings.resampler);
+  }, [dspSettings.resampler]);
+
+  useEffect(() => {
+    limiterRef.current?.set(dspSettings);
+  }, [dspSettings.limiterEnabled, dspSettings.limiterThreshold, dspSettings.limiterCeiling, dspSettings.limiterRelease]);
+
+  // Restore the last EQ curve, bindings and output device, then persist every change
+  useEffect(() => {
+    Promise.all([
+      getSetting<EqState>('eq'),
+      getSetting<EqBindings>('eqBindings'),
+      getSetting<string>('outputDevice')
+    ])
+      .then(([saved, bindings, deviceId]) => {
+        if (saved) {
+          setEqBands(saved.bands);
+          setEqPreamp(saved.preamp);
+          setEqPreset(saved.preset);
+        }
+        if (bindings) setEqBindings({ ...emptyBindings(), ...bindings });
+        if (deviceId) setOutputDeviceId(deviceId);
+      })
+      .catch(err => console.error('Failed to restore EQ:', err))
+      .finally(() => setEqRestored(true));
+  }, []);
+
+  useEffect(() => {
+    // A bound profile is temporary; only the user's own curve is remembered
+    if (!eqRestored || manualEqRef.current) return;
+    saveSetting<EqState>('eq', { bands: eqBands, preamp: eqPreamp, preset: eqPreset })
+      .catch(err => console.error('Failed to save EQ:', err));
+  }, [eqBands, eqPreamp, eqPreset, eqRestored]);
+
+  useEffect(() => {
+    if (!eqRestored) return;
+    saveSetting('eqBindings', eqBindings).catch(err => console.error('Failed to save EQ bindings:', err));
+  }, [eqBindings, eqRestored]);
+
+  useEffect(() => {
+    if (!eqRestored) return;
+    saveSetting('outputDevice', outputDeviceId).catch(err => console.error('Failed to save output device:', err));
+  }, [outputDeviceId, eqRestored]);
+
+  const applyEqPreset = (preset: EqPreset) => {
+    setEqBands(preset.bands);
+    setEqPreamp(preset.preamp);
+    setEqPreset({ id: preset.id, name: preset.name });
   };
 
-  // Sync EQ Gains to nodes
+  // ─── Output devices ─────────────────────────────────────────────────────────
   useEffect(() => {
-    const filters = (window as any)._audioFilters;
-    if (filters) {
-      eqGains.forEach((gain, i) => {
-        if (filters[i]) filters[i].gain.setTargetAtTime(gain, audioCtxRef.current?.currentTime || 0, 0.05);
-      });
-    }
-  }, [eqGains]);
+    const refresh = () => listOutputDevices()
+      .then(devices => {
+        setOutputDevices(devices);
+        // Fall back to the system default when the chosen device goes away
+        setOutputDeviceId(current => devices.length > 0 && !devices.some(d => d.deviceId === current) ? DEFAULT_OUTPUT : current);
+      })
+      .catch(err => console.error('Failed to list output devices:', err));
+    refresh();
+    return onDeviceChange(refresh);
+  }, []);
 
   useEffect(() => {
-    const filters = (window as any)._audioFilters as BiquadFilterNode[];
-    if (filters) {
-      filters.forEach(f => f.Q.setTargetAtTime(qFactor, audioCtxRef.current?.currentTime || 0, 0.05));
-    }
-  }, [qFactor]);
+    if (!engine || !supportsOutputSelection()) return;
+    setOutputDevice(engine.context as AudioContext, outputDeviceId)
+      .catch(err => console.error('Failed to switch output device:', err));
+  }, [engine, outputDeviceId]);
+
+  const outputDeviceKey = physicalDeviceKey(outputDevices, outputDeviceId);
+
+  const handleBindEqPreset = (scope: BindingScope, key: string, presetId: string | null) => {
+    setEqBindings(prev => setBinding(prev, scope, key, presetId));
+  };
 
   useEffect(() => {
     const handler = (e: any) => {
@@ -193,25 +282,57 @@ export default function App() {
   useEffect(() => {
     const loadLibrary = async () => {
       try {
-        const storedTracks = await getAllTracks();
+        const folders = await getAllLibraryFolders();
+        setLibraryFolders(folders);
+        // Records come in pages and show as they arrive; stored audio stays in the DB until played
+        const storedTracks: LibraryTrack[] = [];
+        let after: number | undefined;
+        do {
+          const page = await getTracksPage(TRACK_PAGE_SIZE, after);
+          // Linked files open right away where the browser kept the folder permission
+          const files = await openLinkedFiles(page.items, folders);
+          storedTracks.push(...page.items.map(t => files.has(t.id) ? { ...t, file: files.get(t.id) } : t));
+          setLibraryTracks([...storedTracks]);
+          after = page.next;
+        } while (after !== undefined);
         if (storedTracks.length > 0) {
-          setLibraryTracks(storedTracks);
-
-          // Check for last played track
-          const lastPlayedId = localStorage.getItem('lastPlayedTrackId');
-          if (lastPlayedId) {
-            const track = storedTracks.find(t => t.id === Number(lastPlayedId));
-            if (track) {
-              // Initial load without autoplay
-              handleSelectTrack(track, false);
-            }
+          try {
+            const history = await getRecentHistory(200);
+            setRecentTracks(recentTrackIds(history, 20).map(id => storedTracks.find(t => t.id === id)).filter(Boolean));
+          } catch (err) {
+            console.warn('Failed to load listening history:', err);
+          }
+
+          // Resume the saved queue where it stopped, else just the last played track
+          const saved = await getSetting<SavedQueue>('queue').catch(() => undefined);
+          const restored = saved ? restoreQueue(saved, storedTracks) : null;
+          if (saved && restored && restored.index !== -1) {
+            setQueue(restored.entries);
+            setCurrentQueueIndex(restored.index);
+            if (saved.shuffle) setShuffle(saved.shuffle);
+            // Initial load without autoplay
+            handleSelectTrack(restored.entries[restored.index], false, false, saved.position);
+          } else {
+            const lastPlayedId = localStorage.getItem('lastPlayedTrackId');
+            const track = lastPlayedId && storedTracks.find(t => t.id === Number(lastPlayedId));
+            if (track) handleSelectTrack(track, false);
           }
         }
+        queueRestoredRef.current = true;
       } catch (err) {
         console.error('Failed to load library:', err);
       }
     };
     loadLibrary();
+    getAllPlaylists()
+      .then(setPlaylists)
+      .catch(err => console.error('Failed to load playlists:', err));
+    getAllSmartPlaylists()
+      .then(setSmartPlaylists)
+      .catch(err => console.error('Failed to load smart playlists:', err));
+    getSetting<OrphanLyrics[]>('orphanLyrics')
+      .then(orphans => setOrphanLyrics(orphans || []))
+      .catch(err => console.error('Failed to load orphaned lyrics:', err));
   }, []);
 
   const handleInstallClick = async () => {
@@ -238,7 +359,7 @@ export default function App() {
 
   // ─── Media Session API (Background Audio on OS) ───────────────────────────
   useEffect(() => {
-    if ('mediaSession' in navigator && audioSource) {
+    if ('mediaSession' in navigator && loadedTrackId !== null) {
       navigator.mediaSession.metadata = new MediaMetadata({
         title: trackInfo.title,
         artist: trackInfo.artist,
@@ -254,59 +375,217 @@ export default function App() {
       navigator.mediaSession.setActionHandler('previoustrack', handlePreviousTrack);
       navigator.mediaSession.setActionHandler('nexttrack', handleNextTrack);
     }
-  }, [trackInfo, audioSource]); // Hook relies on track info natively so OS notifications update
-
-  // ─── Playback: react to audioSource change ────────────────────────────────
-  useEffect(() => {
-    if (!audioRef.current) return;
-    if (audioSource && !isCrossfading) {
-      // audioSource change already updates <audio src> via React render.
-      // We need to call load() so the browser picks up the new src,
-      // then play().
-      audioRef.current.load();
-      initAudioContext();
-      if (audioCtxRef.current?.state === 'suspended') audioCtxRef.current.resume();
-      audioRef.current.play().catch(() => setIsPlaying(false));
-    } else if (!isCrossfading) {
-      audioRef.current.pause();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [audioSource]);
+  }, [trackInfo, loadedTrackId]); // Hook relies on track info natively so OS notifications update
 
   // ─── Playback: react to isPlaying toggle ──────────────────────────────────
   useEffect(() => {
-    if (!audioRef.current || !audioSource) return;
+    const playback = engineRef.current;
+    if (!playback || loadedTrackId === null) {
+      // A restored track whose folder needs permission again opens once play is pressed
+      if (isPlaying && currentTrack) handleSelectTrack(currentTrack, true, false, pendingPositionRef.current);
+      return;
+    }
     if (isPlaying) {
-      if (audioCtxRef.current?.state === 'suspended') audioCtxRef.current.resume();
-      audioRef.current.play().catch(() => setIsPlaying(false));
+      playback.play().catch(() => setIsPlaying(false));
     } else {
-      audioRef.current.pause();
+      playback.pause();
+      saveQueue();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isPlaying]);
 
   // ─── Volume ───────────────────────────────────────────────────────────────
   useEffect(() => {
-    if (audioRef.current && !isCrossfading) audioRef.current.volume = volume;
-  }, [volume, isCrossfading]);
+    engineRef.current?.setVolume(volume);
+  }, [volume]);
+
+  // ─── Crossfade length (0 = gapless) ───────────────────────────────────────
+  useEffect(() => {
+    engine?.setCrossfade(dspSettings.smartCrossfade && !isRepeat ? dspSettings.crossfadeDuration : 0, dspSettings.crossfadeCurve);
+  }, [engine, dspSettings.smartCrossfade, dspSettings.crossfadeDuration, dspSettings.crossfadeCurve, isRepeat]);
+
+  // ─── Gapless: keep the upcoming track decoded and scheduled ───────────────
+  useEffect(() => {
+    if (!engine) return;
+    const activeQueue = queue.length > 0 ? queue : libraryTracks;
+    const current = activeQueue[currentQueueIndex];
+    const upcoming = isRepeat ? current : activeQueue[peekNextIndex()];
+    // Albums that run straight into the next track stay gapless; without track
+    // numbers, adjacency only means something when tracks aren't shuffled
+    const continuous = isContinuousAlbum(current, upcoming) && (shuffle.mode !== 'tracks' || upcoming?.trackNumber !== undefined);
+    engine.setNext(upcoming && upcoming.file ? toEngineTrack(upcoming) : null, { crossfade: !continuous });
+    // Open the upcoming track's audio now so it can be scheduled once it arrives
+    if (upcoming && upcoming.isFile && upcoming.file === undefined) {
+      openTrackFile(upcoming).then(opened => opened && attachFiles(new Map([[libraryIdOf(upcoming), opened]])));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [engine, queue, libraryTracks, currentQueueIndex, isRepeat, shuffle.mode]);
+
+  // ─── Track analysis: the next and current track only ─────────────────────
+  // Plus the rest of their albums while album gain applies, which needs every
+  // track measured. Tracks get analysed as they come up, never the whole library
+  const needsTempo = (t: LibraryTrack) => dspSettings.smartCrossfade && !t.tempo;
+
+  useEffect(() => {
+    if (analyzingId !== null) return;
+    const activeQueue = queue.length > 0 ? queue : libraryTracks;
+    const playing = [activeQueue[peekNextIndex()], activeQueue[currentQueueIndex]].filter((t): t is LibraryTrack => !!t);
+    const albums = new Set(playing.filter(t => usesAlbumGain(t)).map(albumKey).filter(Boolean));
+    const candidates = [...playing, ...(albums.size > 0 ? libraryTracks.filter(t => albums.has(albumKey(t))) : [])];
+    const track = candidates.find(t =>
+      t && canReadAudio(t) && !failedAnalysisRef.current.has(t.id) && (needsTempo(t) || needsLoudnessAnalysis(dspSettings, t))
+    );
+    if (!track) return;
+
+    const runAnalysis = async () => {
+      const file = await openTrackFile(track);
+      if (!file) {
+        failedAnalysisRef.current.add(track.id);
+        return;
+      }
+      const updates: TrackAnalysis & { replayGain?: ReplayGainInfo } = {};
+      if (track.replayGain === undefined) {
+        updates.replayGain = await readReplayGain(file, track.format);
+      }
+      const withTags = { ...track, ...updates };
+      const wanted = { tempo: needsTempo(track), loudness: needsLoudnessAnalysis(dspSettings, withTags) };
+      if (wanted.tempo || wanted.loudness) {
+        Object.assign(updates, await analyzeTrack(file, track.format, wanted));
+      }
+      if ((wanted.tempo && !updates.tempo) || (wanted.loudness && !updates.loudness)) {
+        failedAnalysisRef.current.add(track.id);
+      }
+      await applyAnalysis(track.id, {
+        replayGain: updates.replayGain,
+        tempo: updates.tempo || undefined,
+        loudness: updates.loudness || undefined,
+      });
+    };
+
+    setAnalyzingId(track.id);
+    runAnalysis()
+      .catch(err => {
+        console.warn('Track analysis failed:', err);
+        failedAnalysisRef.current.add(track.id);
+      })
+      .finally(() => setAnalyzingId(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dspSettings.smartCrossfade, dspSettings.normalizationMode, analyzingId, queue, libraryTracks, currentQueueIndex]);
+
+  const applyAnalysis = async (id: number, results: Partial<LibraryTrack>) => {
+    const changes: Partial<LibraryTrack> = Object.fromEntries(Object.entries(results).filter(([, v]) => v !== undefined));
+    if (Object.keys(changes).length === 0) return;
+    // Queue copies of a library track follow it through libraryId
+    const updateList = (list: LibraryTrack[]) => list.map(t => t.id === id || t.libraryId === id ? { ...t, ...changes } : t);
+    setLibraryTracks(prev => updateList(prev));
+    setQueue(prev => updateList(prev));
+    setRecentTracks(prev => updateList(prev));
+    if (changes.tempo) engineRef.current?.setBeatGrid(id, changes.tempo);
+
+    const stored = libraryTracks.find(t => t.id === id);
+    if (stored) {
+      try {
+        await saveTrack({ ...stored, ...changes });
+      } catch (err) {
+        console.warn('Failed to save analysis to DB:', err);
+      }
+    }
+  };
+
+  // ─── Loudness normalization ───────────────────────────────────────────────
+  // Auto mode uses album gain while an album plays in order, track gain otherwise
+  const usesAlbumGain = (track: LibraryTrack) => {
+    if (dspSettings.normalizationMode === 'album') return true;
+    if (dspSettings.normalizationMode !== 'auto' || shuffle.mode === 'tracks') return false;
+    const activeQueue = queue.length > 0 ? queue : libraryTracks;
+    const idx = activeQueue.findIndex(t => t.id === track.id);
+    return isContinuousAlbum(activeQueue[idx - 1], track) || isContinuousAlbum(track, activeQueue[idx + 1]);
+  };
+
+  const gainFor = (track: LibraryTrack): number => {
+    const key = albumKey(track);
+    const album = usesAlbumGain(track) && key ? libraryTracks.filter(t => albumKey(t) === key) : null;
+    return normalizationGain(dspSettings, track, album);
+  };
+
+  useEffect(() => {
+    if (!engine) return;
+    const activeQueue = queue.length > 0 ? queue : libraryTracks;
+    [activeQueue[currentQueueIndex], activeQueue[peekNextIndex()]].forEach(track => {
+      if (track) engine.setTrackGain(track.id, gainFor(track));
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [engine, dspSettings, queue, libraryTracks, currentQueueIndex, shuffle.mode]);
 
-  // ─── Cleanup blob URL on change ───────────────────────────────────────────
+  // ─── Engine events — rebound every render so handlers see fresh state ─────
   useEffect(() => {
-    return () => { if (audioSource) URL.revokeObjectURL(audioSource); };
-  }, [audioSource]);
+    if (!engine) return;
+    const onTrackChange = (e: Event) => {
+      const { id } = (e as CustomEvent<EngineTrack>).detail;
+      const activeQueue = queue.length > 0 ? queue : libraryTracks;
+      const track = activeQueue.find(t => t.id === id);
+      if (track) handleSelectTrack(track, true, true);
+    };
+    const onError = () => setIsPlaying(false);
+    const onTimeUpdate = () => {
+      recordListen(listenTrackerRef.current.update(engine.currentTime, engine.duration));
+      if (Date.now() - lastQueueSaveRef.current.at > QUEUE_SAVE_INTERVAL) saveQueue();
+    };
+    engine.addEventListener('timeupdate', onTimeUpdate);
+    engine.addEventListener('trackchange', onTrackChange);
+    engine.addEventListener('ended', handleTrackEnded);
+    engine.addEventListener('error', onError);
+    return () => {
+      engine.removeEventListener('timeupdate', onTimeUpdate);
+      engine.removeEventListener('trackchange', onTrackChange);
+      engine.removeEventListener('ended', handleTrackEnded);
+      engine.removeEventListener('error', onError);
+    };
+  });
 
   // ─── Track selection ─────────────────────────────────────────────────────
-  const handleAddToQueue = (file: File | any) => {
+  const toEngineTrack = (track: LibraryTrack): EngineTrack => ({
+    id: track.id,
+    file: track.file,
+    format: track.format,
+    tempo: track.tempo,
+    gainDb: gainFor(track)
+  });
+
+  // Library id behind a queue copy, which gets an id of its own
+  const libraryIdOf = (track: LibraryTrack): number => track.libraryId ?? track.id;
+
+  // Audio that can be read without asking: opened files and copies stored in the DB
+  const canReadAudio = (track: LibraryTrack) => !!track.file || (track.isFile && !track.link);
+
+  // Reads a track's audio without putting it on the track. Linked files need
+  // their folder's permission, which `request` asks for again (only from a gesture)
+  const openTrackFile = async (track: LibraryTrack, request = false): Promise<File | Blob | undefined> => {
+    if (track.file) return track.file;
+    try {
+      if (!track.link) return await getTrackBlob(libraryIdOf(track));
+      const folder = libraryFolders.find(f => f.id === track.link.folderId);
+      if (!folder) return undefined;
+      if (request) return (await handleReconnectFolder(folder)).get(libraryIdOf(track));
+      return await hasPermission(folder.handle) ? await track.link.handle.getFile() : undefined;
+    } catch (err) {
+      console.warn('Failed to open track file:', err);
+      return undefined;
+    }
+  };
+
+  const handleAddToQueue = (file: File | LibraryTrack) => {
     const newTrack = file instanceof File
       ? { id: Date.now(), title: file.name.replace(/\.[^/.]+$/, ''), artist: 'Local File', isFile: true, file }
-      : { ...file, id: Date.now() };
+      : { ...file, id: Date.now(), libraryId: libraryIdOf(file) };
     setQueue([...queue, newTrack]);
   };
 
-  const handlePlayNext = (file: File | any) => {
+  // Marked so a reshuffle keeps it next
+  const handlePlayNext = (file: File | LibraryTrack) => {
     const newTrack = file instanceof File
-      ? { id: Date.now(), title: file.name.replace(/\.[^/.]+$/, ''), artist: 'Local File', isFile: true, file }
-      : { ...file, id: Date.now() };
+      ? { id: Date.now(), title: file.name.replace(/\.[^/.]+$/, ''), artist: 'Local File', isFile: true, file, playNext: true }
+      : { ...file, id: Date.now(), libraryId: libraryIdOf(file), playNext: true };
 
     const newQueue = [...queue];
     const insertIndex = currentQueueIndex + 1;
@@ -314,204 +593,593 @@ export default function App() {
     setQueue(newQueue);
   };
 
-  const handleSelectTrack = (file: File | any, shouldPlay: boolean = true) => {
-    if (audioSource) URL.revokeObjectURL(audioSource);
+  // ─── Queue editing, undo and persistence ──────────────────────────────────
+  const applyQueue = ({ entries, index }: QueueState<LibraryTrack>) => {
+    setQueue(entries);
+    setCurrentQueueIndex(index);
+  };
+
+  // Snapshot taken before an edit that loses entries
+  const rememberQueue = () => {
+    if (queue.length === 0) return;
+    setQueueUndo(prev => prev[prev.length - 1]?.entries === queue ? prev
+      : [...prev, { entries: queue, index: currentQueueIndex }].slice(-QUEUE_UNDO_LIMIT));
+  };
+
+  // A new queue gets a fresh shuffle order when shuffle is on
+  const replaceQueue = (entries: LibraryTrack[], index: number) => {
+    rememberQueue();
+    if (shuffle.mode === 'off') return applyQueue({ entries, index });
+    const seed = newSeed();
+    setShuffle(prev => ({ ...prev, seed, unshuffled: entries.map(t => t.id) }));
+    applyQueue(startShuffled(entries, index, seed, shuffle.mode, shuffle.weight));
+  };
+
+  // Switching on (or reshuffling) orders the upcoming entries anew; switching off puts them back
+  const handleShuffleChange = (mode: ShuffleMode, weight: ShuffleWeight = shuffle.weight) => {
+    const state = { entries: queue, index: currentQueueIndex };
+    if (mode === 'off') {
+      if (shuffle.mode !== 'off') applyQueue(unshuffleUpcoming(state, shuffle.unshuffled));
+      setShuffle({ ...SHUFFLE_OFF, weight });
+      return;
+    }
+    const seed = newSeed();
+    applyQueue(shuffleUpcoming(state, seed, mode, weight));
+    setShuffle({ mode, weight, seed, unshuffled: shuffle.mode === 'off' ? queue.map(t => t.id) : shuffle.unshuffled });
+  };
+
+  const handleReorderQueue = (ids: number[]) => applyQueue(reorderUpcoming({ entries: queue, index: currentQueueIndex }, ids));
+
+  const handleRemoveFromQueue = (ids: number[]) => {
+    rememberQueue();
+    applyQueue(removeEntries({ entries: queue, index: currentQueueIndex }, new Set(ids)));
+  };
+
+  const handleClearQueue = () => {
+    rememberQueue();
+    applyQueue(clearUpcoming({ entries: queue, index: currentQueueIndex }));
+  };
+
+  const handleClearQueueHistory = () => {
+    rememberQueue();
+    applyQueue(clearPlayed({ entries: queue, index: currentQueueIndex }));
+  };
+
+  const handleUndoQueue = () => {
+    const snapshot = queueUndo[queueUndo.length - 1];
+    if (!snapshot) return;
+    setQueueUndo(prev => prev.slice(0, -1));
+    // The snapshot's copies of tracks may be stale; playback stays on the loaded track
+    const entries = snapshot.entries.map(entry => {
+      const track = libraryTracks.find(t => t.id === libraryIdOf(entry));
+      return !track ? entry : entry.libraryId === undefined ? track : { ...track, id: entry.id, libraryId: entry.libraryId };
+    });
+    const loaded = entries.findIndex(t => t.id === loadedTrackId);
+    applyQueue({ entries, index: loaded !== -1 ? loaded : snapshot.index });
+  };
+
+  // Writes the queue and position; unchanged entries are only rewritten for the position
+  const saveQueue = (force = true) => {
+    if (!queueRestoredRef.current) return;
+    const saved = toSavedQueue(
+      { entries: queue, index: currentQueueIndex },
+      engineRef.current && engineRef.current.duration > 0 ? engineRef.current.currentTime : pendingPositionRef.current,
+      shuffle
+    );
+    const key = JSON.stringify([saved.entries, saved.index, saved.shuffle]);
+    if (!force && key === lastQueueSaveRef.current.key) return;
+    lastQueueSaveRef.current = { key, at: Date.now() };
+    saveSetting('queue', saved).catch(err => console.error('Failed to save queue:', err));
+  };
+
+  useEffect(() => {
+    saveQueue(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queue, currentQueueIndex, shuffle]);
+
+  // A PWA can be closed from the task switcher without any other warning
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') saveQueue();
+    };
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', onHide);
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', onHide);
+    };
+  });
+
+  const selectTrackRef = useRef<(file: File | LibraryTrack, shouldPlay?: boolean, alreadyPlaying?: boolean, startAt?: number) => void>(() => {});
+  // `alreadyPlaying` is set when the engine rolled over to this track on its own;
+  // `startAt` is where to begin, in seconds (a restored queue)
+  const handleSelectTrack = (file: File | LibraryTrack, shouldPlay: boolean = true, alreadyPlaying: boolean = false, startAt: number = 0) => {
+    // Audio is opened on first play; a linked folder is only asked for permission
+    // when the user chose to play. A null file marks audio that could not be opened
+    if (!(file instanceof File) && file.isFile && file.file === undefined && (shouldPlay || !file.link)) {
+      openTrackFile(file, shouldPlay).then(opened => {
+        if (opened) attachFiles(new Map([[libraryIdOf(file), opened]]));
+        // By now the queue may have been replaced (a playlist); the latest render's handler sees it
+        selectTrackRef.current({ ...file, file: opened || null }, shouldPlay, alreadyPlaying, startAt);
+      });
+      return;
+    }
+
     if (trackInfo.coverUrl && trackInfo.coverUrl.startsWith('blob:')) {
       URL.revokeObjectURL(trackInfo.coverUrl);
     }
 
     // Save playing track to local storage
-    if (file && file.id) {
+    if (!(file instanceof File)) {
       localStorage.setItem('lastPlayedTrackId', file.id.toString());
     }
 
-    const processFile = (fileToProcess: File, trackTitle: string, trackArtist: string) => {
-      const url = URL.createObjectURL(fileToProcess);
-      setAudioSource(url);
-      const jsmediatags = (window as any).jsmediatags;
-      if (jsmediatags) {
-        jsmediatags.read(fileToProcess, {
-          onSuccess: (tag: any) => {
-            const { title, artist, picture } = tag.tags;
-            let coverUrl = '';
-            if (picture) {
-              const { data, format } = picture;
-              const uint8Array = new Uint8Array(data);
-              const blob = new Blob([uint8Array], { type: format });
-              coverUrl = URL.createObjectURL(blob);
-            }
-            setTrackInfo({
-              title: title || trackTitle,
-              artist: artist || trackArtist,
-              coverUrl: coverUrl,
-              lyrics: fileToProcess.type === 'audio/unknown' ? '' : (file as any).lyrics || '' // default empty if local, wait for state map
-            });
-            if (coverUrl) {
-              extractDominantColor(coverUrl).then(setAccentColor);
-            } else {
-              setAccentColor('#EAB308');
-            }
-          },
-          onError: (error: any) => {
-            console.warn('Error reading tags:', error);
-            setTrackInfo({ title: trackTitle, artist: trackArtist, coverUrl: '', lyrics: (file as any).lyrics || '' });
-          }
-        });
-      } else {
-        setTrackInfo({ title: trackTitle, artist: trackArtist, coverUrl: '', lyrics: (file as any).lyrics || '' });
-        // Fallback to AI Cover if not in history or similar
-        fetchAICover(trackTitle, trackArtist);
+    const processFile = (fileToProcess: File | Blob, trackTitle: string, trackArtist: string, engineTrack: EngineTrack) => {
+      setLoadedTrackId(engineTrack.id);
+      pendingPositionRef.current = startAt;
+      // A rollover means the previous track played to its end
+      recordListen(listenTrackerRef.current.begin(file instanceof File ? engineTrack.id : libraryIdOf(file), alreadyPlaying));
+      if (!alreadyPlaying) {
+        ensureEngine().load(engineTrack, { autoplay: shouldPlay, position: startAt });
       }
-    };
-
-    const fetchAICover = async (title: string, artist: string) => {
-      const apiKey = (import.meta as any).env.VITE_GEMINI_API_KEY;
-      if (!apiKey) return;
-
-      try {
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{ text: `Generate a short search query for the album cover of "${title}" by "${artist}". Return ONLY the query string, e.g. "Abbey Road Beatles". No quotes.` }]
-            }]
-          })
+      const inLibrary = libraryTracks.some(t => t.id === engineTrack.id);
+      Promise.all([
+        readTrackMetadata(fileToProcess, engineTrack.format),
+        resolveArtwork({ ...engineTrack, file: fileToProcess }, { persist: inLibrary })
+      ]).then(([{ tags }, artwork]) => {
+        setTrackInfo({
+          title: tags.title || trackTitle,
+          artist: tags.artist || trackArtist,
+          coverUrl: artwork ? URL.createObjectURL(artwork.cover) : '',
+          lyrics: file instanceof File ? '' : file.lyrics || ''
         });
-        const data = await response.json();
-        const query = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || `${title} ${artist}`;
-        // Using LoremFlickr for stable, tag-based music imagery
-        const dynamicUrl = `https://loremflickr.com/800/800/music,album,${encodeURIComponent(query.replace(/\s+/g, ','))}/all`;
-
-        setTrackInfo(prev => ({
-          ...prev,
-          coverUrl: dynamicUrl
-        }));
-        extractDominantColor(dynamicUrl).then(setAccentColor);
-      } catch (err) {
-        console.warn('AI Cover error:', err);
-      }
+        setAccentColor(artwork?.color || DEFAULT_ACCENT);
+      });
     };
 
     if (file instanceof File) {
-      processFile(file, file.name.replace(/\.[^/.]+$/, ''), 'Local File');
       // If we just played a single file, make sure it's in a temporary queue context or similar
-      const newTrack = { id: Date.now(), title: file.name.replace(/\.[^/.]+$/, ''), artist: 'Local File', isFile: true, file };
-      setQueue([newTrack]);
-      setCurrentQueueIndex(0);
+      const newTrack = { id: Date.now(), title: file.name.replace(/\.[^/.]+$/, ''), artist: 'Local File', isFile: true, file, format: file.name.split('.').pop()?.toUpperCase() };
+      processFile(file, newTrack.title, newTrack.artist, toEngineTrack(newTrack));
+      replaceQueue([newTrack], 0);
       setRecentTracks(prev => [newTrack, ...prev.filter(t => t.id !== newTrack.id)].slice(0, 20));
-      fetchAICover(newTrack.title, newTrack.artist);
     } else if (file.isFile && file.file) {
-      processFile(file.file, file.title, file.artist);
+      processFile(file.file, file.title, file.artist, toEngineTrack(file));
 
       let idx = queue.findIndex(t => t.id === file.id);
       if (idx === -1) {
         // If playing from library and not in queue, sync library to queue
         const libIdx = libraryTracks.findIndex(t => t.id === file.id);
-        if (libIdx !== -1) {
-          setQueue([...libraryTracks]);
-          setCurrentQueueIndex(libIdx);
-        }
+        if (libIdx !== -1) replaceQueue([...libraryTracks], libIdx);
       } else {
         setCurrentQueueIndex(idx);
       }
       setRecentTracks(prev => [file, ...prev.filter(t => t.id !== file.id)].slice(0, 20));
-      if (!file.coverUrl) fetchAICover(file.title, file.artist);
     } else {
-      setAudioSource(null);
+      engineRef.current?.stop();
+      setLoadedTrackId(null);
       setTrackInfo({ title: file.title, artist: file.artist, coverUrl: '', lyrics: file.lyrics || '' });
-      setAccentColor('#EAB308');
-      setCurrentQueueIndex(queue.findIndex(t => t.id === file.id));
-      setRecentTracks(prev => [file, ...prev.filter(t => t.id !== file.id)].slice(0, 20));
-      fetchAICover(file.title, file.artist);
+      setAccentColor(DEFAULT_ACCENT);
+      pendingPositionRef.current = startAt;
+      const idx = queue.findIndex(t => t.id === file.id);
+      if (idx !== -1) setCurrentQueueIndex(idx);
+      setRecentTracks(prev => [{ ...file, file: file.file || undefined }, ...prev.filter(t => t.id !== file.id)].slice(0, 20));
     }
 
-    // Detect quality
-    const format = (file as any).format || (file instanceof File ? file.name.split('.').pop()?.toUpperCase() : '');
-    const highRes = ['FLAC', 'WAV', 'ALAC', 'AIFF'].includes(format || '');
-    setIsHiRes(highRes);
-    setIs24Bit(highRes);
-
     // If it's the initial load, we don't switch to player or auto-play
-    if (shouldPlay && !isCrossfading) {
+    if (alreadyPlaying) return;
+    if (shouldPlay) {
       setActiveTab('player');
       setIsPlaying(true);
-    } else if (!isCrossfading) {
+    } else {
+      setIsPlaying(false);
       setActiveTab('player'); // start on player, but don't play
     }
   };
 
-  const handleAddTracks = async (files: FileList | File[]) => {
+  selectTrackRef.current = handleSelectTrack;
+
+  // `links` marks files read from a linked folder, which are not copied into the DB
+  const handleAddTracks = async (files: FileList | File[], links?: Map<File, { path: string; link: FileLink }>) => {
     const fileArray = Array.from(files);
-    const audioFiles = fileArray.filter(f => f.type.startsWith('audio/') || f.name.endsWith('.mp3') || f.name.endsWith('.flac') || f.name.endsWith('.wav'));
-    const lrcFiles = fileArray.filter(f => f.name.endsWith('.lrc'));
+    const relativePath = (file: File): string => links?.get(file)?.path || (file as any).webkitRelativePath || '';
+    const audioFiles = fileArray.filter(isAudioFile);
+    const lyricsFiles = fileArray.filter(isLyricsFile);
+    const playlistFiles = fileArray.filter(isPlaylistFile);
+    const imagesByFolder = new Map<string, File[]>();
+    fileArray.filter(f => f.type.startsWith('image/')).forEach(image => {
+      const folder = parentPath(relativePath(image));
+      imagesByFolder.set(folder, [...(imagesByFolder.get(folder) || []), image]);
+    });
 
-    const lrcMap = new Map<string, string>();
-    for (const lrc of lrcFiles) {
+    const sidecars: { path: string; text: string; lrc: boolean }[] = [];
+    for (const file of lyricsFiles) {
       try {
-        const text = await lrc.text();
-        const baseName = lrc.name.replace(/\.[^/.]+$/, '');
-        lrcMap.set(baseName, text);
+        sidecars.push({ path: relativePath(file) || file.name, text: await file.text(), lrc: /\.lrc$/i.test(file.name) });
       } catch (err) {
-        console.warn('Failed to read LRC file:', err);
+        console.warn('Failed to read lyrics file:', err);
       }
     }
 
-    const newTracks: any[] = audioFiles.map(file => {
+    const newTracks: (LibraryTrack & { file: File })[] = [];
+    // Library tracks that re-imported copies were folded into
+    const merged = new Map<number, LibraryTrack>();
+    for (const file of audioFiles) {
       // In a real mobile environment, we might get webkitRelativePath if the user uploads a folder
-      const path = (file as any).webkitRelativePath || '';
+      const path = relativePath(file);
       const folderName = path.split('/')[0] || 'Biblioteca';
       const baseName = file.name.replace(/\.[^/.]+$/, '');
+      const { format, tags, stream, lyrics } = await readTrackMetadata(file, file.name.split('.').pop());
+      const contentHash = await hashAudio(file, format || undefined).catch(err => {
+        console.warn('Failed to hash track:', err);
+        return null;
+      });
 
-      return {
+      const track = {
+        ...tags,
         id: Math.random() + Date.now(),
-        title: baseName,
-        artist: 'Local File',
+        title: tags.title || baseName,
+        artist: tags.artist || 'Local File',
         isFile: true,
         file,
-        format: file.name.split('.').pop()?.toUpperCase(),
+        format: format || file.name.split('.').pop()?.toUpperCase(),
         folder: folderName,
-        lyrics: lrcMap.get(baseName) || ''
+        path: path || file.name,
+        lyrics: pickLyrics(lyrics),
+        lyricsRead: true,
+        stream,
+        tagsRead: true,
+        addedAt: Date.now(),
+        contentHash,
+        ...(links?.has(file) && { link: links.get(file)!.link })
       };
-    });
+
+      // The same audio already in the library (or earlier in this import) absorbs the copy
+      const earlier = contentHash ? newTracks.findIndex(t => t.contentHash === contentHash) : -1;
+      const existing = contentHash ? libraryTracks.find(t => t.contentHash === contentHash) : undefined;
+      if (earlier !== -1) {
+        newTracks[earlier] = mergeDuplicate(newTracks[earlier], track);
+      } else if (existing) {
+        merged.set(existing.id, mergeDuplicate(merged.get(existing.id) || existing, track));
+      } else {
+        newTracks.push(track);
+      }
+    }
+
+    // Sidecars go to the new track they belong to, else to a library track whose lyrics they
+    // improve on; LRC files that match nothing are kept for the health report
+    const orphans: OrphanLyrics[] = [];
+    for (const sidecar of sidecars) {
+      if (!sidecar.text.trim()) continue;
+      const target = matchLyricsFile(sidecar.path, newTracks);
+      if (target) {
+        newTracks[newTracks.indexOf(target)] = { ...target, lyrics: pickLyrics([sidecar.text, target.lyrics]) };
+        continue;
+      }
+      const synced = isSynced(sidecar.text);
+      const existing = matchLyricsFile(sidecar.path, libraryTracks);
+      if (existing && (!existing.lyrics || (synced && !isSynced(existing.lyrics)))) {
+        await applyAnalysis(existing.id, { lyrics: sidecar.text });
+      } else if (sidecar.lrc && !existing && !orphanLyrics.some(known => known.path === sidecar.path)) {
+        orphans.push({ path: sidecar.path, text: sidecar.text });
+      }
+    }
+    if (orphans.length > 0) saveOrphanLyrics([...orphanLyrics, ...orphans]);
 
     setLibraryTracks(prev => [...prev, ...newTracks]);
+    if (merged.size > 0) {
+      const updateList = (list: LibraryTrack[]) => list.map(t => merged.has(libraryIdOf(t)) ? { ...merged.get(libraryIdOf(t)), id: t.id, libraryId: t.libraryId } : t);
+      setLibraryTracks(prev => updateList(prev));
+      setQueue(prev => updateList(prev));
+      setRecentTracks(prev => updateList(prev));
+      for (const track of merged.values()) {
+        try {
+          await saveTrack(track);
+          // A stored copy that a linked file took over is no longer needed
+          if (track.link && !libraryTracks.find(t => t.id === track.id)?.link) await deleteTrackBlob(track.id);
+        } catch (err) {
+          console.warn('Failed to save merged track to DB:', err);
+        }
+      }
+    }
 
-    // Persist to IndexedDB
+    // Persist to IndexedDB (audio too, unless linked), then cache cover art so the list can show it
     for (const track of newTracks) {
       try {
         await saveTrack(track);
+        if (!track.link) await saveTrackBlob(track.id, track.file);
       } catch (err) {
         console.warn('Failed to save track to DB:', err);
       }
     }
+    for (const track of newTracks) {
+      const folderImages = imagesByFolder.get(parentPath(relativePath(track.file))) || [];
+      await resolveArtwork(track, { folderImage: findFolderCover(folderImages) });
+    }
+
+    // Playlists dropped in alongside audio are matched against the whole library
+    for (const file of playlistFiles) {
+      try {
+        const { name, entries } = await readPlaylistFile(file);
+        const { trackIds, missing } = resolveEntries(entries, [...libraryTracks, ...newTracks], relativePath(file) || file.name);
+        if (missing > 0) console.warn(`${file.name}: ${missing} of ${entries.length} entries not found in the library`);
+        if (trackIds.length > 0) await handleSavePlaylist(createPlaylist(name, trackIds));
+      } catch (err) {
+        console.warn('Failed to import playlist:', err);
+      }
+    }
+    return newTracks;
   };
 
-  const handleRemoveTrack = async (id: number) => {
-    setLibraryTracks(prev => prev.filter(t => t.id !== id));
-    setQueue(prev => prev.filter(t => t.id !== id));
-    setRecentTracks(prev => prev.filter(t => t.id !== id));
+  // ─── Linked folders ────────────────────────────────────────────────────────
+  const saveFolder = async (folder: LibraryFolder) => {
+    setLibraryFolders(prev => prev.some(f => f.id === folder.id)
+      ? prev.map(f => f.id === folder.id ? folder : f)
+      : [...prev, folder]);
     try {
-      await deleteTrack(id);
+      await saveLibraryFolder(folder);
     } catch (err) {
-      console.warn('Failed to delete track from DB:', err);
+      console.warn('Failed to save library folder to DB:', err);
     }
   };
 
-  const handleRenameTrack = async (id: number, newName: string) => {
-    const updateList = (list: any[]) => list.map(t => t.id === id ? { ...t, title: newName } : t);
+  // Puts opened files on the tracks in every list; they are never persisted
+  const attachFiles = (files: Map<number, File | Blob>) => {
+    if (files.size === 0) return;
+    const updateList = (list: LibraryTrack[]) => list.map(t => files.has(libraryIdOf(t)) ? { ...t, file: files.get(libraryIdOf(t)) } : t);
+    setLibraryTracks(prev => updateList(prev));
+    setQueue(prev => updateList(prev));
+    setRecentTracks(prev => updateList(prev));
+  };
+
+  const handleLinkFolder = async () => {
+    try {
+      const folder = await pickLibraryFolder();
+      if (folder) await handleRescanFolder(folder);
+    } catch (err) {
+      console.warn('Failed to link folder:', err);
+    }
+  };
 
+  // Brings a linked folder in line with the disk: new files are imported,
+  // changed ones re-read and missing ones dropped from the library
+  const handleRescanFolder = async (folder: LibraryFolder) => {
+    if (!(await hasPermission(folder.handle, 'read', true))) return;
+    const scanned = await scanFolder(folder);
+    const linked = libraryTracks.filter(t => t.link?.folderId === folder.id);
+    const { added, changed, unchanged, removed } = diffScan<LibraryTrack>(linked, scanned.filter(s => isAudioFile(s.file)));
+    const firstScan = !folder.lastScan;
+
+    // Sidecar lyrics and covers are offered with every scan, playlists only when the folder is first linked
+    const extras = scanned.filter(s => isLyricsFile(s.file) || s.file.type.startsWith('image/') || (firstScan && isPlaylistFile(s.file)));
+    const links = new Map([...added, ...extras].map(s => [s.file, { path: s.path, link: linkFor(folder.id, s) }]));
+    await handleAddTracks([...added, ...extras].map(s => s.file), links);
+
+    const updated = new Map<number, LibraryTrack>();
+    for (const { track, scanned: entry } of changed) {
+      const { format, tags, stream, lyrics } = await readTrackMetadata(entry.file, entry.file.name.split('.').pop());
+      failedAnalysisRef.current.delete(track.id);
+      updated.set(track.id, {
+        ...track,
+        ...tags,
+        title: tags.title || track.title,
+        artist: tags.artist || track.artist,
+        format: format || track.format,
+        file: entry.file,
+        link: linkFor(folder.id, entry),
+        lyrics: pickLyrics([track.lyrics, ...lyrics]),
+        stream,
+        // Analysis of the old contents no longer applies
+        tempo: undefined,
+        loudness: undefined,
+        replayGain: undefined
+      });
+    }
+    const updateList = (list: LibraryTrack[]) => list.map(t => {
+      const track = updated.get(libraryIdOf(t));
+      return track ? { ...track, id: t.id, libraryId: t.libraryId } : t;
+    });
     setLibraryTracks(prev => updateList(prev));
     setQueue(prev => updateList(prev));
     setRecentTracks(prev => updateList(prev));
+    for (const track of updated.values()) {
+      try {
+        await saveTrack(track);
+        await refreshArtwork(track);
+      } catch (err) {
+        console.warn('Failed to update changed track:', err);
+      }
+    }
 
-    setTrackInfo(prev => {
-      // Se a música atual for a que está sendo renomeada (e não estiver usando metadados originais de arquivo fixo)
-      // Como não temos o ID atual no trackInfo facilmente, nós podemos atualizar condicionalmente:
-      // Apenas atualize state; o trackInfo da próxima vez que tocar vai puxar do state, ou podemos ignorar por ser um detalhe menor.
-      // Vou focar apenas nos arrays e no banco de dados.
-      return prev;
+    attachFiles(new Map(unchanged.filter(u => !u.track.file).map(u => [u.track.id, u.scanned.file])));
+    if (removed.length > 0) await removeTracks(removed.map(t => t.id));
+    await saveFolder({ ...folder, lastScan: { at: Date.now(), added: added.length, changed: changed.length, removed: removed.length } });
+  };
+
+  // Asks for the folder's permission again and opens its tracks' files
+  const handleReconnectFolder = async (folder: LibraryFolder): Promise<Map<number, File>> => {
+    try {
+      if (!(await hasPermission(folder.handle, 'read', true))) return new Map();
+      const files = await openLinkedFiles(libraryTracks, [folder]);
+      attachFiles(files);
+      return files;
+    } catch (err) {
+      console.warn('Failed to reconnect folder:', err);
+      return new Map();
+    }
+  };
+
+  // Forgets the folder and its tracks; the files on disk are left alone
+  const handleUnlinkFolder = async (folder: LibraryFolder) => {
+    setLibraryFolders(prev => prev.filter(f => f.id !== folder.id));
+    await removeTracks(libraryTracks.filter(t => t.link?.folderId === folder.id).map(t => t.id));
+    try {
+      await deleteLibraryFolder(folder.id);
+    } catch (err) {
+      console.warn('Failed to delete library folder from DB:', err);
+    }
+  };
+
+  // ─── Playlists ─────────────────────────────────────────────────────────────
+  const handleSavePlaylist = async (playlist: Playlist) => {
+    setPlaylists(prev => prev.some(p => p.id === playlist.id)
+      ? prev.map(p => p.id === playlist.id ? playlist : p)
+      : [...prev, playlist]);
+    try {
+      await savePlaylist(playlist);
+    } catch (err) {
+      console.warn('Failed to save playlist to DB:', err);
+    }
+  };
+
+  const handleDeletePlaylist = async (id: string) => {
+    setPlaylists(prev => prev.filter(p => p.id !== id));
+    try {
+      await deletePlaylist(id);
+    } catch (err) {
+      console.warn('Failed to delete playlist from DB:', err);
+    }
+  };
+
+  const handleSaveSmartPlaylist = async (playlist: SmartPlaylist) => {
+    setSmartPlaylists(prev => prev.some(p => p.id === playlist.id)
+      ? prev.map(p => p.id === playlist.id ? playlist : p)
+      : [...prev, playlist]);
+    try {
+      await saveSmartPlaylist(playlist);
+    } catch (err) {
+      console.warn('Failed to save smart playlist to DB:', err);
+    }
+  };
+
+  const handleDeleteSmartPlaylist = async (id: string) => {
+    setSmartPlaylists(prev => prev.filter(p => p.id !== id));
+    try {
+      await deleteSmartPlaylist(id);
+    } catch (err) {
+      console.warn('Failed to delete smart playlist from DB:', err);
+    }
+  };
+
+  // ─── Listening history, ratings and favourites ─────────────────────────────
+  const recordListen = (event: ListenEvent | null) => {
+    if (!event) return;
+    addHistoryEvent(event).catch(err => console.warn('Failed to save listening history:', err));
+    const track = libraryTracks.find(t => t.id === event.trackId);
+    if (!track) return;
+    if (event.type === 'play') {
+      applyAnalysis(track.id, { playCount: (track.playCount || 0) + 1, lastPlayedAt: event.at });
+    } else if (event.type === 'skip') {
+      applyAnalysis(track.id, { skipCount: (track.skipCount || 0) + 1 });
+    }
+  };
+
+  const handleRateTrack = (track: LibraryTrack, rating: number) => applyAnalysis(libraryIdOf(track), { rating });
+
+  const handleToggleFavourite = (track: LibraryTrack) => applyAnalysis(libraryIdOf(track), { favourite: !track.favourite });
+
+  const handleLyricsOffsetChange = (ms: number) => {
+    if (loadedTrack) applyAnalysis(libraryIdOf(loadedTrack), { lyricsOffset: ms });
+  };
+
+  // Lyrics timed in the sync editor; any old offset was for the previous timing
+  const handleSaveLyrics = (lrc: string) => {
+    if (loadedTrack) applyAnalysis(libraryIdOf(loadedTrack), { lyrics: lrc, lyricsOffset: 0 });
+  };
+
+  // Replaces the queue with a list (a playlist) and starts at `index`
+  const handlePlayTracks = (tracks: LibraryTrack[], index: number) => {
+    const entries = distinctEntries(tracks);
+    if (!entries[index]) return;
+    handleSelectTrack(entries[index]);
+    replaceQueue(entries, index);
+  };
+
+  // `replacement` takes the place of the removed tracks in playlists (a merged duplicate)
+  const removeTracks = async (ids: number[], replacement?: number) => {
+    if (ids.length === 0) return;
+    const removed = new Set(ids);
+    setLibraryTracks(prev => prev.filter(t => !removed.has(t.id)));
+    // Queue copies go with their track, in the undo snapshots as well
+    const withoutRemoved = (state: QueueState<LibraryTrack>) =>
+      removeEntries(state, new Set(state.entries.filter(t => removed.has(libraryIdOf(t))).map(t => t.id)));
+    applyQueue(withoutRemoved({ entries: queue, index: currentQueueIndex }));
+    setQueueUndo(prev => prev.map(withoutRemoved));
+    setRecentTracks(prev => prev.filter(t => !removed.has(t.id)));
+    playlists.filter(p => p.trackIds.some(id => removed.has(id))).forEach(p => {
+      // A merged copy takes the kept track's place unless the playlist already lists it
+      const substitute = replacement !== undefined && !p.trackIds.includes(replacement) ? [replacement] : [];
+      handleSavePlaylist({ ...p, trackIds: p.trackIds.flatMap(t => removed.has(t) ? substitute : [t]), updatedAt: Date.now() });
     });
+    for (const id of ids) {
+      try {
+        await deleteTrack(id);
+        await forgetArtwork(id);
+      } catch (err) {
+        console.warn('Failed to delete track from DB:', err);
+      }
+    }
+  };
+
+  const handleRemoveTrack = (id: number) => removeTracks([id]);
+
+  // ─── Library health ────────────────────────────────────────────────────────
+  const saveOrphanLyrics = (orphans: OrphanLyrics[]) => {
+    setOrphanLyrics(orphans);
+    saveSetting('orphanLyrics', orphans).catch(err => console.warn('Failed to save orphaned lyrics:', err));
+  };
+
+  // Folds duplicates into the first id, which keeps its place in playlists
+  const mergeTracks = async (ids: number[]) => {
+    const [keep, ...duplicates] = ids.map(id => libraryTracks.find(t => t.id === id)).filter(Boolean);
+    if (!keep || duplicates.length === 0) return;
+    const merged = duplicates.reduce((track, duplicate) => mergeDuplicate(track, duplicate), keep);
+    const updateList = (list: LibraryTrack[]) => list.map(t => libraryIdOf(t) === keep.id ? { ...merged, id: t.id, libraryId: t.libraryId } : t);
+    setLibraryTracks(prev => updateList(prev));
+    setQueue(prev => updateList(prev));
+    setRecentTracks(prev => updateList(prev));
+    try {
+      await saveTrack(merged);
+      if (merged.link && !keep.link) await deleteTrackBlob(keep.id);
+    } catch (err) {
+      console.warn('Failed to save merged track to DB:', err);
+    }
+    await removeTracks(duplicates.map(t => t.id), keep.id);
+  };
+
+  const handleFixIssue = async (issue: HealthIssue) => {
+    const [id] = issue.trackIds;
+    const track = libraryTracks.find(t => t.id === id);
+    switch (issue.kind) {
+      case 'duplicate':
+        return mergeTracks(issue.trackIds);
+      case 'missingTags':
+        if (track) await applyAnalysis(id, fillMissingTags(track));
+        return;
+      case 'missingArt': {
+        const artwork = issue.targetId !== undefined ? await getArtwork(issue.targetId).catch(() => undefined) : undefined;
+        if (artwork) await handleSetArtwork(id, artwork.cover);
+        return;
+      }
+      case 'unreadable':
+        return handleRemoveTrack(id);
+      case 'fakeHiRes':
+        return applyAnalysis(id, { fakeHiRes: true });
+      case 'orphanLyrics':
+        if (issue.targetId !== undefined && issue.lyrics) await applyAnalysis(issue.targetId, { lyrics: issue.lyrics.text });
+        saveOrphanLyrics(orphanLyrics.filter(o => o.path !== issue.lyrics?.path));
+        return;
+    }
+  };
+
+  const handleRenameTrack = async (id: number, newName: string) => {
+    const updateList = (list: LibraryTrack[]) => list.map(t => libraryIdOf(t) === id ? { ...t, title: newName } : t);
+
+    setLibraryTracks(prev => updateList(prev));
+    setQueue(prev => updateList(prev));
+    setRecentTracks(prev => updateList(prev));
+
+    if (loadedTrack && libraryIdOf(loadedTrack) === id) setTrackInfo(prev => ({ ...prev, title: newName }));
 
     const trackToUpdate = libraryTracks.find(t => t.id === id) || queue.find(t => t.id === id) || recentTracks.find(t => t.id === id);
     if (trackToUpdate) {
@@ -523,29 +1191,113 @@ export default function App() {
     }
   };
 
-  const handleTrackEnded = () => {
-    if (isRepeat) {
-      if (audioRef.current) {
-        audioRef.current.currentTime = 0;
-        audioRef.current.play().catch(() => setIsPlaying(false));
+  // Writes edited tags into each file where the format allows, then updates the library
+  const handleSaveTags = async (ids: number[], changes: TagChanges) => {
+    const result = { written: 0, unsupported: [] as string[] };
+    const updated = new Map<number, LibraryTrack>();
+    // Stored copies whose audio was rewritten and goes back into the DB
+    const rewritten = new Set<number>();
+    for (const id of ids) {
+      const track = libraryTracks.find(t => t.id === id) || queue.find(t => t.id === id) || recentTracks.find(t => t.id === id);
+      if (!track) continue;
+      const tags = { ...pickTags(track), ...changes.tags };
+      let file = track.file || (track.isFile ? await openTrackFile(track, true) : undefined);
+      let link = track.link;
+      if (file && canWriteTags(track.format)) {
+        const blob = await writeTags(file, track.format, { tags, lyrics: changes.lyrics, picture: changes.picture });
+        file = new File([blob], file.name || `${track.title}.${track.format.toLowerCase()}`, { type: blob.type });
+        if (link) {
+          // Linked files are rewritten in place; the new size and date keep the next rescan quiet
+          try {
+            file = await writeLinkedFile(link, blob);
+            link = { ...link, size: file.size, lastModified: file.lastModified };
+          } catch (err) {
+            console.warn('Failed to write tags to the linked file:', err);
+          }
+        } else {
+          rewritten.add(id);
+        }
+        result.written++;
+      } else {
+        result.unsupported.push(track.format || '?');
+      }
+      updated.set(id, {
+        ...track,
+        ...changes.tags,
+        title: tags.title || track.title,
+        artist: tags.artist || track.artist,
+        lyrics: changes.lyrics ?? track.lyrics,
+        file,
+        link
+      });
+    }
+
+    const updateList = (list: LibraryTrack[]) => list.map(t => updated.get(t.id) || t);
+    setLibraryTracks(prev => updateList(prev));
+    setQueue(prev => updateList(prev));
+    setRecentTracks(prev => updateList(prev));
+
+    const loaded = loadedTrackId !== null ? updated.get(loadedTrackId) : null;
+    if (loaded) {
+      setTrackInfo(prev => ({ ...prev, title: loaded.title, artist: loaded.artist, lyrics: loaded.lyrics || '' }));
+    }
+
+    for (const track of updated.values()) {
+      if (!libraryTracks.some(t => t.id === track.id)) continue;
+      try {
+        await saveTrack(track);
+        if (rewritten.has(track.id)) await saveTrackBlob(track.id, track.file);
+      } catch (err) {
+        console.warn('Failed to save edited tags to DB:', err);
+      }
+    }
+    if (changes.picture !== undefined) {
+      for (const track of updated.values()) {
+        const artwork = await refreshArtwork(track);
+        if (track.id === loadedTrackId) showArtwork(artwork);
       }
+    }
+    return result;
+  };
+
+  const showArtwork = (artwork: ArtworkRecord | null) => {
+    setTrackInfo(prev => {
+      if (prev.coverUrl.startsWith('blob:')) URL.revokeObjectURL(prev.coverUrl);
+      return { ...prev, coverUrl: artwork ? URL.createObjectURL(artwork.cover) : '' };
+    });
+    setAccentColor(artwork?.color || DEFAULT_ACCENT);
+  };
+
+  const handleSetArtwork = async (id: number, image: Blob) => {
+    try {
+      const artwork = await setUserArtwork(id, image);
+      if (id === loadedTrackId) showArtwork(artwork);
+    } catch (err) {
+      console.warn('Failed to set artwork:', err);
+    }
+  };
+
+  const handleTrackEnded = () => {
+    const playback = engineRef.current;
+    recordListen(listenTrackerRef.current.finish(true));
+    if (isRepeat && playback) {
+      if (loadedTrack) listenTrackerRef.current.begin(libraryIdOf(loadedTrack));
+      playback.currentTime = 0;
+      playback.play().catch(() => setIsPlaying(false));
     } else {
       handleNextTrack();
     }
   };
 
+  // Index of the track after the current one; shuffling reorders the queue itself
+  const peekNextIndex = () => currentQueueIndex + 1;
+
   const handleNextTrack = () => {
     const activeQueue = queue.length > 0 ? queue : libraryTracks;
     if (activeQueue.length > 0) {
-      if (isShuffle) {
-        let nextIndex = Math.floor(Math.random() * activeQueue.length);
-        if (activeQueue.length > 1 && nextIndex === currentQueueIndex) {
-          nextIndex = (nextIndex + 1) % activeQueue.length;
-        }
+      const nextIndex = peekNextIndex();
+      if (nextIndex < activeQueue.length) {
         handleSelectTrack(activeQueue[nextIndex]);
-      } else if (currentQueueIndex < activeQueue.length - 1) {
-        const next = activeQueue[currentQueueIndex + 1];
-        handleSelectTrack(next);
       } else {
         setIsPlaying(false);
       }
@@ -556,112 +1308,152 @@ export default function App() {
 
   const handlePreviousTrack = () => {
     const activeQueue = queue.length > 0 ? queue : libraryTracks;
+    const playback = engineRef.current;
     if (activeQueue.length > 0) {
-      if (audioRef.current && audioRef.current.currentTime > 3) {
-        audioRef.current.currentTime = 0;
-      } else if (isShuffle) {
-        let prevIndex = Math.floor(Math.random() * activeQueue.length);
-        if (activeQueue.length > 1 && prevIndex === currentQueueIndex) {
-          prevIndex = (prevIndex + 1) % activeQueue.length;
-        }
-        handleSelectTrack(activeQueue[prevIndex]);
+      if (playback && playback.currentTime > 3) {
+        playback.currentTime = 0;
       } else if (currentQueueIndex > 0) {
         const prev = activeQueue[currentQueueIndex - 1];
         handleSelectTrack(prev);
       } else {
-        if (audioRef.current) audioRef.current.currentTime = 0;
+        if (playback) playback.currentTime = 0;
       }
     }
   };
 
-  // ─── Crossfade Logic ──────────────────────────────────────────────────────
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !dspSettings.smartCrossfade || isRepeat) return;
-
-    let crossfadeInterval: any;
+  const currentTrack = (queue.length > 0 ? queue : libraryTracks)[currentQueueIndex];
+  const upcomingTrack = (queue.length > 0 ? queue : libraryTracks)[peekNextIndex()];
+  const loadedTrack = loadedTrackId === null ? null
+    : queue.find(t => t.id === loadedTrackId) || libraryTracks.find(t => t.id === loadedTrackId) || null;
 
-    const onTimeUpdate = () => {
-      const activeQueue = queue.length > 0 ? queue : libraryTracks;
-      const nextTrack = activeQueue[currentQueueIndex + 1];
+  // ─── Stream properties (rate, depth, channels) from the container headers ───
+  useEffect(() => {
+    if (!loadedTrack?.file || loadedTrack.stream !== undefined) return;
+    const id = loadedTrack.id;
+    readStreamInfo(loadedTrack.file, loadedTrack.format)
+      .catch(err => {
+        console.warn('Failed to read stream info:', err);
+        return null;
+      })
+      .then(stream => applyAnalysis(id, { stream }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadedTrack?.id, loadedTrack?.stream]);
 
-      if (!nextTrack || isCrossfading || audio.duration <= dspSettings.crossfadeDuration) return;
+  // ─── Backfill for tracks imported before tags, hashes, lyrics and stream info were read ───
+  // One track at a time, one file open for all of it. Whatever fails is recorded
+  // (null hash or stream, read flags set) so the track is not picked again
+  const needsBackfill = (t: LibraryTrack) =>
+    !t.tagsRead || !t.lyricsRead || t.contentHash === undefined || t.stream === undefined;
 
-      const timeLeft = audio.duration - audio.currentTime;
-      if (timeLeft <= dspSettings.crossfadeDuration) {
-        // Init Crossfade
-        setIsCrossfading(true);
+  useEffect(() => {
+    if (backfillingId !== null) return;
+    const pending = libraryTracks.find(t => canReadAudio(t) && needsBackfill(t));
+    if (!pending) return;
+    const done: Partial<LibraryTrack> = {
+      tagsRead: true,
+      lyricsRead: true,
+      contentHash: pending.contentHash === undefined ? null : undefined,
+      stream: pending.stream === undefined ? null : undefined
+    };
 
-        // Prepare next track audio
-        if (crossfadeAudioRef.current) {
-          const nextFile = nextTrack.file || nextTrack; // handle file vs blobl url if needed
-          const processCrossfadeFile = (f: File) => URL.createObjectURL(f);
+    const runBackfill = async () => {
+      // Audio that is gone has nothing to offer
+      const file = await openTrackFile(pending);
+      if (!file) return applyAnalysis(pending.id, done);
+      const metadata = !pending.tagsRead || !pending.lyricsRead || pending.stream === undefined
+        ? await readTrackMetadata(file, pending.format).catch(err => {
+          console.warn('Failed to read tags:', err);
+          return null;
+        })
+        : null;
+      const contentHash = pending.contentHash === undefined
+        ? await hashAudio(file, pending.format).catch(err => {
+          console.warn('Failed to hash track:', err);
+          return null;
+        })
+        : undefined;
+
+      const changes: Partial<LibraryTrack> = { ...done, contentHash };
+      if (metadata && pending.stream === undefined) changes.stream = metadata.stream;
+      if (metadata && !pending.tagsRead) {
+        const { tags } = metadata;
+        const baseName = ((file as File).name || '').replace(/\.[^/.]+$/, '');
+        Object.assign(changes, tags, {
+          // Keep titles the user has renamed; only replace the file-name fallback
+          title: tags.title && (!pending.title || pending.title === baseName) ? tags.title : undefined,
+          artist: tags.artist && pending.artist === 'Local File' ? tags.artist : undefined
+        });
+      }
+      if (metadata && !pending.lyricsRead) {
+        const lyrics = pickLyrics([pending.lyrics, ...metadata.lyrics]);
+        if (lyrics !== (pending.lyrics || '')) changes.lyrics = lyrics;
+      }
+      await applyAnalysis(pending.id, changes);
+    };
 
-          let nextUrl = '';
-          if (nextFile instanceof File) nextUrl = processCrossfadeFile(nextFile);
+    setBackfillingId(pending.id);
+    runBackfill()
+      .catch(err => {
+        console.warn('Track backfill failed:', err);
+        return applyAnalysis(pending.id, done);
+      })
+      .finally(() => setBackfillingId(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [libraryTracks, backfillingId]);
 
-          if (nextUrl) {
-            crossfadeAudioRef.current.src = nextUrl;
-            crossfadeAudioRef.current.volume = 0;
-            crossfadeAudioRef.current.play().catch(e => console.warn("Crossfade play blocked:", e));
-          }
-        }
+  const isHiRes = isHiResStream(loadedTrack?.stream) && !loadedTrack?.fakeHiRes;
+  const is24Bit = (loadedTrack?.stream?.bitDepth || 0) >= 24;
 
-        const steps = 20;
-        const stepTime = (dspSettings.crossfadeDuration * 1000) / steps;
-        let currentStep = 0;
+  const getTelemetry = () => engine
+    ? readTelemetry(engine.context, loadedTrack?.stream || null, engine.conversion, [eqChainRef.current, limiterRef.current])
+    : null;
 
-        crossfadeInterval = setInterval(() => {
-          currentStep++;
-          const progress = currentStep / steps;
+  // ─── Output rate: an AudioContext's rate is fixed, so the graph is rebuilt ───
+  useEffect(() => {
+    const old = engineRef.current;
+    if (!old || contextRateRef.current === dspSettings.outputRate) return;
+    const position = old.currentTime;
+    const wasPlaying = !old.paused;
+    old.stop();
+    old.context.close().catch(() => {});
+    engineRef.current = null;
+    const playback = ensureEngine();
+    if (loadedTrack?.file) playback.load(toEngineTrack(loadedTrack), { autoplay: wasPlaying, position });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dspSettings.outputRate]);
 
-          if (audioRef.current) {
-            audioRef.current.volume = Math.max(0, volume * (1 - progress));
-          }
-          if (crossfadeAudioRef.current) {
-            crossfadeAudioRef.current.volume = Math.min(volume, volume * progress);
-          }
+  // ─── Bound EQ profiles (track > album > folder > output device) ─────────────
+  const eqBinding = resolveBinding(eqBindings, currentTrack || null, outputDeviceKey);
+  const boundPresetId = eqBinding?.presetId || null;
 
-          if (currentStep >= steps) {
-            clearInterval(crossfadeInterval);
-            handleNextTrack();
-            setIsCrossfading(false);
-            if (audioRef.current) audioRef.current.volume = volume;
-            if (crossfadeAudioRef.current) {
-              crossfadeAudioRef.current.pause();
-              URL.revokeObjectURL(crossfadeAudioRef.current.src);
-              crossfadeAudioRef.current.src = '';
-            }
-          }
-        }, stepTime);
+  useEffect(() => {
+    if (!eqRestored) return;
+    if (!boundPresetId) {
+      const manual = manualEqRef.current;
+      if (manual) {
+        manualEqRef.current = null;
+        setEqBands(manual.bands);
+        setEqPreamp(manual.preamp);
+        setEqPreset(manual.preset);
       }
-    };
-
-    audio.addEventListener('timeupdate', onTimeUpdate);
-    return () => {
-      audio.removeEventListener('timeupdate', onTimeUpdate);
-      if (crossfadeInterval) clearInterval(crossfadeInterval);
-    };
-  }, [currentQueueIndex, queue, libraryTracks, dspSettings.smartCrossfade, dspSettings.crossfadeDuration, isCrossfading, volume, isRepeat]);
+      return;
+    }
+    let cancelled = false;
+    findPreset(boundPresetId)
+      .then(preset => {
+        if (!preset || cancelled) return;
+        if (!manualEqRef.current) manualEqRef.current = { bands: eqBands, preamp: eqPreamp, preset: eqPreset };
+        applyEqPreset(preset);
+      })
+      .catch(err => console.error('Failed to apply bound EQ preset:', err));
+    return () => { cancelled = true; };
+  }, [boundPresetId, eqRestored]);
 
   return (
     <div
       className="min-h-screen w-full flex flex-col items-center justify-center p-4 sm:p-8 relative bg-midnight"
       style={{ '--accent-color': accentColor } as React.CSSProperties}
     >
-      {/* Persistent hidden audio element — NEVER conditionally rendered */}
-      <audio
-        ref={audioRef}
-        src={audioSource || undefined}
-        onTimeUpdate={() => {/* handled in Player via ref */ }}
-        onEnded={handleTrackEnded}
-        style={{ display: 'none' }}
-      />
-      <audio
-        ref={crossfadeAudioRef}
-        style={{ display: 'none' }}
-      />
-
       {/* Dynamic Atmospheric Background */}
       <div
         className="atmosphere"
@@ -699,6 +1491,18 @@ export default function App() {
                 <Zap size={16} fill="currentColor" />
               </button>
             )}
+            <button
+              onClick={() => setActiveTab(activeTab === 'stats' ? 'player' : 'stats')}
+              className={`p-2 rounded-xl glass-card transition-all ${activeTab === 'stats' ? 'bg-white text-black' : 'text-white/60 hover:text-white'}`}
+            >
+              <BarChart3 size={16} />
+            </button>
+            <button
+              onClick={() => setActiveTab(activeTab === 'health' ? 'player' : 'health')}
+              className={`p-2 rounded-xl glass-card transition-all ${activeTab === 'health' ? 'bg-white text-black' : 'text-white/60 hover:text-white'}`}
+            >
+              <Stethoscope size={16} />
+            </button>
             <button
               onClick={() => setActiveTab(activeTab === 'arch' ? 'player' : 'arch')}
               className={`p-2 rounded-xl glass-card transition-all ${activeTab === 'arch' ? 'bg-white text-black' : 'text-white/60 hover:text-white'}`}
@@ -762,9 +1566,8 @@ export default function App() {
                   isPlaying={isPlaying}
                   setIsPlaying={setIsPlaying}
                   accentColor={accentColor}
-                  audioSource={audioSource}
-                  audioRef={audioRef}
-                  trackInfo={trackInfo}
+                  engine={engine}
+                  trackInfo={loadedTrack ? { ...trackInfo, lyrics: loadedTrack.lyrics || '' } : trackInfo}
                   onNext={handleNextTrack}
                   onPrevious={handlePreviousTrack}
                   volume={volume}
@@ -773,10 +1576,13 @@ export default function App() {
                   isHiRes={isHiRes}
                   is24Bit={is24Bit}
                   nextTrack={queue[currentQueueIndex + 1] || libraryTracks[0]}
-                  isShuffle={isShuffle}
-                  setIsShuffle={setIsShuffle}
+                  shuffleMode={shuffle.mode}
+                  onCycleShuffle={() => handleShuffleChange(({ off: 'tracks', tracks: 'albums', albums: 'off' } as const)[shuffle.mode])}
                   isRepeat={isRepeat}
                   setIsRepeat={setIsRepeat}
+                  lyricsOffset={loadedTrack?.lyricsOffset || 0}
+                  onLyricsOffsetChange={handleLyricsOffsetChange}
+                  onSaveLyrics={handleSaveLyrics}
                 />
               </motion.div>
             )}
@@ -791,10 +1597,20 @@ export default function App() {
               >
                 <Equalizer
                   accentColor={accentColor}
-                  eqGains={eqGains}
-                  setEqGains={setEqGains}
-                  qFactor={qFactor}
-                  setQFactor={setQFactor}
+                  bands={eqBands}
+                  setBands={setEqBands}
+                  preamp={eqPreamp}
+                  setPreamp={setEqPreamp}
+                  activePreset={eqPreset}
+                  onApplyPreset={applyEqPreset}
+                  binding={eqBinding?.scope || null}
+                  outputDevices={outputDevices}
+                  outputDeviceId={outputDeviceId}
+                  canSelectOutput={supportsOutputSelection()}
+                  onSelectOutputDevice={setOutputDeviceId}
+                  devicePresetId={eqBindings.device[outputDeviceKey] || null}
+                  onBindDevice={(presetId) => handleBindEqPreset('device', outputDeviceKey, presetId)}
+                  linearPhase={dspSettings.phaseCorrection}
                 />
               </motion.div>
             )}
@@ -815,10 +1631,38 @@ export default function App() {
                   onAddTracks={handleAddTracks}
                   onRemoveTrack={handleRemoveTrack}
                   onRenameTrack={handleRenameTrack}
+                  onSaveTags={handleSaveTags}
+                  onOpenTrackFile={openTrackFile}
+                  onSetArtwork={handleSetArtwork}
+                  onPlayTracks={handlePlayTracks}
+                  playlists={playlists}
+                  onSavePlaylist={handleSavePlaylist}
+                  onDeletePlaylist={handleDeletePlaylist}
+                  smartPlaylists={smartPlaylists}
+                  onSaveSmartPlaylist={handleSaveSmartPlaylist}
+                  onDeleteSmartPlaylist={handleDeleteSmartPlaylist}
+                  onRateTrack={handleRateTrack}
+                  onToggleFavourite={handleToggleFavourite}
+                  libraryFolders={libraryFolders}
+                  onLinkFolder={supportsLinkedFolders() ? handleLinkFolder : undefined}
+                  onRescanFolder={handleRescanFolder}
+                  onReconnectFolder={handleReconnectFolder}
+                  onUnlinkFolder={handleUnlinkFolder}
                   tracks={libraryTracks}
                   recentTracks={recentTracks}
                   queue={queue}
+                  currentQueueIndex={currentQueueIndex}
+                  onReorderQueue={handleReorderQueue}
+                  onRemoveFromQueue={handleRemoveFromQueue}
+                  onClearQueue={handleClearQueue}
+                  onClearQueueHistory={handleClearQueueHistory}
+                  onUndoQueue={handleUndoQueue}
+                  canUndoQueue={queueUndo.length > 0}
+                  shuffle={shuffle}
+                  onShuffleChange={handleShuffleChange}
                   currentTrackId={queue[currentQueueIndex]?.id}
+                  eqBindings={eqBindings}
+                  onBindEqPreset={handleBindEqPreset}
                 />
               </motion.div>
             )}
@@ -835,6 +1679,39 @@ export default function App() {
                   accentColor={accentColor}
                   settings={dspSettings}
                   setSettings={setDspSettings}
+                  upNext={upcomingTrack && { title: upcomingTrack.title, bpm: upcomingTrack.tempo?.bpm }}
+                  appliedGain={currentTrack ? gainFor(currentTrack) : undefined}
+                  sampleRate={engine?.context.sampleRate}
+                  getTelemetry={getTelemetry}
+                />
+              </motion.div>
+            )}
+            {activeTab === 'stats' && (
+              <motion.div
+                key="stats"
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 50 }}
+                transition={{ duration: 0.3 }}
+                className="absolute inset-0 h-full"
+              >
+                <Stats tracks={libraryTracks} onSelectTrack={handleSelectTrack} />
+              </motion.div>
+            )}
+            {activeTab === 'health' && (
+              <motion.div
+                key="health"
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 50 }}
+                transition={{ duration: 0.3 }}
+                className="absolute inset-0 h-full"
+              >
+                <LibraryHealth
+                  tracks={libraryTracks}
+                  orphanLyrics={orphanLyrics}
+                  onFix={handleFixIssue}
+                  onSetArtwork={handleSetArtwork}
                 />
               </motion.div>
             )}
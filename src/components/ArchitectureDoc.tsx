@@ -19,12 +19,12 @@ export default function ArchitectureDoc() {
           </div>
           <div className="grid grid-cols-1 gap-3">
             <div className="p-4 rounded-2xl bg-amber-400/5 border border-amber-400/10 text-xs text-white/60 leading-relaxed">
-              <p className="font-semibold text-amber-400 mb-1">AI Neural Upsampling</p>
-              Reconstrução de áudio via <span className="text-white">TensorFlow Lite</span> local. O modelo analisa transientes e harmônicos de alta frequência para restaurar dados perdidos em compressões lossy ou gravações antigas.
+              <p className="font-semibold text-amber-400 mb-1">Sinc Resampler</p>
+              Conversão de taxa <span className="text-white">offline</span> por sinc janelado (Kaiser) num Web Worker: filtros fast, balanced, steep de fase linear e de fase mínima, medidos numericamente. O AudioContext roda na taxa escolhida e o modo bypass deixa o arquivo intacto quando as taxas coincidem.
             </div>
             <div className="p-4 rounded-2xl bg-emerald-400/5 border border-emerald-400/10 text-xs text-white/60 leading-relaxed">
-              <p className="font-semibold text-emerald-400 mb-1">Smart BPM Crossfade</p>
-              Algoritmo de detecção de BPM em tempo real. Ajusta a curva de crossfade e o tempo de transição para garantir que o "beat" da próxima faixa se alinhe perfeitamente com a atual.
+              <p className="font-semibold text-emerald-400 mb-1">Crossfade Alinhado ao Beat</p>
+              Detecção de BPM e downbeats das faixas atual e seguinte. O início da próxima faixa é deslocado para que seu primeiro downbeat caia num tempo forte da atual; o andamento de nenhuma das duas é alterado, então faixas com BPMs diferentes se desalinham ao longo do fade.
             </div>
           </div>
         </section>
@@ -77,10 +77,10 @@ export default function ArchitectureDoc() {
             <pre>{`// Pseudocode: Bit-Perfect Output
 void processAudio(float* buffer, int frames) {
   for (int i = 0; i < frames; i++) {
-    // 1. IA Upsampling (if enabled)
-    float sample = ai_upsampler.process(buffer[i]);
+    // 1. Sinc resampling (done once, when the track is decoded)
+    float sample = resampled[i];
     
-    // 2. 15-Band Parametric EQ
+    // 2. Parametric EQ (per-band type, frequency, Q, gain)
     sample = eq_engine.apply(sample);
     
     // 3. Direct Hardware Write
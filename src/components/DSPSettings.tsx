@@ -1,21 +1,65 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'motion/react';
-import { Zap, Sparkles, Timer, Activity, BrainCircuit, Waves } from 'lucide-react';
+import { Zap, Timer, Activity, AudioWaveform, Waves, Gauge, ShieldAlert } from 'lucide-react';
+import { FadeCurve, FADE_CURVES } from '../utils/crossfade';
+import { NormalizationSettings, NORMALIZATION_MODES } from '../utils/normalization';
+import { LimiterSettings } from '../utils/limiter';
+import { kernelLatency } from '../utils/linearPhase';
+import { DspTelemetry, formatSampleRate, formatChannels } from '../utils/telemetry';
+import { ResamplerQuality, ResamplerMeasurement, RESAMPLER_QUALITIES, OUTPUT_RATES, measureResampler } from '../utils/resampler';
 
 interface DSPSettingsProps {
   accentColor: string;
-  settings: {
-    aiUpsampling: boolean;
-    upsamplingLevel: number;
+  settings: NormalizationSettings & LimiterSettings & {
+    resampler: ResamplerQuality;
+    /** AudioContext rate in Hz; 0 keeps the device default. */
+    outputRate: number;
     smartCrossfade: boolean;
     crossfadeDuration: number;
+    crossfadeCurve: FadeCurve;
     phaseCorrection: boolean;
   };
   setSettings: (s: any) => void;
+  upNext?: { title: string; bpm?: number };
+  /** Normalization gain applied to the current track, in dB. */
+  appliedGain?: number;
+  /** Output sample rate, once the audio context exists. */
+  sampleRate?: number;
+  /** Reads live source/output figures; null until the audio context exists. */
+  getTelemetry?: () => DspTelemetry | null;
 }
 
-export default function DSPSettings({ accentColor, settings, setSettings }: DSPSettingsProps) {
-  const { aiUpsampling, upsamplingLevel, smartCrossfade, crossfadeDuration, phaseCorrection } = settings;
+const TELEMETRY_INTERVAL_MS = 1000;
+
+export default function DSPSettings({ accentColor, settings, setSettings, upNext, appliedGain, sampleRate, getTelemetry }: DSPSettingsProps) {
+  const { resampler, outputRate, smartCrossfade, crossfadeDuration, crossfadeCurve, phaseCorrection } = settings;
+  const { normalizationMode, targetLufs, preamp, preventClipping } = settings;
+  const { limiterEnabled, limiterThreshold, limiterCeiling, limiterRelease } = settings;
+
+  const [telemetry, setTelemetry] = useState<DspTelemetry | null>(null);
+  const getTelemetryRef = useRef(getTelemetry);
+  getTelemetryRef.current = getTelemetry;
+
+  useEffect(() => {
+    const poll = () => setTelemetry(getTelemetryRef.current?.() || null);
+    poll();
+    const timer = setInterval(poll, TELEMETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Measure the selected filter for the rate pair the current track actually needs
+  const [measurement, setMeasurement] = useState<ResamplerMeasurement | null>(null);
+  const conversionFrom = telemetry?.resampling ? telemetry.source?.sampleRate : undefined;
+  const conversionTo = telemetry?.outputRate;
+  useEffect(() => {
+    setMeasurement(null);
+    if (resampler === 'bypass' || !conversionFrom || !conversionTo) return;
+    let cancelled = false;
+    measureResampler(resampler, conversionFrom, conversionTo)
+      .then(result => { if (!cancelled) setMeasurement(result); })
+      .catch(err => console.warn('Failed to measure resampler:', err));
+    return () => { cancelled = true; };
+  }, [resampler, conversionFrom, conversionTo]);
 
   const updateSetting = (key: string, value: any) => {
     setSettings({ ...settings, [key]: value });
@@ -25,60 +69,67 @@ export default function DSPSettings({ accentColor, settings, setSettings }: DSPS
     <div className="flex flex-col h-full px-6 pt-4 pb-8 overflow-y-auto no-scrollbar">
       <div className="mb-8">
         <h2 className="text-2xl font-display font-bold tracking-tight">Elite DSP Engine</h2>
-        <p className="micro-label text-[9px] mt-1 text-accent">Neural Audio Processing Active</p>
+        <p className="micro-label text-[9px] mt-1 text-accent">Local processing · no network</p>
       </div>
 
       <div className="space-y-6">
-        {/* AI Upsampling Section */}
+        {/* Resampler Section */}
         <section className="p-6 rounded-[32px] glass-card border border-white/5 relative overflow-hidden">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-3">
-              <div className={`p-2.5 rounded-2xl ${aiUpsampling ? 'bg-accent/20 text-accent shadow-[0_0_15px_rgba(0,212,255,0.3)]' : 'bg-white/5 text-white/20'}`}>
-                <BrainCircuit size={20} />
-              </div>
-              <div>
-                <h3 className="text-sm font-display font-bold tracking-tight">AI Neural Upsampling</h3>
-                <p className="text-[10px] text-white/30 font-medium">Neural reconstruction of lost harmonics</p>
-              </div>
+          <div className="flex items-center space-x-3 mb-4">
+            <div className={`p-2.5 rounded-2xl ${resampler !== 'bypass' ? 'bg-accent/20 text-accent shadow-[0_0_15px_rgba(0,212,255,0.3)]' : 'bg-white/5 text-white/20'}`}>
+              <AudioWaveform size={20} />
+            </div>
+            <div>
+              <h3 className="text-sm font-display font-bold tracking-tight">Sample Rate Conversion</h3>
+              <p className="text-[10px] text-white/30 font-medium">Windowed-sinc, offline at decode time</p>
             </div>
-            <button
-              onClick={() => updateSetting('aiUpsampling', !aiUpsampling)}
-              className={`w-12 h-6 rounded-full relative transition-colors ${aiUpsampling ? 'bg-accent' : 'bg-white/10'}`}
-            >
-              <motion.div
-                animate={{ x: aiUpsampling ? 26 : 2 }}
-                className="absolute top-1 left-0 w-4 h-4 bg-white rounded-full shadow-sm"
-              />
-            </button>
           </div>
 
-          {aiUpsampling && (
-            <motion.div
-              initial={{ opacity: 0, height: 0 }}
-              animate={{ opacity: 1, height: 'auto' }}
-              className="space-y-4 pt-2"
-            >
-              <div className="flex justify-between items-center">
-                <span className="micro-label">Reconstruction Level</span>
-                <span className="timecode text-accent font-bold">{upsamplingLevel}x HD</span>
-              </div>
-              <div className="flex space-x-2">
-                {[2, 4, 8].map(level => (
-                  <button
-                    key={level}
-                    onClick={() => updateSetting('upsamplingLevel', level)}
-                    className={`flex-1 py-2.5 rounded-xl text-[10px] font-mono font-bold transition-all ${upsamplingLevel === level ? 'bg-white/10 text-white border border-white/20 shadow-lg' : 'bg-white/5 text-white/20 border border-transparent'}`}
-                  >
-                    {level}X
-                  </button>
-                ))}
-              </div>
-              <div className="flex items-center space-x-2 text-[9px] text-accent/60 bg-accent/5 p-2.5 rounded-xl">
-                <Sparkles size={12} />
-                <span>AI model optimized for local NPU execution</span>
-              </div>
-            </motion.div>
-          )}
+          <div className="space-y-4">
+            <span className="micro-label block">Output Rate</span>
+            <div className="grid grid-cols-4 gap-2">
+              {OUTPUT_RATES.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => updateSetting('outputRate', rate)}
+                  className={`py-2 rounded-xl text-[9px] font-mono font-bold transition-all ${outputRate === rate ? 'bg-white/10 text-white border border-white/20 shadow-lg' : 'bg-white/5 text-white/20 border border-transparent'}`}
+                >
+                  {rate ? `${rate / 1000}k` : 'Device'}
+                </button>
+              ))}
+            </div>
+
+            <span className="micro-label block">Filter</span>
+            <div className="grid grid-cols-1 gap-2">
+              {RESAMPLER_QUALITIES.map(quality => (
+                <button
+                  key={quality.id}
+                  onClick={() => updateSetting('resampler', quality.id)}
+                  className={`flex items-center justify-between py-2.5 px-3 rounded-xl text-left transition-all ${resampler === quality.id ? 'bg-white/10 border border-white/20' : 'bg-white/5 border border-transparent'}`}
+                >
+                  <span className={`text-[10px] font-bold ${resampler === quality.id ? 'text-white' : 'text-white/40'}`}>{quality.label}</span>
+                  <span className="text-[9px] font-mono text-white/30">{quality.description}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="text-[9px] text-accent/60 bg-accent/5 p-2.5 rounded-xl">
+              {!telemetry?.source ? (
+                <span>Load a track to see its conversion path.</span>
+              ) : !telemetry.resampling ? (
+                <span>Source already at {formatSampleRate(telemetry.outputRate)} · no conversion, samples pass through untouched</span>
+              ) : resampler === 'bypass' ? (
+                <span>Browser resampler: {formatSampleRate(telemetry.source.sampleRate)} → {formatSampleRate(telemetry.outputRate)} (implementation-defined, not measured)</span>
+              ) : measurement ? (
+                <span>
+                  {formatSampleRate(telemetry.source.sampleRate)} → {formatSampleRate(telemetry.outputRate)} · {measurement.taps} taps · {measurement.phase} phase ·
+                  {' '}flat to {(measurement.passband / 1000).toFixed(1)} kHz · −3 dB at {(measurement.cutoff / 1000).toFixed(1)} kHz · stopband {measurement.stopband.toFixed(0)} dB
+                </span>
+              ) : (
+                <span>Measuring filter…</span>
+              )}
+            </div>
+          </div>
         </section>
 
         {/* Smart Crossfade Section */}
@@ -89,8 +140,8 @@ export default function DSPSettings({ accentColor, settings, setSettings }: DSPS
                 <Waves size={20} />
               </div>
               <div>
-                <h3 className="text-sm font-display font-bold tracking-tight">BPM-Sync Crossfade</h3>
-                <p className="text-[10px] text-white/30 font-medium">Intelligent transition based on tempo</p>
+                <h3 className="text-sm font-display font-bold tracking-tight">Beat-Aligned Crossfade</h3>
+                <p className="text-[10px] text-white/30 font-medium">Starts the next track on a downbeat; tempo is not matched</p>
               </div>
             </div>
             <button
@@ -123,14 +174,113 @@ export default function DSPSettings({ accentColor, settings, setSettings }: DSPS
                 onChange={(e) => updateSetting('crossfadeDuration', parseFloat(e.target.value))}
                 className="w-full accent-blue-500"
               />
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Fade Curve</span>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {FADE_CURVES.map(curve => (
+                  <button
+                    key={curve.id}
+                    onClick={() => updateSetting('crossfadeCurve', curve.id)}
+                    className={`py-2.5 rounded-xl text-[9px] font-mono font-bold transition-all ${crossfadeCurve === curve.id ? 'bg-white/10 text-white border border-white/20 shadow-lg' : 'bg-white/5 text-white/20 border border-transparent'}`}
+                  >
+                    {curve.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] text-white/30">Consecutive tracks of the same album always play gapless.</p>
               <div className="flex items-center space-x-2 text-[9px] text-blue-400/60 bg-blue-400/5 p-2.5 rounded-xl">
                 <Timer size={12} />
-                <span>Analyzing BPM of next track: 124 BPM</span>
+                <span className="truncate">
+                  {!upNext
+                    ? 'No upcoming track'
+                    : upNext.bpm
+                      ? `Next: ${upNext.title} · ${upNext.bpm} BPM`
+                      : 'Analyzing BPM of next track…'}
+                </span>
               </div>
             </motion.div>
           )}
         </section>
 
+        {/* Loudness Normalization Section */}
+        <section className="p-6 rounded-[32px] glass-card border border-white/5">
+          <div className="flex items-center space-x-3 mb-4">
+            <div className={`p-2.5 rounded-2xl ${normalizationMode !== 'off' ? 'bg-emerald-500/20 text-emerald-400 shadow-[0_0_15px_rgba(16,185,129,0.3)]' : 'bg-white/5 text-white/20'}`}>
+              <Gauge size={20} />
+            </div>
+            <div>
+              <h3 className="text-sm font-display font-bold tracking-tight">Loudness Normalization</h3>
+              <p className="text-[10px] text-white/30 font-medium">ReplayGain tags or measured EBU R128</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {NORMALIZATION_MODES.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => updateSetting('normalizationMode', mode.id)}
+                className={`py-2.5 rounded-xl text-[10px] font-mono font-bold transition-all ${normalizationMode === mode.id ? 'bg-white/10 text-white border border-white/20 shadow-lg' : 'bg-white/5 text-white/20 border border-transparent'}`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+
+          {normalizationMode !== 'off' && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              className="space-y-4 pt-4"
+            >
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Target</span>
+                <span className="timecode text-emerald-400 font-bold">{targetLufs} LUFS</span>
+              </div>
+              <input
+                type="range"
+                min="-23"
+                max="-8"
+                step="1"
+                value={targetLufs}
+                onChange={(e) => updateSetting('targetLufs', parseFloat(e.target.value))}
+                className="w-full accent-emerald-500"
+              />
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Preamp</span>
+                <span className="timecode text-emerald-400 font-bold">{preamp > 0 ? '+' : ''}{preamp.toFixed(1)} dB</span>
+              </div>
+              <input
+                type="range"
+                min="-12"
+                max="12"
+                step="0.5"
+                value={preamp}
+                onChange={(e) => updateSetting('preamp', parseFloat(e.target.value))}
+                className="w-full accent-emerald-500"
+              />
+              <div className="flex items-center justify-between">
+                <span className="micro-label">Prevent Clipping (True Peak)</span>
+                <button
+                  onClick={() => updateSetting('preventClipping', !preventClipping)}
+                  className={`w-12 h-6 rounded-full relative transition-colors ${preventClipping ? 'bg-emerald-500' : 'bg-white/10'}`}
+                >
+                  <motion.div
+                    animate={{ x: preventClipping ? 26 : 2 }}
+                    className="absolute top-1 left-0 w-4 h-4 bg-white rounded-full shadow-sm"
+                  />
+                </button>
+              </div>
+              {appliedGain !== undefined && (
+                <div className="flex items-center space-x-2 text-[9px] text-emerald-400/60 bg-emerald-400/5 p-2.5 rounded-xl">
+                  <Gauge size={12} />
+                  <span>Current track gain: {appliedGain > 0 ? '+' : ''}{appliedGain.toFixed(2)} dB</span>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </section>
+
         {/* Phase Correction Section */}
         <section className="p-6 rounded-[32px] glass-card border border-white/5">
           <div className="flex items-center justify-between">
@@ -140,7 +290,9 @@ export default function DSPSettings({ accentColor, settings, setSettings }: DSPS
               </div>
               <div>
                 <h3 className="text-sm font-display font-bold tracking-tight">Phase Correction</h3>
-                <p className="text-[10px] text-white/30 font-medium">Linear phase alignment for Hi-Res</p>
+                <p className="text-[10px] text-white/30 font-medium">
+                  Linear-phase FIR EQ · +{Math.round(kernelLatency(sampleRate || 48000) * 1000)} ms latency
+                </p>
               </div>
             </div>
             <button
@@ -155,19 +307,134 @@ export default function DSPSettings({ accentColor, settings, setSettings }: DSPS
           </div>
         </section>
 
+        {/* Limiter Section */}
+        <section className="p-6 rounded-[32px] glass-card border border-white/5">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-3">
+              <div className={`p-2.5 rounded-2xl ${limiterEnabled ? 'bg-orange-500/20 text-orange-400 shadow-[0_0_15px_rgba(249,115,22,0.3)]' : 'bg-white/5 text-white/20'}`}>
+                <ShieldAlert size={20} />
+              </div>
+              <div>
+                <h3 className="text-sm font-display font-bold tracking-tight">Limiter</h3>
+                <p className="text-[10px] text-white/30 font-medium">{limiterEnabled ? 'Lookahead brickwall' : 'Bypassed · bit-transparent output'}</p>
+              </div>
+            </div>
+            <button
+              onClick={() => updateSetting('limiterEnabled', !limiterEnabled)}
+              className={`w-12 h-6 rounded-full relative transition-colors ${limiterEnabled ? 'bg-orange-500' : 'bg-white/10'}`}
+            >
+              <motion.div
+                animate={{ x: limiterEnabled ? 26 : 2 }}
+                className="absolute top-1 left-0 w-4 h-4 bg-white rounded-full shadow-sm"
+              />
+            </button>
+          </div>
+
+          {limiterEnabled && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              className="space-y-4 pt-4"
+            >
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Threshold</span>
+                <span className="timecode text-orange-400 font-bold">{limiterThreshold.toFixed(1)} dB</span>
+              </div>
+              <input
+                type="range"
+                min="-24"
+                max="0"
+                step="0.1"
+                value={limiterThreshold}
+                onChange={(e) => updateSetting('limiterThreshold', parseFloat(e.target.value))}
+                className="w-full accent-orange-500"
+              />
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Ceiling</span>
+                <span className="timecode text-orange-400 font-bold">{limiterCeiling.toFixed(1)} dB</span>
+              </div>
+              <input
+                type="range"
+                min="-12"
+                max="0"
+                step="0.1"
+                value={limiterCeiling}
+                onChange={(e) => updateSetting('limiterCeiling', parseFloat(e.target.value))}
+                className="w-full accent-orange-500"
+              />
+              <div className="flex justify-between items-center">
+                <span className="micro-label">Release</span>
+                <span className="timecode text-orange-400 font-bold">{limiterRelease} ms</span>
+              </div>
+              <input
+                type="range"
+                min="10"
+                max="1000"
+                step="10"
+                value={limiterRelease}
+                onChange={(e) => updateSetting('limiterRelease', parseFloat(e.target.value))}
+                className="w-full accent-orange-500"
+              />
+              <p className="text-[9px] text-white/30">
+                Peaks above the threshold are held at the ceiling; quieter material gets {(limiterCeiling - limiterThreshold).toFixed(1)} dB of gain.
+              </p>
+            </motion.div>
+          )}
+        </section>
+
         {/* Real-time Stats */}
-        <div className="mt-4 p-5 rounded-[32px] glass-card border border-white/5 flex items-center justify-between">
+        <div className="mt-4 p-5 rounded-[32px] glass-card border border-white/5 space-y-4">
           <div className="flex items-center space-x-3">
             <Activity size={16} className="text-accent" />
-            <div>
-              <p className="micro-label text-[8px] opacity-40">DSP Load</p>
-              <p className="timecode text-[10px] font-bold">12.4% @ 384kHz</p>
-            </div>
-          </div>
-          <div className="text-right">
-            <p className="micro-label text-[8px] opacity-40">Latency</p>
-            <p className="timecode text-[10px] text-accent font-bold">0.8ms</p>
+            <h3 className="text-sm font-display font-bold tracking-tight">Signal Path</h3>
           </div>
+          {telemetry ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="micro-label text-[8px] opacity-40">Source</p>
+                {telemetry.source ? (
+                  <p className="timecode text-[10px] font-bold">
+                    {telemetry.source.codec} · {formatSampleRate(telemetry.source.sampleRate)}
+                    {telemetry.source.bitDepth ? ` · ${telemetry.source.bitDepth}-bit${telemetry.source.float ? ' float' : ''}` : ''}
+                    {' · '}{formatChannels(telemetry.source.channels)}
+                  </p>
+                ) : (
+                  <p className="timecode text-[10px] text-white/30">Unknown</p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="micro-label text-[8px] opacity-40">Output</p>
+                <p className="timecode text-[10px] font-bold">{formatSampleRate(telemetry.outputRate)} · 32-bit float</p>
+              </div>
+              <div>
+                <p className="micro-label text-[8px] opacity-40">Resampling</p>
+                <p className={`timecode text-[10px] font-bold ${telemetry.resampling ? 'text-orange-400' : 'text-emerald-400'}`}>
+                  {telemetry.conversion
+                    ? `${formatSampleRate(telemetry.conversion.from)} → ${formatSampleRate(telemetry.conversion.to)} · ${telemetry.conversion.resampler === 'bypass' ? 'Browser' : RESAMPLER_QUALITIES.find(q => q.id === telemetry.conversion!.resampler)?.label}`
+                    : telemetry.resampling && telemetry.source
+                      ? `${formatSampleRate(telemetry.source.sampleRate)} → ${formatSampleRate(telemetry.outputRate)}`
+                      : telemetry.source ? 'Native rate' : '—'}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="micro-label text-[8px] opacity-40">Worklet Load</p>
+                <p className="timecode text-[10px] font-bold">
+                  {telemetry.renderLoad === null ? 'Native nodes only' : `${(telemetry.renderLoad * 100).toFixed(1)}%`}
+                </p>
+              </div>
+              <div className="col-span-2">
+                <p className="micro-label text-[8px] opacity-40">Latency</p>
+                <p className="timecode text-[10px] text-accent font-bold">
+                  {((telemetry.baseLatency + telemetry.outputLatency + telemetry.processingLatency) * 1000).toFixed(1)} ms
+                  <span className="text-white/30 font-normal">
+                    {' '}= {(telemetry.baseLatency * 1000).toFixed(1)} base + {(telemetry.outputLatency * 1000).toFixed(1)} output + {(telemetry.processingLatency * 1000).toFixed(1)} DSP
+                  </span>
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-[10px] text-white/30">Play a track to start the audio engine.</p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, SlidersHorizontal, Check } from 'lucide-react';
+import { EqPreset, BUILT_IN_PRESETS } from '../utils/eqPresets';
+import { EqBindings, BindingScope, BoundTrack, bindingKey } from '../utils/eqBindings';
+import { getAllEqPresets } from '../utils/db';
+
+type TrackScope = Exclude<BindingScope, 'device'>;
+
+const SCOPES: { id: TrackScope; label: string }[] = [
+  { id: 'track', label: 'Faixa' },
+  { id: 'album', label: 'Álbum' },
+  { id: 'folder', label: 'Pasta' },
+];
+
+interface EqBindingSheetProps {
+  track: (BoundTrack & { title: string }) | null;
+  bindings: EqBindings;
+  onBind: (scope: BindingScope, key: string, presetId: string | null) => void;
+  onClose: () => void;
+}
+
+export default function EqBindingSheet({ track, bindings, onBind, onClose }: EqBindingSheetProps) {
+  const [presets, setPresets] = useState<EqPreset[]>(BUILT_IN_PRESETS);
+  const [scope, setScope] = useState<TrackScope>('track');
+
+  useEffect(() => {
+    if (!track) return;
+    getAllEqPresets()
+      .then(stored => setPresets([...stored.sort((a, b) => a.name.localeCompare(b.name)), ...BUILT_IN_PRESETS]))
+      .catch(err => console.error('Failed to load EQ presets:', err));
+    setScope('track');
+  }, [track]);
+
+  const key = track ? bindingKey(track, scope) : null;
+  const boundId = key ? bindings[scope][key] : undefined;
+
+  return (
+    <AnimatePresence>
+      {track && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-sm max-h-[80vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-lg font-display font-bold text-white flex items-center">
+                <SlidersHorizontal size={20} className="mr-2 text-accent" />
+                Perfil de EQ
+              </h3>
+              <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+            <p className="text-[10px] text-white/40 mb-4 truncate">{track.title}</p>
+
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              {SCOPES.map(s => {
+                const available = !!bindingKey(track, s.id);
+                return (
+                  <button
+                    key={s.id}
+                    disabled={!available}
+                    onClick={() => setScope(s.id)}
+                    className={`py-2 rounded-xl text-[10px] uppercase tracking-widest font-bold transition-all disabled:opacity-20 ${scope === s.id ? 'bg-accent text-black' : 'bg-white/5 text-white/40'}`}
+                  >
+                    {s.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-1">
+              <button
+                disabled={!key}
+                onClick={() => key && onBind(scope, key, null)}
+                className="w-full flex items-center justify-between px-4 py-3 rounded-xl hover:bg-white/5 text-sm text-white/60 transition-colors"
+              >
+                <span>Nenhum (usar EQ atual)</span>
+                {!boundId && <Check size={14} className="text-accent" />}
+              </button>
+              {presets.map(preset => (
+                <button
+                  key={preset.id}
+                  disabled={!key}
+                  onClick={() => key && onBind(scope, key, preset.id)}
+                  className="w-full flex items-center justify-between px-4 py-3 rounded-xl hover:bg-white/5 text-sm text-white/80 transition-colors"
+                >
+                  <span className="truncate">{preset.name}</span>
+                  {boundId === preset.id && <Check size={14} className="text-accent" />}
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
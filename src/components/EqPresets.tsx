@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, Save, Upload, Download, Copy, Pencil, Trash2, Check } from 'lucide-react';
+import { EqBand } from '../utils/eq';
+import {
+  EqPreset,
+  EqPresetFormat,
+  BUILT_IN_PRESETS,
+  createPresetId,
+  sameBands,
+  importPresetFile,
+  exportPreset
+} from '../utils/eqPresets';
+import { getAllEqPresets, saveEqPreset, deleteEqPreset } from '../utils/db';
+import { downloadBlob, safeFileName } from '../utils/download';
+
+interface EqPresetsProps {
+  open: boolean;
+  onClose: () => void;
+  bands: EqBand[];
+  preamp: number;
+  activePresetId: string | null;
+  onApply: (preset: EqPreset) => void;
+}
+
+export default function EqPresets({
+  open,
+  onClose,
+  bands,
+  preamp,
+  activePresetId,
+  onApply
+}: EqPresetsProps) {
+  const [userPresets, setUserPresets] = useState<EqPreset[]>([]);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => getAllEqPresets()
+    .then(presets => setUserPresets(presets.sort((a, b) => a.name.localeCompare(b.name))))
+    .catch(err => console.error('Failed to load EQ presets:', err));
+
+  useEffect(() => {
+    if (open) {
+      refresh();
+      setError(null);
+    }
+  }, [open]);
+
+  const active = [...BUILT_IN_PRESETS, ...userPresets].find(p => p.id === activePresetId);
+  const modified = !active || !sameBands(active.bands, bands) || active.preamp !== preamp;
+
+  const store = async (preset: EqPreset) => {
+    await saveEqPreset(preset);
+    await refresh();
+  };
+
+  const saveAsNew = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const preset: EqPreset = { id: createPresetId(), name, preamp, bands };
+    await store(preset);
+    onApply(preset);
+    setNewName('');
+  };
+
+  const overwriteActive = async () => {
+    if (!active || active.builtIn) return;
+    const preset = { ...active, preamp, bands };
+    await store(preset);
+    onApply(preset);
+  };
+
+  const duplicate = async (preset: EqPreset) => {
+    await store({ id: createPresetId(), name: `${preset.name} (copy)`, preamp: preset.preamp, bands: preset.bands });
+  };
+
+  const rename = async (preset: EqPreset) => {
+    const name = renameValue.trim();
+    if (name && name !== preset.name) await store({ ...preset, name });
+    setRenamingId(null);
+  };
+
+  const remove = async (preset: EqPreset) => {
+    if (!confirm(`Delete preset "${preset.name}"?`)) return;
+    await deleteEqPreset(preset.id);
+    await refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    setError(null);
+    for (const file of files) {
+      try {
+        const preset = await importPresetFile(file);
+        await store(preset);
+        onApply(preset);
+      } catch (err: any) {
+        setError(`${file.name}: ${err?.message || err}`);
+      }
+    }
+  };
+
+  const handleExport = (preset: EqPreset, format: EqPresetFormat) => {
+    const { blob, fileName } = exportPreset(preset, format);
+    downloadBlob(blob, safeFileName(fileName));
+    setExportingId(null);
+  };
+
+  const renderPreset = (preset: EqPreset) => {
+    const isActive = preset.id === activePresetId;
+    return (
+      <div
+        key={preset.id}
+        className={`p-3 rounded-2xl border transition-all ${isActive ? 'bg-white/10 border-white/20' : 'bg-white/5 border-transparent'}`}
+      >
+        <div className="flex items-center justify-between">
+          {renamingId === preset.id ? (
+            <input
+              autoFocus
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') rename(preset);
+                else if (e.key === 'Escape') setRenamingId(null);
+              }}
+              onBlur={() => rename(preset)}
+              className="flex-1 mr-2 bg-white/5 border border-white/10 rounded-lg py-1 px-2 text-xs text-white focus:outline-none focus:border-accent/50"
+            />
+          ) : (
+            <button onClick={() => onApply(preset)} className="flex-1 text-left min-w-0">
+              <span className="text-xs font-display font-bold truncate block">{preset.name}</span>
+              <span className="micro-label text-[7px]">
+                {preset.builtIn ? 'Built-in' : 'Custom'} · {preset.bands.length} bands · {preset.preamp.toFixed(1)} dB
+                {isActive && modified ? ' · Modified' : ''}
+              </span>
+            </button>
+          )}
+          <div className="flex items-center space-x-1 text-white/40">
+            {!preset.builtIn && (
+              <button
+                onClick={() => { setRenamingId(preset.id); setRenameValue(preset.name); }}
+                className="p-1.5 rounded-full hover:text-white transition-colors"
+                aria-label="Rename"
+              >
+                <Pencil size={12} />
+              </button>
+            )}
+            <button onClick={() => duplicate(preset)} className="p-1.5 rounded-full hover:text-white transition-colors" aria-label="Duplicate">
+              <Copy size={12} />
+            </button>
+            <button
+              onClick={() => setExportingId(exportingId === preset.id ? null : preset.id)}
+              className="p-1.5 rounded-full hover:text-white transition-colors"
+              aria-label="Export"
+            >
+              <Download size={12} />
+            </button>
+            {!preset.builtIn && (
+              <button onClick={() => remove(preset)} className="p-1.5 rounded-full hover:text-red-400 transition-colors" aria-label="Delete">
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        </div>
+        {exportingId === preset.id && (
+          <div className="flex space-x-2 mt-2">
+            <button
+              onClick={() => handleExport(preset, 'apo')}
+              className="flex-1 py-1.5 rounded-lg bg-white/5 text-[9px] font-mono font-bold text-white/60 hover:text-white"
+            >
+              ParametricEQ.txt
+            </button>
+            <button
+              onClick={() => handleExport(preset, 'json')}
+              className="flex-1 py-1.5 rounded-lg bg-white/5 text-[9px] font-mono font-bold text-white/60 hover:text-white"
+            >
+              JSON
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] flex items-end justify-center bg-black/60 backdrop-blur-sm"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md max-h-[80vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-t-3xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-display font-bold">EQ Presets</h3>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors"
+                  aria-label="Import preset"
+                >
+                  <Upload size={16} />
+                </button>
+                <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors">
+                  <X size={16} />
+                </button>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.json,text/plain,application/json"
+                multiple
+                className="hidden"
+                onChange={handleImport}
+              />
+            </div>
+
+            {/* Save current curve */}
+            <div className="flex items-center space-x-2 mb-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') saveAsNew(); }}
+                placeholder="Save current curve as…"
+                className="flex-1 bg-white/5 border border-white/10 rounded-xl py-2.5 px-3 text-xs text-white focus:outline-none focus:border-accent/50 transition-colors"
+              />
+              <button
+                onClick={saveAsNew}
+                disabled={!newName.trim()}
+                className="p-2.5 rounded-xl bg-accent text-black disabled:opacity-30 transition-opacity"
+                aria-label="Save as new preset"
+              >
+                <Save size={14} />
+              </button>
+            </div>
+            {active && !active.builtIn && modified && (
+              <button
+                onClick={overwriteActive}
+                className="flex items-center justify-center space-x-2 py-2 mb-2 rounded-xl bg-white/5 text-[10px] font-bold text-white/60 hover:text-white transition-colors"
+              >
+                <Check size={12} />
+                <span>Update "{active.name}"</span>
+              </button>
+            )}
+            {error && (
+              <p className="text-[10px] text-red-400 bg-red-400/10 rounded-xl p-2.5 mb-2">{error}</p>
+            )}
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-2 pt-2">
+              {userPresets.length > 0 && <span className="micro-label block">My Presets</span>}
+              {userPresets.map(renderPreset)}
+              <span className="micro-label block pt-2">Built-in</span>
+              {BUILT_IN_PRESETS.map(renderPreset)}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
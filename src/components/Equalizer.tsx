@@ -1,28 +1,114 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'motion/react';
-import { RotateCcw, Save, Activity } from 'lucide-react';
+import { RotateCcw, Save, Activity, Plus, Trash2, Headphones, Link2 } from 'lucide-react';
+import {
+  EqBand,
+  EQ_FILTER_TYPES,
+  MIN_FREQUENCY,
+  MAX_FREQUENCY,
+  MAX_GAIN,
+  MAX_BANDS,
+  createBand,
+  defaultBands,
+  suggestFrequency,
+  usesGain,
+  usesQ,
+  logFrequencies,
+  eqResponse,
+  formatFrequency
+} from '../utils/eq';
+import { EqPreset } from '../utils/eqPresets';
+import { BindingScope } from '../utils/eqBindings';
+import { OutputDevice } from '../utils/outputDevices';
+import EqPresets from './EqPresets';
 
 interface EqualizerProps {
   accentColor: string;
-  eqGains: number[];
-  setEqGains: (gains: number[]) => void;
-  qFactor: number;
-  setQFactor: (q: number) => void;
+  bands: EqBand[];
+  setBands: (bands: EqBand[]) => void;
+  preamp: number;
+  setPreamp: (db: number) => void;
+  activePreset: { id: string; name: string } | null;
+  onApplyPreset: (preset: EqPreset) => void;
+  /** Scope of the binding currently driving the curve, if any. */
+  binding: BindingScope | null;
+  outputDevices: OutputDevice[];
+  outputDeviceId: string;
+  canSelectOutput: boolean;
+  onSelectOutputDevice: (deviceId: string) => void;
+  devicePresetId: string | null;
+  onBindDevice: (presetId: string | null) => void;
+  linearPhase: boolean;
 }
 
+const BINDING_LABELS: Record<BindingScope, string> = {
+  track: 'Pinned to this track',
+  album: 'Pinned to this album',
+  folder: 'Pinned to this folder',
+  device: 'Bound to this output',
+};
+
+const CURVE_WIDTH = 300;
+const CURVE_HEIGHT = 128;
+const CURVE_POINTS = 240;
+const DB_RANGE = 16;
+
+const frequencies = logFrequencies(CURVE_POINTS);
+const logSpan = Math.log(MAX_FREQUENCY / MIN_FREQUENCY);
+
+const xForFrequency = (frequency: number) => (Math.log(frequency / MIN_FREQUENCY) / logSpan) * CURVE_WIDTH;
+const yForGain = (db: number) => {
+  const clamped = Math.max(-DB_RANGE, Math.min(DB_RANGE, db));
+  return CURVE_HEIGHT / 2 - (clamped / DB_RANGE) * (CURVE_HEIGHT / 2);
+};
+
+// Slider position (0..1000) <-> frequency on a log scale
+const sliderToFrequency = (value: number) => Math.round(MIN_FREQUENCY * Math.exp(logSpan * value / 1000));
+const frequencyToSlider = (frequency: number) => Math.round(1000 * Math.log(frequency / MIN_FREQUENCY) / logSpan);
+
 export default function Equalizer({
   accentColor,
-  eqGains,
-  setEqGains,
-  qFactor,
-  setQFactor
+  bands,
+  setBands,
+  preamp,
+  setPreamp,
+  activePreset,
+  onApplyPreset,
+  binding,
+  outputDevices,
+  outputDeviceId,
+  canSelectOutput,
+  onSelectOutputDevice,
+  devicePresetId,
+  onBindDevice,
+  linearPhase
 }: EqualizerProps) {
-  const bands = [20, 40, 63, 100, 160, 250, 400, 630, 1000, 1600, 2500, 4000, 6300, 10000, 20000];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [presetsOpen, setPresetsOpen] = useState(false);
+  const selected = bands.find(b => b.id === selectedId) || bands[0];
+
+  const response = useMemo(() => eqResponse(bands, frequencies, preamp), [bands, preamp]);
+  const curve = useMemo(
+    () => frequencies.reduce((path, frequency, i) => `${path}${i === 0 ? 'M' : ' L'} ${xForFrequency(frequency).toFixed(1)} ${yForGain(response[i]).toFixed(1)}`, ''),
+    [response]
+  );
 
-  const handleSliderChange = (index: number, val: number) => {
-    const newValues = [...eqGains];
-    newValues[index] = val;
-    setEqGains(newValues);
+  const updateBand = (id: string, changes: Partial<EqBand>) => {
+    setBands(bands.map(b => b.id === id ? { ...b, ...changes } : b));
+  };
+
+  const addBand = () => {
+    if (bands.length >= MAX_BANDS) return;
+    const band = createBand({ frequency: suggestFrequency(bands) });
+    setBands([...bands, band].sort((a, b) => a.frequency - b.frequency));
+    setSelectedId(band.id);
+  };
+
+  const removeBand = (id: string) => {
+    const index = bands.findIndex(b => b.id === id);
+    const remaining = bands.filter(b => b.id !== id);
+    setBands(remaining);
+    setSelectedId(remaining[Math.min(index, remaining.length - 1)]?.id || null);
   };
 
   return (
@@ -30,115 +116,263 @@ export default function Equalizer({
       <div className="flex items-center justify-between mb-8">
         <div>
           <h2 className="text-2xl font-display font-bold tracking-tight">Parametric EQ</h2>
-          <p className="micro-label text-[9px] mt-1 text-accent">Elite 15-Band Mastering Grade</p>
+          <button onClick={() => setPresetsOpen(true)} className="micro-label text-[9px] mt-1 text-accent">
+            {activePreset?.name || 'Custom'} · {bands.length} Bands
+          </button>
+          {binding && (
+            <span className="flex items-center space-x-1 text-[8px] text-white/30 font-mono mt-0.5">
+              <Link2 size={9} />
+              <span>{BINDING_LABELS[binding]}</span>
+            </span>
+          )}
         </div>
         <div className="flex space-x-2">
           <button
-            onClick={() => setEqGains(bands.map(() => 0))}
+            onClick={() => {
+              const flat = defaultBands();
+              setBands(flat);
+              setPreamp(0);
+              setSelectedId(flat[0].id);
+            }}
             className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors"
           >
             <RotateCcw size={16} />
           </button>
-          <button className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors">
+          <button
+            onClick={() => setPresetsOpen(true)}
+            className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors"
+          >
             <Save size={16} />
           </button>
         </div>
       </div>
 
-      {/* EQ Visualization */}
-      <div className="w-full h-32 glass-card rounded-[32px] border border-white/5 mb-8 relative overflow-hidden">
-        <svg className="w-full h-full" preserveAspectRatio="none">
+      {/* EQ Response Curve */}
+      <div className="w-full h-32 glass-card rounded-[32px] border border-white/5 mb-6 relative overflow-hidden">
+        <svg className="w-full h-full" viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} preserveAspectRatio="none">
           <defs>
             <linearGradient id="eqGradient" x1="0" y1="0" x2="0" y2="1">
               <stop offset="0%" stopColor={accentColor} stopOpacity="0.4" />
               <stop offset="100%" stopColor={accentColor} stopOpacity="0" />
             </linearGradient>
           </defs>
+          {/* Grid lines */}
+          {[1, 2, 3].map(i => (
+            <line key={i} x1="0" y1={i * 32} x2={CURVE_WIDTH} y2={i * 32} stroke="white" strokeOpacity="0.05" />
+          ))}
+          {[100, 1000, 10000].map(f => (
+            <line key={f} x1={xForFrequency(f)} y1="0" x2={xForFrequency(f)} y2={CURVE_HEIGHT} stroke="white" strokeOpacity="0.05" />
+          ))}
           <path
-            d={`M 0 64 ${eqGains.map((v, i) => `L ${(i / (eqGains.length - 1)) * 100}% ${64 - v * 4}`).join(' ')} L 100% 64 L 100% 128 L 0 128 Z`}
+            d={`${curve} L ${CURVE_WIDTH} ${CURVE_HEIGHT} L 0 ${CURVE_HEIGHT} Z`}
             fill="url(#eqGradient)"
-            className="transition-all duration-300"
           />
           <path
-            d={`M 0 64 ${eqGains.map((v, i) => `L ${(i / (eqGains.length - 1)) * 100}% ${64 - v * 4}`).join(' ')} L 100% 64`}
+            d={curve}
             fill="none"
             stroke={accentColor}
             strokeWidth="2"
-            className="transition-all duration-300 shadow-[0_0_10px_rgba(0,212,255,0.5)]"
+            vectorEffect="non-scaling-stroke"
           />
-          {/* Grid lines */}
-          {[1, 2, 3].map(i => (
-            <line key={i} x1="0" y1={i * 32} x2="100%" y2={i * 32} stroke="white" strokeOpacity="0.05" />
-          ))}
         </svg>
+        {/* Band handles, positioned in percent so they stay round */}
+        {bands.map((band, i) => (
+          <button
+            key={band.id}
+            onClick={() => setSelectedId(band.id)}
+            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border transition-all"
+            style={{
+              left: `${(xForFrequency(band.frequency) / CURVE_WIDTH) * 100}%`,
+              top: `${(yForGain(usesGain(band.type) ? band.gain : 0) / CURVE_HEIGHT) * 100}%`,
+              backgroundColor: band.id === selected?.id ? accentColor : 'rgba(255,255,255,0.2)',
+              borderColor: band.id === selected?.id ? 'white' : 'transparent',
+              boxShadow: band.id === selected?.id ? `0 0 8px ${accentColor}` : undefined
+            }}
+            aria-label={`Band ${i + 1}`}
+          />
+        ))}
       </div>
 
-      {/* EQ Sliders */}
-      <div className="flex-1 flex justify-between items-end pb-4 overflow-x-auto no-scrollbar min-h-[250px]">
-        {bands.map((freq, i) => (
-          <div key={freq} className="flex flex-col items-center space-y-4 px-0.5">
-            <span className="micro-label text-[7px] rotate-[-90deg] h-8 flex items-center whitespace-nowrap">
-              {freq >= 1000 ? `${freq / 1000}k` : freq}Hz
-            </span>
-            <div className="relative h-40 w-5 flex justify-center">
-              <div className="absolute inset-y-0 w-[1px] bg-white/10" />
-              <input
-                type="range"
-                min="-12"
-                max="12"
-                step="0.1"
-                value={eqGains[i]}
-                onChange={(e) => handleSliderChange(i, parseFloat(e.target.value))}
-                className="eq-slider appearance-none bg-transparent cursor-pointer z-10"
-                style={{
-                  WebkitAppearance: 'slider-vertical',
-                  height: '100%',
-                  width: '100%'
-                } as any}
-              />
-              {/* Custom Thumb indicator */}
-              <div
-                className="absolute w-2.5 h-1 bg-white rounded-full pointer-events-none transition-all duration-75"
-                style={{
-                  bottom: `${((eqGains[i] + 12) / 24) * 100}%`,
-                  boxShadow: `0 0 8px ${accentColor}`
-                }}
-              />
-            </div>
-            <span className="timecode text-[7px] w-5 text-center">
-              {eqGains[i] > 0 ? '+' : ''}{eqGains[i].toFixed(1)}
+      {/* Band List */}
+      <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar pb-2 mb-4">
+        {bands.map((band, i) => (
+          <button
+            key={band.id}
+            onClick={() => setSelectedId(band.id)}
+            className={`flex-shrink-0 px-3 py-2 rounded-xl text-left transition-all ${band.id === selected?.id ? 'bg-white/10 border border-white/20' : 'bg-white/5 border border-transparent'}`}
+          >
+            <span className="micro-label text-[7px] block">{i + 1} · {EQ_FILTER_TYPES.find(t => t.id === band.type)?.label}</span>
+            <span className="timecode text-[9px]">
+              {formatFrequency(band.frequency)}Hz{usesGain(band.type) ? ` ${band.gain > 0 ? '+' : ''}${band.gain.toFixed(1)}` : ''}
             </span>
-          </div>
+          </button>
         ))}
+        <button
+          onClick={addBand}
+          disabled={bands.length >= MAX_BANDS}
+          className="flex-shrink-0 p-3 rounded-xl bg-white/5 text-white/50 hover:text-white disabled:opacity-20 transition-colors"
+          aria-label="Add band"
+        >
+          <Plus size={14} />
+        </button>
       </div>
 
-      {/* Q-Factor Control */}
-      <div className="mt-8 p-5 rounded-[32px] glass-card border border-white/5">
-        <div className="flex justify-between items-center mb-4">
-          <div className="flex items-center space-x-2">
-            <span className="micro-label">Q-Factor</span>
-            <span className="text-[8px] text-white/20 font-mono">(Resonance)</span>
+      {/* Band Editor */}
+      {selected ? (
+        <motion.div
+          key={selected.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-5 rounded-[32px] glass-card border border-white/5 space-y-5"
+        >
+          <div className="flex items-center justify-between">
+            <span className="micro-label">Band {bands.indexOf(selected) + 1}</span>
+            <button
+              onClick={() => removeBand(selected.id)}
+              className="p-2 rounded-full bg-white/5 text-white/40 hover:text-red-400 transition-colors"
+              aria-label="Remove band"
+            >
+              <Trash2 size={14} />
+            </button>
           </div>
-          <span className="timecode text-xs text-accent font-bold">{qFactor.toFixed(2)}</span>
+
+          <div className="grid grid-cols-4 gap-2">
+            {EQ_FILTER_TYPES.map(type => (
+              <button
+                key={type.id}
+                onClick={() => updateBand(selected.id, { type: type.id })}
+                className={`py-2 rounded-xl text-[9px] font-mono font-bold transition-all ${selected.type === type.id ? 'bg-white/10 text-white border border-white/20 shadow-lg' : 'bg-white/5 text-white/20 border border-transparent'}`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="micro-label">Frequency</span>
+              <span className="timecode text-xs text-accent font-bold">{formatFrequency(selected.frequency)}Hz</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1000"
+              step="1"
+              value={frequencyToSlider(selected.frequency)}
+              onChange={(e) => updateBand(selected.id, { frequency: sliderToFrequency(parseInt(e.target.value, 10)) })}
+              className="w-full accent-accent"
+            />
+          </div>
+
+          <div className={usesGain(selected.type) ? '' : 'opacity-30 pointer-events-none'}>
+            <div className="flex justify-between items-center mb-2">
+              <span className="micro-label">Gain</span>
+              <span className="timecode text-xs text-accent font-bold">{selected.gain > 0 ? '+' : ''}{selected.gain.toFixed(1)} dB</span>
+            </div>
+            <input
+              type="range"
+              min={-MAX_GAIN}
+              max={MAX_GAIN}
+              step="0.1"
+              value={selected.gain}
+              onChange={(e) => updateBand(selected.id, { gain: parseFloat(e.target.value) })}
+              className="w-full accent-accent"
+            />
+          </div>
+
+          <div className={usesQ(selected.type) ? '' : 'opacity-30 pointer-events-none'}>
+            <div className="flex justify-between items-center mb-2">
+              <div className="flex items-center space-x-2">
+                <span className="micro-label">Q-Factor</span>
+                <span className="text-[8px] text-white/20 font-mono">(Resonance)</span>
+              </div>
+              <span className="timecode text-xs text-accent font-bold">{selected.q.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.1"
+              max="10.0"
+              step="0.01"
+              value={selected.q}
+              onChange={(e) => updateBand(selected.id, { q: parseFloat(e.target.value) })}
+              className="w-full accent-accent"
+            />
+            <div className="flex justify-between mt-2">
+              <span className="text-[8px] text-white/10 uppercase font-bold tracking-widest">Wide</span>
+              <span className="text-[8px] text-white/10 uppercase font-bold tracking-widest">Narrow</span>
+            </div>
+          </div>
+        </motion.div>
+      ) : (
+        <div className="p-5 rounded-[32px] glass-card border border-white/5 text-center">
+          <span className="micro-label">No bands · tap + to add one</span>
+        </div>
+      )}
+
+      {/* Preamp */}
+      <div className="mt-4 p-5 rounded-[32px] glass-card border border-white/5">
+        <div className="flex justify-between items-center mb-2">
+          <span className="micro-label">Preamp</span>
+          <span className="timecode text-xs text-accent font-bold">{preamp > 0 ? '+' : ''}{preamp.toFixed(1)} dB</span>
         </div>
         <input
           type="range"
-          min="0.1"
-          max="10.0"
-          step="0.01"
-          value={qFactor}
-          onChange={(e) => setQFactor(parseFloat(e.target.value))}
+          min="-24"
+          max="12"
+          step="0.1"
+          value={preamp}
+          onChange={(e) => setPreamp(parseFloat(e.target.value))}
           className="w-full accent-accent"
         />
-        <div className="flex justify-between mt-2">
-          <span className="text-[8px] text-white/10 uppercase font-bold tracking-widest">Wide</span>
-          <span className="text-[8px] text-white/10 uppercase font-bold tracking-widest">Narrow</span>
+      </div>
+
+      {/* Output Device */}
+      <div className="mt-4 p-5 rounded-[32px] glass-card border border-white/5 space-y-3">
+        <div className="flex items-center space-x-2">
+          <Headphones size={14} className="text-accent" />
+          <span className="micro-label">Output Device</span>
         </div>
+        {canSelectOutput ? (
+          <select
+            value={outputDeviceId}
+            onChange={(e) => onSelectOutputDevice(e.target.value)}
+            className="w-full bg-white/5 border border-white/10 rounded-xl py-2.5 px-3 text-xs text-white focus:outline-none focus:border-accent/50"
+          >
+            {outputDevices.map(device => (
+              <option key={device.deviceId} value={device.deviceId} className="bg-[#1a1a1a]">{device.label}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-[10px] text-white/30">
+            This browser always plays through the system output; bindings follow the default device.
+          </p>
+        )}
+        <button
+          onClick={() => onBindDevice(devicePresetId ? null : activePreset?.id || null)}
+          disabled={!devicePresetId && !activePreset}
+          className={`w-full py-2.5 rounded-xl text-[10px] font-bold transition-all disabled:opacity-30 ${devicePresetId ? 'bg-accent/20 text-accent border border-accent/30' : 'bg-white/5 text-white/60 border border-transparent'}`}
+        >
+          {devicePresetId ? 'Unbind preset from this device' : `Use "${activePreset?.name || 'Custom'}" for this device`}
+        </button>
       </div>
 
+      <EqPresets
+        open={presetsOpen}
+        onClose={() => setPresetsOpen(false)}
+        bands={bands}
+        preamp={preamp}
+        activePresetId={activePreset?.id || null}
+        onApply={(preset) => {
+          onApplyPreset(preset);
+          setSelectedId(null);
+        }}
+      />
+
       <div className="mt-4 flex items-center space-x-3 text-white/30">
         <Activity size={14} />
-        <span className="micro-label text-[8px]">Real-time Phase Correction: Active</span>
+        <span className="micro-label text-[8px]">
+          {linearPhase ? 'Linear-Phase FIR: Active' : 'Minimum-Phase IIR · Phase Correction in DSP'}
+        </span>
       </div>
     </div>
   );
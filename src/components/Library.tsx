@@ -1,13 +1,38 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Search, Folder, Music2, Heart, MoreVertical, PlayCircle, Upload, Trash2, ListPlus, Disc3, Pencil } from 'lucide-react';
+import { Search, Folder, Music2, Heart, MoreVertical, PlayCircle, Upload, Trash2, ListPlus, Disc3, Pencil, SlidersHorizontal, Mic2, Tag, Tags, CheckSquare, Check, ImagePlus, FolderPlus, ListMusic, Plus, Copy, Download, ChevronUp, ChevronDown, ChevronRight, X, Play, Sparkles, Star, RefreshCw, Link2, Unlink } from 'lucide-react';
+import EqBindingSheet from './EqBindingSheet';
+import TagEditor, { EditableTrack, TagSaveResult } from './TagEditor';
+import TrackArtwork from './TrackArtwork';
+import SmartPlaylistEditor from './SmartPlaylistEditor';
+import QueueView from './QueueView';
+import { EqBindings, BindingScope } from '../utils/eqBindings';
+import { albumKey, artistKey, groupTracks, folderContents } from '../utils/library';
+import type { FileLink, LibraryFolder } from '../utils/libraryFolders';
+import {
+  Playlist,
+  PlaylistFormat,
+  PLAYLIST_FORMATS,
+  createPlaylist,
+  duplicatePlaylist,
+  addToPlaylist,
+  removePlaylistEntry,
+  movePlaylistTrack,
+  exportPlaylist,
+  isPlaylistFile
+} from '../utils/playlists';
+import { SmartPlaylist, SmartTrack, createSmartPlaylist, evaluateSmartPlaylist, describeRules } from '../utils/smartPlaylists';
+import { saveBlob, safeFileName } from '../utils/download';
+import type { TagChanges } from '../utils/metadata/tagWriter';
+import type { ShuffleMode, ShuffleState, ShuffleWeight } from '../utils/shuffle';
 
-interface Track {
-  id: number;
-  title: string;
-  artist: string;
-  format?: string;
+interface Track extends SmartTrack {
   duration?: string;
+  folder?: string;
+  path?: string;
+  lyrics?: string;
+  file?: File | Blob;
+  link?: FileLink;
 }
 
 interface LibraryProps {
@@ -18,13 +43,53 @@ interface LibraryProps {
   onAddTracks: (files: FileList | File[]) => void;
   onRemoveTrack: (id: number) => void;
   onRenameTrack: (id: number, newName: string) => void;
+  onSaveTags: (ids: number[], changes: TagChanges) => Promise<TagSaveResult>;
+  onOpenTrackFile: (track: EditableTrack, request?: boolean) => Promise<File | Blob | undefined>;
+  onSetArtwork: (id: number, image: File) => void;
+  onPlayTracks: (tracks: Track[], index: number) => void;
+  playlists: Playlist[];
+  onSavePlaylist: (playlist: Playlist) => void;
+  onDeletePlaylist: (id: string) => void;
+  smartPlaylists: SmartPlaylist[];
+  onSaveSmartPlaylist: (playlist: SmartPlaylist) => void;
+  onDeleteSmartPlaylist: (id: string) => void;
+  onRateTrack: (track: Track, rating: number) => void;
+  onToggleFavourite: (track: Track) => void;
+  libraryFolders: LibraryFolder[];
+  /** Links a folder in place; unset where the browser can only copy files in. */
+  onLinkFolder?: () => void;
+  onRescanFolder: (folder: LibraryFolder) => Promise<void>;
+  onReconnectFolder: (folder: LibraryFolder) => Promise<unknown>;
+  onUnlinkFolder: (folder: LibraryFolder) => void;
   tracks: Track[];
   recentTracks: Track[];
   queue: Track[];
+  currentQueueIndex: number;
+  onReorderQueue: (ids: number[]) => void;
+  onRemoveFromQueue: (ids: number[]) => void;
+  onClearQueue: () => void;
+  onClearQueueHistory: () => void;
+  /** Takes back the last removal, clear or replacement of the queue. */
+  onUndoQueue: () => void;
+  canUndoQueue: boolean;
+  shuffle: ShuffleState;
+  onShuffleChange: (mode: ShuffleMode, weight?: ShuffleWeight) => void;
   currentTrackId?: number;
+  eqBindings: EqBindings;
+  onBindEqPreset: (scope: BindingScope, key: string, presetId: string | null) => void;
 }
 
-type TabType = 'Biblioteca' | 'Fila' | 'Recentes' | 'Pastas';
+type TabType = 'Biblioteca' | 'Fila' | 'Recentes' | 'Inteligentes' | 'Playlists' | 'Artistas' | 'Álbuns' | 'Gêneros' | 'Pastas';
+type GroupTab = 'Artistas' | 'Álbuns' | 'Gêneros' | 'Pastas';
+
+const GROUP_TABS: Record<GroupTab, { icon: typeof Folder; back: string; empty: string; fallback: string }> = {
+  'Artistas': { icon: Mic2, back: 'artistas', empty: 'Nenhum artista encontrado', fallback: 'Artista desconhecido' },
+  'Álbuns': { icon: Disc3, back: 'álbuns', empty: 'Nenhum álbum encontrado', fallback: 'Álbum desconhecido' },
+  'Gêneros': { icon: Tag, back: 'gêneros', empty: 'Nenhum gênero encontrado', fallback: 'Sem gênero' },
+  'Pastas': { icon: Folder, back: 'pastas', empty: 'Nenhuma pasta encontrada', fallback: 'Biblioteca' },
+};
+
+const isGroupTab = (tab: TabType): tab is GroupTab => tab in GROUP_TABS;
 
 export default function Library({
   accentColor,
@@ -34,23 +99,65 @@ export default function Library({
   onAddTracks,
   onRemoveTrack,
   onRenameTrack,
+  onSaveTags,
+  onOpenTrackFile,
+  onSetArtwork,
+  onPlayTracks,
+  playlists,
+  onSavePlaylist,
+  onDeletePlaylist,
+  smartPlaylists,
+  onSaveSmartPlaylist,
+  onDeleteSmartPlaylist,
+  onRateTrack,
+  onToggleFavourite,
+  libraryFolders,
+  onLinkFolder,
+  onRescanFolder,
+  onReconnectFolder,
+  onUnlinkFolder,
   tracks,
   recentTracks,
   queue,
-  currentTrackId
+  currentQueueIndex,
+  onReorderQueue,
+  onRemoveFromQueue,
+  onClearQueue,
+  onClearQueueHistory,
+  onUndoQueue,
+  canUndoQueue,
+  shuffle,
+  onShuffleChange,
+  currentTrackId,
+  eqBindings,
+  onBindEqPreset
 }: LibraryProps) {
   const [activeTab, setActiveTab] = React.useState<TabType>('Biblioteca');
-  const [selectedFolder, setSelectedFolder] = React.useState<string | null>(null);
+  const [selectedGroup, setSelectedGroup] = React.useState<string | null>(null);
   const [searchQuery, setSearchQuery] = React.useState('');
   const [openMenuId, setOpenMenuId] = React.useState<number | null>(null);
   const [renameModalOpen, setRenameModalOpen] = React.useState<number | null>(null);
   const [newTrackName, setNewTrackName] = React.useState('');
+  const [eqProfileTrack, setEqProfileTrack] = React.useState<Track | null>(null);
+  // null while not in selection mode
+  const [selectedIds, setSelectedIds] = React.useState<Set<number> | null>(null);
+  const [tagEditorIds, setTagEditorIds] = React.useState<number[]>([]);
+  // Name prompt for a new playlist (playlist null, seeded with trackIds) or a rename
+  const [playlistEditor, setPlaylistEditor] = React.useState<{ playlist: Playlist | null; trackIds: number[] } | null>(null);
+  const [playlistName, setPlaylistName] = React.useState('');
+  const [playlistPickerIds, setPlaylistPickerIds] = React.useState<number[]>([]);
+  const [exportingPlaylist, setExportingPlaylist] = React.useState(false);
+  const [smartEditor, setSmartEditor] = React.useState<{ playlist: SmartPlaylist; isNew: boolean } | null>(null);
+  const [busyFolderId, setBusyFolderId] = React.useState<string | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+  const artworkInputRef = React.useRef<HTMLInputElement>(null);
+  const artworkTrackRef = React.useRef<number | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      if (files.length === 1) {
+      if (files.length === 1 && !isPlaylistFile(files[0])) {
         onSelectTrack(files[0]);
         onAddTracks([files[0]]);
       } else {
@@ -59,42 +166,197 @@ export default function Library({
     }
   };
 
+  const handleArtworkChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (image && artworkTrackRef.current !== null) onSetArtwork(artworkTrackRef.current, image);
+  };
+
   React.useEffect(() => {
     const handleClickOutside = () => setOpenMenuId(null);
     document.addEventListener('click', handleClickOutside);
     return () => document.removeEventListener('click', handleClickOutside);
   }, []);
 
-  const folders = React.useMemo(() => {
-    const map = new Map<string, Track[]>();
-    tracks.forEach(t => {
-      const folder = (t as any).folder || 'Biblioteca';
-      if (!map.has(folder)) map.set(folder, []);
-      map.get(folder)!.push(t);
+  // One level of the folder tree: the top level, or the open folder's path
+  const folders = React.useMemo(
+    () => folderContents<Track>(tracks, activeTab === 'Pastas' ? selectedGroup || '' : '', GROUP_TABS.Pastas.fallback),
+    [tracks, activeTab, selectedGroup]
+  );
+
+  const groups = React.useMemo((): [string, Track[]][] => {
+    switch (activeTab) {
+      case 'Artistas': return groupTracks<Track>(tracks, artistKey, GROUP_TABS.Artistas.fallback);
+      case 'Álbuns': return groupTracks<Track>(tracks, albumKey, GROUP_TABS['Álbuns'].fallback);
+      case 'Gêneros': return groupTracks<Track>(tracks, t => t.genre || '', GROUP_TABS['Gêneros'].fallback);
+      case 'Pastas': return folders.folders;
+      default: return [];
+    }
+  }, [activeTab, tracks, folders]);
+
+  /** Subtitle of a group card: album artist and year for albums, counts otherwise. */
+  const describeGroup = (list: Track[]) => {
+    if (activeTab !== 'Álbuns') return `${list.length} Músicas`;
+    const first = list[0];
+    return [artistKey(first) || first.artist, first.year].filter(Boolean).join(' · ');
+  };
+
+  const toggleSelected = (id: number) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const openPlaylist = activeTab === 'Playlists' ? playlists.find(p => p.id === selectedGroup) || null : null;
+
+  const openSmartPlaylist = activeTab === 'Inteligentes' ? smartPlaylists.find(p => p.id === selectedGroup) || null : null;
+
+  const smartTracks = React.useMemo(
+    () => openSmartPlaylist ? evaluateSmartPlaylist(openSmartPlaylist, tracks) : [],
+    [openSmartPlaylist, tracks]
+  );
+
+  const removeSmartPlaylist = (playlist: SmartPlaylist) => {
+    if (!confirm(`Excluir a playlist "${playlist.name}"?`)) return;
+    onDeleteSmartPlaylist(playlist.id);
+    setSelectedGroup(null);
+  };
+
+  // Parent of the open folder; null at the top of the tree
+  const parentFolder = activeTab === 'Pastas' && selectedGroup?.includes('/') ? selectedGroup.slice(0, selectedGroup.lastIndexOf('/')) : null;
+
+  const runFolderAction = async (folder: LibraryFolder, action: (folder: LibraryFolder) => Promise<unknown>) => {
+    setBusyFolderId(folder.id);
+    try {
+      await action(folder);
+    } catch (err) {
+      console.error('Failed to update linked folder:', err);
+    } finally {
+      setBusyFolderId(null);
+    }
+  };
+
+  const unlinkFolder = (folder: LibraryFolder) => {
+    const count = tracks.filter(t => t.link?.folderId === folder.id).length;
+    if (!confirm(`Desvincular "${folder.name}" e remover ${count} músicas da biblioteca? Os arquivos no disco não são apagados.`)) return;
+    onUnlinkFolder(folder);
+  };
+
+  const describeScan = (folder: LibraryFolder) => {
+    if (!folder.lastScan) return 'Ainda não verificada';
+    const { at, added, changed, removed } = folder.lastScan;
+    return `Verificada ${new Date(at).toLocaleDateString()} · +${added} ~${changed} −${removed}`;
+  };
+
+  // A track listed twice is two rows; `position` is the entry's index in trackIds
+  const playlistRows = (playlist: Playlist) =>
+    playlist.trackIds.flatMap((id, position) => {
+      const track = tracks.find(t => t.id === id);
+      return track ? [{ track, position }] : [];
     });
-    return Array.from(map.entries());
-  }, [tracks]);
 
-  const renderTrackItem = (track: Track, i: number) => (
+  const playlistTracks = (playlist: Playlist) => playlistRows(playlist).map(row => row.track);
+
+  const openPlaylistEditor = (playlist: Playlist | null, trackIds: number[] = []) => {
+    setPlaylistEditor({ playlist, trackIds });
+    setPlaylistName(playlist ? playlist.name : '');
+  };
+
+  const submitPlaylistName = () => {
+    const name = playlistName.trim();
+    if (!name || !playlistEditor) return;
+    if (playlistEditor.playlist) onSavePlaylist({ ...playlistEditor.playlist, name, updatedAt: Date.now() });
+    else onSavePlaylist(createPlaylist(name, playlistEditor.trackIds));
+    setPlaylistEditor(null);
+  };
+
+  const removePlaylist = (playlist: Playlist) => {
+    if (!confirm(`Excluir a playlist "${playlist.name}"?`)) return;
+    onDeletePlaylist(playlist.id);
+    setSelectedGroup(null);
+  };
+
+  const handleExportPlaylist = async (playlist: Playlist, format: PlaylistFormat) => {
+    const { blob, fileName } = exportPlaylist(playlist, playlistTracks(playlist), format);
+    try {
+      await saveBlob(blob, safeFileName(fileName));
+    } catch (err) {
+      console.error('Failed to export playlist:', err);
+    }
+    setExportingPlaylist(false);
+  };
+
+  const editorTracks = React.useMemo(() => {
+    const all = [...tracks, ...queue, ...recentTracks];
+    return tagEditorIds.map(id => all.find(t => t.id === id)).filter((t): t is Track => !!t) as EditableTrack[];
+  }, [tagEditorIds, tracks, queue, recentTracks]);
+
+  const renderPlaylistActions = (playlist: Playlist, index: number) => {
+    return (
+      <>
+        <button
+          onClick={(e) => { e.stopPropagation(); onSavePlaylist(movePlaylistTrack(playlist, index, index - 1)); }}
+          disabled={index === 0}
+          className="p-2 rounded-xl bg-white/5 text-white/40 hover:text-white disabled:opacity-20 transition-all shadow-lg"
+          title="Mover para cima"
+        >
+          <ChevronUp size={16} />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onSavePlaylist(movePlaylistTrack(playlist, index, index + 1)); }}
+          disabled={index === playlist.trackIds.length - 1}
+          className="p-2 rounded-xl bg-white/5 text-white/40 hover:text-white disabled:opacity-20 transition-all shadow-lg"
+          title="Mover para baixo"
+        >
+          <ChevronDown size={16} />
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onSavePlaylist(removePlaylistEntry(playlist, index));
+          }}
+          className="p-2 rounded-xl bg-white/5 text-white/40 hover:text-red-500 transition-all shadow-lg"
+          title="Remover da playlist"
+        >
+          <X size={16} />
+        </button>
+      </>
+    );
+  };
+
+  const renderTrackItem = (track: Track, i: number, showNumber = false, onPlay = () => onSelectTrack(track), actions?: React.ReactNode, key: React.Key = track.id) => (
     <motion.div
-      key={track.id}
+      key={key}
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ delay: i * 0.05 }}
       className={`group relative flex items-center p-3 rounded-3xl transition-all cursor-pointer border ${currentTrackId === track.id ? 'bg-accent/15 border-accent/30 shadow-lg' : 'hover:bg-white/5 border-transparent hover:border-white/5'}`}
     >
       <div
-        onClick={() => onSelectTrack(track)}
+        onClick={() => selectedIds ? toggleSelected(track.id) : onPlay()}
         className="relative w-14 h-14 rounded-2xl overflow-hidden mr-4 shadow-xl flex-shrink-0 bg-white/5 flex items-center justify-center"
       >
-        <Music2 size={24} className="text-white/20" />
-        <div className={`absolute inset-0 flex items-center justify-center transition-opacity ${currentTrackId === track.id ? 'opacity-100 bg-accent/20' : 'opacity-0 group-hover:opacity-100 bg-black/40'}`}>
-          <PlayCircle size={24} className="text-white drop-shadow-lg" />
-        </div>
+        {showNumber && track.trackNumber ? (
+          <span className="text-sm font-mono font-bold text-white/40">
+            {track.discNumber && track.discNumber > 1 ? `${track.discNumber}·` : ''}{String(track.trackNumber).padStart(2, '0')}
+          </span>
+        ) : (
+          <TrackArtwork id={track.id} />
+        )}
+        {selectedIds ? (
+          <div className={`absolute inset-0 flex items-center justify-center transition-colors ${selectedIds.has(track.id) ? 'bg-accent text-black' : 'bg-black/40 text-white/30'}`}>
+            <Check size={24} />
+          </div>
+        ) : (
+          <div className={`absolute inset-0 flex items-center justify-center transition-opacity ${currentTrackId === track.id ? 'opacity-100 bg-accent/20' : 'opacity-0 group-hover:opacity-100 bg-black/40'}`}>
+            <PlayCircle size={24} className="text-white drop-shadow-lg" />
+          </div>
+        )}
       </div>
 
       <div
-        onClick={() => onSelectTrack(track)}
+        onClick={() => selectedIds ? toggleSelected(track.id) : onPlay()}
         className="flex-1 min-w-0"
       >
         <h4 className={`text-sm font-display font-bold truncate transition-colors ${currentTrackId === track.id ? 'text-accent' : 'text-white/90 group-hover:text-white'}`}>{track.title}</h4>
@@ -107,6 +369,14 @@ export default function Library({
       </div>
 
       <div className="flex items-center space-x-2 ml-4">
+        {actions}
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleFavourite(track); }}
+          className={`p-2 rounded-xl bg-white/5 transition-all shadow-lg ${track.favourite ? 'text-accent' : 'text-white/40 hover:text-accent sm:opacity-0 sm:group-hover:opacity-100'}`}
+          title={track.favourite ? 'Remover dos favoritos' : 'Favoritar'}
+        >
+          <Heart size={16} fill={track.favourite ? 'currentColor' : 'none'} />
+        </button>
         <button
           onClick={(e) => { e.stopPropagation(); onPlayNext(track); }}
           className="p-2 rounded-xl bg-white/5 text-white/40 hover:text-accent sm:opacity-0 sm:group-hover:opacity-100 transition-all shadow-lg"
@@ -140,6 +410,19 @@ export default function Library({
                 onClick={(e) => e.stopPropagation()}
               >
                 <div className="flex flex-col py-1">
+                  <div className="flex items-center justify-between px-4 py-2">
+                    {[1, 2, 3, 4, 5].map(stars => (
+                      <button
+                        key={stars}
+                        onClick={() => onRateTrack(track, track.rating === stars ? 0 : stars)}
+                        className={`p-0.5 transition-colors ${(track.rating || 0) >= stars ? 'text-accent' : 'text-white/20 hover:text-white/60'}`}
+                        aria-label={`${stars} estrelas`}
+                      >
+                        <Star size={16} fill={(track.rating || 0) >= stars ? 'currentColor' : 'none'} />
+                      </button>
+                    ))}
+                  </div>
+                  <div className="h-px bg-white/10 mx-2 my-1" />
                   <button
                     onClick={() => { onPlayNext(track); setOpenMenuId(null); }}
                     className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
@@ -154,11 +437,18 @@ export default function Library({
                     <ListPlus size={16} className="text-white/40" />
                     <span>Adicionar na fila</span>
                   </button>
-                  {(track as any).folder && (
+                  <button
+                    onClick={() => { setPlaylistPickerIds([track.id]); setOpenMenuId(null); }}
+                    className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
+                  >
+                    <ListMusic size={16} className="text-white/40" />
+                    <span>Adicionar à playlist</span>
+                  </button>
+                  {albumKey(track) && (
                     <button
                       onClick={() => {
-                        setActiveTab('Pastas');
-                        setSelectedFolder((track as any).folder);
+                        setActiveTab('Álbuns');
+                        setSelectedGroup(albumKey(track));
                         setOpenMenuId(null);
                       }}
                       className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
@@ -167,6 +457,31 @@ export default function Library({
                       <span>Acessar álbum</span>
                     </button>
                   )}
+                  <button
+                    onClick={() => { setTagEditorIds([track.id]); setOpenMenuId(null); }}
+                    className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
+                  >
+                    <Tags size={16} className="text-white/40" />
+                    <span>Editar tags</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      artworkTrackRef.current = track.id;
+                      artworkInputRef.current?.click();
+                      setOpenMenuId(null);
+                    }}
+                    className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
+                  >
+                    <ImagePlus size={16} className="text-white/40" />
+                    <span>Escolher capa</span>
+                  </button>
+                  <button
+                    onClick={() => { setEqProfileTrack(track); setOpenMenuId(null); }}
+                    className="flex items-center space-x-3 px-4 py-3 hover:bg-white/5 text-sm text-white/80 hover:text-white transition-colors text-left"
+                  >
+                    <SlidersHorizontal size={16} className="text-white/40" />
+                    <span>Perfil de EQ</span>
+                  </button>
                   <div className="h-px bg-white/10 mx-2 my-1" />
                   <button
                     onClick={() => {
@@ -200,43 +515,81 @@ export default function Library({
     switch (activeTab) {
       case 'Fila': baseTracks = queue; break;
       case 'Recentes': baseTracks = recentTracks; break;
+      case 'Inteligentes': baseTracks = smartTracks; break;
+      case 'Playlists': baseTracks = openPlaylist ? playlistTracks(openPlaylist) : []; break;
       case 'Biblioteca': baseTracks = tracks; break;
-      case 'Pastas': baseTracks = selectedFolder ? (folders.find(f => f[0] === selectedFolder)?.[1] || []) : []; break;
+      case 'Artistas':
+      case 'Álbuns':
+      case 'Gêneros': baseTracks = selectedGroup ? (groups.find(g => g[0] === selectedGroup)?.[1] || []) : []; break;
+      case 'Pastas': baseTracks = selectedGroup ? folders.tracks : []; break;
       default: baseTracks = tracks;
     }
 
     if (!searchQuery) return baseTracks;
-    return baseTracks.filter(t =>
-      t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      t.artist.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    return baseTracks.filter(matchesSearch);
   };
 
+  const matchesSearch = (t: Track) =>
+    t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    t.artist.toLowerCase().includes(searchQuery.toLowerCase());
+
   const displayTracks = getDisplayTracks();
+  const openPlaylistRows = openPlaylist
+    ? playlistRows(openPlaylist).filter(row => !searchQuery || matchesSearch(row.track))
+    : [];
 
   return (
     <div className="flex flex-col h-full px-6 pt-4 pb-8 overflow-hidden bg-black/20 backdrop-blur-xl">
       <div className="flex items-center justify-between mb-6">
         <div>
           <h2 className="text-2xl font-display font-bold tracking-tight text-white/90">Music Hub</h2>
-          {activeTab === 'Pastas' && selectedFolder && (
+          {(isGroupTab(activeTab) || activeTab === 'Playlists' || activeTab === 'Inteligentes') && selectedGroup && (
             <button
-              onClick={() => setSelectedFolder(null)}
+              onClick={() => setSelectedGroup(parentFolder)}
               className="text-[10px] text-accent font-bold uppercase tracking-widest mt-1 flex items-center space-x-1"
             >
-              <span>← Voltar para pastas</span>
+              <span>← Voltar para {parentFolder ? parentFolder.split('/').pop() : isGroupTab(activeTab) ? GROUP_TABS[activeTab].back : 'playlists'}</span>
             </button>
           )}
         </div>
         <div className="flex space-x-2">
+          <button
+            onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+            className={`p-3 rounded-2xl transition-all border border-white/5 ${selectedIds ? 'bg-white/20 text-white' : 'bg-white/5 text-white/40 hover:text-white'}`}
+            title="Selecionar músicas"
+          >
+            <CheckSquare size={20} />
+          </button>
           <input
             type="file"
             ref={fileInputRef}
             onChange={handleFileChange}
             className="hidden"
-            accept="audio/*"
+            accept="audio/*,.m3u,.m3u8,.pls,.xspf"
+            multiple
+          />
+          <input
+            type="file"
+            ref={folderInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+            {...{ webkitdirectory: '' }}
             multiple
           />
+          <input
+            type="file"
+            ref={artworkInputRef}
+            onChange={handleArtworkChange}
+            className="hidden"
+            accept="image/*"
+          />
+          <button
+            onClick={() => onLinkFolder ? onLinkFolder() : folderInputRef.current?.click()}
+            className="p-3 rounded-2xl bg-white/5 text-white/40 hover:text-white transition-all border border-white/5"
+            title={onLinkFolder ? 'Vincular pasta' : 'Importar pasta'}
+          >
+            <FolderPlus size={20} />
+          </button>
           <button
             onClick={() => fileInputRef.current?.click()}
             className="p-3 rounded-2xl bg-accent text-black hover:bg-accent/80 transition-all border border-white/5 shadow-[0_0_20px_rgba(234,179,8,0.4)]"
@@ -260,10 +613,10 @@ export default function Library({
 
       {/* Categories */}
       <div className="flex space-x-3 mb-8 overflow-x-auto no-scrollbar pb-2">
-        {(['Biblioteca', 'Fila', 'Recentes', 'Pastas'] as TabType[]).map((cat) => (
+        {(['Biblioteca', 'Fila', 'Recentes', 'Inteligentes', 'Playlists', 'Artistas', 'Álbuns', 'Gêneros', 'Pastas'] as TabType[]).map((cat) => (
           <button
             key={cat}
-            onClick={() => { setActiveTab(cat); setSelectedFolder(null); }}
+            onClick={() => { setActiveTab(cat); setSelectedGroup(null); setExportingPlaylist(false); }}
             className={`px-6 py-3 rounded-2xl text-[10px] uppercase tracking-widest font-display font-bold transition-all border whitespace-nowrap ${activeTab === cat ? 'bg-accent border-accent text-black shadow-[0_0_20px_rgba(234,179,8,0.3)]' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}
           >
             {cat}
@@ -273,49 +626,344 @@ export default function Library({
 
       {/* Track List or Folder List */}
       <div className="flex-1 overflow-y-auto no-scrollbar space-y-2 pr-1">
-        {activeTab === 'Pastas' && !selectedFolder ? (
-          <div className="grid grid-cols-2 gap-3">
-            {folders.map(([folder, tracks]) => (
-              <motion.div
-                key={folder}
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={() => setSelectedFolder(folder)}
-                className="p-5 rounded-[32px] bg-white/5 border border-white/5 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
-              >
-                <div className="p-4 rounded-3xl bg-accent/10 text-accent mb-3 group-hover:scale-110 transition-transform">
-                  <Folder size={32} />
+        {isGroupTab(activeTab) && !selectedGroup ? (
+          <>
+          {activeTab === 'Pastas' && (onLinkFolder || libraryFolders.length > 0) && (
+            <div className="p-4 mb-4 rounded-3xl bg-white/5 border border-white/5 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-white/80">
+                  <Link2 size={16} />
+                  <h3 className="text-sm font-semibold uppercase tracking-wider">Pastas vinculadas</h3>
                 </div>
-                <h4 className="text-xs font-display font-bold text-white/90 truncate w-full px-2">{folder}</h4>
-                <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter">{tracks.length} Músicas</p>
-              </motion.div>
-            ))}
-            {folders.length === 0 && (
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  className="text-[10px] font-bold text-white/40 hover:text-white transition-colors"
+                  title="Copia os arquivos para o app em vez de vincular"
+                >
+                  Copiar pasta
+                </button>
+              </div>
+              {libraryFolders.length === 0 && (
+                <p className="text-[10px] text-white/30">Vincule uma pasta pelo botão de pasta: as músicas são lidas do disco, sem cópias.</p>
+              )}
+              {libraryFolders.map(folder => {
+                const offline = tracks.some(t => t.link?.folderId === folder.id && !t.file);
+                const busy = busyFolderId === folder.id;
+                return (
+                  <div key={folder.id} className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-xs font-display font-bold text-white/90 truncate">{folder.name}</p>
+                      <p className="micro-label truncate">{offline ? 'Sem permissão de leitura' : describeScan(folder)}</p>
+                    </div>
+                    <div className="flex items-center space-x-1 text-white/40 flex-shrink-0">
+                      {offline && (
+                        <button
+                          onClick={() => runFolderAction(folder, onReconnectFolder)}
+                          disabled={busy}
+                          className="px-3 py-1.5 rounded-lg bg-accent text-black text-[10px] font-bold disabled:opacity-30"
+                        >
+                          Reconectar
+                        </button>
+                      )}
+                      <button
+                        onClick={() => runFolderAction(folder, onRescanFolder)}
+                        disabled={busy}
+                        className="p-2 rounded-full hover:text-white transition-colors disabled:opacity-30"
+                        title="Verificar alterações"
+                      >
+                        <RefreshCw size={16} className={busy ? 'animate-spin' : ''} />
+                      </button>
+                      <button onClick={() => unlinkFolder(folder)} className="p-2 rounded-full hover:text-red-400 transition-colors" title="Desvincular">
+                        <Unlink size={16} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            {groups.filter(([name]) => name.toLowerCase().includes(searchQuery.toLowerCase())).map(([name, tracks]) => {
+              const GroupIcon = GROUP_TABS[activeTab].icon;
+              return (
+                <motion.div
+                  key={name}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setSelectedGroup(name)}
+                  className="p-5 rounded-[32px] bg-white/5 border border-white/5 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
+                >
+                  <div className="p-4 rounded-3xl bg-accent/10 text-accent mb-3 group-hover:scale-110 transition-transform">
+                    <GroupIcon size={32} />
+                  </div>
+                  <h4 className="text-xs font-display font-bold text-white/90 truncate w-full px-2">{name}</h4>
+                  <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter truncate w-full px-2">{describeGroup(tracks)}</p>
+                </motion.div>
+              );
+            })}
+            {groups.length === 0 && (
               <div className="col-span-2 flex flex-col items-center justify-center py-20 opacity-40">
                 <Folder size={40} className="text-white/20 mb-3" />
-                <p className="text-xs font-display font-medium">Nenhuma pasta encontrada</p>
+                <p className="text-xs font-display font-medium">{GROUP_TABS[activeTab].empty}</p>
               </div>
             )}
           </div>
+          </>
+        ) : activeTab === 'Fila' ? (
+          <QueueView
+            queue={queue}
+            currentIndex={currentQueueIndex}
+            onPlay={onSelectTrack}
+            onReorder={onReorderQueue}
+            onRemove={onRemoveFromQueue}
+            onClear={onClearQueue}
+            onClearHistory={onClearQueueHistory}
+            onUndo={onUndoQueue}
+            canUndo={canUndoQueue}
+            shuffle={shuffle}
+            onShuffleChange={onShuffleChange}
+          />
+        ) : activeTab === 'Inteligentes' && !openSmartPlaylist ? (
+          <div className="grid grid-cols-2 gap-3">
+            <motion.div
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setSmartEditor({ playlist: createSmartPlaylist(''), isNew: true })}
+              className="p-5 rounded-[32px] border border-dashed border-white/10 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
+            >
+              <div className="p-4 rounded-3xl bg-white/5 text-white/40 mb-3 group-hover:scale-110 group-hover:text-accent transition-all">
+                <Plus size={32} />
+              </div>
+              <h4 className="text-xs font-display font-bold text-white/60">Nova inteligente</h4>
+              <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter">Regras, ordem e limite</p>
+            </motion.div>
+            {smartPlaylists
+              .filter(p => p.name.toLowerCase().includes(searchQuery.toLowerCase()))
+              .sort((a, b) => a.name.localeCompare(b.name))
+              .map(playlist => (
+                <motion.div
+                  key={playlist.id}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setSelectedGroup(playlist.id)}
+                  className="p-5 rounded-[32px] bg-white/5 border border-white/5 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
+                >
+                  <div className="p-4 rounded-3xl bg-accent/10 text-accent mb-3 group-hover:scale-110 transition-transform">
+                    <Sparkles size={32} />
+                  </div>
+                  <h4 className="text-xs font-display font-bold text-white/90 truncate w-full px-2">{playlist.name}</h4>
+                  <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter truncate w-full px-2">{describeRules(playlist) || 'Todas as músicas'}</p>
+                </motion.div>
+              ))}
+          </div>
+        ) : activeTab === 'Playlists' && !openPlaylist ? (
+          <div className="grid grid-cols-2 gap-3">
+            <motion.div
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => openPlaylistEditor(null)}
+              className="p-5 rounded-[32px] border border-dashed border-white/10 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
+            >
+              <div className="p-4 rounded-3xl bg-white/5 text-white/40 mb-3 group-hover:scale-110 group-hover:text-accent transition-all">
+                <Plus size={32} />
+              </div>
+              <h4 className="text-xs font-display font-bold text-white/60">Nova playlist</h4>
+              <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter">M3U · PLS · XSPF pelo upload</p>
+            </motion.div>
+            {playlists
+              .filter(p => p.name.toLowerCase().includes(searchQuery.toLowerCase()))
+              .sort((a, b) => a.name.localeCompare(b.name))
+              .map(playlist => (
+                <motion.div
+                  key={playlist.id}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setSelectedGroup(playlist.id)}
+                  className="p-5 rounded-[32px] bg-white/5 border border-white/5 hover:border-accent/30 transition-all cursor-pointer flex flex-col items-center justify-center text-center group"
+                >
+                  <div className="p-4 rounded-3xl bg-accent/10 text-accent mb-3 group-hover:scale-110 transition-transform">
+                    <ListMusic size={32} />
+                  </div>
+                  <h4 className="text-xs font-display font-bold text-white/90 truncate w-full px-2">{playlist.name}</h4>
+                  <p className="text-[10px] text-white/20 font-mono mt-1 uppercase tracking-tighter">{playlist.trackIds.length} Músicas</p>
+                </motion.div>
+              ))}
+          </div>
         ) : (
           <>
-            {displayTracks.length === 0 ? (
+            {openSmartPlaylist && (
+              <div className="p-4 mb-4 rounded-3xl bg-white/5 border border-white/5">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-display font-bold text-white/90 truncate">{openSmartPlaylist.name}</h3>
+                    <p className="micro-label truncate">{smartTracks.length} Músicas · {describeRules(openSmartPlaylist) || 'Todas as músicas'}</p>
+                  </div>
+                  <div className="flex items-center space-x-1 text-white/40">
+                    <button
+                      onClick={() => onPlayTracks(smartTracks, 0)}
+                      disabled={smartTracks.length === 0}
+                      className="p-2.5 rounded-full bg-accent text-black disabled:opacity-30 transition-opacity mr-1"
+                      title="Tocar playlist"
+                    >
+                      <Play size={16} />
+                    </button>
+                    <button
+                      onClick={() => setSmartEditor({ playlist: openSmartPlaylist, isNew: false })}
+                      className="p-2 rounded-full hover:text-white transition-colors"
+                      title="Editar regras"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button onClick={() => removeSmartPlaylist(openSmartPlaylist)} className="p-2 rounded-full hover:text-red-400 transition-colors" title="Excluir playlist">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+            {openPlaylist && (
+              <div className="p-4 mb-4 rounded-3xl bg-white/5 border border-white/5">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-display font-bold text-white/90 truncate">{openPlaylist.name}</h3>
+                    <p className="micro-label">{openPlaylist.trackIds.length} Músicas</p>
+                  </div>
+                  <div className="flex items-center space-x-1 text-white/40">
+                    <button
+                      onClick={() => onPlayTracks(playlistTracks(openPlaylist), 0)}
+                      disabled={openPlaylist.trackIds.length === 0}
+                      className="p-2.5 rounded-full bg-accent text-black disabled:opacity-30 transition-opacity mr-1"
+                      title="Tocar playlist"
+                    >
+                      <Play size={16} />
+                    </button>
+                    <button onClick={() => openPlaylistEditor(openPlaylist)} className="p-2 rounded-full hover:text-white transition-colors" title="Renomear">
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        const copy = duplicatePlaylist(openPlaylist);
+                        onSavePlaylist(copy);
+                        setSelectedGroup(copy.id);
+                      }}
+                      className="p-2 rounded-full hover:text-white transition-colors"
+                      title="Duplicar"
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={() => setExportingPlaylist(!exportingPlaylist)}
+                      className={`p-2 rounded-full transition-colors ${exportingPlaylist ? 'text-accent' : 'hover:text-white'}`}
+                      title="Exportar"
+                    >
+                      <Download size={16} />
+                    </button>
+                    <button onClick={() => removePlaylist(openPlaylist)} className="p-2 rounded-full hover:text-red-400 transition-colors" title="Excluir playlist">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                {exportingPlaylist && (
+                  <div className="flex space-x-2 mt-3">
+                    {PLAYLIST_FORMATS.map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleExportPlaylist(openPlaylist, format)}
+                        className="flex-1 py-1.5 rounded-lg bg-white/5 text-[9px] font-mono font-bold uppercase text-white/60 hover:text-white"
+                      >
+                        .{format}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {activeTab === 'Pastas' && selectedGroup && folders.folders.map(([name, list]) => (
+              <button
+                key={name}
+                onClick={() => setSelectedGroup(`${selectedGroup}/${name}`)}
+                className="w-full flex items-center justify-between p-3 rounded-2xl bg-white/5 hover:bg-white/10 transition-colors text-left"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="p-2 rounded-xl bg-accent/10 text-accent">
+                    <Folder size={16} />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-xs font-display font-bold text-white/90 truncate">{name}</p>
+                    <p className="text-[10px] text-white/30">{list.length} Músicas</p>
+                  </div>
+                </div>
+                <ChevronRight size={16} className="text-white/20 flex-shrink-0" />
+              </button>
+            ))}
+            {displayTracks.length === 0 && !(activeTab === 'Pastas' && folders.folders.length > 0) ? (
               <div className="flex flex-col items-center justify-center h-full opacity-40 text-center px-8">
                 <div className="p-6 rounded-full bg-white/5 mb-4">
                   <Music2 size={40} className="text-white/60" />
                 </div>
                 <p className="text-sm font-display font-medium text-white/80">Vazio</p>
                 <p className="text-[10px] text-white/40 mt-1">
-                  {activeTab === 'Recentes' ? 'Músicas que você tocar aparecerão aqui' : 'Toque no botão de upload para adicionar músicas'}
+                  {activeTab === 'Recentes'
+                    ? 'Músicas que você tocar aparecerão aqui'
+                    : activeTab === 'Playlists'
+                      ? 'Adicione músicas pelo menu de cada faixa'
+                      : activeTab === 'Inteligentes'
+                        ? 'Nenhuma música atende às regras'
+                      : 'Toque no botão de upload para adicionar músicas'}
                 </p>
               </div>
             ) : (
-              displayTracks.map((track, i) => renderTrackItem(track, i))
+              openPlaylist
+                ? openPlaylistRows.map(({ track, position }, i) => renderTrackItem(track, i, false, () => {
+                  // Entries whose track is gone are not queued, so find the row among those that are
+                  const rows = playlistRows(openPlaylist);
+                  onPlayTracks(rows.map(row => row.track), rows.findIndex(row => row.position === position));
+                }, renderPlaylistActions(openPlaylist, position), position))
+                : displayTracks.map((track, i) => openSmartPlaylist
+                  ? renderTrackItem(track, i, false, () => onPlayTracks(smartTracks, smartTracks.indexOf(track)))
+                  : renderTrackItem(track, i, activeTab === 'Álbuns'))
             )}
           </>
         )}
       </div>
 
+      {/* Selection bar */}
+      <AnimatePresence>
+        {selectedIds && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="flex items-center justify-between mt-4 p-3 rounded-3xl bg-[#1a1a1a] border border-white/10 shadow-2xl"
+          >
+            <button
+              onClick={() => setSelectedIds(new Set(displayTracks.map(t => t.id)))}
+              className="px-3 py-2 text-[10px] uppercase tracking-widest font-bold text-white/40 hover:text-white transition-colors"
+            >
+              {selectedIds.size} selecionadas · Todas
+            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                disabled={selectedIds.size === 0}
+                onClick={() => setPlaylistPickerIds([...selectedIds])}
+                className="flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-bold text-white/70 bg-white/5 hover:bg-white/10 transition-colors disabled:opacity-30"
+              >
+                <ListMusic size={16} />
+                <span>Playlist</span>
+              </button>
+              <button
+                disabled={selectedIds.size === 0}
+                onClick={() => setTagEditorIds([...selectedIds])}
+                className="flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-bold text-black bg-accent hover:bg-accent/90 transition-colors disabled:opacity-30"
+              >
+                <Tags size={16} />
+                <span>Editar tags</span>
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Rename Modal */}
       <AnimatePresence>
         {renameModalOpen !== null && (
@@ -376,6 +1024,128 @@ export default function Library({
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Add to playlist */}
+      <AnimatePresence>
+        {playlistPickerIds.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+            onClick={() => setPlaylistPickerIds([])}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full max-w-sm max-h-[70vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-6 shadow-2xl relative"
+            >
+              <h3 className="text-lg font-display font-bold text-white mb-4 flex items-center">
+                <ListMusic size={20} className="mr-2 text-accent" />
+                Adicionar à playlist
+              </h3>
+              <div className="flex-1 overflow-y-auto no-scrollbar space-y-2">
+                <button
+                  onClick={() => { openPlaylistEditor(null, playlistPickerIds); setPlaylistPickerIds([]); }}
+                  className="w-full flex items-center space-x-3 p-3 rounded-2xl border border-dashed border-white/10 text-sm text-white/60 hover:text-white hover:border-accent/30 transition-colors text-left"
+                >
+                  <Plus size={16} />
+                  <span>Nova playlist</span>
+                </button>
+                {playlists.map(playlist => (
+                  <button
+                    key={playlist.id}
+                    onClick={() => { onSavePlaylist(addToPlaylist(playlist, playlistPickerIds)); setPlaylistPickerIds([]); }}
+                    className="w-full flex items-center justify-between p-3 rounded-2xl bg-white/5 hover:bg-white/10 text-sm text-white/80 hover:text-white transition-colors text-left"
+                  >
+                    <span className="truncate">{playlist.name}</span>
+                    <span className="micro-label ml-2">{playlist.trackIds.length}</span>
+                  </button>
+                ))}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Playlist name */}
+      <AnimatePresence>
+        {playlistEditor && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+            onClick={() => setPlaylistEditor(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full max-w-sm bg-[#1a1a1a] border border-white/10 rounded-3xl p-6 shadow-2xl relative"
+            >
+              <h3 className="text-lg font-display font-bold text-white mb-4 flex items-center">
+                <ListMusic size={20} className="mr-2 text-accent" />
+                {playlistEditor.playlist ? 'Renomear Playlist' : 'Nova Playlist'}
+              </h3>
+              <input
+                type="text"
+                autoFocus
+                value={playlistName}
+                onChange={(e) => setPlaylistName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') submitPlaylistName();
+                  else if (e.key === 'Escape') setPlaylistEditor(null);
+                }}
+                className="w-full bg-white/5 border border-white/10 rounded-xl py-3 px-4 text-sm text-white focus:outline-none focus:border-accent/50 transition-colors mb-6"
+                placeholder="Nome da playlist..."
+              />
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setPlaylistEditor(null)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white/50 hover:text-white hover:bg-white/5 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={submitPlaylistName}
+                  className="px-5 py-2 rounded-xl text-sm font-bold text-black bg-accent hover:bg-accent/90 transition-colors shadow-[0_0_15px_rgba(234,179,8,0.3)]"
+                >
+                  Salvar
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <SmartPlaylistEditor
+        playlist={smartEditor?.playlist || null}
+        isNew={!!smartEditor?.isNew}
+        tracks={tracks}
+        onSave={(playlist) => {
+          onSaveSmartPlaylist(playlist);
+          setSmartEditor(null);
+        }}
+        onClose={() => setSmartEditor(null)}
+      />
+
+      <TagEditor
+        tracks={editorTracks}
+        onSave={onSaveTags}
+        onOpenFile={onOpenTrackFile}
+        onClose={() => setTagEditorIds([])}
+      />
+
+      <EqBindingSheet
+        track={eqProfileTrack}
+        bindings={eqBindings}
+        onBind={onBindEqPreset}
+        onClose={() => setEqProfileTrack(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Stethoscope, Copy, Tags, ImageOff, FileWarning, Gauge, FileText, Check, Loader2 } from 'lucide-react';
+import { getArtworkIds } from '../utils/db';
+import { subscribeArtwork } from '../utils/artwork';
+import { HealthIssue, HealthIssueKind, HealthTrack, OrphanLyrics, buildHealthReport, fillMissingTags } from '../utils/libraryHealth';
+
+interface LibraryHealthProps {
+  tracks: HealthTrack[];
+  orphanLyrics: OrphanLyrics[];
+  onFix: (issue: HealthIssue) => Promise<void>;
+  onSetArtwork: (id: number, image: File) => void;
+}
+
+const SECTIONS: { kind: HealthIssueKind; icon: typeof Copy; title: string; hint: string }[] = [
+  { kind: 'duplicate', icon: Copy, title: 'Duplicadas', hint: 'Mesmo áudio importado mais de uma vez' },
+  { kind: 'unreadable', icon: FileWarning, title: 'Ilegíveis', hint: 'Arquivos corrompidos ou em formato desconhecido' },
+  { kind: 'missingTags', icon: Tags, title: 'Sem tags', hint: 'Sem artista ou álbum' },
+  { kind: 'missingArt', icon: ImageOff, title: 'Sem capa', hint: 'Nenhuma capa embutida ou da pasta' },
+  { kind: 'fakeHiRes', icon: Gauge, title: 'Falso hi-res', hint: 'Taxa de bits baixa demais para a resolução' },
+  { kind: 'orphanLyrics', icon: FileText, title: 'Letras órfãs', hint: 'Arquivos .lrc sem música correspondente' },
+];
+
+export default function LibraryHealth({ tracks, orphanLyrics, onFix, onSetArtwork }: LibraryHealthProps) {
+  const [artworkIds, setArtworkIds] = useState<Set<number> | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const artworkInputRef = useRef<HTMLInputElement>(null);
+  const artworkTrackRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const load = () => getArtworkIds()
+      .then(ids => setArtworkIds(new Set(ids)))
+      .catch(err => console.error('Failed to load artwork ids:', err));
+    load();
+    return subscribeArtwork(load);
+  }, []);
+
+  const issues = useMemo(
+    () => artworkIds ? buildHealthReport(tracks, artworkIds, orphanLyrics) : [],
+    [tracks, artworkIds, orphanLyrics]
+  );
+
+  const trackById = useMemo(() => new Map(tracks.map(t => [t.id, t])), [tracks]);
+
+  const fix = async (issue: HealthIssue) => {
+    if (issue.kind === 'unreadable' && !confirm('Remover a música ilegível da biblioteca?')) return;
+    if (issue.kind === 'missingArt' && issue.targetId === undefined) {
+      artworkTrackRef.current = issue.trackIds[0];
+      artworkInputRef.current?.click();
+      return;
+    }
+    setBusyKey(issue.key);
+    try {
+      await onFix(issue);
+    } catch (err) {
+      console.error('Failed to fix library issue:', err);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleArtworkChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (image && artworkTrackRef.current !== null) onSetArtwork(artworkTrackRef.current, image);
+  };
+
+  /** Title line, detail line and fix label of an issue. */
+  const describe = (issue: HealthIssue): [string, string, string] => {
+    const track = trackById.get(issue.trackIds[0]);
+    const name = track ? `${track.title} · ${track.artist}` : '';
+    switch (issue.kind) {
+      case 'duplicate':
+        return [name, `${issue.trackIds.length} cópias · ${issue.trackIds.map(id => trackById.get(id)?.path || '').filter(Boolean).join(', ')}`, 'Mesclar'];
+      case 'unreadable':
+        return [name, track?.path || track?.format || '', 'Remover'];
+      case 'missingTags': {
+        const guessed = track ? fillMissingTags(track) : {};
+        const preview = [guessed.artist, guessed.album].filter(Boolean).join(' · ');
+        return [name, preview ? `Pelo caminho: ${preview}` : track?.path || '', 'Preencher'];
+      }
+      case 'missingArt':
+        return [name, issue.targetId !== undefined ? 'Outra faixa do álbum tem capa' : 'Escolha uma imagem', issue.targetId !== undefined ? 'Usar capa do álbum' : 'Escolher capa'];
+      case 'fakeHiRes': {
+        const stream = track?.stream;
+        return [name, stream ? `${stream.sampleRate / 1000} kHz / ${stream.bitDepth} bits a ${stream.bitrate} kbps` : '', 'Tirar selo Hi-Res'];
+      }
+      case 'orphanLyrics': {
+        const target = issue.targetId !== undefined ? trackById.get(issue.targetId) : undefined;
+        return [issue.lyrics?.path || '', target ? `Combina com ${target.title}` : 'Nenhuma música combina', target ? 'Associar' : 'Descartar'];
+      }
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full px-6 pt-4 pb-8 overflow-y-auto no-scrollbar">
+      <input type="file" ref={artworkInputRef} onChange={handleArtworkChange} className="hidden" accept="image/*" />
+      <div className="mb-6">
+        <h2 className="text-2xl font-display font-bold tracking-tight text-white/90">Saúde da biblioteca</h2>
+        <p className="micro-label text-[10px] mt-1 text-accent">
+          {artworkIds === null ? 'Analisando…' : issues.length === 0 ? 'Nenhum problema encontrado' : `${issues.length} problemas`}
+        </p>
+      </div>
+
+      {artworkIds !== null && issues.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-20 opacity-40 text-center">
+          <Stethoscope size={40} className="text-white/40 mb-3" />
+          <p className="text-xs font-display font-medium">Tudo certo com as {tracks.length} músicas</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {SECTIONS.map(({ kind, icon: Icon, title, hint }) => {
+          const list = issues.filter(i => i.kind === kind);
+          if (list.length === 0) return null;
+          return (
+            <section key={kind} className="space-y-1">
+              <div className="flex items-center space-x-2 text-white/80">
+                <Icon size={16} />
+                <h3 className="text-sm font-semibold uppercase tracking-wider">{title}</h3>
+                <span className="micro-label">{list.length}</span>
+              </div>
+              <p className="text-[10px] text-white/30 mb-2">{hint}</p>
+              {list.map(issue => {
+                const [primary, detail, action] = describe(issue);
+                const busy = busyKey === issue.key;
+                return (
+                  <div key={issue.key} className="flex items-center justify-between p-3 rounded-2xl bg-white/5">
+                    <div className="min-w-0">
+                      <p className="text-xs font-display font-bold text-white/90 truncate">{primary}</p>
+                      <p className="text-[10px] text-white/40 truncate">{detail}</p>
+                    </div>
+                    <button
+                      onClick={() => fix(issue)}
+                      disabled={busyKey !== null}
+                      className={`ml-3 flex-shrink-0 flex items-center space-x-1 px-3 py-1.5 rounded-lg text-[10px] font-bold transition-colors disabled:opacity-40 ${issue.kind === 'unreadable' ? 'bg-red-500/20 text-red-300 hover:bg-red-500/30' : 'bg-accent text-black hover:bg-accent/80'}`}
+                    >
+                      {busy ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                      <span>{action}</span>
+                    </button>
+                  </div>
+                );
+              })}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Minus, Plus, Timer } from 'lucide-react';
+import { PlaybackEngine } from '../utils/playbackEngine';
+import { ParsedLyrics, activeLineIndex, wordProgress } from '../utils/lyrics';
+
+interface LyricsPanelProps {
+  engine: PlaybackEngine | null;
+  lyrics: ParsedLyrics;
+  /** Lyrics without timestamps, shown instead when there are no timed lines. */
+  unsyncedText: string;
+  accentColor: string;
+  /** User adjustment for this track in ms; positive shows the lyrics earlier. */
+  offsetMs: number;
+  onOffsetChange: (ms: number) => void;
+  /** Opens the tap-to-sync editor. */
+  onStartSync: () => void;
+}
+
+const OFFSET_STEP_MS = 100;
+
+export default function LyricsPanel({ engine, lyrics, unsyncedText, accentColor, offsetMs, onOffsetChange, onStartSync }: LyricsPanelProps) {
+  const [positionMs, setPositionMs] = useState(0);
+  const lyricsRef = useRef<HTMLDivElement>(null);
+  const { lines } = lyrics;
+
+  // Word timing needs more than `timeupdate`'s few updates a second
+  useEffect(() => {
+    if (!engine) return;
+    let frame = 0;
+    const tick = () => {
+      setPositionMs(engine.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [engine]);
+
+  const lyricTime = positionMs + offsetMs;
+  const activeIndex = activeLineIndex(lines, lyricTime);
+
+  // Keep the active line centred
+  useEffect(() => {
+    const container = lyricsRef.current;
+    const el = container?.firstElementChild?.children[activeIndex] as HTMLElement | undefined;
+    if (!container || !el) return;
+    container.scrollTo({
+      top: el.offsetTop - container.clientHeight / 2 + el.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [activeIndex]);
+
+  const formatOffset = (ms: number) => `${ms > 0 ? '+' : ms < 0 ? '−' : '±'}${(Math.abs(ms) / 1000).toFixed(1)}s`;
+
+  if (lines.length === 0 && unsyncedText) {
+    return (
+      <>
+        <div className="flex justify-between items-center mb-6">
+          <span className="micro-label text-[10px] text-white/40">Letra</span>
+          <button
+            onClick={onStartSync}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-white/5 text-[10px] text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            <Timer size={12} />
+            <span>Sincronizar</span>
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto no-scrollbar">
+          <p className="text-base font-medium leading-relaxed text-center text-white/80 whitespace-pre-line pb-8">
+            {unsyncedText}
+          </p>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6">
+        <span className="micro-label text-[10px] text-white/40">Synchronized Lyrics</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onStartSync}
+            className="p-1 mr-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+            title="Sincronizar de novo"
+          >
+            <Timer size={12} />
+          </button>
+          <button
+            onClick={() => onOffsetChange(offsetMs - OFFSET_STEP_MS)}
+            className="p-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+            title="Atrasar letra"
+          >
+            <Minus size={12} />
+          </button>
+          <button
+            onClick={() => onOffsetChange(0)}
+            className={`timecode text-[10px] w-12 text-center ${offsetMs === 0 ? 'text-emerald-400' : 'text-accent'}`}
+            title="Zerar ajuste"
+          >
+            {formatOffset(offsetMs)}
+          </button>
+          <button
+            onClick={() => onOffsetChange(offsetMs + OFFSET_STEP_MS)}
+            className="p-1 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+            title="Adiantar letra"
+          >
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+      <div
+        ref={lyricsRef}
+        className="flex-1 overflow-y-auto no-scrollbar"
+        style={{
+          maskImage: 'linear-gradient(to bottom, transparent 0%, black 20%, black 80%, transparent 100%)',
+          WebkitMaskImage: 'linear-gradient(to bottom, transparent 0%, black 20%, black 80%, transparent 100%)',
+        }}
+      >
+        <div className="py-[50%] space-y-8">
+          {lines.length > 0 ? lines.map((line, i) => {
+            const isActive = i === activeIndex;
+            const progress = isActive && line.words ? wordProgress(line, lines[i + 1]?.time, lyricTime) : null;
+            return (
+              <motion.p
+                key={i}
+                animate={{ opacity: isActive ? 1 : 0.2, scale: isActive ? 1.05 : 1 }}
+                className="text-xl font-medium leading-relaxed text-center"
+                style={{ textShadow: isActive && !progress ? `0 0 20px ${accentColor}40` : 'none' }}
+              >
+                {progress ? line.words!.map((word, w) => (
+                  <span
+                    key={w}
+                    style={{
+                      backgroundImage: `linear-gradient(90deg, ${accentColor} ${progress[w] * 100}%, rgba(255,255,255,0.35) ${progress[w] * 100}%)`,
+                      WebkitBackgroundClip: 'text',
+                      backgroundClip: 'text',
+                      color: 'transparent',
+                    }}
+                  >
+                    {word.text}
+                  </span>
+                )) : line.text || '♪'}
+              </motion.p>
+            );
+          }) : (
+            <p className="text-white/40 text-center font-medium">Nenhuma letra encontrada.</p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Hand, Minus, Plus, RotateCcw, Play, Check, Download, X } from 'lucide-react';
+import { PlaybackEngine } from '../utils/playbackEngine';
+import { activeLineIndex, formatLrcTime, toLrc } from '../utils/lyrics';
+import { saveBlob, safeFileName } from '../utils/download';
+
+export interface SyncLine {
+  text: string;
+  /** ms; null until stamped */
+  time: number | null;
+}
+
+interface LyricsSyncEditorProps {
+  engine: PlaybackEngine | null;
+  /** Lines to time, already stamped where the lyrics were synced before. */
+  initialLines: SyncLine[];
+  title: string;
+  artist: string;
+  accentColor: string;
+  /** Starts playback through the player, which owns the play state. */
+  onPlay: () => void;
+  onSave: (lrc: string) => void;
+  onClose: () => void;
+}
+
+const NUDGE_MS = 100;
+const REWIND_SECONDS = 5;
+/** Preview starts this long before the first line. */
+const PREVIEW_LEAD_MS = 2000;
+
+/**
+ * Tap-to-sync: each tap stamps the current position on the next line.
+ * Rewinding also clears the stamps after the new position, so those lines
+ * can be tapped again.
+ */
+export default function LyricsSyncEditor({ engine, initialLines, title, artist, accentColor, onPlay, onSave, onClose }: LyricsSyncEditorProps) {
+  const [lines, setLines] = useState<SyncLine[]>(initialLines);
+  const [cursor, setCursor] = useState(() => Math.max(0, initialLines.findIndex(l => l.time === null)));
+  const [positionMs, setPositionMs] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!engine) return;
+    let frame = 0;
+    const tick = () => {
+      setPositionMs(engine.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [engine]);
+
+  const timed = useMemo(
+    () => lines.map((line, index) => ({ ...line, index })).filter(l => l.time !== null).sort((a, b) => a.time! - b.time!),
+    [lines]
+  );
+  const playing = timed[activeLineIndex(timed.map(l => ({ time: l.time!, text: l.text })), positionMs)]?.index ?? -1;
+  const missing = lines.filter(l => l.time === null).length;
+
+  useEffect(() => {
+    const el = listRef.current?.children[cursor] as HTMLElement | undefined;
+    el?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [cursor]);
+
+  const stampAt = (index: number, time: number | null) =>
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, time } : line));
+
+  const handleTap = () => {
+    if (!engine || cursor >= lines.length) return;
+    stampAt(cursor, Math.round(engine.currentTime * 1000));
+    setCursor(cursor + 1);
+  };
+
+  // The line just stamped, or the selected one when it already has a time
+  const nudgeTarget = lines[cursor] && lines[cursor].time !== null ? cursor : cursor - 1;
+  const handleNudge = (delta: number) => {
+    const time = lines[nudgeTarget]?.time;
+    if (time === null || time === undefined) return;
+    stampAt(nudgeTarget, Math.max(0, time + delta));
+  };
+
+  const handleRewind = () => {
+    if (!engine) return;
+    const to = Math.max(0, engine.currentTime - REWIND_SECONDS);
+    engine.currentTime = to;
+    const cleared = lines.map(line => line.time !== null && line.time > to * 1000 ? { ...line, time: null } : line);
+    setLines(cleared);
+    const next = cleared.findIndex(l => l.time === null);
+    setCursor(next === -1 ? lines.length : next);
+  };
+
+  const handleSelect = (index: number) => {
+    setCursor(index);
+    const time = lines[index].time;
+    if (engine && time !== null) engine.currentTime = Math.max(0, time - PREVIEW_LEAD_MS) / 1000;
+  };
+
+  const handlePreview = () => {
+    if (!engine || timed.length === 0) return;
+    engine.currentTime = Math.max(0, timed[0].time! - PREVIEW_LEAD_MS) / 1000;
+    onPlay();
+  };
+
+  const buildLrc = () => toLrc(timed.map(l => ({ time: l.time!, text: l.text })), { ti: title, ar: artist });
+
+  const handleExport = async () => {
+    try {
+      await saveBlob(new Blob([buildLrc()], { type: 'text/plain' }), safeFileName(`${artist} - ${title}.lrc`));
+    } catch (err) {
+      console.error('Failed to export lyrics:', err);
+    }
+  };
+
+  const iconButton = 'p-2 rounded-xl bg-white/5 text-white/60 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30';
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <span className="micro-label text-[10px] text-white/40">Sincronizar letra</span>
+        <div className="flex items-center space-x-2">
+          <span className="timecode text-[10px] text-white/40">{formatLrcTime(positionMs)}</span>
+          <button onClick={onClose} className="p-1 rounded-md text-white/40 hover:text-white" title="Fechar">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto no-scrollbar space-y-1">
+        {lines.map((line, i) => (
+          <button
+            key={i}
+            onClick={() => handleSelect(i)}
+            className={`w-full flex items-baseline space-x-3 px-3 py-2 rounded-xl text-left transition-colors ${i === cursor ? 'bg-white/10' : 'hover:bg-white/5'}`}
+          >
+            <span className={`timecode text-[10px] w-14 flex-shrink-0 ${line.time === null ? 'text-white/20' : 'text-white/50'}`}>
+              {line.time === null ? '--:--.--' : formatLrcTime(line.time)}
+            </span>
+            <span
+              className={`text-sm font-medium ${i === playing ? '' : line.time === null ? 'text-white/40' : 'text-white/80'}`}
+              style={i === playing ? { color: accentColor } : undefined}
+            >
+              {line.text}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="pt-4 space-y-3">
+        <button
+          onClick={handleTap}
+          disabled={!engine || cursor >= lines.length}
+          className="w-full flex items-center justify-center space-x-2 py-3 rounded-2xl bg-accent text-black font-bold text-sm disabled:opacity-40"
+        >
+          <Hand size={16} />
+          <span>{cursor < lines.length ? 'Marcar linha' : 'Todas as linhas marcadas'}</span>
+        </button>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <button onClick={handleRewind} disabled={!engine} className={iconButton} title={`Voltar ${REWIND_SECONDS}s`}>
+              <RotateCcw size={14} />
+            </button>
+            <button onClick={() => handleNudge(-NUDGE_MS)} disabled={nudgeTarget < 0} className={iconButton} title="Mais cedo">
+              <Minus size={14} />
+            </button>
+            <button onClick={() => handleNudge(NUDGE_MS)} disabled={nudgeTarget < 0} className={iconButton} title="Mais tarde">
+              <Plus size={14} />
+            </button>
+            <button onClick={handlePreview} disabled={!engine || timed.length === 0} className={iconButton} title="Pré-ouvir">
+              <Play size={14} />
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={handleExport} disabled={timed.length === 0} className={iconButton} title="Exportar .lrc">
+              <Download size={14} />
+            </button>
+            <button
+              onClick={() => onSave(buildLrc())}
+              disabled={missing > 0}
+              className="flex items-center space-x-1 px-3 py-2 rounded-xl bg-white text-black text-xs font-bold disabled:opacity-30"
+              title={missing > 0 ? `${missing} linhas sem tempo` : 'Salvar na biblioteca'}
+            >
+              <Check size={14} />
+              <span>Salvar</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,14 +1,18 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, useMotionValue, useTransform, AnimatePresence } from 'motion/react';
 import { Play, Pause, SkipBack, SkipForward, Repeat, Shuffle, Volume2, Languages } from 'lucide-react';
 import SpectrumAnalyzer from './SpectrumAnalyzer';
+import LyricsPanel from './LyricsPanel';
+import LyricsSyncEditor, { SyncLine } from './LyricsSyncEditor';
+import { PlaybackEngine } from '../utils/playbackEngine';
+import { parseLrc, plainLyrics } from '../utils/lyrics';
+import type { ShuffleMode } from '../utils/shuffle';
 
 interface PlayerProps {
   isPlaying: boolean;
   setIsPlaying: (playing: boolean) => void;
   accentColor: string;
-  audioSource: string | null;
-  audioRef: React.RefObject<HTMLAudioElement | null>;
+  engine: PlaybackEngine | null;
   trackInfo: { title: string; artist: string; coverUrl?: string; lyrics?: string };
   onNext: () => void;
   onPrevious: () => void;
@@ -18,23 +22,23 @@ interface PlayerProps {
   isHiRes?: boolean;
   is24Bit?: boolean;
   nextTrack?: { title: string; artist: string; coverUrl?: string; lyrics?: string };
-  isShuffle: boolean;
-  setIsShuffle: (v: boolean) => void;
+  shuffleMode: ShuffleMode;
+  /** Off, then tracks, then albums. */
+  onCycleShuffle: () => void;
   isRepeat: boolean;
   setIsRepeat: (v: boolean) => void;
-}
-
-interface LyricLine {
-  time: number; // ms
-  text: string;
+  /** Saved lyrics timing adjustment of the loaded track, in ms. */
+  lyricsOffset: number;
+  onLyricsOffsetChange: (ms: number) => void;
+  /** Stores lyrics timed in the sync editor on the loaded track. */
+  onSaveLyrics: (lrc: string) => void;
 }
 
 export default function Player({
   isPlaying,
   setIsPlaying,
   accentColor,
-  audioSource,
-  audioRef,
+  engine,
   trackInfo,
   onNext,
   onPrevious,
@@ -44,98 +48,71 @@ export default function Player({
   isHiRes = false,
   is24Bit = false,
   nextTrack,
-  isShuffle,
-  setIsShuffle,
+  shuffleMode,
+  onCycleShuffle,
   isRepeat,
-  setIsRepeat
+  setIsRepeat,
+  lyricsOffset,
+  onLyricsOffsetChange,
+  onSaveLyrics
 }: PlayerProps) {
   const [currentTimeMs, setCurrentTimeMs] = useState(0);
   const [durationMs, setDurationMs] = useState(0);
   const [showLyrics, setShowLyrics] = useState(false);
+  const [isSyncingLyrics, setIsSyncingLyrics] = useState(false);
   const [isVinylMode, setIsVinylMode] = useState(false);
-  const [parsedLyrics, setParsedLyrics] = useState<LyricLine[]>([]);
-  const lyricsRef = useRef<HTMLDivElement>(null);
 
   const x = useMotionValue(0);
   const rotate = useTransform(x, [-100, 100], [-10, 10]);
   const opacity = useTransform(x, [-150, -100, 0, 100, 150], [0, 0.5, 1, 0.5, 0]);
 
   // Parse Lyrics
-  useEffect(() => {
-    if (trackInfo.lyrics) {
-      const lines = trackInfo.lyrics.split('\n');
-      const regex = /\[(\d{2}):(\d{2}(?:\.\d{2,3})?)\](.*)/;
-      const parsed: LyricLine[] = [];
+  const lyrics = useMemo(() => parseLrc(trackInfo.lyrics || ''), [trackInfo.lyrics]);
+  // Lyrics without timing are shown as plain text
+  const unsyncedLyrics = lyrics.lines.length === 0 ? plainLyrics(trackInfo.lyrics || '') : '';
+  const hasLyrics = lyrics.lines.length > 0 || unsyncedLyrics !== '';
 
-      lines.forEach(line => {
-        const match = regex.exec(line);
-        if (match) {
-          const minutes = parseInt(match[1]);
-          const seconds = parseFloat(match[2]);
-          const text = match[3].trim();
-          if (text) {
-            parsed.push({ time: (minutes * 60 + seconds) * 1000, text });
-          }
-        }
-      });
-      setParsedLyrics(parsed.sort((a, b) => a.time - b.time));
-    } else {
-      setParsedLyrics([]);
-    }
-  }, [trackInfo.lyrics]);
+  // Synced lyrics are re-timed from their current stamps (word timing is dropped)
+  const syncLines = (): SyncLine[] => lyrics.lines.length > 0
+    ? lyrics.lines.filter(l => l.text).map(l => ({ text: l.text, time: l.time }))
+    : unsyncedLyrics.split('\n').map(l => l.trim()).filter(Boolean).map(text => ({ text, time: null }));
 
-  // Subscribe to the persistent audio element's time/duration events
+  useEffect(() => setIsSyncingLyrics(false), [trackInfo.title, trackInfo.artist]);
+
+  // Subscribe to the persistent playback engine's time/duration events
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    if (!engine) return;
 
-    const onTimeUpdate = () => setCurrentTimeMs(audio.currentTime * 1000);
-    const onLoadedMetadata = () => setDurationMs(audio.duration * 1000);
+    const onLoadStart = () => { setCurrentTimeMs(0); setDurationMs(0); };
+    const onTimeUpdate = () => setCurrentTimeMs(engine.currentTime * 1000);
+    const onLoadedMetadata = () => setDurationMs(engine.duration * 1000);
     const onEnded = () => { setCurrentTimeMs(0); };
 
-    audio.addEventListener('timeupdate', onTimeUpdate);
-    audio.addEventListener('loadedmetadata', onLoadedMetadata);
-    audio.addEventListener('ended', onEnded);
+    // The engine may already be mid-track when the player tab mounts
+    onLoadedMetadata();
+    onTimeUpdate();
+
+    engine.addEventListener('loadstart', onLoadStart);
+    engine.addEventListener('timeupdate', onTimeUpdate);
+    engine.addEventListener('loadedmetadata', onLoadedMetadata);
+    engine.addEventListener('ended', onEnded);
 
     return () => {
-      audio.removeEventListener('timeupdate', onTimeUpdate);
-      audio.removeEventListener('loadedmetadata', onLoadedMetadata);
-      audio.removeEventListener('ended', onEnded);
+      engine.removeEventListener('loadstart', onLoadStart);
+      engine.removeEventListener('timeupdate', onTimeUpdate);
+      engine.removeEventListener('loadedmetadata', onLoadedMetadata);
+      engine.removeEventListener('ended', onEnded);
     };
-  }, [audioRef]);
+  }, [engine]);
 
   // Seek on progress bar click
   const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!audioRef.current || !durationMs) return;
+    if (!engine || !durationMs) return;
     const rect = e.currentTarget.getBoundingClientRect();
     const ratio = (e.clientX - rect.left) / rect.width;
-    audioRef.current.currentTime = ratio * (durationMs / 1000);
+    engine.currentTime = ratio * (durationMs / 1000);
   };
 
-  // Reset time display when source changes
-  useEffect(() => {
-    setCurrentTimeMs(0);
-    setDurationMs(0);
-  }, [audioSource]);
-
-  // Lyrics scroll sync
-  useEffect(() => {
-    if (showLyrics && lyricsRef.current && parsedLyrics.length > 0) {
-      const idx = parsedLyrics.findIndex((l, i) =>
-        currentTimeMs >= l.time && (i === parsedLyrics.length - 1 || currentTimeMs < parsedLyrics[i + 1].time)
-      );
-      if (idx !== -1) {
-        const el = lyricsRef.current.children[idx] as HTMLElement;
-        if (el) {
-          lyricsRef.current.scrollTo({
-            top: el.offsetTop - lyricsRef.current.clientHeight / 2 + el.clientHeight / 2,
-            behavior: 'smooth',
-          });
-        }
-      }
-    }
-  }, [currentTimeMs, showLyrics, parsedLyrics]);
-
   const handleDragEnd = (_: any, info: any) => {
     if (info.offset.x > 100) onPrevious();
     if (info.offset.x < -100) onNext();
@@ -178,7 +155,7 @@ export default function Player({
           {/* Lyrics toggle - nested to avoid overlap */}
           <button
             onClick={(e) => { e.stopPropagation(); setShowLyrics(!showLyrics); }}
-            className={`absolute bottom-4 right-4 p-3 rounded-full transition-all z-30 shadow-lg ${showLyrics ? 'bg-white text-black' : 'bg-black/40 text-white/70 hover:text-white backdrop-blur-md border border-white/10'} ${parsedLyrics.length > 0 ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+            className={`absolute bottom-4 right-4 p-3 rounded-full transition-all z-30 shadow-lg ${showLyrics ? 'bg-white text-black' : 'bg-black/40 text-white/70 hover:text-white backdrop-blur-md border border-white/10'} ${hasLyrics ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
           >
             <Languages size={18} />
           </button>
@@ -195,37 +172,28 @@ export default function Player({
               exit={{ opacity: 0, y: 20 }}
               className="absolute inset-0 z-20 bg-black/50 backdrop-blur-xl rounded-3xl border border-white/10 flex flex-col p-8 overflow-hidden"
             >
-              <div className="flex justify-between items-center mb-6">
-                <span className="micro-label text-[10px] text-white/40">Synchronized Lyrics</span>
-                <span className="timecode text-[10px] text-emerald-400">±1ms Sync</span>
-              </div>
-              <div
-                ref={lyricsRef}
-                className="flex-1 overflow-y-auto no-scrollbar"
-                style={{
-                  maskImage: 'linear-gradient(to bottom, transparent 0%, black 20%, black 80%, transparent 100%)',
-                  WebkitMaskImage: 'linear-gradient(to bottom, transparent 0%, black 20%, black 80%, transparent 100%)',
-                }}
-              >
-                <div className="py-[50%] space-y-8">
-                  {parsedLyrics.length > 0 ? parsedLyrics.map((line, i) => {
-                    const isActive = currentTimeMs >= line.time &&
-                      (i === parsedLyrics.length - 1 || currentTimeMs < parsedLyrics[i + 1].time);
-                    return (
-                      <motion.p
-                        key={i}
-                        animate={{ opacity: isActive ? 1 : 0.2, scale: isActive ? 1.05 : 1 }}
-                        className="text-xl font-medium leading-relaxed text-center"
-                        style={{ textShadow: isActive ? `0 0 20px ${accentColor}40` : 'none' }}
-                      >
-                        {line.text}
-                      </motion.p>
-                    );
-                  }) : (
-                    <p className="text-white/40 text-center font-medium">Nenhuma letra encontrada.</p>
-                  )}
-                </div>
-              </div>
+              {isSyncingLyrics ? (
+                <LyricsSyncEditor
+                  engine={engine}
+                  initialLines={syncLines()}
+                  title={trackInfo.title}
+                  artist={trackInfo.artist}
+                  accentColor={accentColor}
+                  onPlay={() => setIsPlaying(true)}
+                  onSave={(lrc) => { onSaveLyrics(lrc); setIsSyncingLyrics(false); }}
+                  onClose={() => setIsSyncingLyrics(false)}
+                />
+              ) : (
+                <LyricsPanel
+                  engine={engine}
+                  lyrics={lyrics}
+                  unsyncedText={unsyncedLyrics}
+                  accentColor={accentColor}
+                  offsetMs={lyricsOffset}
+                  onOffsetChange={onLyricsOffsetChange}
+                  onStartSync={() => setIsSyncingLyrics(true)}
+                />
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -281,10 +249,12 @@ export default function Player({
       {/* Controls */}
       <div className="mt-4 flex items-center justify-between px-4">
         <button
-          onClick={() => setIsShuffle(!isShuffle)}
-          className={`transition-colors ${isShuffle ? 'text-accent' : 'text-white/20 hover:text-white'}`}
+          onClick={onCycleShuffle}
+          className={`relative transition-colors ${shuffleMode !== 'off' ? 'text-accent' : 'text-white/20 hover:text-white'}`}
+          title={shuffleMode === 'off' ? 'Aleatório desligado' : shuffleMode === 'tracks' ? 'Aleatório por faixa' : 'Aleatório por álbum'}
         >
           <Shuffle size={16} />
+          {shuffleMode === 'albums' && <span className="absolute -top-2 -right-2 text-[8px] font-bold">A</span>}
         </button>
 
         <div className="flex items-center space-x-6">
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Reorder, useDragControls } from 'motion/react';
+import { GripVertical, X, Undo2, ListX, History, PlayCircle, Shuffle } from 'lucide-react';
+import TrackArtwork from './TrackArtwork';
+import { splitQueue } from '../utils/queue';
+import type { ShuffleMode, ShuffleState, ShuffleWeight } from '../utils/shuffle';
+
+interface QueueTrack {
+  id: number;
+  libraryId?: number;
+  title: string;
+  artist: string;
+  format?: string;
+}
+
+interface QueueViewProps {
+  queue: QueueTrack[];
+  currentIndex: number;
+  /** Plays an entry and carries on through the queue from there. */
+  onPlay: (track: QueueTrack) => void;
+  /** New order of the entries after the current one. */
+  onReorder: (ids: number[]) => void;
+  onRemove: (ids: number[]) => void;
+  onClear: () => void;
+  onClearHistory: () => void;
+  onUndo: () => void;
+  canUndo: boolean;
+  shuffle: ShuffleState;
+  /** Choosing the current mode again reshuffles. */
+  onShuffleChange: (mode: ShuffleMode, weight?: ShuffleWeight) => void;
+}
+
+const SHUFFLE_MODES: { mode: ShuffleMode; label: string }[] = [
+  { mode: 'off', label: 'Desligado' },
+  { mode: 'tracks', label: 'Faixas' },
+  { mode: 'albums', label: 'Álbuns' },
+];
+
+const SHUFFLE_WEIGHTS: { weight: ShuffleWeight; label: string }[] = [
+  { weight: 'none', label: 'Igual' },
+  { weight: 'rating', label: 'Avaliação' },
+  { weight: 'plays', label: 'Reproduções' },
+];
+
+const rowClass = 'group flex items-center p-2 rounded-2xl transition-colors';
+
+// Rows rendered per section before "Mostrar mais"; a whole library can be queued
+const ROW_PAGE = 100;
+
+const TrackLabel = ({ track, highlight = false }: { track: QueueTrack; highlight?: boolean }) => (
+  <>
+    <div className="relative w-10 h-10 rounded-xl overflow-hidden mr-3 flex-shrink-0 bg-white/5">
+      <TrackArtwork id={track.libraryId ?? track.id} />
+    </div>
+    <div className="flex-1 min-w-0">
+      <h4 className={`text-sm font-display font-bold truncate ${highlight ? 'text-accent' : 'text-white/90'}`}>{track.title}</h4>
+      <span className="text-[10px] text-white/40 truncate font-medium block">{track.artist}</span>
+    </div>
+  </>
+);
+
+interface UpcomingRowProps {
+  // Without React's JSX types a custom component has to declare `key` itself
+  key?: React.Key;
+  track: QueueTrack;
+  onPlay: () => void;
+  onRemove: () => void;
+  onDragEnd: () => void;
+}
+
+/** An upcoming entry; dragged by its handle so the list still scrolls by touch. */
+function UpcomingRow({ track, onPlay, onRemove, onDragEnd }: UpcomingRowProps) {
+  const controls = useDragControls();
+  return (
+    <Reorder.Item
+      value={track}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+      className={`${rowClass} bg-[#141414] hover:bg-white/5`}
+    >
+      <button
+        onPointerDown={(e) => controls.start(e)}
+        className="p-1 mr-1 text-white/20 hover:text-white/60 cursor-grab active:cursor-grabbing touch-none"
+        title="Arrastar"
+      >
+        <GripVertical size={16} />
+      </button>
+      <div onClick={onPlay} className="flex flex-1 items-center min-w-0 cursor-pointer" title="Tocar a partir daqui">
+        <TrackLabel track={track} />
+      </div>
+      <button onClick={onRemove} className="p-2 ml-2 rounded-xl text-white/30 hover:text-red-500 transition-colors" title="Remover da fila">
+        <X size={16} />
+      </button>
+    </Reorder.Item>
+  );
+}
+
+export default function QueueView({ queue, currentIndex, onPlay, onReorder, onRemove, onClear, onClearHistory, onUndo, canUndo, shuffle, onShuffleChange }: QueueViewProps) {
+  const { played, current, upcoming } = splitQueue({ entries: queue, index: currentIndex });
+  const [shownUpcoming, setShownUpcoming] = useState(ROW_PAGE);
+  const [shownPlayed, setShownPlayed] = useState(ROW_PAGE);
+  // Dragging reorders a local copy of the shown rows; the queue changes once, on drop
+  const [order, setOrder] = useState(() => upcoming.slice(0, shownUpcoming));
+  useEffect(() => setOrder(upcoming.slice(0, shownUpcoming)), [queue, currentIndex, shownUpcoming]);
+
+  // Entries past the shown rows keep their order after them
+  const commitOrder = () => {
+    if (order.some((track, i) => track.id !== upcoming[i]?.id)) onReorder(order.map(t => t.id));
+  };
+
+  const showMore = (hidden: number, onClick: () => void) => hidden > 0 && (
+    <button onClick={onClick} className="w-full mt-2 py-2 rounded-xl bg-white/5 text-[10px] font-bold text-white/40 hover:text-white transition-colors">
+      Mostrar mais ({hidden} ocultas)
+    </button>
+  );
+
+  const pill = (active: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-[9px] font-mono font-bold uppercase transition-colors ${active ? 'bg-accent text-black' : 'bg-white/5 text-white/60 hover:text-white'}`;
+
+  const sectionTitle = (icon: React.ReactNode, title: string, action?: React.ReactNode) => (
+    <div className="flex items-center justify-between mt-6 mb-2">
+      <div className="flex items-center space-x-2 text-white/80">
+        {icon}
+        <h3 className="text-sm font-semibold uppercase tracking-wider">{title}</h3>
+      </div>
+      {action}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="p-4 rounded-3xl bg-white/5 border border-white/5 flex items-center justify-between">
+        <div className="min-w-0">
+          <h3 className="text-lg font-display font-bold text-white/90">Fila</h3>
+          <p className="micro-label">{upcoming.length} a seguir · {played.length} tocadas</p>
+        </div>
+        <div className="flex items-center space-x-1 text-white/40">
+          <button onClick={onUndo} disabled={!canUndo} className="p-2 rounded-full hover:text-white transition-colors disabled:opacity-20" title="Desfazer">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onClear} disabled={upcoming.length === 0} className="p-2 rounded-full hover:text-red-400 transition-colors disabled:opacity-20" title="Limpar próximas">
+            <ListX size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 p-4 rounded-3xl bg-white/5 border border-white/5 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="micro-label text-[10px] text-white/40">Aleatório</span>
+          {shuffle.mode !== 'off' && (
+            <button onClick={() => onShuffleChange(shuffle.mode)} className="flex items-center space-x-1 text-[10px] font-bold text-white/40 hover:text-white transition-colors">
+              <Shuffle size={12} />
+              <span>Embaralhar de novo</span>
+            </button>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          {SHUFFLE_MODES.map(({ mode, label }) => (
+            <button key={mode} onClick={() => mode !== shuffle.mode && onShuffleChange(mode)} className={pill(shuffle.mode === mode)}>
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          {SHUFFLE_WEIGHTS.map(({ weight, label }) => (
+            <button
+              key={weight}
+              onClick={() => weight !== shuffle.weight && onShuffleChange(shuffle.mode, weight)}
+              className={pill(shuffle.weight === weight)}
+              title="Peso do aleatório"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {current && (
+        <>
+          {sectionTitle(<PlayCircle size={16} />, 'Tocando agora')}
+          <div className={`${rowClass} bg-accent/15 border border-accent/30`}>
+            <TrackLabel track={current} highlight />
+          </div>
+        </>
+      )}
+
+      {sectionTitle(<GripVertical size={16} />, 'A seguir')}
+      {order.length === 0 ? (
+        <p className="text-[10px] text-white/30 px-2">Nada na fila. Use “Tocar próxima” ou “Adicionar à fila” nas músicas.</p>
+      ) : (
+        <Reorder.Group axis="y" values={order} onReorder={setOrder} className="space-y-1">
+          {order.map(track => (
+            <UpcomingRow key={track.id} track={track} onPlay={() => onPlay(track)} onRemove={() => onRemove([track.id])} onDragEnd={commitOrder} />
+          ))}
+        </Reorder.Group>
+      )}
+      {showMore(upcoming.length - order.length, () => setShownUpcoming(n => n + ROW_PAGE))}
+
+      {played.length > 0 && (
+        <>
+          {sectionTitle(<History size={16} />, 'Tocadas', (
+            <button onClick={onClearHistory} className="text-[10px] font-bold text-white/40 hover:text-white transition-colors">
+              Limpar histórico
+            </button>
+          ))}
+          <div className="space-y-1 opacity-60">
+            {played.slice(-shownPlayed).reverse().map(track => (
+              <div key={track.id} onClick={() => onPlay(track)} className={`${rowClass} hover:bg-white/5 cursor-pointer`} title="Tocar a partir daqui">
+                <TrackLabel track={track} />
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRemove([track.id]); }}
+                  className="p-2 ml-2 rounded-xl text-white/30 hover:text-red-500 sm:opacity-0 sm:group-hover:opacity-100 transition-all"
+                  title="Remover da fila"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          {showMore(played.length - shownPlayed, () => setShownPlayed(n => n + ROW_PAGE))}
+        </>
+      )}
+    </div>
+  );
+}
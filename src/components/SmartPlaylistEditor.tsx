@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, Sparkles, Plus, Trash2, Check } from 'lucide-react';
+import {
+  SmartPlaylist,
+  SmartRule,
+  SmartTrack,
+  RuleField,
+  SortField,
+  RULE_FIELDS,
+  OPERATORS,
+  TIME_UNITS,
+  SMART_TEMPLATES,
+  defaultRule,
+  evaluateSmartPlaylist
+} from '../utils/smartPlaylists';
+
+interface SmartPlaylistEditorProps {
+  /** Playlist being edited; the editor is closed while null. */
+  playlist: SmartPlaylist | null;
+  isNew: boolean;
+  tracks: SmartTrack[];
+  onSave: (playlist: SmartPlaylist) => void;
+  onClose: () => void;
+}
+
+const FIELD_IDS = Object.keys(RULE_FIELDS) as RuleField[];
+
+/** Numbers typed into text inputs are stored as numbers. */
+const cleanRule = (rule: SmartRule): SmartRule => {
+  const type = RULE_FIELDS[rule.field].type;
+  if (type === 'number' || type === 'date') return { ...rule, value: Number(rule.value) || 0 };
+  if (rule.operator === 'in' || rule.operator === 'notIn') {
+    const list = Array.isArray(rule.value) ? rule.value : String(rule.value).split(',');
+    return { ...rule, value: list.map(v => v.trim()).filter(Boolean) };
+  }
+  return rule;
+};
+
+export default function SmartPlaylistEditor({ playlist, isNew, tracks, onSave, onClose }: SmartPlaylistEditorProps) {
+  const [draft, setDraft] = useState<SmartPlaylist | null>(playlist);
+
+  useEffect(() => setDraft(playlist), [playlist]);
+
+  const matches = useMemo(
+    () => draft ? evaluateSmartPlaylist({ ...draft, rules: draft.rules.map(cleanRule), sort: { field: 'title', direction: 'asc' } }, tracks).length : 0,
+    [draft, tracks]
+  );
+
+  const update = (changes: Partial<SmartPlaylist>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const updateRule = (index: number, changes: Partial<SmartRule>) => setDraft(prev => prev && {
+    ...prev,
+    rules: prev.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+  });
+
+  const changeField = (index: number, field: RuleField) => setDraft(prev => prev && {
+    ...prev,
+    rules: prev.rules.map((rule, i) => i !== index ? rule
+      : RULE_FIELDS[rule.field].type === RULE_FIELDS[field].type ? { ...rule, field } : defaultRule(field))
+  });
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), rules: draft.rules.map(cleanRule), updatedAt: Date.now() });
+  };
+
+  const inputClass = 'bg-white/5 border border-white/10 rounded-xl py-2 px-3 text-xs text-white placeholder:text-white/20 focus:outline-none focus:border-accent/50 transition-colors';
+
+  const renderValue = (rule: SmartRule, index: number) => {
+    const type = RULE_FIELDS[rule.field].type;
+    if (type === 'boolean') {
+      return (
+        <select value={rule.value ? 'yes' : 'no'} onChange={(e) => updateRule(index, { value: e.target.value === 'yes' })} className={`${inputClass} flex-1`}>
+          <option value="yes">sim</option>
+          <option value="no">não</option>
+        </select>
+      );
+    }
+    return (
+      <>
+        <input
+          type="text"
+          inputMode={type === 'text' ? undefined : 'decimal'}
+          value={Array.isArray(rule.value) ? rule.value.join(', ') : String(rule.value)}
+          placeholder={rule.operator === 'in' || rule.operator === 'notIn' ? 'FLAC, WAV' : ''}
+          onChange={(e) => updateRule(index, { value: e.target.value })}
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+        {type === 'date' && (
+          <select value={rule.unit || 'days'} onChange={(e) => updateRule(index, { unit: e.target.value as SmartRule['unit'] })} className={inputClass}>
+            {TIME_UNITS.map(u => <option key={u.unit} value={u.unit}>{u.label}</option>)}
+          </select>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {draft && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md max-h-[85vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-display font-bold text-white flex items-center">
+                <Sparkles size={20} className="mr-2 text-accent" />
+                {isNew ? 'Nova playlist inteligente' : 'Editar playlist inteligente'}
+              </h3>
+              <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-4 pr-1">
+              {isNew && (
+                <div className="flex flex-wrap gap-2">
+                  {SMART_TEMPLATES.map(template => (
+                    <button
+                      key={template.name}
+                      onClick={() => update({ ...template.playlist, name: template.name })}
+                      className="px-3 py-1.5 rounded-lg bg-white/5 text-[10px] font-bold text-white/50 hover:text-white transition-colors"
+                    >
+                      {template.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <label className="block">
+                <span className="micro-label block mb-1">Nome</span>
+                <input
+                  type="text"
+                  autoFocus
+                  value={draft.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className={`${inputClass} w-full text-sm py-2.5`}
+                />
+              </label>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="micro-label">Regras</span>
+                  <select value={draft.match} onChange={(e) => update({ match: e.target.value as SmartPlaylist['match'] })} className={inputClass}>
+                    <option value="all">Todas devem valer</option>
+                    <option value="any">Qualquer uma vale</option>
+                  </select>
+                </div>
+                {draft.rules.map((rule, i) => (
+                  <div key={i} className="p-2 rounded-2xl bg-white/5 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <select value={rule.field} onChange={(e) => changeField(i, e.target.value as RuleField)} className={`${inputClass} flex-1`}>
+                        {FIELD_IDS.map(id => <option key={id} value={id}>{RULE_FIELDS[id].label}</option>)}
+                      </select>
+                      <select value={rule.operator} onChange={(e) => updateRule(i, { operator: e.target.value as SmartRule['operator'] })} className={`${inputClass} flex-1`}>
+                        {OPERATORS[RULE_FIELDS[rule.field].type].map(o => <option key={o.operator} value={o.operator}>{o.label}</option>)}
+                      </select>
+                      <button
+                        onClick={() => update({ rules: draft.rules.filter((_, j) => j !== i) })}
+                        className="p-2 rounded-full text-white/30 hover:text-red-400 transition-colors"
+                        aria-label="Remover regra"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    <div className="flex items-center space-x-2">{renderValue(rule, i)}</div>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update({ rules: [...draft.rules, defaultRule()] })}
+                  className="w-full flex items-center justify-center space-x-2 py-2 rounded-xl border border-dashed border-white/10 text-[10px] font-bold text-white/40 hover:text-white transition-colors"
+                >
+                  <Plus size={12} />
+                  <span>Adicionar regra</span>
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="col-span-2">
+                  <span className="micro-label block mb-1">Ordenar por</span>
+                  <div className="flex space-x-2">
+                    <select
+                      value={draft.sort.field}
+                      onChange={(e) => update({ sort: { ...draft.sort, field: e.target.value as SortField } })}
+                      className={`${inputClass} flex-1`}
+                    >
+                      {FIELD_IDS.map(id => <option key={id} value={id}>{RULE_FIELDS[id].label}</option>)}
+                      <option value="random">Aleatório</option>
+                    </select>
+                    <select
+                      value={draft.sort.direction}
+                      disabled={draft.sort.field === 'random'}
+                      onChange={(e) => update({ sort: { ...draft.sort, direction: e.target.value as 'asc' | 'desc' } })}
+                      className={`${inputClass} disabled:opacity-30`}
+                    >
+                      <option value="asc">Crescente</option>
+                      <option value="desc">Decrescente</option>
+                    </select>
+                  </div>
+                </label>
+                <label className="col-span-2">
+                  <span className="micro-label block mb-1">Limite de músicas</span>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={draft.limit ?? ''}
+                    placeholder="Sem limite"
+                    onChange={(e) => {
+                      const limit = parseInt(e.target.value.replace(/\D/g, ''), 10);
+                      update({ limit: limit > 0 ? limit : undefined });
+                    }}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center pt-4 mt-2 border-t border-white/5">
+              <span className="micro-label">
+                {draft.limit && matches > draft.limit ? `${draft.limit} de ${matches}` : matches} músicas
+              </span>
+              <button
+                onClick={save}
+                disabled={!draft.name.trim()}
+                className="flex items-center space-x-2 px-5 py-2 rounded-xl text-sm font-bold text-black bg-accent hover:bg-accent/90 transition-colors shadow-[0_0_15px_rgba(234,179,8,0.3)] disabled:opacity-40"
+              >
+                <Check size={16} />
+                <span>Salvar</span>
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
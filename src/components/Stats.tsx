@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, Trophy, Mic2, Clock, EyeOff, Heart, PlayCircle } from 'lucide-react';
+import { getHistory } from '../utils/db';
+import { ListenEvent, listeningByWeek, weekStart } from '../utils/history';
+import { artistKey } from '../utils/library';
+
+interface StatsTrack {
+  id: number;
+  title: string;
+  artist: string;
+  albumArtist?: string;
+  playCount?: number;
+  favourite?: boolean;
+}
+
+interface StatsProps {
+  tracks: StatsTrack[];
+  onSelectTrack: (track: StatsTrack) => void;
+}
+
+const WEEKS = 12;
+const TOP = 10;
+
+const formatHours = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}min` : `${minutes}min`;
+};
+
+export default function Stats({ tracks, onSelectTrack }: StatsProps) {
+  const [events, setEvents] = useState<ListenEvent[]>([]);
+
+  useEffect(() => {
+    const since = weekStart(Date.now()) - (WEEKS - 1) * 7 * 24 * 60 * 60 * 1000;
+    getHistory(since)
+      .then(setEvents)
+      .catch(err => console.error('Failed to load listening history:', err));
+  }, []);
+
+  const weeks = useMemo(() => listeningByWeek(events, WEEKS), [events]);
+  const longestWeek = Math.max(1, ...weeks.map(w => w.seconds));
+  const totalSeconds = weeks.reduce((sum, w) => sum + w.seconds, 0);
+
+  const mostPlayed = useMemo(
+    () => tracks.filter(t => (t.playCount || 0) > 0).sort((a, b) => (b.playCount || 0) - (a.playCount || 0)).slice(0, TOP),
+    [tracks]
+  );
+
+  const topArtists = useMemo(() => {
+    const plays = new Map<string, number>();
+    tracks.forEach(t => {
+      const artist = artistKey(t);
+      if (artist && t.playCount) plays.set(artist, (plays.get(artist) || 0) + t.playCount);
+    });
+    return Array.from(plays.entries()).sort((a, b) => b[1] - a[1]).slice(0, TOP);
+  }, [tracks]);
+
+  const neverPlayed = useMemo(() => tracks.filter(t => !t.playCount), [tracks]);
+  const favourites = tracks.filter(t => t.favourite).length;
+
+  const renderTrack = (track: StatsTrack, detail: string) => (
+    <button
+      key={track.id}
+      onClick={() => onSelectTrack(track)}
+      className="w-full flex items-center justify-between p-3 rounded-2xl hover:bg-white/5 transition-colors text-left group"
+    >
+      <div className="min-w-0">
+        <p className="text-xs font-display font-bold text-white/90 truncate">{track.title}</p>
+        <p className="text-[10px] text-white/40 truncate">{track.artist}</p>
+      </div>
+      <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+        <span className="micro-label">{detail}</span>
+        <PlayCircle size={16} className="text-white/20 group-hover:text-accent transition-colors" />
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col h-full px-6 pt-4 pb-8 overflow-y-auto no-scrollbar">
+      <div className="mb-6">
+        <h2 className="text-2xl font-display font-bold tracking-tight text-white/90">Estatísticas</h2>
+        <p className="micro-label text-[10px] mt-1 text-accent">Últimas {WEEKS} semanas</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        {[
+          { icon: Clock, label: 'Ouvido', value: formatHours(totalSeconds) },
+          { icon: BarChart3, label: 'Reproduções', value: String(events.filter(e => e.type === 'play').length) },
+          { icon: Heart, label: 'Favoritas', value: String(favourites) },
+        ].map(({ icon: Icon, label, value }) => (
+          <div key={label} className="p-4 rounded-3xl bg-white/5 border border-white/5 flex flex-col items-center text-center">
+            <Icon size={18} className="text-accent mb-2" />
+            <span className="text-sm font-display font-bold text-white/90">{value}</span>
+            <span className="micro-label mt-1">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        <section className="p-4 rounded-3xl bg-white/5 border border-white/5">
+          <div className="flex items-center space-x-2 text-white/80 mb-4">
+            <Clock size={16} />
+            <h3 className="text-sm font-semibold uppercase tracking-wider">Tempo por semana</h3>
+          </div>
+          <div className="flex items-end justify-between h-28 space-x-1">
+            {weeks.map(week => (
+              <div key={week.week} className="flex-1 flex flex-col items-center justify-end h-full" title={`${new Date(week.week).toLocaleDateString()} · ${formatHours(week.seconds)}`}>
+                <motion.div
+                  initial={{ height: 0 }}
+                  animate={{ height: `${(week.seconds / longestWeek) * 100}%` }}
+                  className="w-full rounded-t-md bg-accent/70 min-h-[2px]"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 micro-label text-[8px]">
+            <span>{new Date(weeks[0]?.week || Date.now()).toLocaleDateString(undefined, { day: '2-digit', month: '2-digit' })}</span>
+            <span>Esta semana</span>
+          </div>
+        </section>
+
+        <section className="space-y-1">
+          <div className="flex items-center space-x-2 text-white/80 mb-2">
+            <Trophy size={16} />
+            <h3 className="text-sm font-semibold uppercase tracking-wider">Mais tocadas</h3>
+          </div>
+          {mostPlayed.length === 0
+            ? <p className="text-[10px] text-white/30 px-3">Nenhuma reprodução ainda</p>
+            : mostPlayed.map(t => renderTrack(t, `${t.playCount}×`))}
+        </section>
+
+        <section className="space-y-1">
+          <div className="flex items-center space-x-2 text-white/80 mb-2">
+            <Mic2 size={16} />
+            <h3 className="text-sm font-semibold uppercase tracking-wider">Artistas mais ouvidos</h3>
+          </div>
+          {topArtists.length === 0 && <p className="text-[10px] text-white/30 px-3">Sem reproduções ainda</p>}
+          {topArtists.map(([artist, plays], i) => (
+            <div key={artist} className="flex items-center justify-between p-3 rounded-2xl">
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className="text-xs font-mono font-bold text-white/30 w-5">{i + 1}</span>
+                <span className="text-xs font-display font-bold text-white/90 truncate">{artist}</span>
+              </div>
+              <span className="micro-label ml-3">{plays}×</span>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-1">
+          <div className="flex items-center space-x-2 text-white/80 mb-2">
+            <EyeOff size={16} />
+            <h3 className="text-sm font-semibold uppercase tracking-wider">Nunca tocadas</h3>
+            <span className="micro-label">{neverPlayed.length}</span>
+          </div>
+          {neverPlayed.slice(0, 50).map(t => renderTrack(t, 'Nova'))}
+          {neverPlayed.length > 50 && <p className="text-[10px] text-white/30 px-3">e mais {neverPlayed.length - 50}…</p>}
+        </section>
+      </div>
+    </div>
+  );
+}
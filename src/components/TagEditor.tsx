@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, Tags, ImagePlus, Trash2, Download, Check, Loader2, Music2 } from 'lucide-react';
+import { TrackTags, readTrackMetadata } from '../utils/metadata/tags';
+import { EmbeddedPicture } from '../utils/metadata/picture';
+import { TagChanges, canWriteTags } from '../utils/metadata/tagWriter';
+import { saveBlob, saveBlobs, safeFileName } from '../utils/download';
+
+export interface EditableTrack extends TrackTags {
+  id: number;
+  title: string;
+  artist: string;
+  format?: string;
+  lyrics?: string;
+  file?: File | Blob;
+}
+
+export interface TagSaveResult {
+  /** Tracks whose file was rewritten with the new tags. */
+  written: number;
+  /** Formats that could only be updated in the library. */
+  unsupported: string[];
+}
+
+type FieldId = keyof TrackTags | 'lyrics';
+
+interface FieldSpec {
+  id: FieldId;
+  label: string;
+  numeric?: boolean;
+  /** Per-track fields make no sense to set on several tracks at once. */
+  singleOnly?: boolean;
+  half?: boolean;
+}
+
+const FIELDS: FieldSpec[] = [
+  { id: 'title', label: 'Título', singleOnly: true },
+  { id: 'artist', label: 'Artista' },
+  { id: 'album', label: 'Álbum' },
+  { id: 'albumArtist', label: 'Artista do álbum' },
+  { id: 'trackNumber', label: 'Faixa', numeric: true, singleOnly: true, half: true },
+  { id: 'trackTotal', label: 'Total de faixas', numeric: true, half: true },
+  { id: 'discNumber', label: 'Disco', numeric: true, half: true },
+  { id: 'discTotal', label: 'Total de discos', numeric: true, half: true },
+  { id: 'year', label: 'Ano', numeric: true, half: true },
+  { id: 'genre', label: 'Gênero', half: true },
+  { id: 'composer', label: 'Compositor' },
+];
+
+interface TagEditorProps {
+  tracks: EditableTrack[];
+  onSave: (ids: number[], changes: TagChanges) => Promise<TagSaveResult>;
+  /** Audio of a track, which is only read from the library when needed; `request` may prompt for folder access. */
+  onOpenFile: (track: EditableTrack, request?: boolean) => Promise<File | Blob | undefined>;
+  onClose: () => void;
+}
+
+const fieldValue = (track: EditableTrack, id: FieldId): string => {
+  const value = track[id];
+  return value === undefined || value === null ? '' : String(value);
+};
+
+/** Shared value of a field across the selection, null when the tracks disagree. */
+const commonValue = (tracks: EditableTrack[], id: FieldId): string | null => {
+  const values = new Set(tracks.map(t => fieldValue(t, id)));
+  return values.size === 1 ? [...values][0] : null;
+};
+
+const exportName = (track: EditableTrack, file: File | Blob) =>
+  file instanceof File && file.name
+    ? file.name
+    : safeFileName(`${track.artist} - ${track.title}.${(track.format || 'bin').toLowerCase()}`);
+
+export default function TagEditor({ tracks, onSave, onOpenFile, onClose }: TagEditorProps) {
+  const [values, setValues] = useState<Partial<Record<FieldId, string>>>({});
+  const [touched, setTouched] = useState<Set<FieldId>>(new Set());
+  const [picture, setPicture] = useState<EmbeddedPicture | null | undefined>(undefined);
+  const [coverUrl, setCoverUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState('');
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const open = tracks.length > 0;
+  const batch = tracks.length > 1;
+  const ids = tracks.map(t => t.id).join(',');
+
+  // Reset the form whenever a different selection is opened
+  useEffect(() => {
+    if (!open) return;
+    const initial: Partial<Record<FieldId, string>> = {};
+    [...FIELDS.map(f => f.id), 'lyrics' as FieldId].forEach(id => {
+      initial[id] = commonValue(tracks, id) ?? '';
+    });
+    setValues(initial);
+    setTouched(new Set());
+    setPicture(undefined);
+    setStatus('');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ids]);
+
+  // Current cover of a single track, or the newly picked one
+  useEffect(() => {
+    let url = '';
+    let cancelled = false;
+    const show = (p: EmbeddedPicture | null) => {
+      if (cancelled) return;
+      url = p ? URL.createObjectURL(new Blob([p.data], { type: p.mime })) : '';
+      setCoverUrl(url);
+    };
+    if (picture !== undefined) show(picture);
+    else if (!batch && tracks[0]) {
+      const { format } = tracks[0];
+      onOpenFile(tracks[0]).then(file => file
+        ? readTrackMetadata(file, format, { picture: true }).then(m => show(m.picture))
+        : show(null));
+    } else show(null);
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ids, picture]);
+
+  const setField = (id: FieldId, value: string) => {
+    setValues(prev => ({ ...prev, [id]: value }));
+    setTouched(prev => new Set(prev).add(id));
+  };
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPicture({ mime: file.type || 'image/jpeg', type: 3, description: '', data: new Uint8Array(await file.arrayBuffer()) });
+  };
+
+  const buildChanges = (): TagChanges => {
+    const changes: TagChanges = { tags: {} };
+    FIELDS.forEach(({ id, numeric }) => {
+      if (!touched.has(id)) return;
+      const raw = (values[id] || '').trim();
+      const value = numeric ? (parseInt(raw, 10) > 0 ? parseInt(raw, 10) : undefined) : raw || undefined;
+      (changes.tags as Record<string, unknown>)[id] = value;
+    });
+    if (touched.has('lyrics')) changes.lyrics = values.lyrics || '';
+    if (picture !== undefined) changes.picture = picture;
+    return changes;
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    setStatus('');
+    try {
+      const result = await onSave(tracks.map(t => t.id), buildChanges());
+      const skipped = [...new Set(result.unsupported)];
+      setStatus(skipped.length > 0
+        ? `Salvo na biblioteca. Arquivos ${skipped.join(', ')} não podem ser regravados.`
+        : `${result.written} arquivo${result.written === 1 ? '' : 's'} atualizado${result.written === 1 ? '' : 's'}.`);
+      setTouched(new Set());
+      setPicture(undefined);
+    } catch (err) {
+      console.error('Failed to save tags:', err);
+      setStatus(`Erro ao salvar: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const files: { blob: Blob; fileName: string }[] = [];
+      for (const track of tracks) {
+        const blob = await onOpenFile(track, true);
+        if (blob) files.push({ blob, fileName: exportName(track, blob) });
+      }
+      if (files.length === 1) await saveBlob(files[0].blob, files[0].fileName);
+      else await saveBlobs(files);
+    } catch (err) {
+      console.error('Failed to export files:', err);
+      setStatus(`Erro ao exportar: ${(err as Error).message}`);
+    }
+  };
+
+  const writable = tracks.filter(t => canWriteTags(t.format)).length;
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-xl py-2.5 px-3 text-sm text-white placeholder:text-white/20 focus:outline-none focus:border-accent/50 transition-colors';
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full max-w-md max-h-[85vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-6 shadow-2xl"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-lg font-display font-bold text-white flex items-center">
+                <Tags size={20} className="mr-2 text-accent" />
+                Editar tags
+              </h3>
+              <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/50 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+            <p className="text-[10px] text-white/40 mb-4 truncate">
+              {batch ? `${tracks.length} músicas selecionadas · só os campos alterados serão aplicados` : tracks[0].title}
+            </p>
+
+            <div className="flex-1 overflow-y-auto no-scrollbar space-y-4 pr-1">
+              {/* Cover */}
+              <div className="flex items-center space-x-4">
+                <div className="w-20 h-20 rounded-2xl overflow-hidden bg-white/5 flex items-center justify-center flex-shrink-0">
+                  {coverUrl ? <img src={coverUrl} alt="" className="w-full h-full object-cover" /> : <Music2 size={28} className="text-white/20" />}
+                </div>
+                <div className="flex flex-col space-y-2">
+                  <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImage} />
+                  <button
+                    onClick={() => imageInputRef.current?.click()}
+                    className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-white/5 text-xs text-white/70 hover:text-white transition-colors"
+                  >
+                    <ImagePlus size={14} />
+                    <span>{batch && picture === undefined ? 'Definir capa para todas' : 'Trocar capa'}</span>
+                  </button>
+                  <button
+                    onClick={() => setPicture(null)}
+                    className="flex items-center space-x-2 px-3 py-2 rounded-xl bg-white/5 text-xs text-white/40 hover:text-red-400 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                    <span>Remover capa</span>
+                  </button>
+                </div>
+              </div>
+
+              {/* Text fields */}
+              <div className="grid grid-cols-2 gap-3">
+                {FIELDS.filter(f => !(batch && f.singleOnly)).map(field => (
+                  <label key={field.id} className={field.half ? 'col-span-1' : 'col-span-2'}>
+                    <span className="micro-label block mb-1">{field.label}</span>
+                    <input
+                      type="text"
+                      inputMode={field.numeric ? 'numeric' : undefined}
+                      value={values[field.id] || ''}
+                      placeholder={batch && commonValue(tracks, field.id) === null && !touched.has(field.id) ? 'Vários valores' : ''}
+                      onChange={(e) => setField(field.id, field.numeric ? e.target.value.replace(/\D/g, '') : e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+
+              {!batch && (
+                <label className="block">
+                  <span className="micro-label block mb-1">Letra</span>
+                  <textarea
+                    value={values.lyrics || ''}
+                    onChange={(e) => setField('lyrics', e.target.value)}
+                    rows={5}
+                    className={`${inputClass} resize-none font-mono text-xs`}
+                  />
+                </label>
+              )}
+
+              <p className="text-[10px] text-white/30">
+                {writable === tracks.length
+                  ? 'As tags são gravadas no próprio arquivo (ID3v2.4 para MP3, Vorbis comments para FLAC).'
+                  : writable === 0
+                    ? 'Este formato não pode ser regravado; as alterações ficam só na biblioteca.'
+                    : `${writable} de ${tracks.length} arquivos serão regravados; os demais mudam só na biblioteca.`}
+              </p>
+              {status && <p className="text-xs text-accent">{status}</p>}
+            </div>
+
+            <div className="flex justify-between items-center pt-4 mt-2 border-t border-white/5">
+              <button
+                onClick={handleExport}
+                disabled={busy}
+                className="flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium text-white/60 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30"
+              >
+                <Download size={16} />
+                <span>{batch ? 'Exportar arquivos' : 'Exportar arquivo'}</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={busy || (touched.size === 0 && picture === undefined)}
+                className="flex items-center space-x-2 px-5 py-2 rounded-xl text-sm font-bold text-black bg-accent hover:bg-accent/90 transition-colors shadow-[0_0_15px_rgba(234,179,8,0.3)] disabled:opacity-40"
+              >
+                {busy ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+                <span>Salvar</span>
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { Music2 } from 'lucide-react';
+import { thumbnailUrl, subscribeArtwork } from '../utils/artwork';
+
+/** Cached cover thumbnail of a track, or the placeholder icon when it has none. */
+export default function TrackArtwork({ id }: { id: number }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => subscribeArtwork(changed => {
+    if (changed === id) setVersion(v => v + 1);
+  }), [id]);
+
+  useEffect(() => {
+    let active = true;
+    thumbnailUrl(id).then(result => active && setUrl(result));
+    return () => { active = false; };
+  }, [id, version]);
+
+  return url
+    ? <img src={url} alt="" className="absolute inset-0 w-full h-full object-cover" />
+    : <Music2 size={24} className="text-white/20" />;
+}
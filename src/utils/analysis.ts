@@ -0,0 +1,79 @@
+import { readGaplessInfo, trimRegion } from './metadata/gapless';
+import type { TempoAnalysis } from './beatDetection';
+import type { LoudnessInfo } from './loudness';
+
+/**
+ * Offline analysis of stored tracks (tempo/beat grid and loudness).
+ * Decoding happens on the main thread (decodeAudioData is not available in
+ * workers); the measurements themselves run in a worker.
+ */
+
+export type { TempoAnalysis, LoudnessInfo };
+
+export interface TrackAnalysis {
+    tempo?: TempoAnalysis | null;
+    loudness?: LoudnessInfo | null;
+}
+
+/** BS.1770 is rate independent; decoding everything at one rate keeps memory predictable. */
+const ANALYSIS_RATE = 48000;
+
+let worker: Worker | null = null;
+let requestId = 0;
+const pending = new Map<number, { resolve: (r: TrackAnalysis) => void; reject: (e: Error) => void }>();
+
+/** A worker that failed is dropped with everything it owed; the next request starts a new one. */
+const failWorker = (message: string) => {
+    worker?.terminate();
+    worker = null;
+    const requests = Array.from(pending.values());
+    pending.clear();
+    requests.forEach(request => request.reject(new Error(message)));
+};
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number; result?: TrackAnalysis; error?: string }>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if (e.data.error) request.reject(new Error(e.data.error));
+        else request.resolve(e.data.result || {});
+    };
+    worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        failWorker(e.message || 'Analysis worker failed');
+    };
+    worker.onmessageerror = () => failWorker('Analysis worker reply could not be read');
+    return worker;
+};
+
+/** Decodes a track at the analysis rate, dropping encoder delay so beat times match playback. */
+const decodeChannels = async (file: Blob, format?: string): Promise<Float32Array[]> => {
+    const ctx = new OfflineAudioContext(1, 1, ANALYSIS_RATE);
+    const [data, info] = await Promise.all([file.arrayBuffer(), readGaplessInfo(file, format)]);
+    const buffer = await ctx.decodeAudioData(data);
+    const { start, duration } = trimRegion(info, buffer.duration);
+
+    const from = Math.floor(start * buffer.sampleRate);
+    const length = Math.min(buffer.length - from, Math.floor(duration * buffer.sampleRate));
+    return Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+        buffer.getChannelData(ch).slice(from, from + length));
+};
+
+export const analyzeTrack = async (
+    file: Blob,
+    format: string | undefined,
+    wanted: { tempo: boolean; loudness: boolean }
+): Promise<TrackAnalysis> => {
+    const channels = await decodeChannels(file, format);
+    const id = ++requestId;
+    return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        getWorker().postMessage(
+            { id, channels, sampleRate: ANALYSIS_RATE, ...wanted },
+            channels.map(c => c.buffer)
+        );
+    });
+};
@@ -0,0 +1,36 @@
+import { detectTempo } from './beatDetection';
+import { measureLoudness } from './loudness';
+
+interface AnalysisRequest {
+    id: number;
+    channels: Float32Array[];
+    sampleRate: number;
+    tempo: boolean;
+    loudness: boolean;
+}
+
+/** Beat tracking does not need the full band; half rate keeps the FFT work small. */
+const monoHalfRate = (channels: Float32Array[]): Float32Array => {
+    const mono = new Float32Array(Math.floor(channels[0].length / 2));
+    channels.forEach(channel => {
+        for (let i = 0; i < mono.length; i++) {
+            mono[i] += (channel[2 * i] + channel[2 * i + 1]) / (2 * channels.length);
+        }
+    });
+    return mono;
+};
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+    const { id, channels, sampleRate } = e.data;
+    try {
+        self.postMessage({
+            id,
+            result: {
+                tempo: e.data.tempo ? detectTempo(monoHalfRate(channels), sampleRate / 2) : undefined,
+                loudness: e.data.loudness ? measureLoudness(channels, sampleRate) : undefined,
+            },
+        });
+    } catch (err) {
+        self.postMessage({ id, error: String(err) });
+    }
+};
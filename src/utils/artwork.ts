@@ -0,0 +1,196 @@
+import { getArtwork, saveArtwork, deleteArtwork } from './db';
+import { readTrackMetadata } from './metadata/tags';
+
+/**
+ * Cover art pipeline. Art is resolved in a fixed order (embedded picture,
+ * then a cover/folder/front image from the imported folder, then whatever
+ * the user picks) and cached in IndexedDB as two downscaled JPEGs plus the
+ * accent colour, so the list and the player never decode full-size art.
+ */
+
+export type ArtworkSource = 'embedded' | 'folder' | 'user';
+
+export interface ArtworkRecord {
+    /** Track id. */
+    id: number;
+    source: ArtworkSource;
+    /** Small square-ish image for lists. */
+    thumbnail: Blob;
+    /** Player-sized image. */
+    cover: Blob;
+    /** Accent colour derived from the art, as a CSS colour. */
+    color: string;
+}
+
+const THUMBNAIL_SIZE = 128;
+const COVER_SIZE = 640;
+const JPEG_QUALITY = 0.85;
+export const DEFAULT_ACCENT = '#EAB308';
+
+/** Folder images in order of preference: cover.*, folder.*, front.* */
+const FOLDER_COVER_NAMES = ['cover', 'folder', 'front'];
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif|bmp)$/i;
+
+/** Directory part of a relative path, '' for files picked on their own. */
+export const parentPath = (path: string) => path.split('/').slice(0, -1).join('/');
+
+/** Picks the folder cover among the images of one folder, or null. */
+export const findFolderCover = (images: File[]): File | null => {
+    const ranked = images
+        .map(file => ({ file, rank: FOLDER_COVER_NAMES.indexOf(file.name.replace(IMAGE_EXTENSION, '').toLowerCase()) }))
+        .filter(c => c.rank >= 0 && IMAGE_EXTENSION.test(c.file.name))
+        .sort((a, b) => a.rank - b.rank);
+    return ranked[0]?.file || null;
+};
+
+const scaleImage = (bitmap: ImageBitmap, size: number): Promise<Blob> => {
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return new Promise((resolve, reject) =>
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode artwork')), 'image/jpeg', JPEG_QUALITY));
+};
+
+/** Average colour of the art, normalised towards full brightness so the UI accent stays vivid. */
+const dominantColor = (bitmap: ImageBitmap): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 50;
+    canvas.height = 50;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return DEFAULT_ACCENT;
+    ctx.drawImage(bitmap, 0, 0, 50, 50);
+    const data = ctx.getImageData(0, 0, 50, 50).data;
+
+    let r = 0, g = 0, b = 0, count = 0;
+    for (let i = 0; i < data.length; i += 16) {
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+        count++;
+    }
+    r = Math.floor(r / count);
+    g = Math.floor(g / count);
+    b = Math.floor(b / count);
+
+    const max = Math.max(r, g, b);
+    if (max > 0) {
+        const multiplier = 255 / max;
+        r = Math.min(255, Math.floor(r * multiplier * 0.8));
+        g = Math.min(255, Math.floor(g * multiplier * 0.8));
+        b = Math.min(255, Math.floor(b * multiplier * 0.8));
+    }
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+/** Decodes the image once and derives everything the UI needs from it. */
+export const buildArtwork = async (id: number, image: Blob, source: ArtworkSource): Promise<ArtworkRecord> => {
+    const bitmap = await createImageBitmap(image);
+    try {
+        const [thumbnail, cover] = await Promise.all([scaleImage(bitmap, THUMBNAIL_SIZE), scaleImage(bitmap, COVER_SIZE)]);
+        return { id, source, thumbnail, cover, color: dominantColor(bitmap) };
+    } finally {
+        bitmap.close();
+    }
+};
+
+// ─── Object URL cache and change notifications ──────────────────────────────
+
+const thumbnailUrls = new Map<number, Promise<string | null>>();
+const listeners = new Set<(id: number) => void>();
+
+/** Called with the track id whenever its artwork changes. */
+export const subscribeArtwork = (listener: (id: number) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const invalidate = (id: number) => {
+    const previous = thumbnailUrls.get(id);
+    thumbnailUrls.delete(id);
+    previous?.then(url => url && URL.revokeObjectURL(url));
+    listeners.forEach(listener => listener(id));
+};
+
+/** Object URL of the cached list thumbnail; shared, so callers must not revoke it. */
+export const thumbnailUrl = (id: number): Promise<string | null> => {
+    let url = thumbnailUrls.get(id);
+    if (!url) {
+        url = getArtwork(id)
+            .then(record => record ? URL.createObjectURL(record.thumbnail) : null)
+            .catch(() => null);
+        thumbnailUrls.set(id, url);
+    }
+    return url;
+};
+
+const store = async (record: ArtworkRecord, persist: boolean) => {
+    if (persist) {
+        try {
+            await saveArtwork(record);
+        } catch (err) {
+            console.warn('Failed to cache artwork:', err);
+        }
+        invalidate(record.id);
+    }
+    return record;
+};
+
+interface ArtworkTrack {
+    id: number;
+    file?: Blob;
+    format?: string;
+}
+
+/**
+ * Cached art for a track, resolving it on a miss: embedded picture first,
+ * then the folder image when one was found at import. Tracks that are not
+ * in the library can skip persisting.
+ */
+export const resolveArtwork = async (
+    track: ArtworkTrack,
+    options: { folderImage?: Blob | null; persist?: boolean } = {}
+): Promise<ArtworkRecord | null> => {
+    const persist = options.persist ?? true;
+    if (persist) {
+        const cached = await getArtwork(track.id).catch(() => undefined);
+        if (cached) return cached;
+    }
+    try {
+        if (track.file) {
+            const { picture } = await readTrackMetadata(track.file, track.format, { picture: true });
+            if (picture) return await store(await buildArtwork(track.id, new Blob([picture.data], { type: picture.mime }), 'embedded'), persist);
+        }
+        if (options.folderImage) return await store(await buildArtwork(track.id, options.folderImage, 'folder'), persist);
+    } catch (err) {
+        console.warn('Failed to resolve artwork:', err);
+    }
+    return null;
+};
+
+/** Replaces the art of a track with an image the user picked. */
+export const setUserArtwork = async (id: number, image: Blob): Promise<ArtworkRecord> =>
+    store(await buildArtwork(id, image, 'user'), true);
+
+/** Re-resolves the art after the embedded picture was edited. */
+export const refreshArtwork = async (track: ArtworkTrack): Promise<ArtworkRecord | null> => {
+    const cached = await getArtwork(track.id).catch(() => undefined);
+    const fresh = await resolveArtwork(track, { persist: false });
+    if (fresh) return store(fresh, true);
+    // Folder and user images are still valid; embedded art that was removed is not
+    if (cached && cached.source !== 'embedded') return cached;
+    if (cached) {
+        await deleteArtwork(track.id).catch(err => console.warn('Failed to drop artwork:', err));
+        invalidate(track.id);
+    }
+    return null;
+};
+
+/** Forgets the art of a removed track. */
+export const forgetArtwork = async (id: number) => {
+    await deleteArtwork(id);
+    invalidate(id);
+};
@@ -0,0 +1,170 @@
+import { fft } from './fft';
+
+/**
+ * Tempo, beat and downbeat estimation on a mono signal.
+ *
+ * 1. Onset strength from log-magnitude spectral flux.
+ * 2. Tempo from the autocorrelation of the onset curve, weighted towards
+ *    120 BPM so octave errors (60/240) lose against the musical tempo.
+ * 3. Beat phase from a comb over the onset curve, then each beat snapped to
+ *    the nearest onset so slow drift is followed.
+ * 4. Downbeats are the bar position (of 4) with the strongest bass onsets.
+ *
+ * Pure and DOM-free so it can run inside a worker.
+ */
+
+export interface TempoAnalysis {
+    bpm: number;
+    /** Beat times in seconds from the start of the (trimmed) track. */
+    beats: number[];
+    downbeats: number[];
+}
+
+const FRAME = 1024;
+const HOP = 256;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const BEATS_PER_BAR = 4;
+
+const onsetCurves = (samples: Float32Array, sampleRate: number) => {
+    const frames = Math.floor((samples.length - FRAME) / HOP);
+    const bins = FRAME / 2;
+    const lowBins = Math.ceil(150 * FRAME / sampleRate);
+    const window = new Float32Array(FRAME);
+    for (let i = 0; i < FRAME; i++) window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME);
+
+    const flux = new Float32Array(frames);
+    const bass = new Float32Array(frames);
+    const previous = new Float32Array(bins);
+    const re = new Float32Array(FRAME);
+    const im = new Float32Array(FRAME);
+
+    for (let f = 0; f < frames; f++) {
+        const offset = f * HOP;
+        for (let i = 0; i < FRAME; i++) {
+            re[i] = samples[offset + i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 1; k < bins; k++) {
+            const magnitude = Math.log1p(100 * Math.hypot(re[k], im[k]));
+            const rise = magnitude - previous[k];
+            previous[k] = magnitude;
+            if (rise <= 0) continue;
+            flux[f] += rise;
+            if (k < lowBins) bass[f] += rise;
+        }
+    }
+    return { flux: normalize(flux, sampleRate / HOP), bass, fps: sampleRate / HOP };
+};
+
+/** Removes the local mean (about half a second) and keeps the positive part. */
+const normalize = (curve: Float32Array, fps: number): Float32Array => {
+    const radius = Math.round(fps / 4);
+    const out = new Float32Array(curve.length);
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < Math.min(radius, curve.length); i++) { sum += curve[i]; count++; }
+    for (let i = 0; i < curve.length; i++) {
+        if (i + radius < curve.length) { sum += curve[i + radius]; count++; }
+        if (i - radius - 1 >= 0) { sum -= curve[i - radius - 1]; count--; }
+        out[i] = Math.max(0, curve[i] - sum / count);
+    }
+    return out;
+};
+
+const estimatePeriod = (onset: Float32Array, fps: number): number => {
+    const minLag = Math.floor(fps * 60 / MAX_BPM);
+    const maxLag = Math.min(Math.ceil(fps * 60 / MIN_BPM), onset.length - 1);
+    const ac = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < onset.length; i++) sum += onset[i] * onset[i + lag];
+        ac[lag] = sum / (onset.length - lag);
+    }
+
+    let best = minLag;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const octaves = Math.log2((60 * fps / lag) / 120);
+        const score = ac[lag] * Math.exp(-0.5 * octaves * octaves);
+        if (score > bestScore) {
+            bestScore = score;
+            best = lag;
+        }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    const a = ac[best - 1], b = ac[best], c = ac[best + 1];
+    const denominator = a - 2 * b + c;
+    return denominator !== 0 ? best + 0.5 * (a - c) / denominator : best;
+};
+
+const trackBeats = (onset: Float32Array, period: number): number[] => {
+    let phase = 0;
+    let bestScore = -Infinity;
+    for (let candidate = 0; candidate < period; candidate++) {
+        let score = 0;
+        for (let pos = candidate; pos < onset.length; pos += period) score += onset[Math.round(pos)];
+        if (score > bestScore) {
+            bestScore = score;
+            phase = candidate;
+        }
+    }
+
+    let mean = 0;
+    for (let i = 0; i < onset.length; i++) mean += onset[i];
+    mean /= onset.length;
+
+    const tolerance = Math.max(1, Math.round(period * 0.08));
+    const beats: number[] = [];
+    for (let predicted = phase; predicted < onset.length;) {
+        const centre = Math.round(predicted);
+        let beat = centre;
+        for (let i = Math.max(0, centre - tolerance); i <= Math.min(onset.length - 1, centre + tolerance); i++) {
+            if (onset[i] > onset[beat]) beat = i;
+        }
+        if (onset[beat] <= mean) beat = centre;
+        beats.push(beat);
+        predicted = beat + period;
+    }
+    return beats;
+};
+
+const pickBarPhase = (beats: number[], bass: Float32Array): number => {
+    const strength = (frame: number) => {
+        let peak = 0;
+        for (let i = Math.max(0, frame - 2); i <= Math.min(bass.length - 1, frame + 2); i++) peak = Math.max(peak, bass[i]);
+        return peak;
+    };
+
+    let phase = 0;
+    let bestScore = -Infinity;
+    for (let candidate = 0; candidate < BEATS_PER_BAR; candidate++) {
+        let score = 0;
+        for (let i = candidate; i < beats.length; i += BEATS_PER_BAR) score += strength(beats[i]);
+        if (score > bestScore) {
+            bestScore = score;
+            phase = candidate;
+        }
+    }
+    return phase;
+};
+
+export const detectTempo = (samples: Float32Array, sampleRate: number): TempoAnalysis | null => {
+    if (samples.length < sampleRate * 5) return null;
+
+    const { flux, bass, fps } = onsetCurves(samples, sampleRate);
+    const period = estimatePeriod(flux, fps);
+    const beatFrames = trackBeats(flux, period);
+    const barPhase = pickBarPhase(beatFrames, bass);
+
+    const toSeconds = (frame: number) => Math.round(((frame * HOP + FRAME / 2) / sampleRate) * 1000) / 1000;
+    const beats = beatFrames.map(toSeconds);
+
+    return {
+        bpm: Math.round((60 * fps / period) * 10) / 10,
+        beats,
+        downbeats: beats.filter((_, i) => i % BEATS_PER_BAR === barPhase),
+    };
+};
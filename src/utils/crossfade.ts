@@ -0,0 +1,102 @@
+import { albumKey } from './library';
+
+/**
+ * Crossfade mixer.
+ * Every playing track gets a fader of its own, a GainNode on the engine's
+ * AudioContext, so the incoming and the outgoing track go through the same
+ * EQ/DSP chain and a track still fading out is never touched by the one
+ * scheduled after the next.
+ */
+
+export type FadeCurve = 'equal-power' | 'linear' | 'logarithmic' | 's-curve';
+
+export const FADE_CURVES: { id: FadeCurve; label: string }[] = [
+    { id: 'equal-power', label: 'Equal Power' },
+    { id: 'linear', label: 'Linear' },
+    { id: 'logarithmic', label: 'Log' },
+    { id: 's-curve', label: 'S-Curve' },
+];
+
+const CURVE_POINTS = 256;
+
+/** Fade-in gain at position t in [0, 1]; fade-outs use the mirrored curve. */
+const fadeInGain = (curve: FadeCurve, t: number): number => {
+    switch (curve) {
+        case 'equal-power': return Math.sin(t * Math.PI / 2);
+        case 'logarithmic': return Math.log10(1 + 9 * t);
+        case 's-curve': return 0.5 - 0.5 * Math.cos(t * Math.PI);
+        default: return t;
+    }
+};
+
+export const fadeCurveValues = (curve: FadeCurve, direction: 'in' | 'out'): Float32Array => {
+    const values = new Float32Array(CURVE_POINTS);
+    for (let i = 0; i < CURVE_POINTS; i++) {
+        const t = i / (CURVE_POINTS - 1);
+        values[i] = fadeInGain(curve, direction === 'in' ? t : 1 - t);
+    }
+    return values;
+};
+
+/** Schedules a full 0 -> 1 (or 1 -> 0) fade on a gain param. */
+export const scheduleFade = (
+    param: AudioParam,
+    curve: FadeCurve,
+    direction: 'in' | 'out',
+    when: number,
+    duration: number
+) => {
+    const from = direction === 'in' ? 0 : 1;
+    param.cancelScheduledValues(0);
+    param.value = from;
+    if (curve === 'linear') {
+        param.setValueAtTime(from, when);
+        param.linearRampToValueAtTime(1 - from, when + duration);
+    } else {
+        param.setValueCurveAtTime(fadeCurveValues(curve, direction), when, duration);
+    }
+};
+
+export interface CrossfadeMixer {
+    /** A new fader at unity gain, connected to the output; disconnect it once its track stops. */
+    channel: () => GainNode;
+    /** Drops any pending automation and leaves the fader at unity gain. */
+    reset: (fader: GainNode) => void;
+    crossfade: (from: GainNode, to: GainNode, when: number, duration: number, curve: FadeCurve) => void;
+}
+
+export const createCrossfadeMixer = (context: BaseAudioContext, output: AudioNode): CrossfadeMixer => ({
+    channel: () => {
+        const fader = context.createGain();
+        fader.connect(output);
+        return fader;
+    },
+    reset: (fader) => {
+        fader.gain.cancelScheduledValues(0);
+        fader.gain.value = 1;
+    },
+    crossfade: (from, to, when, duration, curve) => {
+        scheduleFade(from.gain, curve, 'out', when, duration);
+        scheduleFade(to.gain, curve, 'in', when, duration);
+    },
+});
+
+interface AlbumAware {
+    album?: string;
+    folder?: string;
+    trackNumber?: number;
+    discNumber?: number;
+}
+
+/**
+ * True when `next` directly follows `current` on the same album, in which
+ * case the transition should stay gapless instead of crossfading.
+ */
+export const isContinuousAlbum = (current: AlbumAware | undefined, next: AlbumAware | undefined): boolean => {
+    if (!current || !next) return false;
+    const album = albumKey(current);
+    if (!album || album !== albumKey(next)) return false;
+    if (current.trackNumber === undefined || next.trackNumber === undefined) return true;
+    if ((current.discNumber || 1) !== (next.discNumber || 1)) return next.trackNumber === 1;
+    return next.trackNumber === current.trackNumber + 1;
+};
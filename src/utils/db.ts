@@ -1,83 +1,381 @@
 /**
- * Simple IndexedDB wrapper for Aura Hi-Res Player
- * Stores File/Blob objects and metadata for audio tracks.
+ * IndexedDB data layer for Aura Hi-Res Player.
+ * Track records hold metadata only; the audio of imported (copied) files
+ * lives in a separate blob store keyed by track id, so the library can be
+ * listed page by page without touching any audio. Other stores hold the
+ * handles of linked library folders, cover art thumbnails, playlists and
+ * smart playlist rules, the listening history, EQ presets and small
+ * key/value settings.
+ *
+ * One connection is opened lazily and shared. The schema is built by an
+ * ordered list of migrations; opening the database runs every migration
+ * newer than the version on disk.
  */
 
+import type { TempoAnalysis } from './beatDetection';
+import type { LoudnessInfo } from './loudness';
+import type { ReplayGainInfo } from './metadata/replayGain';
+import type { EqPreset } from './eqPresets';
+import type { StreamInfo } from './metadata/streamInfo';
+import type { TrackTags } from './metadata/tags';
+import type { ArtworkRecord } from './artwork';
+import type { Playlist } from './playlists';
+import type { SmartPlaylist } from './smartPlaylists';
+import type { ListenEvent } from './history';
+import type { FileLink, LibraryFolder } from './libraryFolders';
+
 const DB_NAME = 'IvanWanglerPlayerDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'tracks';
+const TRACK_STORE = 'tracks';
+const BLOB_STORE = 'blobs';
+const PRESET_STORE = 'eqPresets';
+const SETTINGS_STORE = 'settings';
+const ARTWORK_STORE = 'artwork';
+const PLAYLIST_STORE = 'playlists';
+const SMART_PLAYLIST_STORE = 'smartPlaylists';
+const HISTORY_STORE = 'history';
+const FOLDER_STORE = 'folders';
 
-export interface PersistedTrack {
+export interface PersistedTrack extends TrackTags {
     id: number;
     title: string;
     artist: string;
     format?: string;
     folder?: string;
-    file: File | Blob;
+    /** Path relative to the imported folder (or the file name), for matching playlist entries. */
+    path?: string;
+    /** Set on every imported track; queue entries for loose files carry it too. */
+    isFile?: boolean;
+    /** Set for tracks read from a linked folder instead of a stored copy. */
+    link?: FileLink;
     coverUrl?: string;
     lyrics?: string;
+    /** Set once embedded lyrics have been looked for. */
+    lyricsRead?: boolean;
+    /** User adjustment of the lyrics timing in ms; positive shows them earlier. */
+    lyricsOffset?: number;
+    tempo?: TempoAnalysis;
+    replayGain?: ReplayGainInfo;
+    loudness?: LoudnessInfo;
+    /** Header-derived stream properties; null once reading has failed. */
+    stream?: StreamInfo | null;
+    /** Set once embedded tags have been read, so old imports are filled in only once. */
+    tagsRead?: boolean;
+    /** Import time, ms since the epoch. */
+    addedAt?: number;
+    /** Plays that passed the listening threshold, kept in step with the history store. */
+    playCount?: number;
+    skipCount?: number;
+    lastPlayedAt?: number;
+    /** 0-5 stars. */
+    rating?: number;
+    favourite?: boolean;
+    /** Hash of the audio payload without tags, for duplicate detection; null once hashing has failed. */
+    contentHash?: string | null;
+    /** Set when the user confirmed a hi-res file is upsampled, which drops its hi-res badge. */
+    fakeHiRes?: boolean;
+}
+
+/**
+ * A track as the app holds it: the stored record plus its audio once opened
+ * (from the blob store or the linked folder). Queue entries get ids of their
+ * own and point back at the library track through `libraryId`.
+ */
+export interface LibraryTrack extends PersistedTrack {
+    file?: File | Blob;
+    libraryId?: number;
+    /** Queued with "play next", so a reshuffle keeps it ahead. */
+    playNext?: boolean;
 }
 
+// ─── Migrations ─────────────────────────────────────────────────────────────
+
+interface Migration {
+    version: number;
+    migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/** Applied in order; a new schema change is a new entry at the end, never an edit. */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        migrate: db => { db.createObjectStore(TRACK_STORE, { keyPath: 'id' }); },
+    },
+    {
+        version: 2,
+        migrate: db => {
+            db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+            db.createObjectStore(SETTINGS_STORE);
+        },
+    },
+    {
+        version: 3,
+        migrate: db => { db.createObjectStore(ARTWORK_STORE, { keyPath: 'id' }); },
+    },
+    {
+        version: 4,
+        migrate: db => { db.createObjectStore(PLAYLIST_STORE, { keyPath: 'id' }); },
+    },
+    {
+        version: 5,
+        migrate: db => { db.createObjectStore(SMART_PLAYLIST_STORE, { keyPath: 'id' }); },
+    },
+    {
+        version: 6,
+        migrate: db => {
+            const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+            history.createIndex('trackId', 'trackId');
+            history.createIndex('at', 'at');
+        },
+    },
+    {
+        version: 7,
+        migrate: db => { db.createObjectStore(FOLDER_STORE, { keyPath: 'id' }); },
+    },
+    {
+        version: 8,
+        // Audio moves out of the track records into its own store
+        migrate: (db, transaction) => {
+            db.createObjectStore(BLOB_STORE);
+            const blobs = transaction.objectStore(BLOB_STORE);
+            transaction.objectStore(TRACK_STORE).openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const { file, ...track } = cursor.value;
+                if (file) {
+                    if (!track.link) blobs.put(file, track.id);
+                    cursor.update(track);
+                }
+                cursor.continue();
+            };
+        },
+    },
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ─── Connection ─────────────────────────────────────────────────────────────
+
+let connection: Promise<IDBDatabase> | null = null;
+
 const openDB = (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
+    if (connection) return connection;
+    connection = new Promise((resolve, reject) => {
         const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            connection = null;
+            reject(request.error);
+        };
+        request.onblocked = () => console.warn('Database upgrade is waiting for other tabs to close');
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgrading the schema needs this connection out of the way
+            db.onversionchange = () => {
+                db.close();
+                connection = null;
+            };
+            db.onclose = () => { connection = null; };
+            resolve(db);
+        };
 
         request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            const transaction = request.transaction!;
+            for (const { version, migrate } of MIGRATIONS) {
+                if (version > event.oldVersion) migrate(request.result, transaction);
             }
         };
     });
+    return connection;
 };
 
-export const saveTrack = async (track: PersistedTrack): Promise<void> => {
+/** Runs one request and resolves with its result. */
+const read = async <T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.put(track);
+        const request = run(db.transaction(storeName, 'readonly').objectStore(storeName));
 
         request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve();
+        request.onsuccess = () => resolve(request.result);
     });
 };
 
-export const getAllTracks = async (): Promise<PersistedTrack[]> => {
+/** Runs writes across one or more stores and resolves once they are committed. */
+const write = async (storeNames: string | string[], run: (transaction: IDBTransaction) => void): Promise<void> => {
     const db = await openDB();
     return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.getAll();
+        const transaction = db.transaction(storeNames, 'readwrite');
+        run(transaction);
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve(request.result);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
     });
 };
 
-export const deleteTrack = async (id: number): Promise<void> => {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.delete(id);
+// ─── Repositories ───────────────────────────────────────────────────────────
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve();
-    });
-};
+/**
+ * Either pages through the primary key or reads the first page of an index.
+ * A primary key says nothing about where a record sits in an index, so index
+ * queries take no `after` and their pages have no `next`.
+ */
+export type PageQuery<K extends IDBValidKey> = {
+    limit: number;
+    direction?: 'next' | 'prev';
+} & (
+    | {
+        /** Continue after this primary key, from the previous page's `next`. */
+        after?: K;
+        index?: undefined;
+    }
+    | {
+        /** Walk an index instead of the primary key. */
+        index: string;
+        after?: undefined;
+    }
+);
 
-export const clearAllTracks = async (): Promise<void> => {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.clear();
+export interface Page<T, K extends IDBValidKey> {
+    items: T[];
+    /** Key to pass as `after` for the following page; undefined on the last one and for index queries. */
+    next?: K;
+}
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = () => resolve();
+/** Typed access to one object store. */
+const createRepository = <T, K extends IDBValidKey>(storeName: string) => ({
+    get: (key: K) => read<T | undefined>(storeName, store => store.get(key)),
+    getAll: (range?: IDBKeyRange) => read<T[]>(storeName, store => store.getAll(range)),
+    keys: () => read<K[]>(storeName, store => store.getAllKeys()),
+    /** `key` only for stores without a key path. */
+    put: (value: T, key?: K) => write(storeName, transaction => { transaction.objectStore(storeName).put(value, key); }),
+    add: (value: T) => write(storeName, transaction => { transaction.objectStore(storeName).add(value); }),
+    delete: (key: K) => write(storeName, transaction => { transaction.objectStore(storeName).delete(key); }),
+    clear: () => write(storeName, transaction => { transaction.objectStore(storeName).clear(); }),
+
+    /** One page of records through a cursor, so large stores are never read whole. */
+    page: async ({ limit, after, index, direction = 'next' }: PageQuery<K>): Promise<Page<T, K>> => {
+        if (index !== undefined && after !== undefined) throw new Error('An index query cannot continue after a primary key');
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+            const range = after === undefined ? null
+                : direction === 'next' ? IDBKeyRange.lowerBound(after, true) : IDBKeyRange.upperBound(after, true);
+            const request = (index ? store.index(index) : store).openCursor(range, direction);
+            const items: T[] = [];
+            let lastKey: K | undefined;
+
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve({ items });
+                } else if (items.length === limit) {
+                    // One record past the page shows there is more to read
+                    resolve({ items, next: index === undefined ? lastKey : undefined });
+                } else {
+                    items.push(cursor.value);
+                    lastKey = cursor.primaryKey as K;
+                    cursor.continue();
+                }
+            };
+        });
+    },
+});
+
+const tracks = createRepository<PersistedTrack, number>(TRACK_STORE);
+const blobs = createRepository<Blob, number>(BLOB_STORE);
+const artwork = createRepository<ArtworkRecord, number>(ARTWORK_STORE);
+const playlists = createRepository<Playlist, string>(PLAYLIST_STORE);
+const smartPlaylists = createRepository<SmartPlaylist, string>(SMART_PLAYLIST_STORE);
+const history = createRepository<ListenEvent, number>(HISTORY_STORE);
+const eqPresets = createRepository<EqPreset, string>(PRESET_STORE);
+const folders = createRepository<LibraryFolder, string>(FOLDER_STORE);
+
+// ─── Tracks ─────────────────────────────────────────────────────────────────
+
+/** Fields that only exist in memory. */
+const toRecord = ({ file, libraryId, playNext, ...track }: LibraryTrack): PersistedTrack => track;
+
+/** Saves the metadata of a track; audio goes through saveTrackBlob. */
+export const saveTrack = (track: LibraryTrack): Promise<void> => tracks.put(toRecord(track));
+
+/** A page of track records in id (import) order, without audio. */
+export const getTracksPage = (limit: number, after?: number): Promise<Page<PersistedTrack, number>> =>
+    tracks.page({ limit, after });
+
+/** The stored copy of an imported file; undefined for linked tracks. */
+export const getTrackBlob = (id: number): Promise<Blob | undefined> => blobs.get(id);
+
+export const saveTrackBlob = (id: number, blob: Blob): Promise<void> => blobs.put(blob, id);
+
+export const deleteTrackBlob = (id: number): Promise<void> => blobs.delete(id);
+
+export const deleteTrack = (id: number): Promise<void> =>
+    write([TRACK_STORE, BLOB_STORE], transaction => {
+        transaction.objectStore(TRACK_STORE).delete(id);
+        transaction.objectStore(BLOB_STORE).delete(id);
     });
-};
+
+export const clearAllTracks = (): Promise<void> =>
+    write([TRACK_STORE, BLOB_STORE], transaction => {
+        transaction.objectStore(TRACK_STORE).clear();
+        transaction.objectStore(BLOB_STORE).clear();
+    });
+
+// ─── Library folders ────────────────────────────────────────────────────────
+
+export const getAllLibraryFolders = (): Promise<LibraryFolder[]> => folders.getAll();
+
+export const saveLibraryFolder = (folder: LibraryFolder): Promise<void> => folders.put(folder);
+
+export const deleteLibraryFolder = (id: string): Promise<void> => folders.delete(id);
+
+// ─── Artwork ────────────────────────────────────────────────────────────────
+
+export const getArtwork = (id: number): Promise<ArtworkRecord | undefined> => artwork.get(id);
+
+/** Ids of the tracks with cached art. */
+export const getArtworkIds = (): Promise<number[]> => artwork.keys();
+
+export const saveArtwork = (record: ArtworkRecord): Promise<void> => artwork.put(record);
+
+export const deleteArtwork = (id: number): Promise<void> => artwork.delete(id);
+
+// ─── Playlists ──────────────────────────────────────────────────────────────
+
+export const getAllPlaylists = (): Promise<Playlist[]> => playlists.getAll();
+
+export const savePlaylist = (playlist: Playlist): Promise<void> => playlists.put(playlist);
+
+export const deletePlaylist = (id: string): Promise<void> => playlists.delete(id);
+
+export const getAllSmartPlaylists = (): Promise<SmartPlaylist[]> => smartPlaylists.getAll();
+
+export const saveSmartPlaylist = (playlist: SmartPlaylist): Promise<void> => smartPlaylists.put(playlist);
+
+export const deleteSmartPlaylist = (id: string): Promise<void> => smartPlaylists.delete(id);
+
+// ─── Listening history ──────────────────────────────────────────────────────
+
+export const addHistoryEvent = (event: ListenEvent): Promise<void> => history.add(event);
+
+/** History events at or after `since` (ms), oldest first. */
+export const getHistory = (since = 0): Promise<ListenEvent[]> =>
+    read(HISTORY_STORE, store => store.index('at').getAll(IDBKeyRange.lowerBound(since)));
+
+/** The latest `limit` history events, newest first. */
+export const getRecentHistory = async (limit: number): Promise<ListenEvent[]> =>
+    (await history.page({ limit, index: 'at', direction: 'prev' })).items;
+
+// ─── EQ presets and settings ────────────────────────────────────────────────
+
+export const saveEqPreset = (preset: EqPreset): Promise<void> => eqPresets.put(preset);
+
+export const getAllEqPresets = (): Promise<EqPreset[]> => eqPresets.getAll();
+
+export const deleteEqPreset = (id: string): Promise<void> => eqPresets.delete(id);
+
+export const getSetting = <T>(key: string): Promise<T | undefined> => read(SETTINGS_STORE, store => store.get(key));
+
+export const saveSetting = <T>(key: string, value: T): Promise<void> =>
+    write(SETTINGS_STORE, transaction => { transaction.objectStore(SETTINGS_STORE).put(value, key); });
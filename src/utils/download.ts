@@ -0,0 +1,61 @@
+/**
+ * Saves a Blob through a temporary object URL and an <a download> click.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** Strips characters that are not allowed in file names on common platforms. */
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled';
+
+/**
+ * Saves through the File System Access API where the browser has it, so the
+ * user picks the destination; falls back to a plain download. Resolves to
+ * false when the user cancels the picker.
+ */
+export const saveBlob = async (blob: Blob, fileName: string): Promise<boolean> => {
+    const picker = (window as any).showSaveFilePicker;
+    if (!picker) {
+        downloadBlob(blob, fileName);
+        return true;
+    }
+    try {
+        const handle = await picker({ suggestedName: fileName });
+        const writable = await handle.createWritable();
+        await writable.write(blob);
+        await writable.close();
+        return true;
+    } catch (err) {
+        if ((err as DOMException)?.name === 'AbortError') return false;
+        throw err;
+    }
+};
+
+/** Several files at once: into one picked directory when supported, else one download each. */
+export const saveBlobs = async (files: { blob: Blob; fileName: string }[]): Promise<boolean> => {
+    const picker = (window as any).showDirectoryPicker;
+    if (!picker) {
+        files.forEach(f => downloadBlob(f.blob, f.fileName));
+        return true;
+    }
+    try {
+        const directory = await picker({ mode: 'readwrite' });
+        for (const { blob, fileName } of files) {
+            const handle = await directory.getFileHandle(fileName, { create: true });
+            const writable = await handle.createWritable();
+            await writable.write(blob);
+            await writable.close();
+        }
+        return true;
+    } catch (err) {
+        if ((err as DOMException)?.name === 'AbortError') return false;
+        throw err;
+    }
+};
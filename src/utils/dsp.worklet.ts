@@ -0,0 +1,283 @@
+import { fft } from './fft';
+
+/**
+ * AudioWorklet processors for the output chain.
+ *
+ * - `linear-phase-eq`: uniformly partitioned overlap-save convolution with a
+ *   linear-phase FIR kernel designed on the main thread.
+ * - `lookahead-limiter`: brickwall peak limiter with a short lookahead so
+ *   gain reduction is in place before the peak reaches the output.
+ *
+ * Nothing in process() allocates, so the audio thread never waits on GC.
+ * Both report their render load ({ type: 'load', load }) over their port.
+ */
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: unknown): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor();
+}
+
+/**
+ * Share of real time spent inside process(). The worklet scope has no
+ * performance.now(), but Date.now() quantisation averages out over the
+ * hundreds of blocks in each report window.
+ */
+class LoadMeter {
+    private busy = 0;
+    private frames = 0;
+    private started = 0;
+
+    constructor(private port: MessagePort) {}
+
+    begin() {
+        this.started = Date.now();
+    }
+
+    end(frames: number) {
+        this.busy += Date.now() - this.started;
+        this.frames += frames;
+        if (this.frames < sampleRate / 2) return;
+        this.port.postMessage({ type: 'load', load: this.busy / (this.frames / sampleRate * 1000) });
+        this.busy = 0;
+        this.frames = 0;
+    }
+}
+
+const BLOCK = 128;
+const FFT_SIZE = BLOCK * 2;
+const BINS = FFT_SIZE / 2 + 1;
+
+interface Partitions {
+    count: number;
+    re: Float32Array;
+    im: Float32Array;
+}
+
+interface ChannelState {
+    /** Previous and current input block, the overlap-save window. */
+    window: Float32Array;
+    /** Frequency-domain delay line: spectra of the last `count` input windows. */
+    fdlRe: Float32Array;
+    fdlIm: Float32Array;
+}
+
+class LinearPhaseEqProcessor extends AudioWorkletProcessor {
+    private partitions: Partitions | null = null;
+    private previous: Partitions | null = null;
+    private channels: ChannelState[] = [];
+    private position = 0;
+    private re = new Float32Array(FFT_SIZE);
+    private im = new Float32Array(FFT_SIZE);
+    private accRe = new Float32Array(BINS);
+    private accIm = new Float32Array(BINS);
+    private fade = new Float32Array(BLOCK);
+    private meter: LoadMeter;
+
+    constructor() {
+        super();
+        this.meter = new LoadMeter(this.port);
+        this.port.onmessage = (e: MessageEvent<{ kernel: Float32Array }>) => this.setKernel(e.data.kernel);
+    }
+
+    private setKernel(kernel: Float32Array) {
+        const count = Math.ceil(kernel.length / BLOCK);
+        const partitions: Partitions = {
+            count,
+            re: new Float32Array(count * BINS),
+            im: new Float32Array(count * BINS),
+        };
+        for (let p = 0; p < count; p++) {
+            this.re.fill(0);
+            this.im.fill(0);
+            for (let i = 0; i < BLOCK && p * BLOCK + i < kernel.length; i++) this.re[i] = kernel[p * BLOCK + i];
+            fft(this.re, this.im);
+            partitions.re.set(this.re.subarray(0, BINS), p * BINS);
+            partitions.im.set(this.im.subarray(0, BINS), p * BINS);
+        }
+
+        // Delay lines must hold as many spectra as the longest kernel in use
+        const longest = Math.max(count, this.partitions?.count || 0);
+        this.channels = this.channels.map(ch => this.resize(ch, longest));
+        this.previous = this.partitions;
+        this.partitions = partitions;
+    }
+
+    private resize(state: ChannelState, count: number): ChannelState {
+        if (state.fdlRe.length >= count * BINS) return state;
+        return {
+            window: state.window,
+            fdlRe: new Float32Array(count * BINS),
+            fdlIm: new Float32Array(count * BINS),
+        };
+    }
+
+    private channel(index: number): ChannelState {
+        while (this.channels.length <= index) {
+            const count = Math.max(this.partitions?.count || 1, this.previous?.count || 1);
+            this.channels.push({
+                window: new Float32Array(FFT_SIZE),
+                fdlRe: new Float32Array(count * BINS),
+                fdlIm: new Float32Array(count * BINS),
+            });
+        }
+        return this.channels[index];
+    }
+
+    /** Sums the partition products for one channel and writes the time-domain block. */
+    private convolve(state: ChannelState, partitions: Partitions, slots: number, out: Float32Array, gain: Float32Array | null, add: boolean) {
+        const { accRe, accIm, re, im } = this;
+        accRe.fill(0);
+        accIm.fill(0);
+        for (let p = 0; p < partitions.count; p++) {
+            const slot = ((this.position - p) % slots + slots) % slots;
+            const x = slot * BINS;
+            const h = p * BINS;
+            for (let k = 0; k < BINS; k++) {
+                const xr = state.fdlRe[x + k], xi = state.fdlIm[x + k];
+                const hr = partitions.re[h + k], hi = partitions.im[h + k];
+                accRe[k] += xr * hr - xi * hi;
+                accIm[k] += xr * hi + xi * hr;
+            }
+        }
+        // Rebuild the full conjugate-symmetric spectrum and go back to time
+        for (let k = 0; k < BINS; k++) {
+            re[k] = accRe[k];
+            im[k] = accIm[k];
+        }
+        for (let k = BINS; k < FFT_SIZE; k++) {
+            re[k] = accRe[FFT_SIZE - k];
+            im[k] = -accIm[FFT_SIZE - k];
+        }
+        fft(re, im, true);
+        for (let i = 0; i < BLOCK; i++) {
+            const value = re[BLOCK + i] * (gain ? gain[i] : 1);
+            out[i] = add ? out[i] + value : value;
+        }
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+        const input = inputs[0] || [];
+        const output = outputs[0];
+        const partitions = this.partitions;
+
+        if (!partitions) {
+            output.forEach((out, ch) => input[ch] ? out.set(input[ch]) : out.fill(0));
+            return true;
+        }
+
+        this.meter.begin();
+        const slots = this.channels[0] ? this.channels[0].fdlRe.length / BINS : Math.max(partitions.count, this.previous?.count || 0);
+        const previous = this.previous;
+        if (previous) {
+            for (let i = 0; i < BLOCK; i++) this.fade[i] = i / BLOCK;
+        }
+
+        for (let ch = 0; ch < output.length; ch++) {
+            const state = this.channel(ch);
+            const samples = input[ch];
+
+            state.window.copyWithin(0, BLOCK);
+            if (samples) state.window.set(samples, BLOCK);
+            else state.window.fill(0, BLOCK);
+
+            this.re.set(state.window);
+            this.im.fill(0);
+            fft(this.re, this.im);
+            const slot = (this.position % slots) * BINS;
+            state.fdlRe.set(this.re.subarray(0, BINS), slot);
+            state.fdlIm.set(this.im.subarray(0, BINS), slot);
+
+            if (previous) {
+                // One block crossfade from the old kernel to the new one
+                const out = output[ch];
+                this.convolve(state, partitions, slots, out, this.fade, false);
+                for (let i = 0; i < BLOCK; i++) this.fade[i] = 1 - this.fade[i];
+                this.convolve(state, previous, slots, out, this.fade, true);
+                for (let i = 0; i < BLOCK; i++) this.fade[i] = 1 - this.fade[i];
+            } else {
+                this.convolve(state, partitions, slots, output[ch], null, false);
+            }
+        }
+
+        this.previous = null;
+        this.position = (this.position + 1) % slots;
+        this.meter.end(BLOCK);
+        return true;
+    }
+}
+
+/** Lookahead window; long enough to catch transients, short enough to be inaudible as delay. */
+const LOOKAHEAD_SECONDS = 0.0015;
+
+class LookaheadLimiterProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'threshold', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+            { name: 'ceiling', defaultValue: -1, minValue: -12, maxValue: 0, automationRate: 'k-rate' },
+            { name: 'release', defaultValue: 100, minValue: 1, maxValue: 2000, automationRate: 'k-rate' },
+        ];
+    }
+
+    private lookahead = Math.max(1, Math.round(sampleRate * LOOKAHEAD_SECONDS));
+    private delay: Float32Array[] = [];
+    private required = new Float32Array(this.lookahead + 1);
+    private smoothing = new Float32Array(this.lookahead);
+    private smoothingSum = this.lookahead;
+    private envelope = 1;
+    private index = 0;
+    private meter: LoadMeter;
+
+    constructor() {
+        super();
+        this.meter = new LoadMeter(this.port);
+        this.smoothing.fill(1);
+        this.required.fill(1);
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+        const input = inputs[0] || [];
+        const output = outputs[0];
+        const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+        // Signals at the threshold come out at the ceiling, as in classic broadcast limiters
+        const drive = Math.pow(10, (parameters.ceiling[0] - parameters.threshold[0]) / 20);
+        const release = Math.exp(-1 / (sampleRate * parameters.release[0] / 1000));
+        const L = this.lookahead;
+        this.meter.begin();
+
+        while (this.delay.length < output.length) this.delay.push(new Float32Array(L + 1));
+
+        for (let i = 0; i < output[0].length; i++) {
+            // Linked peak across channels so the stereo image does not shift
+            let peak = 0;
+            for (let ch = 0; ch < output.length; ch++) {
+                const value = (input[ch] ? input[ch][i] : 0) * drive;
+                this.delay[ch][this.index % (L + 1)] = value;
+                peak = Math.max(peak, Math.abs(value));
+            }
+            this.required[this.index % (L + 1)] = peak > ceiling ? ceiling / peak : 1;
+
+            let hold = 1;
+            for (let k = 0; k <= L; k++) hold = Math.min(hold, this.required[k]);
+
+            this.envelope = hold < this.envelope ? hold : hold + (this.envelope - hold) * release;
+
+            // Moving average over the lookahead turns the gain drop into a ramp that
+            // finishes before the peak leaves the delay line
+            const slot = this.index % L;
+            this.smoothingSum += this.envelope - this.smoothing[slot];
+            this.smoothing[slot] = this.envelope;
+            const gain = Math.min(1, this.smoothingSum / L);
+
+            const readIndex = (this.index + 1) % (L + 1);
+            for (let ch = 0; ch < output.length; ch++) output[ch][i] = this.delay[ch][readIndex] * gain;
+            this.index = (this.index + 1) % (L * (L + 1));
+        }
+        this.meter.end(output[0].length);
+        return true;
+    }
+}
+
+registerProcessor('linear-phase-eq', LinearPhaseEqProcessor);
+registerProcessor('lookahead-limiter', LookaheadLimiterProcessor);
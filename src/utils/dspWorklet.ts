@@ -0,0 +1,27 @@
+import workletUrl from './dsp.worklet.ts?worker&url';
+
+/**
+ * Loads the DSP AudioWorklet module once per context.
+ */
+
+const loaded = new WeakMap<BaseAudioContext, Promise<void>>();
+
+export const supportsWorklets = (context: BaseAudioContext) => !!context.audioWorklet;
+
+export const loadDspWorklet = (context: BaseAudioContext): Promise<void> => {
+    let promise = loaded.get(context);
+    if (!promise) {
+        promise = context.audioWorklet.addModule(workletUrl);
+        // Let a later call retry after a failed load
+        promise.catch(() => loaded.delete(context));
+        loaded.set(context, promise);
+    }
+    return promise;
+};
+
+/** Calls back with each render load (share of real time spent in process()) the processor reports. */
+export const onRenderLoad = (node: AudioWorkletNode, callback: (load: number) => void) => {
+    node.port.onmessage = (e: MessageEvent<{ type?: string; load?: number }>) => {
+        if (e.data?.type === 'load' && typeof e.data.load === 'number') callback(e.data.load);
+    };
+};
@@ -0,0 +1,232 @@
+import { loadDspWorklet, onRenderLoad } from './dspWorklet';
+import { designLinearPhaseKernel, kernelLatency } from './linearPhase';
+
+/**
+ * Parametric equalizer.
+ * A band list drives a chain of BiquadFilterNodes, or a linear-phase FIR
+ * worklet designed from the same bands; the same definition is used to draw
+ * the response curve, so what is shown is what is heard.
+ */
+
+export type EqFilterType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch' | 'bandpass';
+
+export const EQ_FILTER_TYPES: { id: EqFilterType; label: string }[] = [
+    { id: 'peaking', label: 'Peak' },
+    { id: 'lowshelf', label: 'Low Shelf' },
+    { id: 'highshelf', label: 'High Shelf' },
+    { id: 'lowpass', label: 'Low Pass' },
+    { id: 'highpass', label: 'High Pass' },
+    { id: 'notch', label: 'Notch' },
+    { id: 'bandpass', label: 'Band Pass' },
+];
+
+export interface EqBand {
+    id: string;
+    type: EqFilterType;
+    frequency: number;
+    q: number;
+    gain: number;
+}
+
+export const MIN_FREQUENCY = 20;
+export const MAX_FREQUENCY = 20000;
+export const MAX_GAIN = 12;
+export const MAX_BANDS = 20;
+
+/** Filter types whose gain parameter has an effect. */
+export const usesGain = (type: EqFilterType) => type === 'peaking' || type === 'lowshelf' || type === 'highshelf';
+
+/** Web Audio shelves ignore Q; every other type uses it. */
+export const usesQ = (type: EqFilterType) => type !== 'lowshelf' && type !== 'highshelf';
+
+/** BiquadFilterNode takes low/high-pass resonance in dB; bands store a plain Q like every EQ file format. */
+const nodeQ = (band: EqBand) =>
+    band.type === 'lowpass' || band.type === 'highpass' ? 20 * Math.log10(band.q) : band.q;
+
+/** True when the bands leave the signal untouched, so the filters can be skipped entirely. */
+export const isNeutral = (bands: EqBand[]) => bands.every(b => usesGain(b.type) && b.gain === 0);
+
+let nextBandId = 0;
+export const createBand = (band: Partial<Omit<EqBand, 'id'>> = {}): EqBand => ({
+    id: `band-${Date.now().toString(36)}-${nextBandId++}`,
+    type: 'peaking',
+    frequency: 1000,
+    q: 1.41,
+    gain: 0,
+    ...band,
+});
+
+/** The classic 15-band layout, kept as the flat starting point. */
+export const defaultBands = (): EqBand[] =>
+    [20, 40, 63, 100, 160, 250, 400, 630, 1000, 1600, 2500, 4000, 6300, 10000, 20000]
+        .map(frequency => createBand({ frequency }));
+
+/** Geometric midpoint of the widest gap between existing bands, for a new band. */
+export const suggestFrequency = (bands: EqBand[]): number => {
+    const points = [MIN_FREQUENCY, ...bands.map(b => b.frequency).sort((a, b) => a - b), MAX_FREQUENCY];
+    let best = 1000;
+    let widest = 0;
+    for (let i = 1; i < points.length; i++) {
+        const gap = Math.log(points[i] / points[i - 1]);
+        if (gap > widest) {
+            widest = gap;
+            best = Math.sqrt(points[i] * points[i - 1]);
+        }
+    }
+    return Math.round(best);
+};
+
+export const applyBand = (filter: BiquadFilterNode, band: EqBand, when = 0) => {
+    if (filter.type !== band.type) filter.type = band.type;
+    filter.frequency.setTargetAtTime(band.frequency, when, 0.02);
+    filter.Q.setTargetAtTime(nodeQ(band), when, 0.02);
+    filter.gain.setTargetAtTime(band.gain, when, 0.02);
+};
+
+/** Jumps straight to the band's values, for filters that were just (re)connected. */
+const setBandNow = (filter: BiquadFilterNode, band: EqBand) => {
+    filter.type = band.type;
+    for (const [param, value] of [[filter.frequency, band.frequency], [filter.Q, nodeQ(band)], [filter.gain, band.gain]] as const) {
+        param.cancelScheduledValues(0);
+        param.value = value;
+    }
+};
+
+export interface EqChain {
+    input: GainNode;
+    output: GainNode;
+    /** Updates parameters in place; filters are only rebuilt when the band count changes. */
+    setBands: (bands: EqBand[]) => void;
+    setPreamp: (db: number) => void;
+    /** Switches between minimum-phase biquads and the linear-phase FIR worklet. */
+    setLinearPhase: (enabled: boolean) => void;
+    /** Worklet render load while the FIR is in the signal path; null when only native nodes run. */
+    renderLoad: () => number | null;
+    /** Delay added by the current routing, in seconds. */
+    latency: () => number;
+}
+
+/** Coalesces FIR redesigns while a slider is being dragged. */
+const KERNEL_DEBOUNCE_MS = 40;
+
+export const createEqChain = (context: BaseAudioContext, bands: EqBand[], preamp = 0): EqChain => {
+    const input = context.createGain();
+    input.gain.value = Math.pow(10, preamp / 20);
+    const output = context.createGain();
+    let filters: BiquadFilterNode[] = [];
+    let current = bands;
+    let topology = '';
+    let linearPhase = false;
+    let fir: AudioWorkletNode | null = null;
+    let loadingFir = false;
+    let kernelTimer: ReturnType<typeof setTimeout> | null = null;
+    let firLoad: number | null = null;
+
+    /** Rewires the chain for the current bands; true when the topology changed. */
+    const route = (): boolean => {
+        const next = isNeutral(current) ? 'bypass' : linearPhase && fir ? 'fir' : `iir:${current.length}`;
+        if (next === topology) return false;
+        topology = next;
+
+        input.disconnect();
+        filters.forEach(f => f.disconnect());
+        fir?.disconnect();
+        if (next === 'bypass') {
+            input.connect(output);
+        } else if (next === 'fir') {
+            input.connect(fir!);
+            fir!.connect(output);
+        } else {
+            filters = Array.from({ length: current.length }, (_, i) => filters[i] || context.createBiquadFilter());
+            let last: AudioNode = input;
+            filters.forEach(f => {
+                last.connect(f);
+                last = f;
+            });
+            last.connect(output);
+        }
+        return true;
+    };
+
+    const sendKernel = () => {
+        if (kernelTimer) clearTimeout(kernelTimer);
+        kernelTimer = setTimeout(() => {
+            kernelTimer = null;
+            fir?.port.postMessage({ kernel: designLinearPhaseKernel(current, context.sampleRate) });
+        }, KERNEL_DEBOUNCE_MS);
+    };
+
+    const setBands = (next: EqBand[]) => {
+        current = next;
+        const rerouted = route();
+        if (topology === 'fir') sendKernel();
+        else if (topology !== 'bypass') {
+            next.forEach((band, i) => rerouted ? setBandNow(filters[i], band) : applyBand(filters[i], band, context.currentTime));
+        }
+    };
+
+    const setPreamp = (db: number) => {
+        input.gain.setTargetAtTime(Math.pow(10, db / 20), context.currentTime, 0.02);
+    };
+
+    const setLinearPhase = (enabled: boolean) => {
+        linearPhase = enabled;
+        if (enabled && !fir && !loadingFir) {
+            loadingFir = true;
+            loadDspWorklet(context)
+                .then(() => {
+                    fir = new AudioWorkletNode(context, 'linear-phase-eq');
+                    onRenderLoad(fir, load => { firLoad = load; });
+                    // Design synchronously so the first routed block is already filtered
+                    fir.port.postMessage({ kernel: designLinearPhaseKernel(current, context.sampleRate) });
+                    setBands(current);
+                })
+                .catch(err => console.error('Failed to load the linear-phase EQ worklet:', err))
+                .finally(() => { loadingFir = false; });
+        }
+        setBands(current);
+    };
+
+    route();
+    filters.forEach((filter, i) => setBandNow(filter, bands[i]));
+
+    const renderLoad = () => topology === 'fir' ? firLoad : null;
+    const latency = () => topology === 'fir' ? kernelLatency(context.sampleRate) : 0;
+
+    return { input, output, setBands, setPreamp, setLinearPhase, renderLoad, latency };
+};
+
+/** Log-spaced frequencies between 20 Hz and 20 kHz. */
+export const logFrequencies = (points: number): Float32Array => {
+    const out = new Float32Array(points);
+    const span = Math.log(MAX_FREQUENCY / MIN_FREQUENCY);
+    for (let i = 0; i < points; i++) out[i] = MIN_FREQUENCY * Math.exp(span * i / (points - 1));
+    return out;
+};
+
+let responseContext: OfflineAudioContext | null = null;
+
+/**
+ * Combined magnitude response of all bands in dB, computed by the browser's
+ * own biquad implementation via getFrequencyResponse.
+ */
+export const eqResponse = (bands: EqBand[], frequencies: Float32Array, preamp = 0): Float32Array => {
+    if (!responseContext) responseContext = new OfflineAudioContext(1, 128, 48000);
+    const total = new Float32Array(frequencies.length).fill(preamp);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+    const filter = responseContext.createBiquadFilter();
+
+    bands.forEach(band => {
+        filter.type = band.type;
+        filter.frequency.value = band.frequency;
+        filter.Q.value = nodeQ(band);
+        filter.gain.value = band.gain;
+        filter.getFrequencyResponse(frequencies, magnitude, phase);
+        for (let i = 0; i < total.length; i++) total[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    });
+    return total;
+};
+
+export const formatFrequency = (frequency: number): string =>
+    frequency >= 1000 ? `${Math.round(frequency / 100) / 10}k` : `${Math.round(frequency)}`;
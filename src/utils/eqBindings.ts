@@ -0,0 +1,56 @@
+import { albumKey } from './library';
+
+/**
+ * EQ profile bindings.
+ * A preset can be pinned to a track, an album, a folder or an output
+ * device; the most specific binding wins.
+ */
+
+export type BindingScope = 'track' | 'album' | 'folder' | 'device';
+
+export interface EqBindings {
+    track: Record<string, string>;
+    album: Record<string, string>;
+    folder: Record<string, string>;
+    device: Record<string, string>;
+}
+
+export interface BoundTrack {
+    id: number;
+    album?: string;
+    artist?: string;
+    folder?: string;
+}
+
+export const emptyBindings = (): EqBindings => ({ track: {}, album: {}, folder: {}, device: {} });
+
+/** Key a track is bound under for the given scope, or null when it has no such grouping. */
+export const bindingKey = (track: BoundTrack, scope: Exclude<BindingScope, 'device'>): string | null => {
+    switch (scope) {
+        case 'track': return String(track.id);
+        case 'album': return albumKey(track) || null;
+        case 'folder': return track.folder || null;
+    }
+};
+
+export const setBinding = (bindings: EqBindings, scope: BindingScope, key: string, presetId: string | null): EqBindings => {
+    const next = { ...bindings[scope] };
+    if (presetId) next[key] = presetId;
+    else delete next[key];
+    return { ...bindings, [scope]: next };
+};
+
+export const resolveBinding = (
+    bindings: EqBindings,
+    track: BoundTrack | null,
+    deviceKey: string | null
+): { scope: BindingScope; presetId: string } | null => {
+    if (track) {
+        for (const scope of ['track', 'album', 'folder'] as const) {
+            const key = bindingKey(track, scope);
+            if (key && bindings[scope][key]) return { scope, presetId: bindings[scope][key] };
+        }
+    }
+    if (deviceKey && bindings.device[deviceKey]) return { scope: 'device', presetId: bindings.device[deviceKey] };
+    return null;
+};
@@ -0,0 +1,202 @@
+import { EqBand, EqFilterType, createBand, defaultBands, MIN_FREQUENCY, MAX_FREQUENCY } from './eq';
+import { getAllEqPresets } from './db';
+
+/**
+ * Named EQ presets.
+ * Built-ins live in code; user presets are stored in IndexedDB. Presets can
+ * be shared as Equalizer APO / AutoEQ `ParametricEQ.txt` files or as JSON.
+ */
+
+export interface EqPreset {
+    id: string;
+    name: string;
+    /** Gain applied before the filters, in dB (AutoEQ uses it to avoid clipping). */
+    preamp: number;
+    bands: EqBand[];
+    builtIn?: boolean;
+}
+
+export type EqPresetFormat = 'apo' | 'json';
+
+const builtIn = (id: string, name: string, bands: Partial<Omit<EqBand, 'id'>>[], preamp = 0): EqPreset => ({
+    id: `builtin-${id}`,
+    name,
+    preamp,
+    bands: bands.map(createBand),
+    builtIn: true,
+});
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+    { id: 'builtin-flat', name: 'Flat', preamp: 0, bands: defaultBands(), builtIn: true },
+    builtIn('rock', 'Rock', [
+        { type: 'lowshelf', frequency: 100, gain: 4, q: 0.71 },
+        { frequency: 400, gain: -2, q: 1 },
+        { frequency: 3000, gain: 2.5, q: 1.2 },
+        { type: 'highshelf', frequency: 8000, gain: 3, q: 0.71 },
+    ], -4),
+    builtIn('pop', 'Pop', [
+        { type: 'lowshelf', frequency: 80, gain: 1.5, q: 0.71 },
+        { frequency: 250, gain: -1.5, q: 1 },
+        { frequency: 2500, gain: 2.5, q: 1 },
+        { type: 'highshelf', frequency: 10000, gain: 2, q: 0.71 },
+    ], -3),
+    builtIn('jazz', 'Jazz', [
+        { type: 'lowshelf', frequency: 120, gain: 2.5, q: 0.71 },
+        { frequency: 1000, gain: -1.5, q: 0.8 },
+        { type: 'highshelf', frequency: 6000, gain: 2, q: 0.71 },
+    ], -3),
+    builtIn('classical', 'Classical', [
+        { type: 'lowshelf', frequency: 150, gain: 2, q: 0.71 },
+        { frequency: 4000, gain: -1, q: 0.9 },
+        { type: 'highshelf', frequency: 12000, gain: 2.5, q: 0.71 },
+    ], -3),
+    builtIn('electronic', 'Electronic', [
+        { type: 'lowshelf', frequency: 60, gain: 5, q: 0.71 },
+        { frequency: 500, gain: -2, q: 1.2 },
+        { frequency: 5000, gain: 1.5, q: 1 },
+        { type: 'highshelf', frequency: 12000, gain: 3, q: 0.71 },
+    ], -5),
+    builtIn('hiphop', 'Hip-Hop', [
+        { type: 'lowshelf', frequency: 70, gain: 6, q: 0.71 },
+        { frequency: 300, gain: -2.5, q: 1 },
+        { frequency: 3500, gain: 1.5, q: 1.4 },
+    ], -6),
+    builtIn('vocal', 'Vocal', [
+        { type: 'highpass', frequency: 80, gain: 0, q: 0.71 },
+        { frequency: 300, gain: -2, q: 1 },
+        { frequency: 2500, gain: 3, q: 0.9 },
+        { frequency: 7000, gain: -1.5, q: 2 },
+    ], -3),
+    builtIn('bass-boost', 'Bass Boost', [
+        { type: 'lowshelf', frequency: 105, gain: 6, q: 0.71 },
+    ], -6),
+];
+
+/** Built-in or stored preset by id. */
+export const findPreset = async (id: string): Promise<EqPreset | null> =>
+    BUILT_IN_PRESETS.find(p => p.id === id) || (await getAllEqPresets()).find(p => p.id === id) || null;
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** True when two band lists describe the same filters (ids are ignored). */
+export const sameBands = (a: EqBand[], b: EqBand[]) =>
+    a.length === b.length && a.every((band, i) =>
+        band.type === b[i].type && band.frequency === b[i].frequency && band.q === b[i].q && band.gain === b[i].gain);
+
+// ─── Equalizer APO / AutoEQ ─────────────────────────────────────────────────
+
+const APO_TYPES: Record<string, EqFilterType> = {
+    PK: 'peaking', PEQ: 'peaking', MODAL: 'peaking',
+    LS: 'lowshelf', LSC: 'lowshelf',
+    HS: 'highshelf', HSC: 'highshelf',
+    LP: 'lowpass', LPQ: 'lowpass',
+    HP: 'highpass', HPQ: 'highpass',
+    NO: 'notch',
+    BP: 'bandpass',
+};
+
+const TYPE_TO_APO: Record<EqFilterType, string> = {
+    peaking: 'PK',
+    lowshelf: 'LSC',
+    highshelf: 'HSC',
+    lowpass: 'LPQ',
+    highpass: 'HPQ',
+    notch: 'NO',
+    bandpass: 'BP',
+};
+
+/** Q of a filter given its bandwidth in octaves. */
+const bandwidthToQ = (octaves: number) => Math.sqrt(Math.pow(2, octaves)) / (Math.pow(2, octaves) - 1);
+
+const clampFrequency = (frequency: number) => Math.min(MAX_FREQUENCY, Math.max(MIN_FREQUENCY, frequency));
+
+export const parseEqualizerApo = (text: string, name: string): EqPreset => {
+    let preamp = 0;
+    const bands: EqBand[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        const preampMatch = line.match(/^Preamp:\s*([-+\d.]+)\s*dB/i);
+        if (preampMatch) {
+            preamp += parseFloat(preampMatch[1]);
+            continue;
+        }
+
+        const filter = line.match(/^Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\b(.*)$/i);
+        if (!filter || filter[1].toUpperCase() !== 'ON') continue;
+        const type = APO_TYPES[filter[2].toUpperCase()];
+        const params = filter[3];
+        const fc = params.match(/Fc\s+([\d.]+)\s*Hz/i);
+        if (!type || !fc) continue;
+
+        const gain = params.match(/Gain\s+([-+\d.]+)\s*dB/i);
+        const q = params.match(/\bQ\s+([\d.]+)/i);
+        const bw = params.match(/BW\s+Oct\s+([\d.]+)/i);
+        bands.push(createBand({
+            type,
+            frequency: clampFrequency(parseFloat(fc[1])),
+            gain: gain ? parseFloat(gain[1]) : 0,
+            q: q ? parseFloat(q[1]) : bw ? bandwidthToQ(parseFloat(bw[1])) : 0.71,
+        }));
+    }
+
+    if (bands.length === 0) throw new Error('No enabled filters found in the Equalizer APO file');
+    return { id: createPresetId(), name, preamp, bands };
+};
+
+export const formatEqualizerApo = (preset: EqPreset): string => {
+    const lines = [`Preamp: ${preset.preamp.toFixed(1)} dB`];
+    preset.bands.forEach((band, i) => {
+        lines.push(`Filter ${i + 1}: ON ${TYPE_TO_APO[band.type]} Fc ${Math.round(band.frequency)} Hz Gain ${band.gain.toFixed(1)} dB Q ${band.q.toFixed(2)}`);
+    });
+    return lines.join('\n') + '\n';
+};
+
+// ─── JSON ───────────────────────────────────────────────────────────────────
+
+const JSON_FORMAT = 'aura-eq-preset';
+
+export const formatPresetJson = (preset: EqPreset): string => JSON.stringify({
+    format: JSON_FORMAT,
+    version: 1,
+    name: preset.name,
+    preamp: preset.preamp,
+    bands: preset.bands.map(({ type, frequency, q, gain }) => ({ type, frequency, q, gain })),
+}, null, 2);
+
+export const parsePresetJson = (text: string, fallbackName: string): EqPreset => {
+    const data = JSON.parse(text);
+    if (!data || !Array.isArray(data.bands)) throw new Error('JSON preset has no "bands" array');
+
+    const bands = data.bands.map((band: any) => {
+        const type = Object.values(APO_TYPES).includes(band.type) ? band.type as EqFilterType : null;
+        const frequency = Number(band.frequency);
+        if (!type || !isFinite(frequency)) throw new Error(`Invalid band in JSON preset: ${JSON.stringify(band)}`);
+        return createBand({
+            type,
+            frequency: clampFrequency(frequency),
+            q: isFinite(Number(band.q)) && Number(band.q) > 0 ? Number(band.q) : 0.71,
+            gain: isFinite(Number(band.gain)) ? Number(band.gain) : 0,
+        });
+    });
+
+    return {
+        id: createPresetId(),
+        name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : fallbackName,
+        preamp: isFinite(Number(data.preamp)) ? Number(data.preamp) : 0,
+        bands,
+    };
+};
+
+// ─── Files ──────────────────────────────────────────────────────────────────
+
+/** Reads an APO/AutoEQ text file or a JSON preset; the format is sniffed from the content. */
+export const importPresetFile = async (file: File): Promise<EqPreset> => {
+    const text = await file.text();
+    const name = file.name.replace(/\.[^.]+$/, '').replace(/\s*ParametricEQ$/i, '').trim() || 'Imported';
+    return text.trimStart().startsWith('{') ? parsePresetJson(text, name) : parseEqualizerApo(text, name);
+};
+
+export const exportPreset = (preset: EqPreset, format: EqPresetFormat): { blob: Blob; fileName: string } => format === 'json'
+    ? { blob: new Blob([formatPresetJson(preset)], { type: 'application/json' }), fileName: `${preset.name}.json` }
+    : { blob: new Blob([formatEqualizerApo(preset)], { type: 'text/plain' }), fileName: `${preset.name} ParametricEQ.txt` };
@@ -0,0 +1,117 @@
+/**
+ * Listening history.
+ * Every listening session of a track ends in a `complete` or `skip` event
+ * carrying the seconds actually heard; a `play` event is recorded once the
+ * heard time passes the play threshold, and only those count as plays.
+ * Seeking does not add listening time.
+ */
+
+export type ListenEventType = 'play' | 'skip' | 'complete';
+
+export interface ListenEvent {
+    /** Assigned by IndexedDB. */
+    id?: number;
+    trackId: number;
+    type: ListenEventType;
+    /** ms since the epoch. */
+    at: number;
+    /** Seconds heard in the session so far. */
+    listened: number;
+}
+
+const PLAY_THRESHOLD_MAX = 240;
+/** Position jumps bigger than this are seeks, not listening. */
+const MAX_TICK = 2;
+
+/** Seconds to hear before a play counts: half the track, capped at four minutes (the usual scrobbling rule). */
+export const playThreshold = (duration: number) =>
+    duration > 0 ? Math.min(PLAY_THRESHOLD_MAX, duration / 2) : PLAY_THRESHOLD_MAX;
+
+interface ListenSession {
+    trackId: number;
+    position: number;
+    listened: number;
+    counted: boolean;
+}
+
+/**
+ * Follows the playing track and turns position updates into history events.
+ * Each method returns the event it produced, if any, for the caller to store.
+ */
+export const createListenTracker = () => {
+    let session: ListenSession | null = null;
+
+    const event = (type: ListenEventType): ListenEvent =>
+        ({ trackId: session!.trackId, type, at: Date.now(), listened: Math.round(session!.listened) });
+
+    /** Closes the session; `completed` when the track played to its end. */
+    const finish = (completed: boolean): ListenEvent | null => {
+        if (!session) return null;
+        const closing = session.listened >= 1 ? event(completed ? 'complete' : 'skip') : null;
+        session = null;
+        return closing;
+    };
+
+    return {
+        /** Starts a session for a newly loaded track, closing the previous one. */
+        begin: (trackId: number, previousCompleted = false): ListenEvent | null => {
+            const closing = finish(previousCompleted);
+            session = { trackId, position: 0, listened: 0, counted: false };
+            return closing;
+        },
+
+        /** Position in seconds from the engine; returns the `play` event when the threshold is crossed. */
+        update: (position: number, duration: number): ListenEvent | null => {
+            if (!session) return null;
+            const delta = position - session.position;
+            session.position = position;
+            if (delta > 0 && delta < MAX_TICK) session.listened += delta;
+            if (session.counted || session.listened < playThreshold(duration)) return null;
+            session.counted = true;
+            return event('play');
+        },
+
+        finish,
+    };
+};
+
+export type ListenTracker = ReturnType<typeof createListenTracker>;
+
+// ─── Statistics ─────────────────────────────────────────────────────────────
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Monday 00:00 local time of the week containing `time`. */
+export const weekStart = (time: number) => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return date.getTime();
+};
+
+/** Seconds heard per week over the last `weeks` weeks, oldest first. */
+export const listeningByWeek = (events: ListenEvent[], weeks = 12, now = Date.now()) => {
+    const current = weekStart(now);
+    // Stepping from mid-week keeps the buckets aligned across DST changes
+    const buckets = Array.from({ length: weeks }, (_, i) => ({
+        week: weekStart(current + WEEK_MS / 2 - (weeks - 1 - i) * WEEK_MS),
+        seconds: 0,
+    }));
+    for (const e of events) {
+        // `play` events repeat time that the closing event of the session also carries
+        if (e.type === 'play') continue;
+        const bucket = buckets.find(b => weekStart(e.at) === b.week);
+        if (bucket) bucket.seconds += e.listened;
+    }
+    return buckets;
+};
+
+/** Most recent first, each track once. */
+export const recentTrackIds = (events: ListenEvent[], limit: number) => {
+    const ids: number[] = [];
+    for (const e of [...events].sort((a, b) => b.at - a.at)) {
+        if (!ids.includes(e.trackId)) ids.push(e.trackId);
+        if (ids.length >= limit) break;
+    }
+    return ids;
+};
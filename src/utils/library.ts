@@ -0,0 +1,76 @@
+/**
+ * Helpers for grouping library tracks.
+ */
+
+interface Groupable {
+    title?: string;
+    artist?: string;
+    albumArtist?: string;
+    album?: string;
+    folder?: string;
+    path?: string;
+    discNumber?: number;
+    trackNumber?: number;
+}
+
+/** Album a track belongs to: its album tag, else the folder it was imported from. */
+export const albumKey = (track: Groupable): string =>
+    track.album || (track.folder && track.folder !== 'Biblioteca' ? track.folder : '');
+
+/** Artist a track is filed under: the album artist when tagged, so compilations stay together. */
+export const artistKey = (track: Groupable): string =>
+    track.albumArtist || (track.artist && track.artist !== 'Local File' ? track.artist : '');
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/** Album order: album, then disc, then track number; untagged positions go last. */
+export const compareAlbumOrder = (a: Groupable, b: Groupable): number =>
+    collator.compare(albumKey(a), albumKey(b))
+    || (a.discNumber || 1) - (b.discNumber || 1)
+    || (a.trackNumber ?? Infinity) - (b.trackNumber ?? Infinity)
+    || collator.compare(a.title || '', b.title || '');
+
+/**
+ * Groups tracks by a key, sorted by name with tracks in album order.
+ * Tracks without a key are collected under `fallback`, listed last.
+ */
+export const groupTracks = <T extends Groupable>(tracks: T[], key: (track: T) => string, fallback: string): [string, T[]][] => {
+    const groups = new Map<string, T[]>();
+    for (const track of tracks) {
+        const name = key(track) || fallback;
+        if (!groups.has(name)) groups.set(name, []);
+        groups.get(name)!.push(track);
+    }
+    return Array.from(groups.entries())
+        .map(([name, list]): [string, T[]] => [name, list.sort(compareAlbumOrder)])
+        .sort(([a], [b]) => (a === fallback ? 1 : 0) - (b === fallback ? 1 : 0) || collator.compare(a, b));
+};
+
+/** Folder a track sits in: the directory part of its path, else the folder it was imported from. */
+export const folderPath = (track: Groupable): string =>
+    track.path?.includes('/') ? track.path.slice(0, track.path.lastIndexOf('/')) : track.folder || '';
+
+/**
+ * One level of the folder tree below `path` ('' for the top): the subfolders,
+ * each with every track under it, and the tracks directly inside in album order.
+ * Tracks without a folder are collected under `fallback` at the top.
+ */
+export const folderContents = <T extends Groupable>(tracks: T[], path: string, fallback: string) => {
+    const prefix = path ? `${path}/` : '';
+    const folders = new Map<string, T[]>();
+    const files: T[] = [];
+    for (const track of tracks) {
+        const folder = folderPath(track) || fallback;
+        if (folder === path) {
+            files.push(track);
+        } else if (folder.startsWith(prefix)) {
+            const name = folder.slice(prefix.length).split('/')[0];
+            if (!folders.has(name)) folders.set(name, []);
+            folders.get(name)!.push(track);
+        }
+    }
+    return {
+        folders: Array.from(folders.entries()).sort(([a], [b]) => collator.compare(a, b)),
+        tracks: files.sort(compareAlbumOrder),
+    };
+};
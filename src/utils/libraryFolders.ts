@@ -0,0 +1,176 @@
+/**
+ * Linked library folders.
+ * Where the File System Access API is available a folder can be linked
+ * instead of copied: its directory handle is kept in IndexedDB and each
+ * track keeps a handle to its file, which is only opened when needed.
+ * Rescanning compares size and modification time to find added, changed
+ * and removed files.
+ */
+
+export interface ScanSummary {
+    at: number;
+    added: number;
+    changed: number;
+    removed: number;
+}
+
+export interface LibraryFolder {
+    id: string;
+    name: string;
+    handle: FileSystemDirectoryHandle;
+    addedAt: number;
+    lastScan?: ScanSummary;
+}
+
+/** What a linked track stores in place of a copy of its file. */
+export interface FileLink {
+    folderId: string;
+    handle: FileSystemFileHandle;
+    size: number;
+    lastModified: number;
+}
+
+export interface ScannedFile {
+    /** Path from the linked folder, starting with the folder's name. */
+    path: string;
+    handle: FileSystemFileHandle;
+    file: File;
+}
+
+interface LinkedTrack {
+    id: number;
+    path?: string;
+    link?: FileLink;
+}
+
+type PermissionMode = 'read' | 'readwrite';
+
+// Parts of the API that TypeScript's DOM library does not declare yet
+interface PermissionedHandle {
+    queryPermission?: (descriptor: { mode: PermissionMode }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: PermissionMode }) => Promise<PermissionState>;
+}
+
+interface IterableDirectoryHandle {
+    values: () => AsyncIterable<FileSystemHandle>;
+}
+
+interface WritableFileHandle {
+    createWritable: () => Promise<{ write: (data: Blob) => Promise<void>; close: () => Promise<void> }>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: PermissionMode }) => Promise<FileSystemDirectoryHandle>;
+
+export const supportsLinkedFolders = (): boolean =>
+    typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+export const createFolderId = () => `folder-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Asks the user for a folder to link; null when the picker was cancelled. */
+export const pickLibraryFolder = async (): Promise<LibraryFolder | null> => {
+    const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+    try {
+        const handle = await picker({ id: 'library', mode: 'read' });
+        return { id: createFolderId(), name: handle.name, handle, addedAt: Date.now() };
+    } catch (err) {
+        if ((err as DOMException).name === 'AbortError') return null;
+        throw err;
+    }
+};
+
+/**
+ * Whether the handle may be read (or written). Permission does not survive a
+ * reload in most browsers; `request` prompts for it again, which only works
+ * from a user gesture.
+ */
+export const hasPermission = async (handle: FileSystemHandle, mode: PermissionMode = 'read', request = false): Promise<boolean> => {
+    const permissioned = handle as FileSystemHandle & PermissionedHandle;
+    if (!permissioned.queryPermission) return true;
+    if (await permissioned.queryPermission({ mode }) === 'granted') return true;
+    if (!request || !permissioned.requestPermission) return false;
+    return await permissioned.requestPermission({ mode }) === 'granted';
+};
+
+/** Every file below the folder, hidden entries skipped. */
+export const scanFolder = async (folder: LibraryFolder): Promise<ScannedFile[]> => {
+    const files: ScannedFile[] = [];
+    const walk = async (directory: FileSystemDirectoryHandle, path: string) => {
+        for await (const entry of (directory as unknown as IterableDirectoryHandle).values()) {
+            if (entry.name.startsWith('.')) continue;
+            const entryPath = `${path}/${entry.name}`;
+            if (entry.kind === 'directory') {
+                await walk(entry as FileSystemDirectoryHandle, entryPath);
+            } else {
+                const handle = entry as FileSystemFileHandle;
+                try {
+                    files.push({ path: entryPath, handle, file: await handle.getFile() });
+                } catch (err) {
+                    console.warn(`Skipping unreadable file ${entryPath}:`, err);
+                }
+            }
+        }
+    };
+    await walk(folder.handle, folder.name);
+    return files;
+};
+
+export const linkFor = (folderId: string, scanned: ScannedFile): FileLink => ({
+    folderId,
+    handle: scanned.handle,
+    size: scanned.file.size,
+    lastModified: scanned.file.lastModified,
+});
+
+/**
+ * Compares a scan with the tracks linked to the folder, by path: files with
+ * no track are added, tracks with no file are removed, and a different size
+ * or modification time marks a track as changed.
+ */
+export const diffScan = <T extends LinkedTrack>(tracks: T[], scanned: ScannedFile[]) => {
+    const byPath = new Map(tracks.filter(t => t.path).map(t => [t.path!, t]));
+    const added: ScannedFile[] = [];
+    const changed: { track: T; scanned: ScannedFile }[] = [];
+    const unchanged: { track: T; scanned: ScannedFile }[] = [];
+    for (const entry of scanned) {
+        const track = byPath.get(entry.path);
+        if (!track) {
+            added.push(entry);
+        } else {
+            byPath.delete(entry.path);
+            const same = track.link?.size === entry.file.size && track.link?.lastModified === entry.file.lastModified;
+            (same ? unchanged : changed).push({ track, scanned: entry });
+        }
+    }
+    return { added, changed, unchanged, removed: Array.from(byPath.values()) };
+};
+
+/**
+ * Opens the files of linked tracks whose folder is readable without asking.
+ * Returns them by track id; files that have gone missing are left out.
+ */
+export const openLinkedFiles = async (tracks: LinkedTrack[], folders: LibraryFolder[]): Promise<Map<number, File>> => {
+    const files = new Map<number, File>();
+    for (const folder of folders) {
+        const linked = tracks.filter(t => t.link?.folderId === folder.id);
+        if (linked.length === 0 || !(await hasPermission(folder.handle))) continue;
+        for (const track of linked) {
+            try {
+                files.set(track.id, await track.link!.handle.getFile());
+            } catch (err) {
+                console.warn(`Linked file missing: ${track.path}`, err);
+            }
+        }
+    }
+    return files;
+};
+
+/** Overwrites a linked file, asking for write access first; returns the file as now stored. */
+export const writeLinkedFile = async (link: FileLink, data: Blob): Promise<File> => {
+    if (!(await hasPermission(link.handle, 'readwrite', true))) {
+        throw new Error('Write access to the linked folder was denied');
+    }
+    const writable = await (link.handle as unknown as WritableFileHandle).createWritable();
+    await writable.write(data);
+    await writable.close();
+    return link.handle.getFile();
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { matchLyricsFile, buildHealthReport } from './libraryHealth';
+
+const track = (id: number, title: string, path: string, lyrics?: string) =>
+    ({ id, title, artist: 'Artista', path, lyrics, stream: undefined });
+
+describe('matchLyricsFile', () => {
+    it('prefers the file beside the lyrics with the same name', () => {
+        const tracks = [track(1, 'Intro', 'a/Intro.flac'), track(2, 'Outro', 'b/Intro.mp3')];
+        expect(matchLyricsFile('b/Intro.lrc', tracks)?.id).toBe(2);
+    });
+
+    it('matches a bare title found on a single track', () => {
+        const tracks = [track(1, 'Intro', 'a/01.flac'), track(2, 'Outro', 'a/02.flac')];
+        expect(matchLyricsFile('lyrics/intro.lrc', tracks)?.id).toBe(1);
+    });
+
+    it('leaves a title shared by several tracks unmatched', () => {
+        const tracks = [track(1, 'Intro', 'a/01.flac'), track(2, 'Intro', 'b/01.flac')];
+        expect(matchLyricsFile('lyrics/intro.lrc', tracks)).toBeUndefined();
+    });
+
+    it('matches a shared title in the lyrics file folder', () => {
+        const tracks = [track(1, 'Intro', 'a/01.flac'), track(2, 'Intro', 'b/01.flac')];
+        expect(matchLyricsFile('b/intro.lrc', tracks)?.id).toBe(2);
+    });
+
+    describe('with an Intro on two albums', () => {
+        const tracks = [track(1, 'Intro', 'Rock/Album/01 Intro.flac'), track(2, 'Intro', 'Jazz/Album/01 Intro.flac')];
+
+        it('leaves a loose file name or "artist - title" unmatched', () => {
+            expect(matchLyricsFile('lyrics/Intro.lrc', tracks)).toBeUndefined();
+            expect(matchLyricsFile('lyrics/Artista - Intro.lrc', tracks)).toBeUndefined();
+        });
+
+        it('matches the Intro in the lyrics file folder', () => {
+            expect(matchLyricsFile('Jazz/Album/Intro.lrc', tracks)?.id).toBe(2);
+            expect(matchLyricsFile('Jazz/Album/Artista - Intro.lrc', tracks)?.id).toBe(2);
+        });
+    });
+});
+
+describe('buildHealthReport', () => {
+    it('keeps no target for orphan lyrics whose title a track with lyrics shares', () => {
+        const tracks = [track(1, 'Intro', 'a/01.flac', 'letra'), track(2, 'Intro', 'b/01.flac')];
+        const [issue] = buildHealthReport(tracks, new Set([1, 2]), [{ path: 'lyrics/intro.lrc', text: '[00:01.00]oi' }])
+            .filter(i => i.kind === 'orphanLyrics');
+        expect(issue.targetId).toBeUndefined();
+    });
+});
@@ -0,0 +1,236 @@
+import type { TrackTags } from './metadata/tags';
+import { TAG_FIELDS } from './metadata/tags';
+import type { StreamInfo } from './metadata/streamInfo';
+import { isHiResStream } from './metadata/streamInfo';
+import type { FileLink } from './libraryFolders';
+import { albumKey } from './library';
+
+/**
+ * Library health.
+ * Tracks carry a hash of their audio payload, so the same recording is
+ * found again whatever its tags or file name; duplicates are merged on
+ * import and listed in the report otherwise. The report also lists tracks
+ * missing tags or art, unreadable files, lossless files that are probably
+ * upsampled from a lossy source, and lyrics files that matched no track.
+ */
+
+export interface HealthTrack extends TrackTags {
+    id: number;
+    title: string;
+    artist: string;
+    format?: string;
+    folder?: string;
+    path?: string;
+    file?: File | Blob;
+    link?: FileLink;
+    lyrics?: string;
+    stream?: StreamInfo | null;
+    /** Hash of the audio payload; null once hashing has failed. */
+    contentHash?: string | null;
+    /** Set when the user confirmed a hi-res file is upsampled. */
+    fakeHiRes?: boolean;
+    addedAt?: number;
+    playCount?: number;
+    skipCount?: number;
+    lastPlayedAt?: number;
+    rating?: number;
+    favourite?: boolean;
+}
+
+/** A sidecar lyrics file that matched no track when it was imported. */
+export interface OrphanLyrics {
+    path: string;
+    text: string;
+}
+
+export type HealthIssueKind = 'duplicate' | 'missingTags' | 'missingArt' | 'unreadable' | 'fakeHiRes' | 'orphanLyrics';
+
+export interface HealthIssue {
+    kind: HealthIssueKind;
+    /** Unique within a report. */
+    key: string;
+    /** The tracks concerned; for duplicates the one that stays comes first. */
+    trackIds: number[];
+    lyrics?: OrphanLyrics;
+    /** Track to attach orphaned lyrics to, or album-mate whose art can be copied. */
+    targetId?: number;
+}
+
+/** Lossless hi-res files below this share of the uncompressed bitrate are suspect. */
+const FAKE_HIRES_RATIO = 0.4;
+
+const baseName = (path: string) => (path.split('/').pop() || '').replace(/\.[^/.]+$/, '');
+const folderOf = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// ─── Duplicates ─────────────────────────────────────────────────────────────
+
+/** The track a duplicate group folds into: the most played, then the oldest. */
+export const pickKeeper = <T extends HealthTrack>(group: T[]): T =>
+    [...group].sort((a, b) => (b.playCount || 0) - (a.playCount || 0) || (a.addedAt ?? a.id) - (b.addedAt ?? b.id))[0];
+
+/**
+ * Folds a duplicate into the track that stays: play stats add up, missing
+ * tags and lyrics are filled in, and a linked duplicate's file is taken
+ * over when the keeper is a stored copy.
+ */
+export const mergeDuplicate = <T extends HealthTrack>(keep: T, duplicate: T): T => {
+    const merged: T = { ...keep };
+    for (const field of TAG_FIELDS) {
+        if (merged[field] === undefined && duplicate[field] !== undefined) (merged as TrackTags)[field] = duplicate[field] as never;
+    }
+    if (!merged.lyrics && duplicate.lyrics) merged.lyrics = duplicate.lyrics;
+    if (duplicate.link && !merged.link) {
+        Object.assign(merged, { file: duplicate.file, link: duplicate.link, path: duplicate.path, folder: duplicate.folder, format: duplicate.format });
+    }
+    const playCount = (keep.playCount || 0) + (duplicate.playCount || 0);
+    const skipCount = (keep.skipCount || 0) + (duplicate.skipCount || 0);
+    if (playCount) merged.playCount = playCount;
+    if (skipCount) merged.skipCount = skipCount;
+    const lastPlayedAt = Math.max(keep.lastPlayedAt || 0, duplicate.lastPlayedAt || 0);
+    if (lastPlayedAt) merged.lastPlayedAt = lastPlayedAt;
+    const rating = Math.max(keep.rating || 0, duplicate.rating || 0);
+    if (rating) merged.rating = rating;
+    if (duplicate.favourite) merged.favourite = true;
+    if (duplicate.addedAt && (!keep.addedAt || duplicate.addedAt < keep.addedAt)) merged.addedAt = duplicate.addedAt;
+    return merged;
+};
+
+/** Groups of two or more tracks with the same content hash, keeper first. */
+export const findDuplicates = <T extends HealthTrack>(tracks: T[]): T[][] => {
+    const byHash = new Map<string, T[]>();
+    for (const track of tracks) {
+        if (!track.contentHash) continue;
+        byHash.set(track.contentHash, [...(byHash.get(track.contentHash) || []), track]);
+    }
+    return Array.from(byHash.values())
+        .filter(group => group.length > 1)
+        .map(group => {
+            const keep = pickKeeper(group);
+            return [keep, ...group.filter(t => t !== keep)];
+        });
+};
+
+// ─── Tags ───────────────────────────────────────────────────────────────────
+
+export const isMissingTags = (track: HealthTrack) =>
+    !track.album || !track.artist || track.artist === 'Local File';
+
+/**
+ * Tags read from the path, for the usual layouts: `Artist/Album/01 - Title`,
+ * `Album/01 Artist - Title` and `Artist - Title`.
+ */
+export const guessTagsFromPath = (path: string): TrackTags => {
+    const segments = path.split('/');
+    const tags: TrackTags = {};
+    let name = baseName(path).replace(/_/g, ' ').trim();
+    const numbered = name.match(/^(\d{1,3})\s*[-.)]?\s+(.+)$/);
+    if (numbered) {
+        tags.trackNumber = parseInt(numbered[1], 10);
+        name = numbered[2];
+    }
+    const dash = name.indexOf(' - ');
+    if (dash > 0) {
+        tags.artist = name.slice(0, dash).trim();
+        name = name.slice(dash + 3);
+    }
+    tags.title = name.trim();
+    if (segments.length >= 2) tags.album = segments[segments.length - 2];
+    if (!tags.artist && segments.length >= 3) tags.artist = segments[segments.length - 3];
+    return tags;
+};
+
+/** Guessed tags for the fields a track is missing. */
+export const fillMissingTags = (track: HealthTrack): TrackTags => {
+    const guessed = guessTagsFromPath(track.path || '');
+    const missing = (field: keyof TrackTags) => {
+        const value = track[field];
+        return value === undefined || value === '' || (field === 'artist' && value === 'Local File');
+    };
+    return Object.fromEntries(Object.entries(guessed).filter(([field, value]) => value && missing(field as keyof TrackTags))) as TrackTags;
+};
+
+// ─── Stream checks ──────────────────────────────────────────────────────────
+
+/**
+ * A lossless hi-res stream that compresses far better than real hi-res
+ * material does, typically because it was upsampled from a lossy file.
+ */
+export const isLikelyFakeHiRes = (stream: StreamInfo | null | undefined): boolean => {
+    if (!stream || !isHiResStream(stream) || !stream.bitrate || !stream.bitDepth) return false;
+    const pcmKbps = stream.sampleRate * stream.bitDepth * stream.channels / 1000;
+    return stream.bitrate < pcmKbps * FAKE_HIRES_RATIO;
+};
+
+// ─── Lyrics ─────────────────────────────────────────────────────────────────
+
+/** Name reduced for matching: no track number, accents or punctuation. */
+export const matchKey = (name: string) => name
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^\d{1,3}\s*[-.)]?\s+/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/** The single match in `folder`, else the single one anywhere. */
+const onlyOne = <T extends HealthTrack>(matches: T[], folder: string): T | undefined => {
+    const beside = matches.filter(t => t.path && folderOf(t.path) === folder);
+    if (beside.length > 0) return beside.length === 1 ? beside[0] : undefined;
+    return matches.length === 1 ? matches[0] : undefined;
+};
+
+/**
+ * Track a lyrics file belongs to: the one beside it with the same name, else
+ * the one whose file name, "artist - title" or title matches loosely. Loose
+ * names repeat across albums (every album may have an "Intro"), so a loose
+ * match counts only when it is the one such track in the lyrics file's
+ * folder or, failing that, in all of `tracks`.
+ */
+export const matchLyricsFile = <T extends HealthTrack>(path: string, tracks: T[]): T | undefined => {
+    const stem = path.replace(/\.[^/.]+$/, '');
+    const key = matchKey(baseName(path));
+    if (!key) return undefined;
+    return tracks.find(t => t.path && t.path.replace(/\.[^/.]+$/, '') === stem)
+        || onlyOne(tracks.filter(t => t.path && matchKey(baseName(t.path)) === key), folderOf(path))
+        || onlyOne(tracks.filter(t => matchKey(`${t.artist} - ${t.title}`) === key), folderOf(path))
+        || onlyOne(tracks.filter(t => matchKey(t.title) === key), folderOf(path));
+};
+
+// ─── Report ─────────────────────────────────────────────────────────────────
+
+/**
+ * Every issue in the library. `artworkIds` are the tracks with cached art;
+ * `orphans` the lyrics files kept from earlier imports.
+ */
+export const buildHealthReport = <T extends HealthTrack>(tracks: T[], artworkIds: Set<number>, orphans: OrphanLyrics[]): HealthIssue[] => {
+    const issues: HealthIssue[] = [];
+
+    for (const group of findDuplicates(tracks)) {
+        issues.push({ kind: 'duplicate', key: `duplicate-${group[0].contentHash}`, trackIds: group.map(t => t.id) });
+    }
+
+    for (const track of tracks) {
+        if (track.stream === null || track.contentHash === null) {
+            issues.push({ kind: 'unreadable', key: `unreadable-${track.id}`, trackIds: [track.id] });
+            continue;
+        }
+        if (isMissingTags(track)) {
+            issues.push({ kind: 'missingTags', key: `tags-${track.id}`, trackIds: [track.id] });
+        }
+        if (!artworkIds.has(track.id)) {
+            const album = albumKey(track);
+            const mate = album ? tracks.find(t => t.id !== track.id && artworkIds.has(t.id) && albumKey(t) === album) : undefined;
+            issues.push({ kind: 'missingArt', key: `art-${track.id}`, trackIds: [track.id], targetId: mate?.id });
+        }
+        if (!track.fakeHiRes && isLikelyFakeHiRes(track.stream)) {
+            issues.push({ kind: 'fakeHiRes', key: `hires-${track.id}`, trackIds: [track.id] });
+        }
+    }
+
+    for (const lyrics of orphans) {
+        // Matched against every track so a title shared with one that has lyrics stays ambiguous
+        const match = matchLyricsFile(lyrics.path, tracks);
+        const target = match && !match.lyrics ? match : undefined;
+        issues.push({ kind: 'orphanLyrics', key: `lyrics-${lyrics.path}`, trackIds: target ? [target.id] : [], lyrics, targetId: target?.id });
+    }
+    return issues;
+};
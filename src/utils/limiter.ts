@@ -0,0 +1,84 @@
+import { loadDspWorklet, onRenderLoad } from './dspWorklet';
+
+/**
+ * Optional output limiter.
+ * While disabled (the default) the node is not in the graph at all, so the
+ * chain stays bit-transparent.
+ */
+
+export interface LimiterSettings {
+    limiterEnabled: boolean;
+    /** Input level where limiting starts, in dBFS. */
+    limiterThreshold: number;
+    /** Maximum output peak, in dBFS. */
+    limiterCeiling: number;
+    /** Release time in ms. */
+    limiterRelease: number;
+}
+
+export interface Limiter {
+    input: GainNode;
+    output: GainNode;
+    set: (settings: LimiterSettings) => void;
+    /** Worklet render load while enabled, null otherwise. */
+    renderLoad: () => number | null;
+    /** Lookahead delay while enabled, in seconds. */
+    latency: () => number;
+}
+
+/** Must match the lookahead in the `lookahead-limiter` processor. */
+const LOOKAHEAD_SECONDS = 0.0015;
+
+export const createLimiter = (context: BaseAudioContext): Limiter => {
+    const input = context.createGain();
+    const output = context.createGain();
+    let node: AudioWorkletNode | null = null;
+    let current: LimiterSettings | null = null;
+    let loading = false;
+    let load: number | null = null;
+
+    const route = () => {
+        input.disconnect();
+        node?.disconnect();
+        if (current?.limiterEnabled && node) {
+            input.connect(node);
+            node.connect(output);
+        } else {
+            input.connect(output);
+        }
+    };
+
+    const applyParams = () => {
+        if (!node || !current) return;
+        const at = context.currentTime;
+        node.parameters.get('threshold')?.setValueAtTime(current.limiterThreshold, at);
+        node.parameters.get('ceiling')?.setValueAtTime(current.limiterCeiling, at);
+        node.parameters.get('release')?.setValueAtTime(current.limiterRelease, at);
+    };
+
+    const set = (settings: LimiterSettings) => {
+        const wasEnabled = !!current?.limiterEnabled;
+        current = settings;
+        if (settings.limiterEnabled && !node && !loading) {
+            loading = true;
+            loadDspWorklet(context)
+                .then(() => {
+                    node = new AudioWorkletNode(context, 'lookahead-limiter');
+                    onRenderLoad(node, value => { load = value; });
+                    applyParams();
+                    route();
+                })
+                .catch(err => console.error('Failed to load the limiter worklet:', err))
+                .finally(() => { loading = false; });
+        }
+        applyParams();
+        if (wasEnabled !== settings.limiterEnabled) route();
+    };
+
+    const active = () => !!current?.limiterEnabled && !!node;
+    const renderLoad = () => active() ? load : null;
+    const latency = () => active() ? Math.max(1, Math.round(context.sampleRate * LOOKAHEAD_SECONDS)) / context.sampleRate : 0;
+
+    input.connect(output);
+    return { input, output, set, renderLoad, latency };
+};
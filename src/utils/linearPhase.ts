@@ -0,0 +1,101 @@
+import { fft } from './fft';
+import type { EqBand } from './eq';
+
+/**
+ * Linear-phase FIR design from the parametric band list.
+ * The target magnitude is the product of the bands' biquad magnitudes (RBJ
+ * cookbook, as implemented by BiquadFilterNode); the phase is discarded,
+ * so the kernel is symmetric and every frequency is delayed by the same
+ * length / 2 samples.
+ */
+
+/** About 85 ms at 48 kHz: enough resolution for low shelves around 30 Hz. */
+const KERNEL_SECONDS = 0.17;
+/** Above this the partitioned convolution gets too heavy for the audio thread. */
+const MAX_KERNEL = 16384;
+
+export const kernelLength = (sampleRate: number): number =>
+    Math.min(MAX_KERNEL, 2 ** Math.ceil(Math.log2(sampleRate * KERNEL_SECONDS)));
+
+/** Delay introduced by a linear-phase kernel of this length, in seconds. */
+export const kernelLatency = (sampleRate: number): number => kernelLength(sampleRate) / 2 / sampleRate;
+
+interface Coefficients {
+    b0: number; b1: number; b2: number; a0: number; a1: number; a2: number;
+}
+
+const coefficients = (band: EqBand, sampleRate: number): Coefficients => {
+    const w0 = 2 * Math.PI * Math.min(band.frequency, sampleRate / 2 - 1) / sampleRate;
+    const cos = Math.cos(w0);
+    const sin = Math.sin(w0);
+    const A = Math.pow(10, band.gain / 40);
+    const alpha = sin / (2 * band.q);
+    const shelfAlpha = sin / 2 * Math.SQRT2;
+    const sqrtA2 = 2 * Math.sqrt(A) * shelfAlpha;
+
+    switch (band.type) {
+        case 'lowpass':
+            return { b0: (1 - cos) / 2, b1: 1 - cos, b2: (1 - cos) / 2, a0: 1 + alpha, a1: -2 * cos, a2: 1 - alpha };
+        case 'highpass':
+            return { b0: (1 + cos) / 2, b1: -(1 + cos), b2: (1 + cos) / 2, a0: 1 + alpha, a1: -2 * cos, a2: 1 - alpha };
+        case 'bandpass':
+            return { b0: alpha, b1: 0, b2: -alpha, a0: 1 + alpha, a1: -2 * cos, a2: 1 - alpha };
+        case 'notch':
+            return { b0: 1, b1: -2 * cos, b2: 1, a0: 1 + alpha, a1: -2 * cos, a2: 1 - alpha };
+        case 'lowshelf':
+            return {
+                b0: A * ((A + 1) - (A - 1) * cos + sqrtA2),
+                b1: 2 * A * ((A - 1) - (A + 1) * cos),
+                b2: A * ((A + 1) - (A - 1) * cos - sqrtA2),
+                a0: (A + 1) + (A - 1) * cos + sqrtA2,
+                a1: -2 * ((A - 1) + (A + 1) * cos),
+                a2: (A + 1) + (A - 1) * cos - sqrtA2,
+            };
+        case 'highshelf':
+            return {
+                b0: A * ((A + 1) + (A - 1) * cos + sqrtA2),
+                b1: -2 * A * ((A - 1) + (A + 1) * cos),
+                b2: A * ((A + 1) + (A - 1) * cos - sqrtA2),
+                a0: (A + 1) - (A - 1) * cos + sqrtA2,
+                a1: 2 * ((A - 1) - (A + 1) * cos),
+                a2: (A + 1) - (A - 1) * cos - sqrtA2,
+            };
+        default:
+            return { b0: 1 + alpha * A, b1: -2 * cos, b2: 1 - alpha * A, a0: 1 + alpha / A, a1: -2 * cos, a2: 1 - alpha / A };
+    }
+};
+
+const magnitudeAt = (c: Coefficients, w: number): number => {
+    const cos1 = Math.cos(w), sin1 = Math.sin(w);
+    const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+    const numRe = c.b0 + c.b1 * cos1 + c.b2 * cos2;
+    const numIm = -(c.b1 * sin1 + c.b2 * sin2);
+    const denRe = c.a0 + c.a1 * cos1 + c.a2 * cos2;
+    const denIm = -(c.a1 * sin1 + c.a2 * sin2);
+    return Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+};
+
+export const designLinearPhaseKernel = (bands: EqBand[], sampleRate: number): Float32Array => {
+    const length = kernelLength(sampleRate);
+    const re = new Float64Array(length);
+    const im = new Float64Array(length);
+
+    const filters = bands.map(band => coefficients(band, sampleRate));
+    for (let k = 0; k <= length / 2; k++) {
+        const w = 2 * Math.PI * k / length;
+        let magnitude = 1;
+        for (const c of filters) magnitude *= magnitudeAt(c, w);
+        re[k] = magnitude;
+        if (k > 0 && k < length / 2) re[length - k] = magnitude;
+    }
+
+    // Zero-phase impulse, rotated to the centre and windowed (Blackman)
+    fft(re, im, true);
+    const kernel = new Float32Array(length);
+    for (let n = 0; n < length; n++) {
+        const t = n / (length - 1);
+        const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+        kernel[n] = re[(n + length / 2) % length] * window;
+    }
+    return kernel;
+};
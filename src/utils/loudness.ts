@@ -0,0 +1,162 @@
+/**
+ * ITU-R BS.1770-4 loudness and true-peak measurement.
+ *
+ * Integrated loudness uses K-weighting, 400 ms blocks with 75 % overlap and
+ * the -70 LUFS absolute / -10 LU relative gates. True peak is measured on a
+ * 4x oversampled signal. Pure and DOM-free so it can run inside a worker.
+ */
+
+export interface LoudnessInfo {
+    /** Integrated loudness in LUFS. */
+    integrated: number;
+    /** True peak in dBTP. */
+    truePeak: number;
+    /** Measured length in seconds, used to weight album loudness. */
+    duration: number;
+}
+
+interface Biquad {
+    b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+/** K-weighting stages for any sample rate (coefficients as derived in libebur128). */
+const kWeighting = (sampleRate: number): Biquad[] => {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: Biquad = {
+        b0: (Vh + Vb * K / Q + K * K) / a0,
+        b1: 2 * (K * K - Vh) / a0,
+        b2: (Vh - Vb * K / Q + K * K) / a0,
+        a1: 2 * (K * K - 1) / a0,
+        a2: (1 - K / Q + K * K) / a0,
+    };
+
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highpass: Biquad = {
+        b0: 1, b1: -2, b2: 1,
+        a1: 2 * (K * K - 1) / a0,
+        a2: (1 - K / Q + K * K) / a0,
+    };
+    return [shelf, highpass];
+};
+
+/** 5.1 surround channels count 1.41x, LFE is ignored. */
+const channelWeight = (channel: number, channels: number): number => {
+    if (channels !== 6) return 1;
+    return [1, 1, 1, 0, 1.41, 1.41][channel];
+};
+
+/** Sum of K-weighted squares for every 100 ms step, per channel. */
+const stepEnergies = (samples: Float32Array, sampleRate: number, step: number): Float64Array => {
+    const energies = new Float64Array(Math.floor(samples.length / step));
+    const stages = kWeighting(sampleRate);
+    const state = stages.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+    for (let i = 0; i < energies.length * step; i++) {
+        let value = samples[i];
+        for (let s = 0; s < stages.length; s++) {
+            const f = stages[s];
+            const st = state[s];
+            const y = f.b0 * value + f.b1 * st.x1 + f.b2 * st.x2 - f.a1 * st.y1 - f.a2 * st.y2;
+            st.x2 = st.x1; st.x1 = value;
+            st.y2 = st.y1; st.y1 = y;
+            value = y;
+        }
+        energies[Math.floor(i / step)] += value * value;
+    }
+    return energies;
+};
+
+const integratedLoudness = (channels: Float32Array[], sampleRate: number): number => {
+    const step = Math.round(sampleRate / 10);
+    const blockLength = 4 * step;
+    const perChannel = channels.map(c => stepEnergies(c, sampleRate, step));
+    const steps = perChannel[0].length;
+
+    const blocks: number[] = [];
+    for (let i = 0; i + 4 <= steps; i++) {
+        let power = 0;
+        perChannel.forEach((energies, ch) => {
+            const sum = energies[i] + energies[i + 1] + energies[i + 2] + energies[i + 3];
+            power += channelWeight(ch, channels.length) * sum / blockLength;
+        });
+        blocks.push(power);
+    }
+
+    const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+    const aboveAbsolute = blocks.filter(p => toLufs(p) > -70);
+    if (aboveAbsolute.length === 0) return -Infinity;
+    const relativeGate = toLufs(mean(aboveAbsolute)) - 10;
+    const gated = aboveAbsolute.filter(p => toLufs(p) > relativeGate);
+    return toLufs(mean(gated));
+};
+
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+/** Windowed-sinc interpolation filter split into its polyphase components. */
+const interpolationPhases = (): Float64Array[] => {
+    const length = OVERSAMPLE * TAPS_PER_PHASE;
+    const centre = (length - 1) / 2;
+    const phases = Array.from({ length: OVERSAMPLE }, () => new Float64Array(TAPS_PER_PHASE));
+    for (let n = 0; n < length; n++) {
+        const x = (n - centre) / OVERSAMPLE;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * n / (length - 1)) + 0.08 * Math.cos(4 * Math.PI * n / (length - 1));
+        phases[n % OVERSAMPLE][Math.floor(n / OVERSAMPLE)] = sinc * window;
+    }
+    return phases;
+};
+
+const truePeak = (channels: Float32Array[]): number => {
+    const phases = interpolationPhases();
+    let peak = 0;
+    channels.forEach(samples => {
+        for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    });
+
+    // Inter-sample overs stay within a few dB of the sample peak, so quiet
+    // stretches can be skipped without missing the maximum
+    const threshold = peak * 0.5;
+    channels.forEach(samples => {
+        for (let i = TAPS_PER_PHASE; i < samples.length; i++) {
+            if (Math.abs(samples[i]) < threshold && Math.abs(samples[i - 1]) < threshold) continue;
+            for (const taps of phases) {
+                let value = 0;
+                for (let k = 0; k < TAPS_PER_PHASE; k++) value += samples[i - k] * taps[k];
+                peak = Math.max(peak, Math.abs(value));
+            }
+        }
+    });
+    return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+};
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessInfo | null => {
+    if (channels.length === 0 || channels[0].length < sampleRate * 0.4) return null;
+    const integrated = integratedLoudness(channels, sampleRate);
+    if (!isFinite(integrated)) return null;
+    return {
+        integrated: Math.round(integrated * 100) / 100,
+        truePeak: Math.round(truePeak(channels) * 100) / 100,
+        duration: channels[0].length / sampleRate,
+    };
+};
+
+/** Duration-weighted power average of per-track loudness, used for album mode. */
+export const combineLoudness = (tracks: LoudnessInfo[]): LoudnessInfo | null => {
+    const total = tracks.reduce((sum, t) => sum + t.duration, 0);
+    if (tracks.length === 0 || total === 0) return null;
+    const power = tracks.reduce((sum, t) => sum + t.duration * Math.pow(10, t.integrated / 10), 0) / total;
+    return {
+        integrated: Math.round(10 * Math.log10(power) * 100) / 100,
+        truePeak: Math.max(...tracks.map(t => t.truePeak)),
+        duration: total,
+    };
+};
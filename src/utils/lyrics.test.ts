@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { parseLrc, activeLineIndex, wordProgress, formatLrcTime, isSynced, plainLyrics, pickLyrics, toLrc } from './lyrics';
+
+describe('parseLrc', () => {
+    it('reads the fraction after a dot or a colon, with one to three digits', () => {
+        const { lines } = parseLrc(['[00:01.5]a', '[00:02.25]b', '[00:03.125]c', '[00:04:50]d', '[01:05]e'].join('\n'));
+        expect(lines.map(l => l.time)).toEqual([1500, 2250, 3125, 4500, 65000]);
+    });
+
+    it('repeats a line with several timestamps and sorts the result', () => {
+        const { lines } = parseLrc(['[00:10.00][00:30.00]chorus', '[00:20.00]verse'].join('\n'));
+        expect(lines).toEqual([
+            { time: 10000, text: 'chorus' },
+            { time: 20000, text: 'verse' },
+            { time: 30000, text: 'chorus' },
+        ]);
+    });
+
+    it('keeps header tags and applies [offset:] to every line, positive meaning earlier', () => {
+        const { lines, tags, offset } = parseLrc(['[ti:Song]', '[AR:Band]', '[offset:+500]', '[00:10.00]one'].join('\n'));
+        expect(tags).toMatchObject({ ti: 'Song', ar: 'Band' });
+        expect(offset).toBe(500);
+        expect(lines[0].time).toBe(9500);
+        expect(parseLrc('[offset:-250]\n[00:01.00]x').lines[0].time).toBe(1250);
+    });
+
+    it('splits enhanced LRC word stamps and reads a trailing stamp as the end', () => {
+        const [line] = parseLrc('[00:01.00]<00:01.00>Hello <00:01.50>world<00:02.20>').lines;
+        expect(line.text).toBe('Hello world');
+        expect(line.words).toEqual([{ time: 1000, text: 'Hello ' }, { time: 1500, text: 'world' }]);
+        expect(line.end).toBe(2200);
+    });
+
+    it('shifts word times with the offset and for each repeat of the line', () => {
+        const { lines } = parseLrc('[offset:100]\n[00:01.00][00:11.00]<00:01.00>la <00:01.40>la');
+        expect(lines.map(l => l.words!.map(w => w.time))).toEqual([[900, 1300], [10900, 11300]]);
+    });
+
+    it('keeps empty timed lines, which end the one before', () => {
+        const { lines } = parseLrc('[00:01.00]sung\n[00:03.00]');
+        expect(lines).toEqual([{ time: 1000, text: 'sung' }, { time: 3000, text: '' }]);
+    });
+
+    it('finds no lines in unsynced text', () => {
+        expect(parseLrc('just\nsome words').lines).toEqual([]);
+    });
+});
+
+describe('activeLineIndex', () => {
+    const { lines } = parseLrc('[00:01.00]a\n[00:02.00]b\n[00:03.00]c');
+
+    it('is -1 before the first line and the last line started otherwise', () => {
+        expect(activeLineIndex(lines, 500)).toBe(-1);
+        expect(activeLineIndex(lines, 1000)).toBe(0);
+        expect(activeLineIndex(lines, 2999)).toBe(1);
+        expect(activeLineIndex(lines, 60000)).toBe(2);
+    });
+});
+
+describe('wordProgress', () => {
+    it('runs each word up to the next, and the last one up to the next line', () => {
+        const [line, next] = parseLrc('[00:01.00]<00:01.00>one <00:02.00>two\n[00:04.00]next').lines;
+        expect(wordProgress(line, next.time, 1500)).toEqual([0.5, 0]);
+        expect(wordProgress(line, next.time, 3000)).toEqual([1, 0.5]);
+    });
+});
+
+describe('unsynced lyrics', () => {
+    const unsynced = '[ar:Band]\n\nfirst line\nsecond line\n';
+
+    it('are recognised as unsynced and shown without header tags', () => {
+        expect(isSynced(unsynced)).toBe(false);
+        expect(plainLyrics(unsynced)).toBe('first line\nsecond line');
+    });
+
+    it('are picked only when no synced source exists', () => {
+        expect(pickLyrics([null, unsynced, '[00:01.00]timed'])).toBe('[00:01.00]timed');
+        expect(pickLyrics(['', '  ', unsynced])).toBe(unsynced);
+        expect(pickLyrics([undefined])).toBe('');
+    });
+});
+
+describe('toLrc', () => {
+    it('writes mm:ss.xx stamps', () => {
+        expect(formatLrcTime(65432)).toBe('01:05.43');
+        expect(formatLrcTime(-20)).toBe('00:00.00');
+    });
+
+    it('reads back through parseLrc to the same lines and tags', () => {
+        const lines = [{ time: 12340, text: 'second' }, { time: 1000, text: 'first' }, { time: 61000, text: '' }];
+        const parsed = parseLrc(toLrc(lines, { ti: 'Song', ar: 'Band', al: '' }));
+        expect(parsed.tags).toEqual({ ti: 'Song', ar: 'Band' });
+        expect(parsed.lines).toEqual([...lines].sort((a, b) => a.time - b.time));
+    });
+});
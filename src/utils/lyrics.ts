@@ -0,0 +1,160 @@
+/**
+ * LRC and enhanced LRC (A2) lyrics.
+ * A line may carry several timestamps (`[00:12.00][01:40.00]chorus`) and
+ * word timestamps (`<00:12.40>word`). Fractions may be written after a dot
+ * or a colon, with one to three digits. `[offset:]` shifts every timestamp
+ * (positive means earlier, in ms); other headers such as `[ar:]` and
+ * `[ti:]` are kept as tags. Text without any timestamp is unsynced lyrics,
+ * shown as it is.
+ */
+
+export interface LyricWord {
+    /** ms */
+    time: number;
+    text: string;
+}
+
+export interface LyricLine {
+    /** ms, with the file's offset applied */
+    time: number;
+    text: string;
+    /** Word timing from an enhanced LRC line. */
+    words?: LyricWord[];
+    /** Where the last word ends, from a trailing word timestamp. */
+    end?: number;
+}
+
+export interface ParsedLyrics {
+    /** Sorted by time; empty lines are kept because they end the previous one. */
+    lines: LyricLine[];
+    /** Header tags by lower-cased name (`ar`, `ti`, `al`, `by`, ...). */
+    tags: Record<string, string>;
+    /** The `[offset:]` header in ms, already applied to `lines`. */
+    offset: number;
+}
+
+const LINE_STAMP = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+const WORD_STAMP = /<(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const HEADER = /^\[([a-z#]+):(.*)\]$/i;
+
+/** `12`, `4` and `120` after the seconds read as 120 ms, 400 ms and 120 ms. */
+const toMs = (minutes: string, seconds: string, fraction = '') =>
+    parseInt(minutes, 10) * 60000 + parseInt(seconds, 10) * 1000 + (fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0);
+
+/** Splits a line's text at its word timestamps; text before the first one is left out of `words`. */
+const parseWords = (raw: string): { text: string; words?: LyricWord[]; end?: number } => {
+    const stamps = Array.from(raw.matchAll(WORD_STAMP));
+    if (stamps.length === 0) return { text: raw.trim() };
+    const words: LyricWord[] = [];
+    let end: number | undefined;
+    stamps.forEach((stamp, i) => {
+        const start = stamp.index! + stamp[0].length;
+        const text = raw.slice(start, i + 1 < stamps.length ? stamps[i + 1].index : raw.length);
+        const time = toMs(stamp[1], stamp[2], stamp[3]);
+        if (text.trim()) words.push({ time, text });
+        else if (i === stamps.length - 1) end = time;
+    });
+    const lead = raw.slice(0, stamps[0].index).trim();
+    const text = (lead ? `${lead} ` : '') + words.map(w => w.text).join('').trim();
+    return { text: text.replace(/\s+/g, ' '), words: words.length ? words : undefined, end };
+};
+
+export const parseLrc = (source: string): ParsedLyrics => {
+    const tags: Record<string, string> = {};
+    const timed: { stamps: number[]; text: string; words?: LyricWord[]; end?: number }[] = [];
+
+    for (const rawLine of source.split(/\r?\n/)) {
+        let rest = rawLine.trim();
+        const stamps: number[] = [];
+        let match: RegExpExecArray | null;
+        while ((match = LINE_STAMP.exec(rest))) {
+            stamps.push(toMs(match[1], match[2], match[3]));
+            rest = rest.slice(match[0].length).trimStart();
+        }
+        if (stamps.length > 0) {
+            timed.push({ stamps, ...parseWords(rest) });
+            continue;
+        }
+        const header = HEADER.exec(rest);
+        if (header) tags[header[1].toLowerCase()] = header[2].trim();
+    }
+
+    const offset = parseInt(tags.offset || '0', 10) || 0;
+    const lines: LyricLine[] = [];
+    for (const { stamps, text, words, end } of timed) {
+        for (const stamp of stamps) {
+            // A repeated line's word times are written for its first occurrence
+            const shift = stamp - stamps[0] - offset;
+            lines.push({
+                time: stamp - offset,
+                text,
+                ...(words && { words: words.map(w => ({ time: w.time + shift, text: w.text })) }),
+                ...(end !== undefined && { end: end + shift }),
+            });
+        }
+    }
+    // Array.sort is stable, so lines with the same time keep file order
+    lines.sort((a, b) => a.time - b.time);
+    return { lines, tags, offset };
+};
+
+/** Index of the line playing at `ms`, or -1 before the first one. */
+export const activeLineIndex = (lines: LyricLine[], ms: number): number => {
+    let low = 0;
+    let high = lines.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (lines[mid].time <= ms) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+/**
+ * How far each word of a line has been sung at `ms`, from 0 to 1. A word
+ * lasts until the next word starts, or until the line's end (or the next
+ * line) for the last one.
+ */
+export const wordProgress = (line: LyricLine, nextLineTime: number | undefined, ms: number): number[] =>
+    (line.words || []).map((word, i) => {
+        const end = line.words![i + 1]?.time ?? line.end ?? nextLineTime ?? word.time + 1000;
+        if (ms <= word.time) return 0;
+        if (ms >= end) return 1;
+        return (ms - word.time) / (end - word.time);
+    });
+
+/** `mm:ss.xx`, the timestamp form LRC players read most widely. */
+export const formatLrcTime = (ms: number): string => {
+    const centiseconds = Math.max(0, Math.round(ms / 10));
+    const minutes = Math.floor(centiseconds / 6000);
+    const seconds = Math.floor((centiseconds % 6000) / 100);
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds % 100).padStart(2, '0')}`;
+};
+
+/** Whether the text has at least one timed line. */
+export const isSynced = (source: string): boolean =>
+    source.split(/\r?\n/).some(line => LINE_STAMP.test(line.trim()));
+
+/** Unsynced lyrics without header tags or surrounding blank lines. */
+export const plainLyrics = (source: string): string =>
+    source.split(/\r?\n/).filter(line => !HEADER.test(line.trim())).join('\n').trim();
+
+/** The best of several lyrics sources: the first synced one, else the first with any text. */
+export const pickLyrics = (candidates: (string | null | undefined)[]): string => {
+    const texts = candidates.filter((c): c is string => !!c && !!c.trim());
+    return texts.find(isSynced) || texts[0] || '';
+};
+
+/**
+ * LRC text for timed lines, in time order, after the given header tags
+ * (`ti`, `ar`, ...). Reads back through parseLrc to the same lines.
+ */
+export const toLrc = (lines: { time: number; text: string }[], tags: Record<string, string> = {}): string => [
+    ...Object.entries(tags).filter(([, value]) => value).map(([name, value]) => `[${name}:${value}]`),
+    ...[...lines].sort((a, b) => a.time - b.time).map(line => `[${formatLrcTime(line.time)}]${line.text}`),
+].join('\n');
@@ -0,0 +1,324 @@
+/**
+ * Writes the small audio files the metadata tests read. Each one carries
+ * only headers and tags plus a token amount of audio, laid out by hand so
+ * the expected values in the tests are known exactly.
+ *
+ *     npx vite-node src/utils/metadata/__fixtures__/generate.ts
+ */
+
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const OUT = dirname(fileURLToPath(import.meta.url));
+
+/** A 1×1 PNG. */
+const PNG = Uint8Array.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+    0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x08, 0x06, 0x00, 0x00, 0x00, 0x1f, 0x15, 0xc4,
+    0x89, 0x00, 0x00, 0x00, 0x0d, 0x49, 0x44, 0x41, 0x54, 0x78, 0x9c, 0x63, 0xf8, 0xcf, 0xc0, 0xf0,
+    0x1f, 0x00, 0x05, 0x00, 0x01, 0xff, 0x89, 0x99, 0x3d, 0x1d, 0x00, 0x00, 0x00, 0x00, 0x49, 0x45,
+    0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+]);
+
+/** JPEG start and end markers around a JFIF header; enough to be recognised. */
+const JPEG = Uint8Array.from([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01,
+    0x00, 0x01, 0x00, 0x00, 0xff, 0xd9,
+]);
+
+// ─── Byte helpers ───────────────────────────────────────────────────────────
+
+type Bytes = Uint8Array | number[] | string;
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const utf16 = (text: string) => {
+    const out = [0xff, 0xfe];
+    for (const c of text) out.push(c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8);
+    return Uint8Array.from(out);
+};
+
+const cat = (...parts: Bytes[]): Uint8Array => {
+    const arrays = parts.map(p => typeof p === 'string' ? latin1(p) : Uint8Array.from(p));
+    const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+    let offset = 0;
+    arrays.forEach(a => {
+        out.set(a, offset);
+        offset += a.length;
+    });
+    return out;
+};
+
+const u16be = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u24be = (n: number) => [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u16le = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+const u64le = (n: number) => [...u32le(n % 2 ** 32), ...u32le(Math.floor(n / 2 ** 32))];
+const synchsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+
+// ─── ID3 ────────────────────────────────────────────────────────────────────
+
+/** Frames as id, data and, for v2.3/2.4, the format flags byte. */
+const id3Tag = (version: 2 | 3 | 4, frames: [string, Uint8Array, number?][]) => {
+    const body = cat(...frames.map(([id, data, flags = 0]) => version === 2
+        ? cat(id, u24be(data.length), data)
+        : cat(id, version === 4 ? synchsafe(data.length) : u32be(data.length), [0, flags], data)));
+    return cat('ID3', [version, 0, 0], synchsafe(body.length), body);
+};
+
+/** Text frame in ISO-8859-1 (0), UTF-16 with BOM (1) or UTF-8 (3). */
+const text = (value: string, encoding: 0 | 1 | 3 = 0) =>
+    cat([encoding], encoding === 1 ? utf16(value) : encoding === 3 ? utf8(value) : latin1(value));
+
+const apic = (mime: string, type: number, description: string, image: Uint8Array) =>
+    cat([0], mime, [0, type], description, [0], image);
+
+const id3v1 = (fields: { title: string; artist: string; album: string; year: string; track: number; genre: number }) => {
+    const pad = (value: string, length: number) => cat(value, new Array(length - value.length).fill(0));
+    return cat('TAG', pad(fields.title, 30), pad(fields.artist, 30), pad(fields.album, 30), pad(fields.year, 4),
+        pad('', 28), [0, fields.track, fields.genre]);
+};
+
+/** One MPEG-1 layer III frame at 128 kbps, 44.1 kHz, joint stereo: 417 bytes. */
+const mpegFrame = (payload: Bytes = []) => {
+    const frame = new Uint8Array(417);
+    frame.set([0xff, 0xfb, 0x90, 0x40]);
+    frame.set(cat(payload), 4 + 32);
+    return frame;
+};
+
+/** A Xing header counting `frames` frames, placed after the side information. */
+const xing = (frames: number) => cat('Xing', u32be(1), u32be(frames));
+
+// ─── FLAC and Vorbis comments ───────────────────────────────────────────────
+
+const vorbisComments = (comments: string[]) =>
+    cat(u32le(6), 'fixtur', u32le(comments.length), ...comments.map(c => cat(u32le(utf8(c).length), utf8(c))));
+
+const flacPicture = (type: number, mime: string, description: string, image: Uint8Array) =>
+    cat(u32be(type), u32be(mime.length), mime, u32be(utf8(description).length), utf8(description),
+        u32be(1), u32be(1), u32be(32), u32be(0), u32be(image.length), image);
+
+/** STREAMINFO: block sizes, frame sizes, then rate/channels/depth/total samples packed in 64 bits, and the MD5. */
+const streamInfo = (sampleRate: number, channels: number, bitDepth: number, totalSamples: number) => {
+    const packed = [
+        (sampleRate >> 12) & 0xff,
+        (sampleRate >> 4) & 0xff,
+        ((sampleRate & 0x0f) << 4) | ((channels - 1) << 1) | ((bitDepth - 1) >> 4),
+        (((bitDepth - 1) & 0x0f) << 4) | Math.floor(totalSamples / 2 ** 32),
+        ...u32be(totalSamples % 2 ** 32),
+    ];
+    return cat(u16be(4096), u16be(4096), u24be(0), u24be(0), packed, new Array(16).fill(0));
+};
+
+const flacBlocks = (blocks: [number, Uint8Array][]) =>
+    cat('fLaC', ...blocks.map(([type, data], i) => cat([type | (i === blocks.length - 1 ? 0x80 : 0)], u24be(data.length), data)));
+
+// ─── Ogg ────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, i) => {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    return r >>> 0;
+});
+
+const oggCrc = (bytes: Uint8Array) => {
+    let crc = 0;
+    for (const b of bytes) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ b) & 0xff]) >>> 0;
+    return crc;
+};
+
+/** One page holding whole packets; the checksum is filled in over the finished page. */
+const oggPage = (sequence: number, granule: number, flags: number, packets: Uint8Array[]) => {
+    const lacing = packets.flatMap(p => [...new Array(Math.floor(p.length / 255)).fill(255), p.length % 255]);
+    const page = cat('OggS', [0, flags], u64le(granule), u32le(0x5eed), u32le(sequence), u32le(0), [lacing.length], lacing, ...packets);
+    page.set(u32le(oggCrc(page)), 22);
+    return page;
+};
+
+const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+// ─── MP4 ────────────────────────────────────────────────────────────────────
+
+const box = (type: string, ...children: Bytes[]) => {
+    const payload = cat(...children);
+    return cat(u32be(8 + payload.length), type, payload);
+};
+
+const fullBox = (type: string, ...children: Bytes[]) => box(type, [0, 0, 0, 0], ...children);
+
+/** An `ilst` item; `kind` 1 is UTF-8 text, 0 binary, 13/14 JPEG/PNG. */
+const item = (type: string, kind: number, value: Uint8Array) => box(type, box('data', u32be(kind), u32be(0), value));
+
+// ─── IFF ────────────────────────────────────────────────────────────────────
+
+const riffChunk = (id: string, data: Uint8Array) => cat(id, u32le(data.length), data, data.length & 1 ? [0] : []);
+const aiffChunk = (id: string, data: Uint8Array) => cat(id, u32be(data.length), data, data.length & 1 ? [0] : []);
+
+/** 80-bit extended float for whole sample rates below 2^31. */
+const extended = (value: number) => {
+    const exponent = Math.floor(Math.log2(value));
+    return [...u16be(16383 + exponent), ...u32be(value * 2 ** (31 - exponent)), 0, 0, 0, 0];
+};
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+const FIXTURES: Record<string, () => Uint8Array> = {
+    'v22.mp3': () => cat(
+        id3Tag(2, [
+            ['TT2', text('Two Two')],
+            ['TP1', text('Old Tagger')],
+            ['TAL', text('Legacy')],
+            ['TRK', text('3/12')],
+            ['TYE', text('1999')],
+            ['TCO', text('(17)')],
+            ['PIC', cat([0], 'PNG', [3], 'cover', [0], PNG)],
+        ]),
+        mpegFrame(), mpegFrame(),
+    ),
+
+    'v23.mp3': () => cat(
+        id3Tag(3, [
+            ['TIT2', text('Três', 1)],
+            ['TPE1', text('Artist Three')],
+            ['TALB', text('Album Three')],
+            ['TPE2', text('Various Artists')],
+            ['TRCK', text('7')],
+            ['TPOS', text('1/2')],
+            ['TYER', text('2001')],
+            ['TDAT', text('0306')],
+            ['TIME', text('1415')],
+            ['TORY', text('1990')],
+            ['RVAD', Uint8Array.from([3, 16, 0, 0, 0, 0])],
+            // Compressed: four bytes of decompressed size, then zlib data
+            ['TPUB', cat(u32be(12), [0x78, 0x9c, 0, 0]), 0x80],
+            ['TCON', text('(13)Pop')],
+            ['TCOM', text('Composer Three')],
+            ['APIC', apic('image/jpeg', 3, 'front', JPEG)],
+            ['USLT', cat([0], 'eng', [0], 'first line\nsecond line')],
+        ]),
+        // VBR: the Xing frame count gives the duration
+        mpegFrame(xing(100)), mpegFrame(), mpegFrame(),
+    ),
+
+    'v24.mp3': () => cat(
+        id3Tag(4, [
+            ['TIT2', text('Quatro ✓', 3)],
+            ['TPE1', cat([3], utf8('First'), [0], utf8('Second'))],
+            ['TALB', text('Album Four', 3)],
+            ['TRCK', text('4/9', 3)],
+            ['TDRC', text('2005-06-01', 3)],
+            ['APIC', apic('image/png', 0, 'other', JPEG)],
+            ['APIC', apic('', 3, 'front', PNG)],
+        ]),
+        mpegFrame(), mpegFrame(),
+        // Only the genre is left for ID3v1 to fill in
+        id3v1({ title: 'Ignored', artist: 'Ignored', album: 'Ignored', year: '1970', track: 1, genre: 8 }),
+    ),
+
+    'v1.mp3': () => cat(
+        mpegFrame(), mpegFrame(),
+        id3v1({ title: 'Version One', artist: 'Artist One', album: 'Album One', year: '1998', track: 5, genre: 17 }),
+    ),
+
+    'picture.flac': () => cat(flacBlocks([
+        [0, streamInfo(96000, 2, 24, 192000)],
+        [4, vorbisComments([
+            'TITLE=Flac Title', 'ARTIST=Flac Artist', 'ARTIST=Guest', 'ALBUM=Flac Album', 'ALBUMARTIST=Flac Band',
+            'TRACKNUMBER=2', 'TRACKTOTAL=10', 'DISCNUMBER=1/1', 'DATE=2010-01-01', 'GENRE=Jazz', 'COMPOSER=Flac Composer',
+            'LYRICS=[00:01.00]synced line',
+        ])],
+        [6, flacPicture(3, 'image/png', 'front', PNG)],
+        [1, new Uint8Array(16)],
+    ]), [0xff, 0xf8, 0, 0]),
+
+    'vorbis.ogg': () => cat(
+        oggPage(0, 0, 0x02, [cat([1], 'vorbis', u32le(0), [2], u32le(44100), u32le(0), u32le(128000), u32le(0), [0xb8, 1])]),
+        oggPage(1, 0, 0, [
+            cat([3], 'vorbis', vorbisComments(['TITLE=Vorbis Title', 'ARTIST=Vorbis Artist', 'ALBUM=Vorbis Album', 'TRACKNUMBER=1/4', 'DATE=2012', 'GENRE=Rock']), [1]),
+            cat([5], 'vorbis', new Uint8Array(8)),
+        ]),
+        oggPage(2, 88200, 0x04, [new Uint8Array(32)]),
+    ),
+
+    'opus.opus': () => cat(
+        oggPage(0, 0, 0x02, [cat('OpusHead', [1, 2], u16le(312), u32le(44100), u16le(0), [0])]),
+        oggPage(1, 0, 0, [cat('OpusTags', vorbisComments([
+            'TITLE=Opus Title', 'ARTIST=Opus Artist', 'ALBUM=Opus Album',
+            `METADATA_BLOCK_PICTURE=${base64(flacPicture(3, 'image/png', 'front', PNG))}`,
+        ]))]),
+        oggPage(2, 48000 * 3 + 312, 0x04, [new Uint8Array(32)]),
+    ),
+
+    'alac.m4a': () => {
+        const alacCookie = fullBox('alac', u32be(4096), [0, 24, 40, 10, 14, 2], u16be(255), u32be(0), u32be(0), u32be(96000));
+        // The entry's 16.16 rate cannot hold 96 kHz; the cookie has the real one
+        const sampleEntry = box('alac', new Array(6).fill(0), u16be(1), new Array(8).fill(0), u16be(2), u16be(16), u16be(0), u16be(0), u32be(0), alacCookie);
+        const trak = box('trak', box('mdia',
+            fullBox('hdlr', u32be(0), 'soun', new Array(12).fill(0), [0]),
+            box('minf', box('stbl', fullBox('stsd', u32be(1), sampleEntry))),
+        ));
+        const ilst = box('ilst',
+            item('\xa9nam', 1, utf8('Mp4 Title')),
+            item('\xa9ART', 1, utf8('Mp4 Artist')),
+            item('\xa9alb', 1, utf8('Mp4 Album')),
+            item('aART', 1, utf8('Mp4 Band')),
+            item('trkn', 0, Uint8Array.from([0, 0, ...u16be(6), ...u16be(11), 0, 0])),
+            item('disk', 0, Uint8Array.from([0, 0, ...u16be(2), ...u16be(3)])),
+            item('\xa9day', 1, utf8('2015-03-04T00:00:00Z')),
+            item('gnre', 0, Uint8Array.from(u16be(9))),
+            item('\xa9wrt', 1, utf8('Mp4 Composer')),
+            item('\xa9lyr', 1, utf8('plain lyrics')),
+            item('covr', 13, JPEG),
+        );
+        const udta = box('udta', fullBox('meta', fullBox('hdlr', u32be(0), 'mdir', 'appl', new Array(8).fill(0), [0]), ilst));
+        const mvhd = fullBox('mvhd', u32be(0), u32be(0), u32be(1000), u32be(2500), new Array(80).fill(0));
+        return cat(box('ftyp', 'M4A ', u32be(0), 'M4A isom'), box('moov', mvhd, trak, udta), box('mdat', new Uint8Array(16)));
+    },
+
+    'info.wav': () => {
+        const info = cat('INFO',
+            riffChunk('INAM', cat('Wave Title', [0])),
+            riffChunk('IART', cat('Wave Artist', [0])),
+            riffChunk('IPRD', cat('Wave Album', [0])),
+            riffChunk('ITRK', cat('8', [0])),
+            riffChunk('ICRD', cat('2018', [0])),
+            riffChunk('IGNR', cat('Ambient', [0])),
+        );
+        // 48 kHz, 24-bit stereo: 6 bytes a frame, 4800 frames = 0.1 s
+        const fmt = cat(u16le(1), u16le(2), u32le(48000), u32le(48000 * 6), u16le(6), u16le(24));
+        const body = cat('WAVE', riffChunk('fmt ', fmt), riffChunk('LIST', info), riffChunk('data', new Uint8Array(4800 * 6)));
+        return cat('RIFF', u32le(body.length), body);
+    },
+
+    'replaygain.wav': () => {
+        const txxx = (description: string, value: string) => cat([0], description, [0], value);
+        const id3 = id3Tag(4, [
+            ['TXXX', txxx('REPLAYGAIN_TRACK_GAIN', '-6.50 dB')],
+            ['TXXX', txxx('REPLAYGAIN_TRACK_PEAK', '0.500000')],
+            ['TXXX', txxx('REPLAYGAIN_ALBUM_GAIN', '-7.25 dB')],
+        ]);
+        // 48 kHz, 16-bit stereo, 480 frames
+        const fmt = cat(u16le(1), u16le(2), u32le(48000), u32le(48000 * 4), u16le(4), u16le(16));
+        const body = cat('WAVE', riffChunk('fmt ', fmt), riffChunk('data', new Uint8Array(480 * 4)), riffChunk('id3 ', id3));
+        return cat('RIFF', u32le(body.length), body);
+    },
+
+    'id3.aiff': () => {
+        // 44.1 kHz, 16-bit stereo, 22050 frames = 0.5 s
+        const comm = cat(u16be(2), u32be(22050), u16be(16), extended(44100));
+        const id3 = id3Tag(3, [['TALB', text('Aiff Album')], ['TIT2', text('Aiff Id3 Title')], ['APIC', apic('image/png', 3, '', PNG)]]);
+        const body = cat('AIFF',
+            aiffChunk('COMM', comm),
+            aiffChunk('NAME', latin1('Aiff Name')),
+            aiffChunk('AUTH', latin1('Aiff Author')),
+            aiffChunk('SSND', new Uint8Array(8 + 16)),
+            aiffChunk('ID3 ', id3),
+        );
+        return cat('FORM', u32be(body.length), body);
+    },
+};
+
+for (const [name, build] of Object.entries(FIXTURES)) writeFileSync(join(OUT, name), build());
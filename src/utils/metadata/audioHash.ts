@@ -0,0 +1,154 @@
+import { readRange, ascii } from './binary';
+import { readId3v2 } from './id3';
+import { readFlacBlocks } from './flac';
+import { readIffChunks } from './iff';
+import { detectFormat } from './tags';
+
+/**
+ * Content hash of the audio payload with every tag left out (ID3v2/v1,
+ * APEv2, FLAC metadata blocks, RIFF/AIFF chunks other than the sample data,
+ * MP4 atoms other than `mdat`, Ogg header pages), so the same recording is
+ * recognised however it has been tagged or renamed. Large payloads are
+ * sampled at fixed points instead of read whole.
+ */
+
+interface PayloadRange {
+    start: number;
+    end: number;
+}
+
+/** Payloads up to this size are hashed in full. */
+const FULL_HASH_LIMIT = 16 * 1024 * 1024;
+const SAMPLE_COUNT = 32;
+const SAMPLE_SIZE = 256 * 1024;
+/** Ogg pages are parsed in memory; bigger files fall back to hashing raw pages. */
+const OGG_PARSE_LIMIT = 64 * 1024 * 1024;
+
+/** End of the payload once a trailing ID3v1 tag and APEv2 tag are cut off. */
+const trailingTagStart = async (blob: Blob, end: number): Promise<number> => {
+    if (end >= 128 && ascii(await readRange(blob, end - 128, end - 125), 0, 3) === 'TAG') end -= 128;
+    if (end >= 32) {
+        const footer = await readRange(blob, end - 32, end);
+        if (ascii(footer, 0, 8) === 'APETAGEX') {
+            // The size covers items and footer; bit 31 of the flags marks a 32-byte header before them
+            const size = footer.getUint32(12, true);
+            const hasHeader = (footer.getUint32(20, true) & 0x80000000) !== 0;
+            end = Math.max(0, end - size - (hasHeader ? 32 : 0));
+        }
+    }
+    return end;
+};
+
+const mpegRange = async (blob: Blob): Promise<PayloadRange> => {
+    const id3 = await readId3v2(blob);
+    return { start: id3 ? id3.size : 0, end: await trailingTagStart(blob, blob.size) };
+};
+
+const flacRange = async (blob: Blob): Promise<PayloadRange | null> => {
+    const blocks = await readFlacBlocks(blob);
+    const last = blocks[blocks.length - 1];
+    if (!last) return null;
+    return { start: last.offset + last.length, end: await trailingTagStart(blob, blob.size) };
+};
+
+const iffRange = async (blob: Blob): Promise<PayloadRange | null> => {
+    const iff = await readIffChunks(blob);
+    const data = iff?.chunks.find(c => c.id === 'data' || c.id === 'SSND');
+    return data ? { start: data.offset, end: data.offset + data.length } : null;
+};
+
+const mp4Range = async (blob: Blob): Promise<PayloadRange | null> => {
+    let offset = 0;
+    while (offset + 8 <= blob.size) {
+        const header = await readRange(blob, offset, offset + 16);
+        let size = header.getUint32(0);
+        let headerLength = 8;
+        if (size === 1) {
+            size = Number(header.getBigUint64(8));
+            headerLength = 16;
+        } else if (size === 0) {
+            size = blob.size - offset;
+        }
+        if (size < headerLength) return null;
+        if (ascii(header, 4, 4) === 'mdat') return { start: offset + headerLength, end: Math.min(offset + size, blob.size) };
+        offset += size;
+    }
+    return null;
+};
+
+/**
+ * Bodies of the audio pages, from the first page with a granule position.
+ * Page headers are skipped because retagging renumbers the pages after the
+ * comment header, which changes their sequence numbers and checksums.
+ */
+const oggAudio = async (blob: Blob): Promise<Uint8Array | null> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const bodies: Uint8Array[] = [];
+    let audio = false;
+    let offset = 0;
+    while (offset + 27 <= bytes.length) {
+        if (ascii(view, offset, 4) !== 'OggS') return null;
+        const segments = bytes[offset + 26];
+        let length = 0;
+        for (let i = 0; i < segments; i++) length += bytes[offset + 27 + i];
+        const bodyStart = offset + 27 + segments;
+        // Header pages have granule position 0; Vorbis and Opus start audio on a fresh page
+        if (!audio) audio = view.getUint32(offset + 6, true) !== 0 || view.getUint32(offset + 10, true) !== 0;
+        if (audio) bodies.push(bytes.subarray(bodyStart, bodyStart + length));
+        offset = bodyStart + length;
+    }
+    if (bodies.length === 0) return null;
+    const out = new Uint8Array(bodies.reduce((sum, b) => sum + b.length, 0));
+    let position = 0;
+    bodies.forEach(b => {
+        out.set(b, position);
+        position += b.length;
+    });
+    return out;
+};
+
+const RANGES: Record<string, (blob: Blob) => Promise<PayloadRange | null>> = {
+    MP3: mpegRange,
+    FLAC: flacRange,
+    WAV: iffRange,
+    WAVE: iffRange,
+    AIFF: iffRange,
+    AIF: iffRange,
+    AIFC: iffRange,
+    M4A: mp4Range,
+    MP4: mp4Range,
+    AAC: mp4Range,
+    ALAC: mp4Range,
+};
+
+const OGG_FORMATS = ['OGG', 'OGA', 'OPUS'];
+
+const toHex = (buffer: ArrayBuffer) =>
+    Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/** Whole range when small, else its length plus evenly spaced samples. */
+const digestRange = async (blob: Blob, { start, end }: PayloadRange): Promise<ArrayBuffer> => {
+    const length = end - start;
+    if (length <= FULL_HASH_LIMIT) return crypto.subtle.digest('SHA-256', await blob.slice(start, end).arrayBuffer());
+    const parts: BlobPart[] = [String(length)];
+    const step = (length - SAMPLE_SIZE) / (SAMPLE_COUNT - 1);
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+        const offset = start + Math.floor(i * step);
+        parts.push(blob.slice(offset, offset + SAMPLE_SIZE));
+    }
+    return crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+};
+
+/** Hex SHA-256 of the audio payload. Unknown containers are hashed whole. */
+export const hashAudio = async (blob: Blob, format?: string): Promise<string> => {
+    let key = (format || '').toUpperCase();
+    if (!RANGES[key] && !OGG_FORMATS.includes(key)) key = (await detectFormat(blob)) || '';
+
+    if (OGG_FORMATS.includes(key) && blob.size <= OGG_PARSE_LIMIT) {
+        const audio = await oggAudio(blob);
+        if (audio) return toHex(await crypto.subtle.digest('SHA-256', audio));
+    }
+    const range = RANGES[key] ? await RANGES[key](blob) : null;
+    return toHex(await digestRange(blob, range && range.end > range.start ? range : { start: 0, end: blob.size }));
+};
@@ -0,0 +1,32 @@
+/**
+ * Byte-level helpers shared by the container/tag readers.
+ * Everything works on DataViews sliced out of a Blob so that large
+ * audio files never have to be loaded into memory as a whole.
+ */
+
+export const readRange = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+    const buffer = await blob.slice(start, Math.min(end, blob.size)).arrayBuffer();
+    return new DataView(buffer);
+};
+
+export const ascii = (view: DataView, offset: number, length: number): string => {
+    let out = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+        out += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return out;
+};
+
+/** ID3v2 sizes store 7 bits per byte. */
+export const synchsafe = (view: DataView, offset: number): number =>
+    (view.getUint8(offset) << 21) |
+    (view.getUint8(offset + 1) << 14) |
+    (view.getUint8(offset + 2) << 7) |
+    view.getUint8(offset + 3);
+
+export const uint24 = (view: DataView, offset: number): number =>
+    (view.getUint8(offset) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset + 2);
+
+/** Decodes a byte range with the given text encoding, dropping trailing NULs. */
+export const decodeText = (bytes: Uint8Array, encoding: string = 'utf-8'): string =>
+    new TextDecoder(encoding).decode(bytes).replace(/\0+$/, '');
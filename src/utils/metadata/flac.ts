@@ -0,0 +1,47 @@
+import { readRange, ascii, uint24 } from './binary';
+import { readId3v2 } from './id3';
+
+/**
+ * FLAC metadata block reader.
+ */
+
+export const FLAC_STREAMINFO = 0;
+export const FLAC_VORBIS_COMMENT = 4;
+export const FLAC_PICTURE = 6;
+
+export interface FlacBlock {
+    type: number;
+    /** Offset of the block payload in the file. */
+    offset: number;
+    length: number;
+    data?: Uint8Array;
+}
+
+/**
+ * Lists the metadata blocks, loading the payload only for the requested
+ * types (pictures can be several megabytes).
+ */
+export const readFlacBlocks = async (blob: Blob, load: number[] = []): Promise<FlacBlock[]> => {
+    // Some taggers prepend an ID3v2 tag to FLAC files
+    const id3 = await readId3v2(blob);
+    let offset = id3 ? id3.size : 0;
+
+    const magic = await readRange(blob, offset, offset + 4);
+    if (ascii(magic, 0, 4) !== 'fLaC') return [];
+    offset += 4;
+
+    const blocks: FlacBlock[] = [];
+    let last = false;
+    while (!last && offset + 4 <= blob.size) {
+        const header = await readRange(blob, offset, offset + 4);
+        last = (header.getUint8(0) & 0x80) !== 0;
+        const block: FlacBlock = { type: header.getUint8(0) & 0x7f, offset: offset + 4, length: uint24(header, 1) };
+        if (load.includes(block.type)) {
+            const data = await readRange(blob, block.offset, block.offset + block.length);
+            block.data = new Uint8Array(data.buffer);
+        }
+        blocks.push(block);
+        offset = block.offset + block.length;
+    }
+    return blocks;
+};
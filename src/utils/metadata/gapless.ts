@@ -0,0 +1,86 @@
+import { readId3v2, readDescribedFrame } from './id3';
+import { readMpegHeader } from './mpeg';
+import { readMoov, readFreeformAtoms, findAudioSampleEntry } from './mp4';
+
+/**
+ * Encoder delay / padding detection for lossy formats.
+ * MP3 uses the LAME tag (or iTunSMPB written by iTunes), AAC uses iTunSMPB.
+ */
+
+export interface GaplessInfo {
+    /** Sample rate of the encoded stream; delay and length are counted in it. */
+    sampleRate: number;
+    /** Priming samples to drop from the decoded output. */
+    leadingSamples: number;
+    /** Number of real audio samples once delay and padding are removed. */
+    totalSamples: number;
+}
+
+/** mpg123/LAME decoders add 528 + 1 samples of latency on top of the encoder delay. */
+const LAME_DECODER_DELAY = 529;
+
+const parseSmpb = (value: string, sampleRate: number): GaplessInfo | null => {
+    const parts = value.trim().split(/\s+/).map(p => parseInt(p, 16));
+    if (parts.length < 4 || parts.slice(1, 4).some(isNaN) || !parts[3]) return null;
+    return { sampleRate, leadingSamples: parts[1], totalSamples: parts[3] };
+};
+
+const readMp3Gapless = async (blob: Blob): Promise<GaplessInfo | null> => {
+    const id3 = await readId3v2(blob);
+    const header = await readMpegHeader(blob, id3?.size || 0);
+    if (!header) return null;
+
+    const smpb = id3?.frames
+        .filter(f => f.id === 'COMM' || f.id === 'COM')
+        .map(readDescribedFrame)
+        .find(c => c.description === 'iTunSMPB');
+    if (smpb) return parseSmpb(smpb.value, header.sampleRate);
+
+    if (header.frameCount === undefined || header.encoderDelay === undefined) return null;
+    const raw = header.frameCount * header.samplesPerFrame;
+    return {
+        sampleRate: header.sampleRate,
+        leadingSamples: header.encoderDelay + LAME_DECODER_DELAY,
+        totalSamples: raw - header.encoderDelay - (header.encoderPadding || 0),
+    };
+};
+
+const readMp4Gapless = async (blob: Blob): Promise<GaplessInfo | null> => {
+    const moov = await readMoov(blob);
+    if (!moov) return null;
+    const smpb = readFreeformAtoms(moov).get('iTunSMPB');
+    const entry = findAudioSampleEntry(moov);
+    if (!smpb || !entry) return null;
+    return parseSmpb(smpb, moov.getUint32(entry.start + 24) >>> 16);
+};
+
+export const readGaplessInfo = async (blob: Blob, format?: string): Promise<GaplessInfo | null> => {
+    try {
+        switch ((format || '').toUpperCase()) {
+            case 'MP3': return await readMp3Gapless(blob);
+            case 'M4A':
+            case 'MP4':
+            case 'AAC': return await readMp4Gapless(blob);
+            default: return null;
+        }
+    } catch (err) {
+        console.warn('Failed to read gapless info:', err);
+        return null;
+    }
+};
+
+/**
+ * Works out which part of a decoded buffer is real audio, in seconds.
+ * Some browsers already strip the priming samples while decoding, so the
+ * trim is only applied when the decoded length shows the delay is still there.
+ */
+export const trimRegion = (info: GaplessInfo | null, decodedDuration: number): { start: number; duration: number } => {
+    if (!info) return { start: 0, duration: decodedDuration };
+
+    const leading = info.leadingSamples / info.sampleRate;
+    const total = info.totalSamples / info.sampleRate;
+    if (decodedDuration - total > leading / 2) {
+        return { start: leading, duration: Math.min(total, decodedDuration - leading) };
+    }
+    return { start: 0, duration: Math.min(total, decodedDuration) };
+};
@@ -0,0 +1,152 @@
+import { readRange, ascii, synchsafe, uint24 } from './binary';
+
+/**
+ * ID3v2 frame reader (v2.2, v2.3 and v2.4) and the trailing ID3v1 tag.
+ * Only splits the tag into raw frames; callers decode the frames they need.
+ */
+
+export interface Id3Frame {
+    id: string;
+    data: Uint8Array;
+    /** Compressed, encrypted or grouped: `data` is not the plain frame content. */
+    encoded?: boolean;
+}
+
+export interface Id3Tag {
+    version: number;
+    /** Total tag length in bytes, header and footer included. */
+    size: number;
+    frames: Id3Frame[];
+}
+
+const ENCODINGS = ['iso-8859-1', 'utf-16', 'utf-16be', 'utf-8'];
+
+/** Reverses the unsynchronisation scheme (0xFF 0x00 -> 0xFF). */
+const resync = (bytes: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(bytes.length);
+    let j = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        out[j++] = bytes[i];
+        if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+    }
+    return out.subarray(0, j);
+};
+
+export const readId3v2 = async (blob: Blob): Promise<Id3Tag | null> => {
+    const header = await readRange(blob, 0, 10);
+    if (header.byteLength < 10 || ascii(header, 0, 3) !== 'ID3') return null;
+
+    const version = header.getUint8(3);
+    const flags = header.getUint8(5);
+    const size = synchsafe(header, 6);
+    const total = 10 + size + (flags & 0x10 ? 10 : 0);
+
+    const body = await readRange(blob, 10, 10 + size);
+    let bytes = new Uint8Array(body.buffer);
+    if (flags & 0x80 && version < 4) bytes = resync(bytes);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let offset = 0;
+    if (flags & 0x40 && version >= 3) {
+        offset = version === 4 ? synchsafe(view, 0) : view.getUint32(0) + 4;
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    const frames: Id3Frame[] = [];
+
+    while (offset + headerLength <= bytes.length) {
+        const id = ascii(view, offset, idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) break;
+
+        let frameSize: number;
+        if (version === 2) frameSize = uint24(view, offset + 3);
+        else if (version === 4) frameSize = synchsafe(view, offset + 4);
+        else frameSize = view.getUint32(offset + 4);
+
+        const start = offset + headerLength;
+        let data = bytes.subarray(start, start + frameSize);
+        let encoded = false;
+
+        if (version === 3) {
+            // Compression 0x80, encryption 0x40, grouping 0x20
+            encoded = (view.getUint8(offset + 9) & 0xe0) !== 0;
+        } else if (version === 4) {
+            const formatFlags = view.getUint8(offset + 9);
+            // Grouping 0x40, compression 0x08, encryption 0x04
+            encoded = (formatFlags & 0x4c) !== 0;
+            if (formatFlags & 0x02) data = resync(data);
+            if (formatFlags & 0x01) data = data.subarray(4);
+        }
+
+        frames.push({ id, data, ...(encoded && { encoded }) });
+        offset = start + frameSize;
+    }
+
+    return { version, size: total, frames };
+};
+
+/** Decodes an ID3 string in the given encoding byte, stripping BOM and terminators. */
+export const decodeId3String = (bytes: Uint8Array, encoding: number): string => {
+    const text = new TextDecoder(ENCODINGS[encoding] || 'iso-8859-1').decode(bytes);
+    return text.replace(/^\uFEFF/, '').replace(/\0+$/, '');
+};
+
+/** Splits at the first string terminator, which is two bytes wide for UTF-16. */
+export const splitTerminated = (bytes: Uint8Array, encoding: number): [Uint8Array, Uint8Array] => {
+    const wide = encoding === 1 || encoding === 2;
+    for (let i = 0; i < bytes.length; i += wide ? 2 : 1) {
+        if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+            return [bytes.subarray(0, i), bytes.subarray(i + (wide ? 2 : 1))];
+        }
+    }
+    return [bytes, new Uint8Array(0)];
+};
+
+/** Plain text frame (TIT2, TPE1, ...). */
+export const readTextFrame = (frame: Id3Frame): string =>
+    decodeId3String(frame.data.subarray(1), frame.data[0]);
+
+/** Frames carrying a description before the value: TXXX, and COMM/USLT which add a language code. */
+export const readDescribedFrame = (frame: Id3Frame): { description: string; value: string } => {
+    const encoding = frame.data[0];
+    const hasLanguage = frame.id !== 'TXXX' && frame.id !== 'TXX';
+    const [description, value] = splitTerminated(frame.data.subarray(hasLanguage ? 4 : 1), encoding);
+    return {
+        description: decodeId3String(description, encoding),
+        value: decodeId3String(value, encoding),
+    };
+};
+
+export interface Id3v1Tag {
+    title: string;
+    artist: string;
+    album: string;
+    year: string;
+    comment: string;
+    /** ID3v1.1 track number, 0 when absent. */
+    track: number;
+    /** Index into the ID3v1 genre list, 255 when unset. */
+    genre: number;
+}
+
+/** The fixed 128-byte tag at the end of the file. Fields are Latin-1, NUL or space padded. */
+export const readId3v1 = async (blob: Blob): Promise<Id3v1Tag | null> => {
+    if (blob.size < 128) return null;
+    const view = await readRange(blob, blob.size - 128, blob.size);
+    if (ascii(view, 0, 3) !== 'TAG') return null;
+    const bytes = new Uint8Array(view.buffer);
+    const field = (start: number, length: number) =>
+        decodeId3String(bytes.subarray(start, start + length), 0).replace(/\0.*$/, '').trim();
+    // v1.1 steals the last comment byte for the track number, flagged by a zero before it
+    const hasTrack = bytes[125] === 0 && bytes[126] !== 0;
+    return {
+        title: field(3, 30),
+        artist: field(33, 30),
+        album: field(63, 30),
+        year: field(93, 4),
+        comment: field(97, hasTrack ? 28 : 30),
+        track: hasTrack ? bytes[126] : 0,
+        genre: bytes[127],
+    };
+};
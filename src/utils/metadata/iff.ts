@@ -0,0 +1,61 @@
+import { readRange, ascii } from './binary';
+
+/**
+ * Chunk walker for the two IFF-style containers: RIFF/RF64 (WAV, little
+ * endian) and FORM (AIFF/AIFC, big endian).
+ */
+
+export interface IffChunk {
+    id: string;
+    /** Offset of the chunk payload in the file. */
+    offset: number;
+    length: number;
+    data?: Uint8Array;
+}
+
+export interface IffFile {
+    /** Form type: WAVE, AIFF or AIFC. */
+    form: string;
+    littleEndian: boolean;
+    chunks: IffChunk[];
+}
+
+/** Lists the top-level chunks, loading the payload only for the requested ids. */
+export const readIffChunks = async (blob: Blob, load: string[] = []): Promise<IffFile | null> => {
+    const header = await readRange(blob, 0, 12);
+    const magic = ascii(header, 0, 4);
+    if (magic !== 'RIFF' && magic !== 'RF64' && magic !== 'FORM') return null;
+    const littleEndian = magic !== 'FORM';
+
+    const chunks: IffChunk[] = [];
+    let offset = 12;
+    while (offset + 8 <= blob.size) {
+        const chunkHeader = await readRange(blob, offset, offset + 8);
+        const id = ascii(chunkHeader, 0, 4);
+        const length = chunkHeader.getUint32(4, littleEndian);
+        // RF64 data chunks leave the 32-bit size at 0xFFFFFFFF; nothing after them can be located
+        if (length === 0xffffffff) break;
+        const chunk: IffChunk = { id, offset: offset + 8, length: Math.min(length, blob.size - offset - 8) };
+        if (load.includes(id)) {
+            chunk.data = new Uint8Array((await readRange(blob, chunk.offset, chunk.offset + chunk.length)).buffer);
+        }
+        chunks.push(chunk);
+        offset = chunk.offset + length + (length & 1);
+    }
+    return { form: ascii(header, 8, 4), littleEndian, chunks };
+};
+
+/** Subchunks of a RIFF `LIST` chunk of the given list type (e.g. INFO), as id -> payload. */
+export const readListChunk = (data: Uint8Array, listType: string): Map<string, Uint8Array> => {
+    const result = new Map<string, Uint8Array>();
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (ascii(view, 0, 4) !== listType) return result;
+    let offset = 4;
+    while (offset + 8 <= data.length) {
+        const id = ascii(view, offset, 4);
+        const length = view.getUint32(offset + 4, true);
+        result.set(id, data.subarray(offset + 8, Math.min(offset + 8 + length, data.length)));
+        offset += 8 + length + (length & 1);
+    }
+    return result;
+};
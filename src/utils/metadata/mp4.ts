@@ -0,0 +1,101 @@
+import { readRange, ascii, decodeText } from './binary';
+
+/**
+ * ISO-BMFF (MP4/M4A) atom walker.
+ * Only the `moov` box is loaded; `mdat` is never read.
+ */
+
+export interface Mp4Box {
+    type: string;
+    /** Offset of the payload (after the size/type header) within the view. */
+    start: number;
+    end: number;
+}
+
+export const childBoxes = (view: DataView, start: number, end: number): Mp4Box[] => {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const type = ascii(view, offset + 4, 4);
+        let headerLength = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(offset + 8));
+            headerLength = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerLength) break;
+
+        let payload = offset + headerLength;
+        // `meta` is a full box in MP4 but a plain container in QuickTime files
+        if (type === 'meta' && ascii(view, payload + 4, 4) !== 'hdlr') payload += 4;
+
+        boxes.push({ type, start: payload, end: Math.min(offset + size, end) });
+        offset += size;
+    }
+    return boxes;
+};
+
+export const findBox = (view: DataView, start: number, end: number, path: string[]): Mp4Box | null => {
+    let scope: Mp4Box | null = { type: '', start, end };
+    for (const type of path) {
+        scope = childBoxes(view, scope.start, scope.end).find(b => b.type === type) || null;
+        if (!scope) return null;
+    }
+    return scope;
+};
+
+/** Loads the `moov` box, walking top-level atoms by their headers only. */
+export const readMoov = async (blob: Blob): Promise<DataView | null> => {
+    let offset = 0;
+    while (offset + 8 <= blob.size) {
+        const header = await readRange(blob, offset, offset + 16);
+        let size = header.getUint32(0);
+        const type = ascii(header, 4, 4);
+        if (size === 1) size = Number(header.getBigUint64(8));
+        else if (size === 0) size = blob.size - offset;
+        if (size < 8) return null;
+
+        if (type === 'moov') return readRange(blob, offset, offset + size);
+        offset += size;
+    }
+    return null;
+};
+
+/** Returns the payload of an `ilst` item's `data` child (type/locale header skipped). */
+export const itemData = (view: DataView, item: Mp4Box): Uint8Array | null => {
+    const data = childBoxes(view, item.start, item.end).find(b => b.type === 'data');
+    if (!data) return null;
+    return new Uint8Array(view.buffer, view.byteOffset + data.start + 8, data.end - data.start - 8);
+};
+
+/** Collects iTunes freeform (`----`) atoms as name -> value, e.g. iTunSMPB. */
+export const readFreeformAtoms = (moov: DataView): Map<string, string> => {
+    const result = new Map<string, string>();
+    const ilst = findBox(moov, 8, moov.byteLength, ['udta', 'meta', 'ilst']);
+    if (!ilst) return result;
+
+    childBoxes(moov, ilst.start, ilst.end)
+        .filter(b => b.type === '----')
+        .forEach(item => {
+            const name = childBoxes(moov, item.start, item.end).find(b => b.type === 'name');
+            const data = itemData(moov, item);
+            if (!name || !data) return;
+            const key = ascii(moov, name.start + 4, name.end - name.start - 4);
+            result.set(key, decodeText(data));
+        });
+    return result;
+};
+
+/** Finds the `stsd` sample entry of the first audio track. */
+export const findAudioSampleEntry = (moov: DataView): Mp4Box | null => {
+    for (const trak of childBoxes(moov, 8, moov.byteLength).filter(b => b.type === 'trak')) {
+        const hdlr = findBox(moov, trak.start, trak.end, ['mdia', 'hdlr']);
+        if (!hdlr || ascii(moov, hdlr.start + 8, 4) !== 'soun') continue;
+        const stsd = findBox(moov, trak.start, trak.end, ['mdia', 'minf', 'stbl', 'stsd']);
+        if (!stsd) continue;
+        return childBoxes(moov, stsd.start + 8, stsd.end)[0] || null;
+    }
+    return null;
+};
@@ -0,0 +1,106 @@
+import { readRange, ascii } from './binary';
+
+/**
+ * MPEG audio frame header and Xing/Info/LAME tag reader.
+ */
+
+export interface MpegStreamHeader {
+    sampleRate: number;
+    channels: number;
+    samplesPerFrame: number;
+    /** Bitrate of the first frame in kbps (the average for VBR files comes from the Xing tag). */
+    bitrate: number;
+    /** File offset of the first frame. */
+    frameOffset: number;
+    /** Frame count from the Xing/Info tag, when present. */
+    frameCount?: number;
+    /** LAME encoder delay and padding in samples. */
+    encoderDelay?: number;
+    encoderPadding?: number;
+}
+
+const SAMPLE_RATES: Record<number, number[]> = {
+    3: [44100, 48000, 32000], // MPEG 1
+    2: [22050, 24000, 16000], // MPEG 2
+    0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+/** kbps by bitrate index, for MPEG 1 layers I-III and MPEG 2/2.5 layer I and II/III. */
+const BITRATES = {
+    v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const bitrateTable = (isMpeg1: boolean, layerBits: number): number[] => {
+    if (isMpeg1) return layerBits === 3 ? BITRATES.v1l1 : layerBits === 2 ? BITRATES.v1l2 : BITRATES.v1l3;
+    return layerBits === 3 ? BITRATES.v2l1 : BITRATES.v2l23;
+};
+
+const isFrameSync = (view: DataView, offset: number): boolean => {
+    if (view.getUint8(offset) !== 0xff || (view.getUint8(offset + 1) & 0xe0) !== 0xe0) return false;
+    const versionBits = (view.getUint8(offset + 1) >> 3) & 0x03;
+    const layerBits = (view.getUint8(offset + 1) >> 1) & 0x03;
+    const rateIndex = (view.getUint8(offset + 2) >> 2) & 0x03;
+    return versionBits !== 1 && layerBits !== 0 && rateIndex !== 3;
+};
+
+/**
+ * Reads the first MPEG frame found at or after `start` (normally the end of the ID3v2 tag).
+ */
+export const readMpegHeader = async (blob: Blob, start: number): Promise<MpegStreamHeader | null> => {
+    const view = await readRange(blob, start, start + 16384);
+
+    for (let offset = 0; offset + 4 <= view.byteLength; offset++) {
+        if (!isFrameSync(view, offset)) continue;
+
+        const versionBits = (view.getUint8(offset + 1) >> 3) & 0x03;
+        const layerBits = (view.getUint8(offset + 1) >> 1) & 0x03;
+        const rateIndex = (view.getUint8(offset + 2) >> 2) & 0x03;
+        const channelMode = view.getUint8(offset + 3) >> 6;
+        const isMpeg1 = versionBits === 3;
+        const channels = channelMode === 3 ? 1 : 2;
+
+        let samplesPerFrame = 1152;
+        if (layerBits === 3) samplesPerFrame = 384;
+        else if (layerBits === 1 && !isMpeg1) samplesPerFrame = 576;
+
+        const header: MpegStreamHeader = {
+            sampleRate: SAMPLE_RATES[versionBits][rateIndex],
+            channels,
+            samplesPerFrame,
+            bitrate: bitrateTable(isMpeg1, layerBits)[view.getUint8(offset + 2) >> 4] || 0,
+            frameOffset: start + offset,
+        };
+
+        // Xing/Info lives right after the side information of the first frame
+        const sideInfo = isMpeg1 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17);
+        let pos = offset + 4 + sideInfo;
+        const tagId = ascii(view, pos, 4);
+        if (tagId !== 'Xing' && tagId !== 'Info') return header;
+
+        const flags = view.getUint32(pos + 4);
+        pos += 8;
+        if (flags & 0x01) {
+            header.frameCount = view.getUint32(pos);
+            pos += 4;
+        }
+        if (flags & 0x02) pos += 4;
+        if (flags & 0x04) pos += 100;
+        if (flags & 0x08) pos += 4;
+
+        // LAME extension: 9-byte version string, delay/padding packed as 12+12 bits at +21
+        if (/^(LAME|Lavc|Lavf)/.test(ascii(view, pos, 4)) && pos + 24 <= view.byteLength) {
+            const b0 = view.getUint8(pos + 21);
+            const b1 = view.getUint8(pos + 22);
+            const b2 = view.getUint8(pos + 23);
+            header.encoderDelay = (b0 << 4) | (b1 >> 4);
+            header.encoderPadding = ((b1 & 0x0f) << 8) | b2;
+        }
+        return header;
+    }
+
+    return null;
+};
@@ -0,0 +1,67 @@
+import { readRange, ascii } from './binary';
+
+/**
+ * Ogg page reader that reassembles the first packets of the first logical
+ * stream (identification and comment headers).
+ */
+
+const PAGE_HEADER = 27;
+
+export const readOggPackets = async (blob: Blob, count: number): Promise<Uint8Array[]> => {
+    const packets: Uint8Array[] = [];
+    let partial: Uint8Array[] = [];
+    let offset = 0;
+    let serial: number | null = null;
+
+    while (packets.length < count && offset + PAGE_HEADER <= blob.size) {
+        const header = await readRange(blob, offset, offset + PAGE_HEADER);
+        if (ascii(header, 0, 4) !== 'OggS') break;
+        const segments = header.getUint8(26);
+        const pageSerial = header.getUint32(14, true);
+        const table = new Uint8Array((await readRange(blob, offset + PAGE_HEADER, offset + PAGE_HEADER + segments)).buffer);
+        const bodyLength = table.reduce((sum, v) => sum + v, 0);
+        const bodyStart = offset + PAGE_HEADER + segments;
+        offset = bodyStart + bodyLength;
+
+        if (serial === null) serial = pageSerial;
+        if (pageSerial !== serial) continue;
+
+        const body = new Uint8Array((await readRange(blob, bodyStart, bodyStart + bodyLength)).buffer);
+        let pos = 0;
+        let start = 0;
+        for (const lacing of table) {
+            pos += lacing;
+            if (lacing < 255) {
+                partial.push(body.subarray(start, pos));
+                packets.push(concat(partial));
+                partial = [];
+                start = pos;
+                if (packets.length === count) break;
+            }
+        }
+        if (start < pos) partial.push(body.subarray(start, pos));
+    }
+    return packets;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    if (parts.length === 1) return parts[0];
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => {
+        out.set(p, offset);
+        offset += p.length;
+    });
+    return out;
+};
+
+/** Returns the comment header payload (vendor string onwards) of a Vorbis or Opus stream. */
+export const readOggComments = async (blob: Blob): Promise<{ codec: 'vorbis' | 'opus'; comments: Uint8Array } | null> => {
+    const packets = await readOggPackets(blob, 2);
+    if (packets.length < 2) return null;
+    const tag = packets[1];
+    const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+    if (ascii(view, 0, 8) === 'OpusTags') return { codec: 'opus', comments: tag.subarray(8) };
+    if (tag[0] === 3 && ascii(view, 1, 6) === 'vorbis') return { codec: 'vorbis', comments: tag.subarray(7) };
+    return null;
+};
@@ -0,0 +1,92 @@
+import { ascii, decodeText } from './binary';
+import { Id3Frame, decodeId3String, splitTerminated } from './id3';
+
+/**
+ * Embedded cover art: ID3 APIC/PIC frames, FLAC PICTURE blocks (also
+ * carried base64-encoded in Ogg METADATA_BLOCK_PICTURE comments) and the
+ * MP4 `covr` atom. Only the raw image bytes are returned; callers decide
+ * whether to make object URLs or thumbnails from them.
+ */
+
+export interface EmbeddedPicture {
+    mime: string;
+    /** ID3/FLAC picture type; 3 is the front cover. */
+    type: number;
+    description: string;
+    data: Uint8Array;
+}
+
+const FRONT_COVER = 3;
+
+/** Identifies the image from its magic bytes; taggers often leave the MIME type blank or wrong. */
+export const sniffImageType = (data: Uint8Array): string | null => {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+    if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+    if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'image/gif';
+    if (data.length >= 12 && decodeText(data.subarray(8, 12), 'latin1') === 'WEBP') return 'image/webp';
+    if (data[0] === 0x42 && data[1] === 0x4d) return 'image/bmp';
+    return null;
+};
+
+const picture = (data: Uint8Array, mime: string, type: number, description: string): EmbeddedPicture | null =>
+    data.length > 0 ? { mime: sniffImageType(data) || mime || 'image/jpeg', type, description, data } : null;
+
+/** Picture readers return null rather than throw, so a broken image never costs the text tags. */
+const guarded = <A extends unknown[]>(read: (...args: A) => EmbeddedPicture | null) => (...args: A): EmbeddedPicture | null => {
+    try {
+        return read(...args);
+    } catch (err) {
+        console.warn('Skipping malformed embedded picture:', err);
+        return null;
+    }
+};
+
+/** APIC (v2.3/2.4): encoding, MIME string, type, description. PIC (v2.2): encoding, 3-letter format, type, description. */
+export const readId3Picture = guarded((frame: Id3Frame): EmbeddedPicture | null => {
+    const encoding = frame.data[0];
+    let rest: Uint8Array;
+    let mime: string;
+    if (frame.id === 'PIC') {
+        mime = `image/${decodeText(frame.data.subarray(1, 4), 'latin1').toLowerCase().replace('jpg', 'jpeg')}`;
+        rest = frame.data.subarray(4);
+    } else {
+        const [mimeBytes, after] = splitTerminated(frame.data.subarray(1), 0);
+        mime = decodeText(mimeBytes, 'latin1');
+        rest = after;
+    }
+    const [description, data] = splitTerminated(rest.subarray(1), encoding);
+    return picture(data, mime, rest[0], decodeId3String(description, encoding));
+});
+
+/** FLAC PICTURE block layout, all integers big-endian. */
+export const readFlacPicture = guarded((bytes: Uint8Array): EmbeddedPicture | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const type = view.getUint32(0);
+    const mimeLength = view.getUint32(4);
+    const mime = ascii(view, 8, mimeLength);
+    let offset = 8 + mimeLength;
+    const descriptionLength = view.getUint32(offset);
+    const description = decodeText(bytes.subarray(offset + 4, offset + 4 + descriptionLength));
+    // Width, height, colour depth and palette size are not needed
+    offset += 4 + descriptionLength + 16;
+    const length = view.getUint32(offset);
+    return picture(bytes.subarray(offset + 4, offset + 4 + length), mime, type, description);
+});
+
+const decodeBase64 = (text: string): Uint8Array =>
+    Uint8Array.from(atob(text.replace(/\s+/g, '')), c => c.charCodeAt(0));
+
+/** Ogg stores FLAC picture blocks as base64 comments; COVERART is the older raw-image variant. */
+export const readVorbisPictures = (comments: Map<string, string[]>): (EmbeddedPicture | null)[] => [
+    ...(comments.get('METADATA_BLOCK_PICTURE') || []).map(guarded(value => readFlacPicture(decodeBase64(value)))),
+    ...(comments.get('COVERART') || []).map(guarded(value => picture(decodeBase64(value), '', FRONT_COVER, ''))),
+];
+
+/** `covr` payloads are bare images; the front cover type is implied. */
+export const mp4Picture = (data: Uint8Array): EmbeddedPicture | null => picture(data, '', FRONT_COVER, '');
+
+/** Prefers the front cover, otherwise the first picture. */
+export const pickCover = (pictures: (EmbeddedPicture | null)[]): EmbeddedPicture | null => {
+    const found = pictures.filter((p): p is EmbeddedPicture => !!p);
+    return found.find(p => p.type === FRONT_COVER) || found[0] || null;
+};
@@ -0,0 +1,17 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { readReplayGain } from './replayGain';
+
+const fixture = (name: string) => new Blob([readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))]);
+
+describe('readReplayGain', () => {
+    it('reads TXXX frames from the id3 chunk of a WAV file', async () => {
+        const info = await readReplayGain(fixture('replaygain.wav'), 'WAV');
+        expect(info).toMatchObject({ trackGain: -6.5, albumGain: -7.25, albumPeak: undefined });
+        expect(info.trackPeak).toBeCloseTo(-6.02, 2);
+    });
+
+    it('detects the container when the format is unknown', async () => {
+        expect(await readReplayGain(fixture('replaygain.wav'))).toMatchObject({ trackGain: -6.5 });
+    });
+});
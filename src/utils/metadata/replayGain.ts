@@ -0,0 +1,112 @@
+import { readId3v2, readDescribedFrame, Id3Tag } from './id3';
+import { readMoov, readFreeformAtoms } from './mp4';
+import { readFlacBlocks, FLAC_VORBIS_COMMENT } from './flac';
+import { readOggComments } from './ogg';
+import { readIffChunks } from './iff';
+import { detectFormat } from './tags';
+import { parseVorbisComments, firstComment, VorbisComments } from './vorbis';
+
+/**
+ * ReplayGain tag reader.
+ * Gains are in dB relative to the ReplayGain 2.0 reference (-18 LUFS),
+ * peaks in dBFS.
+ */
+
+export interface ReplayGainInfo {
+    trackGain?: number;
+    trackPeak?: number;
+    albumGain?: number;
+    albumPeak?: number;
+}
+
+/** Opus R128 gains are relative to -23 LUFS, 5 dB below the ReplayGain reference. */
+const R128_OFFSET = 5;
+
+const parseGain = (value?: string): number | undefined => {
+    const gain = parseFloat(value || '');
+    return isFinite(gain) ? gain : undefined;
+};
+
+const parsePeak = (value?: string): number | undefined => {
+    const peak = parseFloat(value || '');
+    return isFinite(peak) && peak > 0 ? 20 * Math.log10(peak) : undefined;
+};
+
+const fromLookup = (get: (key: string) => string | undefined): ReplayGainInfo => ({
+    trackGain: parseGain(get('REPLAYGAIN_TRACK_GAIN')),
+    trackPeak: parsePeak(get('REPLAYGAIN_TRACK_PEAK')),
+    albumGain: parseGain(get('REPLAYGAIN_ALBUM_GAIN')),
+    albumPeak: parsePeak(get('REPLAYGAIN_ALBUM_PEAK')),
+});
+
+const fromVorbis = (comments: VorbisComments, codec?: 'vorbis' | 'opus'): ReplayGainInfo => {
+    const info = fromLookup(key => firstComment(comments, key));
+    if (codec === 'opus') {
+        const track = parseInt(firstComment(comments, 'R128_TRACK_GAIN') || '', 10);
+        const album = parseInt(firstComment(comments, 'R128_ALBUM_GAIN') || '', 10);
+        if (info.trackGain === undefined && !isNaN(track)) info.trackGain = track / 256 + R128_OFFSET;
+        if (info.albumGain === undefined && !isNaN(album)) info.albumGain = album / 256 + R128_OFFSET;
+    }
+    return info;
+};
+
+/** MP3, WAV and AIFF files carry ReplayGain in ID3 TXXX frames. */
+const fromId3 = (id3: Id3Tag | null): ReplayGainInfo | null => {
+    if (!id3) return null;
+    const txxx = new Map(id3.frames
+        .filter(f => f.id === 'TXXX' || f.id === 'TXX')
+        .map(readDescribedFrame)
+        .map(({ description, value }) => [description.toUpperCase(), value]));
+    return fromLookup(key => txxx.get(key));
+};
+
+const KNOWN_FORMATS = ['FLAC', 'OGG', 'OGA', 'OPUS', 'M4A', 'MP4', 'AAC', 'ALAC', 'MP3', 'WAV', 'WAVE', 'AIFF', 'AIF', 'AIFC'];
+
+const readTags = async (blob: Blob, format: string): Promise<ReplayGainInfo | null> => {
+    switch (format) {
+        case 'FLAC': {
+            const block = (await readFlacBlocks(blob, [FLAC_VORBIS_COMMENT])).find(b => b.data);
+            return block?.data ? fromVorbis(parseVorbisComments(block.data)) : null;
+        }
+        case 'OGG':
+        case 'OGA':
+        case 'OPUS': {
+            const tags = await readOggComments(blob);
+            return tags ? fromVorbis(parseVorbisComments(tags.comments), tags.codec) : null;
+        }
+        case 'M4A':
+        case 'MP4':
+        case 'AAC':
+        case 'ALAC': {
+            const moov = await readMoov(blob);
+            if (!moov) return null;
+            const atoms = readFreeformAtoms(moov);
+            const byKey = new Map(Array.from(atoms, ([k, v]) => [k.toUpperCase(), v]));
+            return fromLookup(key => byKey.get(key));
+        }
+        case 'MP3':
+            return fromId3(await readId3v2(blob));
+        case 'WAV':
+        case 'WAVE':
+        case 'AIFF':
+        case 'AIF':
+        case 'AIFC': {
+            // The ID3 tag sits in its own chunk rather than at the start of the file
+            const file = await readIffChunks(blob);
+            const chunk = file?.chunks.find(c => c.id === 'id3 ' || c.id === 'ID3 ');
+            return chunk ? fromId3(await readId3v2(blob.slice(chunk.offset, chunk.offset + chunk.length))) : null;
+        }
+        default:
+            return null;
+    }
+};
+
+export const readReplayGain = async (blob: Blob, format?: string): Promise<ReplayGainInfo> => {
+    try {
+        const key = (format || '').toUpperCase();
+        return (await readTags(blob, KNOWN_FORMATS.includes(key) ? key : (await detectFormat(blob)) || '')) || {};
+    } catch (err) {
+        console.warn('Failed to read ReplayGain tags:', err);
+        return {};
+    }
+};
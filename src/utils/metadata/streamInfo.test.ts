@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { readStreamInfo, isHiResStream } from './streamInfo';
+
+const fixture = (name: string) => new Blob([readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))]);
+
+describe('readStreamInfo', () => {
+    it('reads a CBR MP3 from its first frame, timing it from the file size', async () => {
+        const info = await readStreamInfo(fixture('v22.mp3'), 'MP3');
+        expect(info).toMatchObject({ codec: 'MP3', lossless: false, sampleRate: 44100, channels: 2, bitrate: 128 });
+        expect(info!.bitDepth).toBeUndefined();
+        expect(info!.duration).toBeCloseTo((2 * 417 * 8) / 128000, 6);
+    });
+
+    it('times a VBR MP3 from the Xing frame count', async () => {
+        const info = await readStreamInfo(fixture('v23.mp3'), 'MP3');
+        expect(info!.duration).toBeCloseTo((100 * 1152) / 44100, 6);
+    });
+
+    it('reads FLAC STREAMINFO', async () => {
+        expect(await readStreamInfo(fixture('picture.flac'), 'FLAC')).toMatchObject({
+            codec: 'FLAC', lossless: true, sampleRate: 96000, channels: 2, bitDepth: 24, duration: 2,
+        });
+    });
+
+    it('reads the Vorbis identification header and the last granule', async () => {
+        expect(await readStreamInfo(fixture('vorbis.ogg'), 'OGG')).toMatchObject({
+            codec: 'Vorbis', lossless: false, sampleRate: 44100, channels: 2, duration: 2,
+        });
+    });
+
+    it('plays Opus at 48 kHz whatever the input rate, less the pre-skip', async () => {
+        expect(await readStreamInfo(fixture('opus.opus'), 'OPUS')).toMatchObject({
+            codec: 'Opus', lossless: false, sampleRate: 48000, channels: 2, duration: 3,
+        });
+    });
+
+    it('takes ALAC rate and depth from the codec cookie', async () => {
+        expect(await readStreamInfo(fixture('alac.m4a'), 'M4A')).toMatchObject({
+            codec: 'ALAC', lossless: true, sampleRate: 96000, channels: 2, bitDepth: 24, duration: 2.5,
+        });
+    });
+
+    it('reads the WAV fmt chunk and times the data chunk', async () => {
+        expect(await readStreamInfo(fixture('info.wav'), 'WAV')).toMatchObject({
+            codec: 'PCM', lossless: true, sampleRate: 48000, channels: 2, bitDepth: 24, float: false, duration: 0.1,
+        });
+    });
+
+    it('reads the AIFF COMM chunk and its extended sample rate', async () => {
+        expect(await readStreamInfo(fixture('id3.aiff'), 'AIFF')).toMatchObject({
+            codec: 'PCM', lossless: true, sampleRate: 44100, channels: 2, bitDepth: 16, duration: 0.5,
+        });
+    });
+});
+
+describe('isHiResStream', () => {
+    it('counts lossless streams above CD quality only', async () => {
+        expect(isHiResStream(await readStreamInfo(fixture('picture.flac'), 'FLAC'))).toBe(true);
+        expect(isHiResStream(await readStreamInfo(fixture('id3.aiff'), 'AIFF'))).toBe(false);
+        expect(isHiResStream(await readStreamInfo(fixture('opus.opus'), 'OPUS'))).toBe(false);
+    });
+});
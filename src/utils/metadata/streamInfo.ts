@@ -0,0 +1,263 @@
+import { readRange, ascii } from './binary';
+import { readId3v2 } from './id3';
+import { readMpegHeader } from './mpeg';
+import { readMoov, childBoxes, findBox, findAudioSampleEntry } from './mp4';
+import { readFlacBlocks, FLAC_STREAMINFO } from './flac';
+import { readOggPackets } from './ogg';
+
+/**
+ * Source stream properties read from the container headers: FLAC
+ * STREAMINFO, the WAV `fmt ` chunk, the AIFF `COMM` chunk, the MP4 `stsd`
+ * sample entry, Ogg identification headers and the first MPEG frame.
+ * Duration comes from the same headers (sample counts, `mvhd`, the last Ogg
+ * granule, the Xing frame count), never from decoding.
+ */
+
+export interface StreamInfo {
+    codec: string;
+    lossless: boolean;
+    sampleRate: number;
+    channels: number;
+    /** Bits per sample; undefined for lossy codecs, which have no fixed depth. */
+    bitDepth?: number;
+    float?: boolean;
+    /** Seconds, when the container records it. */
+    duration?: number;
+    /** Average kbps over the whole file. */
+    bitrate?: number;
+}
+
+/** Bytes 10-17: 20 bits sample rate, 3 bits channels - 1, 5 bits bits per sample - 1, 36 bits total samples. */
+const parseStreamInfoBlock = (d: Uint8Array): StreamInfo => {
+    const sampleRate = (d[10] << 12) | (d[11] << 4) | (d[12] >> 4);
+    const totalSamples = (d[13] & 0x0f) * 2 ** 32 + new DataView(d.buffer, d.byteOffset, d.byteLength).getUint32(14);
+    return {
+        codec: 'FLAC',
+        lossless: true,
+        sampleRate,
+        channels: ((d[12] >> 1) & 0x07) + 1,
+        bitDepth: (((d[12] & 0x01) << 4) | (d[13] >> 4)) + 1,
+        duration: totalSamples && sampleRate ? totalSamples / sampleRate : undefined,
+    };
+};
+
+const readFlac = async (blob: Blob): Promise<StreamInfo | null> => {
+    const block = (await readFlacBlocks(blob, [FLAC_STREAMINFO])).find(b => b.type === FLAC_STREAMINFO);
+    if (!block?.data || block.data.length < 18) return null;
+    return parseStreamInfoBlock(block.data);
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const readWav = async (blob: Blob): Promise<StreamInfo | null> => {
+    const header = await readRange(blob, 0, 12);
+    const riff = ascii(header, 0, 4);
+    if (riff !== 'RIFF' && riff !== 'RF64') return null;
+
+    let info: StreamInfo | null = null;
+    let blockAlign = 0;
+    let dataSize: number | null = null;
+    let offset = 12;
+    while (offset + 8 <= blob.size && (!info || dataSize === null)) {
+        const chunk = await readRange(blob, offset, offset + 8);
+        const id = ascii(chunk, 0, 4);
+        const size = chunk.getUint32(4, true);
+        if (id === 'ds64') {
+            // RF64 keeps the real 64-bit data size here; the data chunk header says 0xFFFFFFFF
+            const ds64 = await readRange(blob, offset + 8, offset + 24);
+            dataSize = Number(ds64.getBigUint64(8, true));
+        } else if (id === 'fmt ') {
+            const fmt = await readRange(blob, offset + 8, offset + 8 + Math.min(size, 40));
+            let format = fmt.getUint16(0, true);
+            let bitDepth = fmt.getUint16(14, true);
+            if (format === WAVE_FORMAT_EXTENSIBLE && fmt.byteLength >= 26) {
+                bitDepth = fmt.getUint16(18, true) || bitDepth;
+                format = fmt.getUint16(24, true);
+            }
+            blockAlign = fmt.getUint16(12, true);
+            info = {
+                codec: format === WAVE_FORMAT_IEEE_FLOAT ? 'PCM Float' : format === WAVE_FORMAT_PCM ? 'PCM' : `WAV 0x${format.toString(16)}`,
+                lossless: format === WAVE_FORMAT_PCM || format === WAVE_FORMAT_IEEE_FLOAT,
+                sampleRate: fmt.getUint32(4, true),
+                channels: fmt.getUint16(2, true),
+                bitDepth,
+                float: format === WAVE_FORMAT_IEEE_FLOAT,
+            };
+        } else if (id === 'data') {
+            if (dataSize === null || size !== 0xffffffff) dataSize = size;
+            // Streamed files may leave the size unset; the chunk then runs to the end
+            if (!dataSize || offset + 8 + dataSize > blob.size) dataSize = blob.size - offset - 8;
+            break;
+        }
+        offset += 8 + size + (size & 1);
+    }
+    if (info && dataSize && blockAlign && info.sampleRate) info.duration = dataSize / blockAlign / info.sampleRate;
+    return info;
+};
+
+/** 80-bit IEEE 754 extended float, as used for the AIFF sample rate. */
+const readExtended = (view: DataView, offset: number): number => {
+    const exponent = view.getUint16(offset) & 0x7fff;
+    const mantissa = view.getUint32(offset + 2);
+    return Math.round(mantissa * Math.pow(2, exponent - 16383 - 31));
+};
+
+const readAiff = async (blob: Blob): Promise<StreamInfo | null> => {
+    const header = await readRange(blob, 0, 12);
+    if (ascii(header, 0, 4) !== 'FORM') return null;
+    const compressed = ascii(header, 8, 4) === 'AIFC';
+
+    let offset = 12;
+    while (offset + 8 <= blob.size) {
+        const chunk = await readRange(blob, offset, offset + 8);
+        const size = chunk.getUint32(4);
+        if (ascii(chunk, 0, 4) === 'COMM') {
+            const comm = await readRange(blob, offset + 8, offset + 8 + Math.min(size, 22));
+            const compression = compressed && comm.byteLength >= 22 ? ascii(comm, 18, 4) : 'NONE';
+            const pcm = compression === 'NONE' || compression === 'sowt' || compression === 'fl32' || compression === 'fl64';
+            return {
+                codec: pcm ? 'PCM' : compression.trim(),
+                lossless: pcm,
+                sampleRate: readExtended(comm, 8),
+                channels: comm.getUint16(0),
+                bitDepth: comm.getUint16(6),
+                float: compression === 'fl32' || compression === 'fl64',
+                duration: comm.getUint32(2) / readExtended(comm, 8) || undefined,
+            };
+        }
+        offset += 8 + size + (size & 1);
+    }
+    return null;
+};
+
+const MP4_CODECS: Record<string, { codec: string; lossless: boolean }> = {
+    mp4a: { codec: 'AAC', lossless: false },
+    alac: { codec: 'ALAC', lossless: true },
+    fLaC: { codec: 'FLAC', lossless: true },
+    Opus: { codec: 'Opus', lossless: false },
+    'ac-3': { codec: 'AC-3', lossless: false },
+    'ec-3': { codec: 'E-AC-3', lossless: false },
+};
+
+const readMp4 = async (blob: Blob): Promise<StreamInfo | null> => {
+    const moov = await readMoov(blob);
+    const entry = moov && findAudioSampleEntry(moov);
+    if (!moov || !entry) return null;
+
+    const codec = MP4_CODECS[entry.type] || { codec: entry.type, lossless: false };
+    const info: StreamInfo = {
+        ...codec,
+        sampleRate: moov.getUint32(entry.start + 24) >>> 16,
+        channels: moov.getUint16(entry.start + 16),
+        bitDepth: codec.lossless ? moov.getUint16(entry.start + 18) : undefined,
+    };
+
+    const mvhd = findBox(moov, 8, moov.byteLength, ['mvhd']);
+    if (mvhd) {
+        const v1 = moov.getUint8(mvhd.start) === 1;
+        const timescale = moov.getUint32(mvhd.start + (v1 ? 20 : 12));
+        const duration = v1 ? Number(moov.getBigUint64(mvhd.start + 24)) : moov.getUint32(mvhd.start + 16);
+        if (timescale) info.duration = duration / timescale;
+    }
+
+    // The ALAC magic cookie carries the real depth and rate (the entry's 16.16 rate caps at 65535 Hz)
+    if (entry.type === 'alac') {
+        const cookie = childBoxes(moov, entry.start + 28, entry.end).find(b => b.type === 'alac');
+        if (cookie && cookie.end - cookie.start >= 28) {
+            const config = cookie.start + 4;
+            info.bitDepth = moov.getUint8(config + 5);
+            info.channels = moov.getUint8(config + 9);
+            info.sampleRate = moov.getUint32(config + 20);
+        }
+    }
+    return info;
+};
+
+/** Granule position of the last page: the stream length in samples (plus pre-skip for Opus). */
+const readLastGranule = async (blob: Blob): Promise<number | null> => {
+    const tail = await readRange(blob, Math.max(0, blob.size - 65536), blob.size);
+    for (let pos = tail.byteLength - 27; pos >= 0; pos--) {
+        if (ascii(tail, pos, 4) !== 'OggS') continue;
+        const granule = Number(tail.getBigInt64(pos + 6, true));
+        if (granule > 0) return granule;
+    }
+    return null;
+};
+
+const readOgg = async (blob: Blob): Promise<StreamInfo | null> => {
+    const [id] = await readOggPackets(blob, 1);
+    if (!id) return null;
+    const view = new DataView(id.buffer, id.byteOffset, id.byteLength);
+    let info: StreamInfo | null = null;
+    let preSkip = 0;
+    if (ascii(view, 0, 8) === 'OpusHead') {
+        // Opus always decodes at 48 kHz; the header only records the original rate
+        info = { codec: 'Opus', lossless: false, sampleRate: 48000, channels: view.getUint8(9) };
+        preSkip = view.getUint16(10, true);
+    } else if (id[0] === 1 && ascii(view, 1, 6) === 'vorbis') {
+        info = { codec: 'Vorbis', lossless: false, sampleRate: view.getUint32(12, true), channels: view.getUint8(11) };
+    } else if (id[0] === 0x7f && ascii(view, 1, 4) === 'FLAC' && id.length >= 17 + 18) {
+        // Ogg FLAC: mapping header, then the native 'fLaC' signature and STREAMINFO block
+        info = parseStreamInfoBlock(id.subarray(17));
+    }
+    if (!info) return null;
+
+    const granule = await readLastGranule(blob);
+    if (granule && info.sampleRate) info.duration = Math.max(0, granule - preSkip) / info.sampleRate;
+    return info;
+};
+
+const readMp3 = async (blob: Blob): Promise<StreamInfo | null> => {
+    const id3 = await readId3v2(blob);
+    const header = await readMpegHeader(blob, id3?.size || 0);
+    if (!header) return null;
+    const audioBytes = blob.size - header.frameOffset;
+    // VBR files carry a frame count; without one the stream is assumed to be CBR
+    const duration = header.frameCount
+        ? header.frameCount * header.samplesPerFrame / header.sampleRate
+        : header.bitrate ? audioBytes * 8 / (header.bitrate * 1000) : undefined;
+    return {
+        codec: 'MP3',
+        lossless: false,
+        sampleRate: header.sampleRate,
+        channels: header.channels,
+        duration,
+        bitrate: header.frameCount && duration ? Math.round(audioBytes * 8 / duration / 1000) : header.bitrate || undefined,
+    };
+};
+
+const READERS: Record<string, (blob: Blob) => Promise<StreamInfo | null>> = {
+    FLAC: readFlac,
+    WAV: readWav,
+    WAVE: readWav,
+    AIFF: readAiff,
+    AIF: readAiff,
+    AIFC: readAiff,
+    M4A: readMp4,
+    MP4: readMp4,
+    AAC: readMp4,
+    ALAC: readMp4,
+    OGG: readOgg,
+    OGA: readOgg,
+    OPUS: readOgg,
+    MP3: readMp3,
+};
+
+export const readStreamInfo = async (blob: Blob, format?: string): Promise<StreamInfo | null> => {
+    const reader = READERS[(format || '').toUpperCase()];
+    if (!reader) return null;
+    try {
+        const info = await reader(blob);
+        if (info?.duration && !info.bitrate) info.bitrate = Math.round(blob.size * 8 / info.duration / 1000);
+        return info;
+    } catch (err) {
+        console.warn('Failed to read stream info:', err);
+        return null;
+    }
+};
+
+/** Lossless and above CD quality in rate or depth. */
+export const isHiResStream = (info: StreamInfo | null | undefined): boolean =>
+    !!info && info.lossless && (info.sampleRate > 48000 || (info.bitDepth || 0) > 16);
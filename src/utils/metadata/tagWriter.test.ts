@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { writeTags } from './tagWriter';
+import { readTags } from './tags';
+import { readId3v2, readTextFrame } from './id3';
+
+const fixture = (name: string) => new Blob([readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))]);
+
+describe('writeTags for MP3', () => {
+    it('writes ID3v2.4, folding v2.3 TYER, TDAT and TIME into TDRC', async () => {
+        const blob = fixture('v23.mp3');
+        const written = await writeTags(blob, 'MP3', { tags: await readTags(blob) });
+        const tag = await readId3v2(written);
+        expect(tag!.version).toBe(4);
+        const ids = tag!.frames.map(f => f.id);
+        expect(ids).not.toContain('TYER');
+        expect(ids).not.toContain('TDAT');
+        expect(ids).not.toContain('TIME');
+        expect(readTextFrame(tag!.frames.find(f => f.id === 'TDRC')!)).toBe('2001-06-03T14:15');
+    });
+
+    it('renames TORY to TDOR and drops frames v2.4 has no place for', async () => {
+        const blob = fixture('v23.mp3');
+        const tag = await readId3v2(await writeTags(blob, 'MP3', { tags: await readTags(blob) }));
+        const ids = tag!.frames.map(f => f.id);
+        expect(readTextFrame(tag!.frames.find(f => f.id === 'TDOR')!)).toBe('1990');
+        expect(ids).not.toContain('TORY');
+        expect(ids).not.toContain('RVAD');
+    });
+
+    it('skips frames that are compressed, encrypted or grouped', async () => {
+        const blob = fixture('v23.mp3');
+        expect((await readId3v2(blob))!.frames.find(f => f.id === 'TPUB')?.encoded).toBe(true);
+        const tag = await readId3v2(await writeTags(blob, 'MP3', { tags: await readTags(blob) }));
+        expect(tag!.frames.map(f => f.id)).not.toContain('TPUB');
+    });
+
+    it('writes only the year once it changes', async () => {
+        const blob = fixture('v23.mp3');
+        const tags = { ...await readTags(blob), year: 2002 };
+        const tag = await readId3v2(await writeTags(blob, 'MP3', { tags }));
+        expect(readTextFrame(tag!.frames.find(f => f.id === 'TDRC')!)).toBe('2002');
+    });
+
+    it('keeps the edited tags, cover and audio readable', async () => {
+        const blob = fixture('v23.mp3');
+        const tags = { ...await readTags(blob), title: 'Renamed', composer: undefined };
+        const written = await writeTags(blob, 'MP3', { tags });
+        expect(await readTags(written)).toEqual({ ...tags, composer: undefined });
+        const tag = await readId3v2(written);
+        expect(tag!.frames.some(f => f.id === 'APIC')).toBe(true);
+        const audio = new Uint8Array(await written.slice(tag!.size).arrayBuffer());
+        expect([...audio.subarray(0, 2)]).toEqual([0xff, 0xfb]);
+    });
+});
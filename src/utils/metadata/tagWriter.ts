@@ -0,0 +1,262 @@
+import { readRange, ascii } from './binary';
+import { readId3v2, readTextFrame, Id3Frame } from './id3';
+import { readFlacBlocks, FLAC_STREAMINFO, FLAC_VORBIS_COMMENT, FLAC_PICTURE } from './flac';
+import { parseVorbisComments } from './vorbis';
+import { EmbeddedPicture, readId3Picture } from './picture';
+import { TrackTags, VALUE_SEPARATOR } from './tags';
+
+/**
+ * Writes tags back into the audio file: a fresh ID3v2.4 tag for MP3 and a
+ * rebuilt VORBIS_COMMENT (plus PICTURE) block set for FLAC. Frames and
+ * comments the editor does not manage (ReplayGain, MusicBrainz ids...) are
+ * carried over untouched. The audio frames themselves are never re-read
+ * into memory; the result is a Blob that references the original bytes.
+ */
+
+export interface TagEdit {
+    /** Complete set of editable tags; a missing field removes it from the file. */
+    tags: TrackTags;
+    /** Unsynchronised lyrics; undefined keeps whatever the file has. */
+    lyrics?: string;
+    /** New cover, null to remove it, undefined to keep the current one. */
+    picture?: EmbeddedPicture | null;
+}
+
+/**
+ * What the editor changed, applied on top of each track's current tags.
+ * A field present with an undefined value clears it.
+ */
+export interface TagChanges {
+    tags: TrackTags;
+    lyrics?: string;
+    picture?: EmbeddedPicture | null;
+}
+
+export const WRITABLE_FORMATS = ['MP3', 'FLAC'];
+
+export const canWriteTags = (format?: string) => WRITABLE_FORMATS.includes((format || '').toUpperCase());
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+const position = (index?: number, total?: number): string | undefined =>
+    index ? (total ? `${index}/${total}` : `${index}`) : undefined;
+
+// ─── ID3v2.4 ────────────────────────────────────────────────────────────────
+
+const ID3_PADDING = 1024;
+const UTF8 = 3;
+
+/** Frames rebuilt from the edit; everything else in an existing v2.3/2.4 tag is kept. */
+const MANAGED_FRAMES = ['TIT2', 'TPE1', 'TALB', 'TPE2', 'TRCK', 'TPOS', 'TYER', 'TDAT', 'TIME', 'TDRC', 'TCON', 'TCOM'];
+
+/** v2.3 frames with a v2.4 replacement of the same layout. */
+const V23_RENAMED: Record<string, string> = { TORY: 'TDOR' };
+
+/** v2.3 frames v2.4 dropped for ones laid out differently (RVA2, EQU2), or dropped outright. */
+const V23_DROPPED = ['TRDA', 'TSIZ', 'RVAD', 'EQUA'];
+
+const synchsafeBytes = (value: number) =>
+    new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const id3Frame = (id: string, data: Uint8Array) =>
+    concat([encoder.encode(id), synchsafeBytes(data.length), new Uint8Array(2), data]);
+
+/** v2.4 separates multiple values with NUL, which the reader shows joined. */
+const textFrame = (id: string, value?: string | number) =>
+    value === undefined || value === ''
+        ? null
+        : id3Frame(id, concat([new Uint8Array([UTF8]), encoder.encode(String(value).split(VALUE_SEPARATOR).join('\0'))]));
+
+const lyricsFrame = (lyrics: string) =>
+    id3Frame('USLT', concat([new Uint8Array([UTF8]), encoder.encode('eng'), new Uint8Array([0]), encoder.encode(lyrics)]));
+
+const pictureFrame = (picture: EmbeddedPicture) =>
+    id3Frame('APIC', concat([
+        new Uint8Array([0]),
+        encoder.encode(picture.mime), new Uint8Array([0]),
+        new Uint8Array([picture.type]),
+        new Uint8Array([0]), // empty description
+        picture.data,
+    ]));
+
+/**
+ * TDRC for the edited year. While the year is unchanged, the date and time
+ * already in the file are kept: a v2.4 TDRC as it is, or v2.3 TYER, TDAT
+ * (DDMM) and TIME (HHMM) folded into one timestamp.
+ */
+const recordingTime = (frames: Id3Frame[], year?: number): string | undefined => {
+    if (!year) return undefined;
+    const text = (id: string) => {
+        const frame = frames.find(f => f.id === id && !f.encoded);
+        return frame ? readTextFrame(frame).trim() : '';
+    };
+    const tdrc = text('TDRC');
+    if (tdrc.slice(0, 4) === String(year)) return tdrc;
+    const date = text('TDAT');
+    if (text('TYER') !== String(year) || !/^\d{4}$/.test(date)) return String(year);
+    const day = `${year}-${date.slice(2)}-${date.slice(0, 2)}`;
+    const time = text('TIME');
+    return /^\d{4}$/.test(time) ? `${day}T${time.slice(0, 2)}:${time.slice(2)}` : day;
+};
+
+const writeMp3 = async (blob: Blob, edit: TagEdit): Promise<Blob> => {
+    const existing = await readId3v2(blob);
+    const old: Id3Frame[] = existing?.frames || [];
+    // v2.2 frames use other ids and layouts; only their picture is worth converting
+    const reusable = existing && existing.version >= 3;
+    const { tags } = edit;
+
+    // Compressed, encrypted or grouped frames would need their flags and extra header bytes too
+    const kept = reusable
+        ? old.filter(f => !f.encoded && !MANAGED_FRAMES.includes(f.id) && !V23_DROPPED.includes(f.id)
+            && !(edit.lyrics !== undefined && f.id === 'USLT')
+            && !(edit.picture !== undefined && f.id === 'APIC'))
+            .map(f => V23_RENAMED[f.id] ? { ...f, id: V23_RENAMED[f.id] } : f)
+        : [];
+    const pictures = edit.picture !== undefined
+        ? (edit.picture ? [edit.picture] : [])
+        : reusable ? [] : old.filter(f => f.id === 'PIC').map(readId3Picture).filter((p): p is EmbeddedPicture => !!p);
+
+    const frames = [
+        textFrame('TIT2', tags.title),
+        textFrame('TPE1', tags.artist),
+        textFrame('TALB', tags.album),
+        textFrame('TPE2', tags.albumArtist),
+        textFrame('TRCK', position(tags.trackNumber, tags.trackTotal)),
+        textFrame('TPOS', position(tags.discNumber, tags.discTotal)),
+        textFrame('TDRC', recordingTime(reusable ? old : [], tags.year)),
+        textFrame('TCON', tags.genre),
+        textFrame('TCOM', tags.composer),
+        edit.lyrics ? lyricsFrame(edit.lyrics) : null,
+        ...kept.map(f => id3Frame(f.id, f.data)),
+        ...pictures.map(pictureFrame),
+    ].filter((f): f is Uint8Array => !!f);
+
+    const body = concat([...frames, new Uint8Array(ID3_PADDING)]);
+    const header = concat([encoder.encode('ID3'), new Uint8Array([4, 0, 0]), synchsafeBytes(body.length)]);
+
+    // A trailing ID3v1 tag would fill cleared fields back in on the next read
+    const tail = blob.size >= 128 ? await readRange(blob, blob.size - 128, blob.size - 125) : null;
+    const end = tail && ascii(tail, 0, 3) === 'TAG' ? blob.size - 128 : blob.size;
+    return new Blob([header, body, blob.slice(existing?.size || 0, end)], { type: blob.type || 'audio/mpeg' });
+};
+
+// ─── FLAC ───────────────────────────────────────────────────────────────────
+
+const FLAC_PADDING = 1;
+const FLAC_BLOCK_LIMIT = 0xffffff;
+const PADDING_BYTES = 4096;
+
+const MANAGED_COMMENTS = [
+    'TITLE', 'ARTIST', 'ALBUM', 'ALBUMARTIST', 'ALBUM ARTIST', 'ALBUM_ARTIST',
+    'TRACKNUMBER', 'TRACKTOTAL', 'TOTALTRACKS', 'DISCNUMBER', 'DISCTOTAL', 'TOTALDISCS',
+    'DATE', 'YEAR', 'GENRE', 'COMPOSER',
+];
+const LYRICS_COMMENTS = ['LYRICS', 'UNSYNCEDLYRICS'];
+
+const uint32le = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+};
+
+const uint32be = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+};
+
+const flacBlock = (type: number, data: Uint8Array, last: boolean) => {
+    if (data.length > FLAC_BLOCK_LIMIT) throw new Error('Metadata block is too large for FLAC (16 MB max)');
+    return concat([new Uint8Array([(last ? 0x80 : 0) | type, data.length >> 16, (data.length >> 8) & 0xff, data.length & 0xff]), data]);
+};
+
+const vorbisCommentBlock = (vendor: string, entries: [string, string][]) =>
+    concat([
+        uint32le(encoder.encode(vendor).length), encoder.encode(vendor),
+        uint32le(entries.length),
+        ...entries.flatMap(([key, value]) => {
+            const entry = encoder.encode(`${key}=${value}`);
+            return [uint32le(entry.length), entry];
+        }),
+    ]);
+
+const flacPictureBlock = (picture: EmbeddedPicture) => {
+    const mime = encoder.encode(picture.mime);
+    // Width, height, depth and palette size may be 0 when unknown
+    return concat([uint32be(picture.type), uint32be(mime.length), mime, uint32be(0), new Uint8Array(16), uint32be(picture.data.length), picture.data]);
+};
+
+const writeFlac = async (blob: Blob, edit: TagEdit): Promise<Blob> => {
+    const keepPictures = edit.picture === undefined;
+    const blocks = await readFlacBlocks(blob, [0, 2, 3, 4, 5, 6]);
+    const streamInfo = blocks.find(b => b.type === FLAC_STREAMINFO);
+    if (!streamInfo?.data) throw new Error('Not a FLAC file');
+    const last = blocks[blocks.length - 1];
+    const audioStart = last.offset + last.length;
+
+    const comment = blocks.find(b => b.type === FLAC_VORBIS_COMMENT)?.data;
+    let vendor = 'Aura Hi-Res Player';
+    const kept: [string, string][] = [];
+    if (comment) {
+        const view = new DataView(comment.buffer, comment.byteOffset, comment.byteLength);
+        vendor = new TextDecoder().decode(comment.subarray(4, 4 + view.getUint32(0, true)));
+        const dropped = [...MANAGED_COMMENTS, ...(edit.lyrics !== undefined ? LYRICS_COMMENTS : [])];
+        parseVorbisComments(comment).forEach((values, key) => {
+            if (!dropped.includes(key)) values.forEach(value => kept.push([key, value]));
+        });
+    }
+
+    const { tags } = edit;
+    const entries: [string, string][] = [];
+    const add = (key: string, value?: string | number) => {
+        if (value === undefined || value === '') return;
+        String(value).split(VALUE_SEPARATOR).forEach(part => entries.push([key, part]));
+    };
+    add('TITLE', tags.title);
+    add('ARTIST', tags.artist);
+    add('ALBUM', tags.album);
+    add('ALBUMARTIST', tags.albumArtist);
+    add('TRACKNUMBER', tags.trackNumber);
+    add('TRACKTOTAL', tags.trackTotal);
+    add('DISCNUMBER', tags.discNumber);
+    add('DISCTOTAL', tags.discTotal);
+    add('DATE', tags.year);
+    add('GENRE', tags.genre);
+    add('COMPOSER', tags.composer);
+    if (edit.lyrics) entries.push(['LYRICS', edit.lyrics]);
+
+    const other = blocks.filter(b => b.data && b.type !== FLAC_STREAMINFO && b.type !== FLAC_VORBIS_COMMENT
+        && b.type !== FLAC_PADDING && (keepPictures || b.type !== FLAC_PICTURE));
+    const pictures = edit.picture ? [flacPictureBlock(edit.picture)] : [];
+
+    // STREAMINFO must come first; new padding goes last so the next edit can be done in place by other taggers
+    const metadata = [
+        flacBlock(FLAC_STREAMINFO, streamInfo.data, false),
+        flacBlock(FLAC_VORBIS_COMMENT, vorbisCommentBlock(vendor, [...entries, ...kept]), false),
+        ...other.map(b => flacBlock(b.type, b.data!, false)),
+        ...pictures.map(p => flacBlock(FLAC_PICTURE, p, false)),
+        flacBlock(FLAC_PADDING, new Uint8Array(PADDING_BYTES), true),
+    ];
+    // Any ID3v2 tag some taggers prepend to FLAC is dropped
+    return new Blob([encoder.encode('fLaC'), ...metadata, blob.slice(audioStart)], { type: blob.type || 'audio/flac' });
+};
+
+/** Returns a new Blob with the edit applied; throws for formats that cannot be written. */
+export const writeTags = async (blob: Blob, format: string | undefined, edit: TagEdit): Promise<Blob> => {
+    switch ((format || '').toUpperCase()) {
+        case 'MP3': return writeMp3(blob, edit);
+        case 'FLAC': return writeFlac(blob, edit);
+        default: throw new Error(`Writing tags to ${format || 'this'} files is not supported`);
+    }
+};
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { readTags, readTrackMetadata, readEmbeddedLyrics, detectFormat } from './tags';
+
+const fixture = (name: string) => new Blob([readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))]);
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const JPEG_SIGNATURE = [0xff, 0xd8];
+
+const readWithPicture = (name: string) => readTrackMetadata(fixture(name), undefined, { picture: true });
+
+describe('detectFormat', () => {
+    it.each([
+        ['v23.mp3', 'MP3'],
+        ['v1.mp3', 'MP3'],
+        ['picture.flac', 'FLAC'],
+        ['vorbis.ogg', 'OGG'],
+        ['opus.opus', 'OGG'],
+        ['alac.m4a', 'M4A'],
+        ['info.wav', 'WAV'],
+        ['id3.aiff', 'AIFF'],
+    ])('recognises %s as %s', async (name, format) => {
+        expect(await detectFormat(fixture(name))).toBe(format);
+    });
+});
+
+describe('ID3', () => {
+    it('maps v2.2 three-letter frames and reads the PIC image', async () => {
+        const { tags, picture } = await readWithPicture('v22.mp3');
+        expect(tags).toEqual({
+            title: 'Two Two', artist: 'Old Tagger', album: 'Legacy', trackNumber: 3, trackTotal: 12, year: 1999, genre: 'Rock',
+        });
+        expect(picture).toMatchObject({ mime: 'image/png', type: 3, description: 'cover' });
+        expect([...picture!.data.subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+        expect(picture!.data).toHaveLength(70);
+    });
+
+    it('decodes v2.3 UTF-16 text, TYER, TPOS and the unsynced lyrics', async () => {
+        const { tags, picture, lyrics } = await readWithPicture('v23.mp3');
+        expect(tags).toEqual({
+            title: 'Três', artist: 'Artist Three', album: 'Album Three', albumArtist: 'Various Artists',
+            trackNumber: 7, discNumber: 1, discTotal: 2, year: 2001, genre: 'Pop', composer: 'Composer Three',
+        });
+        expect(picture).toMatchObject({ mime: 'image/jpeg', type: 3, description: 'front' });
+        expect([...picture!.data.subarray(0, 2)]).toEqual(JPEG_SIGNATURE);
+        expect(lyrics).toEqual(['first line\nsecond line']);
+    });
+
+    it('joins v2.4 multi-value frames and prefers the front cover', async () => {
+        const { tags, picture } = await readWithPicture('v24.mp3');
+        expect(tags.title).toBe('Quatro ✓');
+        expect(tags.artist).toBe('First; Second');
+        expect(tags.year).toBe(2005);
+        expect(tags.trackNumber).toBe(4);
+        expect(tags.trackTotal).toBe(9);
+        // The cover's MIME type is blank; the PNG signature decides it
+        expect(picture).toMatchObject({ mime: 'image/png', type: 3, description: 'front' });
+    });
+
+    it('fills fields missing from ID3v2 from ID3v1 and no others', async () => {
+        const tags = await readTags(fixture('v24.mp3'));
+        expect(tags.genre).toBe('Jazz');
+        expect(tags.album).toBe('Album Four');
+    });
+
+    it('reads an ID3v1.1 tag on its own', async () => {
+        const { tags, picture } = await readWithPicture('v1.mp3');
+        expect(tags).toEqual({
+            title: 'Version One', artist: 'Artist One', album: 'Album One', trackNumber: 5, year: 1998, genre: 'Rock',
+        });
+        expect(picture).toBeNull();
+    });
+
+    it('leaves pictures out unless asked for', async () => {
+        expect((await readTrackMetadata(fixture('v23.mp3'))).picture).toBeNull();
+    });
+});
+
+describe('FLAC', () => {
+    it('reads Vorbis comments, joining repeated fields', async () => {
+        expect(await readTags(fixture('picture.flac'))).toEqual({
+            title: 'Flac Title', artist: 'Flac Artist; Guest', album: 'Flac Album', albumArtist: 'Flac Band',
+            trackNumber: 2, trackTotal: 10, discNumber: 1, discTotal: 1, year: 2010, genre: 'Jazz', composer: 'Flac Composer',
+        });
+    });
+
+    it('reads the PICTURE block', async () => {
+        const { picture } = await readWithPicture('picture.flac');
+        expect(picture).toMatchObject({ mime: 'image/png', type: 3, description: 'front' });
+        expect([...picture!.data.subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+        expect(picture!.data).toHaveLength(70);
+    });
+
+    it('returns the LYRICS comment', async () => {
+        expect(await readEmbeddedLyrics(fixture('picture.flac'))).toEqual(['[00:01.00]synced line']);
+    });
+});
+
+describe('Ogg', () => {
+    it('reads Vorbis comments from the second header packet', async () => {
+        const { tags, picture } = await readWithPicture('vorbis.ogg');
+        expect(tags).toEqual({
+            title: 'Vorbis Title', artist: 'Vorbis Artist', album: 'Vorbis Album', trackNumber: 1, trackTotal: 4, year: 2012, genre: 'Rock',
+        });
+        expect(picture).toBeNull();
+    });
+
+    it('reads OpusTags and the base64 METADATA_BLOCK_PICTURE', async () => {
+        const { tags, picture } = await readWithPicture('opus.opus');
+        expect(tags).toEqual({ title: 'Opus Title', artist: 'Opus Artist', album: 'Opus Album' });
+        expect(picture).toMatchObject({ mime: 'image/png', type: 3, description: 'front' });
+        expect(picture!.data).toHaveLength(70);
+    });
+});
+
+describe('MP4', () => {
+    it('reads the ilst atoms, including trkn, disk and gnre', async () => {
+        const { tags, lyrics } = await readWithPicture('alac.m4a');
+        expect(tags).toEqual({
+            title: 'Mp4 Title', artist: 'Mp4 Artist', album: 'Mp4 Album', albumArtist: 'Mp4 Band',
+            trackNumber: 6, trackTotal: 11, discNumber: 2, discTotal: 3, year: 2015, genre: 'Jazz', composer: 'Mp4 Composer',
+        });
+        expect(lyrics).toEqual(['plain lyrics']);
+    });
+
+    it('reads the covr image', async () => {
+        const { picture } = await readWithPicture('alac.m4a');
+        expect(picture).toMatchObject({ mime: 'image/jpeg', type: 3 });
+        expect([...picture!.data.subarray(0, 2)]).toEqual(JPEG_SIGNATURE);
+        expect(picture!.data).toHaveLength(22);
+    });
+});
+
+describe('WAV and AIFF', () => {
+    it('reads the WAV LIST INFO chunk', async () => {
+        expect(await readTags(fixture('info.wav'))).toEqual({
+            title: 'Wave Title', artist: 'Wave Artist', album: 'Wave Album', trackNumber: 8, year: 2018, genre: 'Ambient',
+        });
+    });
+
+    it('lets an AIFF ID3 chunk win over NAME and keeps AUTH for the missing artist', async () => {
+        const { tags, picture } = await readWithPicture('id3.aiff');
+        expect(tags).toEqual({ title: 'Aiff Id3 Title', artist: 'Aiff Author', album: 'Aiff Album' });
+        expect(picture).toMatchObject({ mime: 'image/png', type: 3 });
+    });
+});
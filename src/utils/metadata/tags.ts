@@ -0,0 +1,430 @@
+import { readRange, ascii, decodeText } from './binary';
+import { readId3v2, readId3v1, readTextFrame, readDescribedFrame, splitTerminated, decodeId3String, Id3Frame, Id3v1Tag } from './id3';
+import { readMoov, findBox, childBoxes, itemData } from './mp4';
+import { readFlacBlocks, FLAC_VORBIS_COMMENT, FLAC_PICTURE } from './flac';
+import { readOggComments } from './ogg';
+import { readIffChunks, readListChunk } from './iff';
+import { parseVorbisComments, VorbisComments } from './vorbis';
+import { EmbeddedPicture, readId3Picture, readFlacPicture, readVorbisPictures, mp4Picture, pickCover } from './picture';
+import { readStreamInfo, StreamInfo } from './streamInfo';
+import { formatLrcTime } from '../lyrics';
+
+/**
+ * Descriptive tags (title, album, numbering, genre...) normalized across
+ * ID3v2.2-2.4, ID3v1, FLAC and Ogg Vorbis comments, MP4 `ilst` atoms,
+ * RIFF INFO lists and AIFF text chunks, plus the embedded cover art and
+ * lyrics. This is the single entry point the app uses for file metadata.
+ */
+
+export interface TrackTags {
+    title?: string;
+    artist?: string;
+    album?: string;
+    albumArtist?: string;
+    trackNumber?: number;
+    trackTotal?: number;
+    discNumber?: number;
+    discTotal?: number;
+    year?: number;
+    genre?: string;
+    composer?: string;
+}
+
+/** Every editable field of TrackTags, in display order. */
+export const TAG_FIELDS: (keyof TrackTags)[] = [
+    'title', 'artist', 'album', 'albumArtist', 'trackNumber', 'trackTotal',
+    'discNumber', 'discTotal', 'year', 'genre', 'composer',
+];
+
+/** The tag fields of a stored track. */
+export const pickTags = (track: TrackTags): TrackTags =>
+    Object.fromEntries(TAG_FIELDS.filter(f => track[f] !== undefined).map(f => [f, track[f]])) as TrackTags;
+
+/** ID3v1 genre list with the Winamp extensions, indexed by genre number. */
+export const ID3V1_GENRES = [
+    'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+    'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+    'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+    'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+    'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+    'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+    'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+    'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+    'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebop', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+    'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+    'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+    'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+    'Duet', 'Punk Rock', 'Drum Solo', 'A Cappella', 'Euro-House', 'Dance Hall', 'Goa', 'Drum & Bass', 'Club-House', 'Hardcore Techno',
+    'Terror', 'Indie', 'BritPop', 'Negerpunk', 'Polsk Punk', 'Beat', 'Christian Gangsta Rap', 'Heavy Metal', 'Black Metal', 'Crossover',
+    'Contemporary Christian', 'Christian Rock', 'Merengue', 'Salsa', 'Thrash Metal', 'Anime', 'Jpop', 'Synthpop',
+];
+
+/** Multiple values (ID3v2.4 NUL separators, repeated Vorbis keys) are shown joined. */
+export const VALUE_SEPARATOR = '; ';
+
+const clean = (value?: string): string | undefined => {
+    const trimmed = value?.replace(/\0+/g, VALUE_SEPARATOR).trim();
+    return trimmed ? trimmed : undefined;
+};
+
+/** "3/12" -> [3, 12]; either part may be missing. */
+const parsePosition = (value?: string): [number | undefined, number | undefined] => {
+    const [index, total] = (value || '').split('/').map(v => parseInt(v, 10));
+    return [index > 0 ? index : undefined, total > 0 ? total : undefined];
+};
+
+const parseYear = (value?: string): number | undefined => {
+    const match = value?.match(/\d{4}/);
+    return match ? parseInt(match[0], 10) : undefined;
+};
+
+/** Resolves ID3 genre references: "(17)", "17" or "(17)Rock" style values. */
+export const resolveGenre = (value?: string): string | undefined => {
+    const text = clean(value);
+    if (!text) return undefined;
+    const ref = text.match(/^\((\d+)\)(.*)$/) || text.match(/^(\d+)()$/);
+    if (!ref) return text;
+    return clean(ref[2]) || ID3V1_GENRES[parseInt(ref[1], 10)] || text;
+};
+
+/** Drops undefined fields so tags can be spread over existing track data. */
+const compact = (tags: TrackTags): TrackTags =>
+    Object.fromEntries(Object.entries(tags).filter(([, v]) => v !== undefined)) as TrackTags;
+
+// ─── ID3 ────────────────────────────────────────────────────────────────────
+
+/** ID3v2.2 uses three-letter frame ids. */
+const V22_FRAME_IDS: Record<string, string> = {
+    TT2: 'TIT2', TP1: 'TPE1', TAL: 'TALB', TP2: 'TPE2', TRK: 'TRCK',
+    TPA: 'TPOS', TYE: 'TYER', TOR: 'TORY', TCO: 'TCON', TCM: 'TCOM',
+};
+
+export const fromId3Frames = (frames: Id3Frame[]): TrackTags => {
+    const text = (...ids: string[]) => {
+        const frame = frames.find(f => ids.includes(V22_FRAME_IDS[f.id] || f.id));
+        return frame ? clean(readTextFrame(frame)) : undefined;
+    };
+    const [trackNumber, trackTotal] = parsePosition(text('TRCK'));
+    const [discNumber, discTotal] = parsePosition(text('TPOS'));
+    return {
+        title: text('TIT2'),
+        artist: text('TPE1'),
+        album: text('TALB'),
+        albumArtist: text('TPE2'),
+        trackNumber,
+        trackTotal,
+        discNumber,
+        discTotal,
+        year: parseYear(text('TDRC', 'TYER', 'TDOR', 'TORY')),
+        genre: resolveGenre(text('TCON')),
+        composer: text('TCOM'),
+    };
+};
+
+const fromId3v1 = (tag: Id3v1Tag): TrackTags => ({
+    title: clean(tag.title),
+    artist: clean(tag.artist),
+    album: clean(tag.album),
+    trackNumber: tag.track || undefined,
+    year: parseYear(tag.year),
+    genre: ID3V1_GENRES[tag.genre],
+});
+
+const id3Pictures = (frames: Id3Frame[]) =>
+    frames.filter(f => f.id === 'APIC' || f.id === 'PIC').map(readId3Picture);
+
+/**
+ * SYLT as LRC text. Only millisecond timestamps are read (MPEG frame counts
+ * need the stream's frame rate). Entries starting with a line break begin a
+ * line and the ones after them become word timestamps; without any breaks
+ * every entry is a line of its own.
+ */
+const syltToLrc = (frame: Id3Frame): string | null => {
+    const encoding = frame.data[0];
+    if (frame.data[4] !== 2) return null;
+    let [, rest] = splitTerminated(frame.data.subarray(6), encoding);
+    const entries: { time: number; text: string }[] = [];
+    while (rest.length > 0) {
+        const [text, after] = splitTerminated(rest, encoding);
+        if (after.length < 4) break;
+        entries.push({ time: new DataView(after.buffer, after.byteOffset, 4).getUint32(0), text: decodeId3String(text, encoding) });
+        rest = after.subarray(4);
+    }
+    const breaks = entries.some(e => /^[\r\n]/.test(e.text));
+    const lines: { time: number; text: string }[][] = [];
+    for (const entry of entries) {
+        if (!breaks || /^[\r\n]/.test(entry.text) || lines.length === 0) lines.push([]);
+        lines[lines.length - 1].push({ time: entry.time, text: entry.text.replace(/^[\r\n]+/, '') });
+    }
+    const lrc = lines.map(words => `[${formatLrcTime(words[0].time)}]` + (words.length === 1
+        ? words[0].text.trim()
+        : words.map(w => `<${formatLrcTime(w.time)}>${w.text}`).join('')));
+    return lrc.length > 0 ? lrc.join('\n') : null;
+};
+
+/** Synced SYLT lyrics first, then USLT; v2.2 names them SLT and ULT. */
+const id3Lyrics = (frames: Id3Frame[]): string[] => [
+    ...frames.filter(f => f.id === 'SYLT' || f.id === 'SLT').map(syltToLrc),
+    ...frames.filter(f => f.id === 'USLT' || f.id === 'ULT').map(f => readDescribedFrame(f).value),
+].filter((text): text is string => !!text && !!text.trim());
+
+// ─── Vorbis comments ────────────────────────────────────────────────────────
+
+export const fromVorbisComments = (comments: VorbisComments): TrackTags => {
+    const get = (...keys: string[]) => {
+        for (const key of keys) {
+            const values = comments.get(key);
+            if (values?.length) return clean(values.join(VALUE_SEPARATOR));
+        }
+        return undefined;
+    };
+    const [trackNumber, trackTotal] = parsePosition(get('TRACKNUMBER'));
+    const [discNumber, discTotal] = parsePosition(get('DISCNUMBER'));
+    return {
+        title: get('TITLE'),
+        artist: get('ARTIST'),
+        album: get('ALBUM'),
+        albumArtist: get('ALBUMARTIST', 'ALBUM ARTIST', 'ALBUM_ARTIST'),
+        trackNumber,
+        trackTotal: trackTotal ?? parsePosition(get('TRACKTOTAL', 'TOTALTRACKS'))[0],
+        discNumber,
+        discTotal: discTotal ?? parsePosition(get('DISCTOTAL', 'TOTALDISCS'))[0],
+        year: parseYear(get('DATE', 'YEAR', 'ORIGINALDATE')),
+        genre: get('GENRE'),
+        composer: get('COMPOSER'),
+    };
+};
+
+const vorbisLyrics = (comments: VorbisComments): string[] =>
+    ['LYRICS', 'UNSYNCEDLYRICS'].flatMap(key => comments.get(key) || []).filter(text => text.trim());
+
+// ─── MP4 ────────────────────────────────────────────────────────────────────
+
+const fromMp4 = (items: Map<string, Uint8Array | null>): TrackTags => {
+    const text = (type: string) => {
+        const data = items.get(type);
+        return data ? clean(decodeText(data)) : undefined;
+    };
+    /** trkn/disk: two reserved bytes, then 16-bit index and total. */
+    const position = (type: string): [number | undefined, number | undefined] => {
+        const data = items.get(type);
+        if (!data || data.length < 6) return [undefined, undefined];
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        return [view.getUint16(2) || undefined, view.getUint16(4) || undefined];
+    };
+    /** gnre holds an ID3v1 genre number plus one. */
+    const genreNumber = () => {
+        const data = items.get('gnre');
+        return data && data.length >= 2 ? ID3V1_GENRES[((data[0] << 8) | data[1]) - 1] : undefined;
+    };
+    const [trackNumber, trackTotal] = position('trkn');
+    const [discNumber, discTotal] = position('disk');
+    return {
+        title: text('©nam'),
+        artist: text('©ART'),
+        album: text('©alb'),
+        albumArtist: text('aART'),
+        trackNumber,
+        trackTotal,
+        discNumber,
+        discTotal,
+        year: parseYear(text('©day')),
+        genre: text('©gen') || genreNumber(),
+        composer: text('©wrt'),
+    };
+};
+
+// ─── RIFF / AIFF ────────────────────────────────────────────────────────────
+
+/** RIFF INFO ids; ITRK is the common track field, IPRT the spec's "part". */
+const fromRiffInfo = (info: Map<string, Uint8Array>): TrackTags => {
+    const text = (...ids: string[]) => {
+        for (const id of ids) {
+            const value = info.get(id);
+            if (value) return clean(decodeText(value));
+        }
+        return undefined;
+    };
+    const [trackNumber, trackTotal] = parsePosition(text('ITRK', 'IPRT', 'TRCK'));
+    return {
+        title: text('INAM'),
+        artist: text('IART'),
+        album: text('IPRD'),
+        trackNumber,
+        trackTotal,
+        year: parseYear(text('ICRD')),
+        genre: resolveGenre(text('IGNR')),
+        composer: text('IMUS', 'IWRI'),
+    };
+};
+
+/** AIFF text chunks only carry a name and an author. */
+const fromAiffText = (name?: Uint8Array, author?: Uint8Array): TrackTags => ({
+    title: name ? clean(decodeText(name, 'latin1')) : undefined,
+    artist: author ? clean(decodeText(author, 'latin1')) : undefined,
+});
+
+// ─── Format dispatch ────────────────────────────────────────────────────────
+
+interface RawMetadata {
+    /** Tag sets in priority order; earlier sets win field by field. */
+    tags: TrackTags[];
+    pictures: (EmbeddedPicture | null)[];
+    /** Embedded lyrics, plain or LRC. */
+    lyrics: string[];
+}
+
+const EMPTY: RawMetadata = { tags: [], pictures: [], lyrics: [] };
+
+const readFlacMetadata = async (blob: Blob, withPictures: boolean): Promise<RawMetadata> => {
+    const blocks = await readFlacBlocks(blob, withPictures ? [FLAC_VORBIS_COMMENT, FLAC_PICTURE] : [FLAC_VORBIS_COMMENT]);
+    const comment = blocks.find(b => b.type === FLAC_VORBIS_COMMENT && b.data);
+    const comments = comment?.data ? parseVorbisComments(comment.data) : null;
+    return {
+        tags: comments ? [fromVorbisComments(comments)] : [],
+        pictures: blocks.filter(b => b.type === FLAC_PICTURE && b.data).map(b => readFlacPicture(b.data!)),
+        lyrics: comments ? vorbisLyrics(comments) : [],
+    };
+};
+
+const readOggMetadata = async (blob: Blob, withPictures: boolean): Promise<RawMetadata> => {
+    const header = await readOggComments(blob);
+    if (!header) return EMPTY;
+    const comments = parseVorbisComments(header.comments);
+    return {
+        tags: [fromVorbisComments(comments)],
+        pictures: withPictures ? readVorbisPictures(comments) : [],
+        lyrics: vorbisLyrics(comments),
+    };
+};
+
+const readMp4Metadata = async (blob: Blob, withPictures: boolean): Promise<RawMetadata> => {
+    const moov = await readMoov(blob);
+    const ilst = moov && findBox(moov, 8, moov.byteLength, ['udta', 'meta', 'ilst']);
+    if (!moov || !ilst) return EMPTY;
+    const items = childBoxes(moov, ilst.start, ilst.end);
+    const data = new Map(items.map(item => [item.type, itemData(moov, item)]));
+    const covers = withPictures ? items.filter(item => item.type === 'covr').map(item => itemData(moov, item)) : [];
+    const lyrics = data.get('©lyr');
+    return {
+        tags: [fromMp4(data)],
+        pictures: covers.map(cover => cover ? mp4Picture(cover) : null),
+        lyrics: lyrics ? [decodeText(lyrics)] : [],
+    };
+};
+
+/** ID3v2 at the start of the file, with ID3v1 at the end as a fallback for missing fields. */
+const readMp3Metadata = async (blob: Blob, withPictures: boolean): Promise<RawMetadata> => {
+    const [v2, v1] = await Promise.all([readId3v2(blob), readId3v1(blob)]);
+    return {
+        tags: [v2 ? fromId3Frames(v2.frames) : {}, v1 ? fromId3v1(v1) : {}],
+        pictures: v2 && withPictures ? id3Pictures(v2.frames) : [],
+        lyrics: v2 ? id3Lyrics(v2.frames) : [],
+    };
+};
+
+/** WAV and AIFF: an embedded ID3v2 chunk wins over the native INFO/NAME/AUTH fields. */
+const readIffMetadata = async (blob: Blob, withPictures: boolean): Promise<RawMetadata> => {
+    const file = await readIffChunks(blob, ['LIST', 'NAME', 'AUTH']);
+    if (!file) return EMPTY;
+    const id3Chunk = file.chunks.find(c => c.id === 'id3 ' || c.id === 'ID3 ');
+    const id3 = id3Chunk ? await readId3v2(blob.slice(id3Chunk.offset, id3Chunk.offset + id3Chunk.length)) : null;
+    const native = file.littleEndian
+        ? fromRiffInfo(file.chunks.filter(c => c.id === 'LIST' && c.data).reduce(
+            (info, c) => new Map([...info, ...readListChunk(c.data!, 'INFO')]), new Map<string, Uint8Array>()))
+        : fromAiffText(file.chunks.find(c => c.id === 'NAME')?.data, file.chunks.find(c => c.id === 'AUTH')?.data);
+    return {
+        tags: [id3 ? fromId3Frames(id3.frames) : {}, native],
+        pictures: id3 && withPictures ? id3Pictures(id3.frames) : [],
+        lyrics: id3 ? id3Lyrics(id3.frames) : [],
+    };
+};
+
+const READERS: Record<string, (blob: Blob, withPictures: boolean) => Promise<RawMetadata>> = {
+    MP3: readMp3Metadata,
+    FLAC: readFlacMetadata,
+    OGG: readOggMetadata,
+    OGA: readOggMetadata,
+    OPUS: readOggMetadata,
+    M4A: readMp4Metadata,
+    MP4: readMp4Metadata,
+    AAC: readMp4Metadata,
+    ALAC: readMp4Metadata,
+    WAV: readIffMetadata,
+    WAVE: readIffMetadata,
+    AIFF: readIffMetadata,
+    AIF: readIffMetadata,
+    AIFC: readIffMetadata,
+};
+
+/**
+ * Container format from the first bytes, for files whose extension is
+ * missing or misleading. Returns one of the format keys used above.
+ */
+export const detectFormat = async (blob: Blob): Promise<string | null> => {
+    const head = await readRange(blob, 0, 12);
+    const magic = ascii(head, 0, 4);
+    if (magic === 'fLaC') return 'FLAC';
+    if (magic === 'OggS') return 'OGG';
+    if (magic === 'RIFF' || magic === 'RF64') return 'WAV';
+    if (magic === 'FORM') return 'AIFF';
+    if (ascii(head, 4, 4) === 'ftyp') return 'M4A';
+    if (magic.startsWith('ID3')) {
+        // FLAC files sometimes carry a leading ID3v2 tag too
+        return (await readFlacBlocks(blob)).length > 0 ? 'FLAC' : 'MP3';
+    }
+    if (head.byteLength >= 2 && head.getUint8(0) === 0xff && (head.getUint8(1) & 0xe0) === 0xe0) return 'MP3';
+    return null;
+};
+
+const resolveFormat = async (blob: Blob, format?: string): Promise<string | null> => {
+    const key = (format || '').toUpperCase();
+    return READERS[key] ? key : detectFormat(blob);
+};
+
+/** Merges tag sets field by field, earlier sets first. */
+const mergeTags = (sets: TrackTags[]): TrackTags =>
+    sets.reduceRight<TrackTags>((merged, set) => ({ ...merged, ...compact(set) }), {});
+
+const readRawMetadata = async (blob: Blob, format: string | null, withPictures: boolean): Promise<RawMetadata> => {
+    const reader = format ? READERS[format] : null;
+    if (!reader) return EMPTY;
+    try {
+        return await reader(blob, withPictures);
+    } catch (err) {
+        console.warn('Failed to read tags:', err);
+        return EMPTY;
+    }
+};
+
+/** Reads whatever tags the file has; never throws, missing fields are left out. */
+export const readTags = async (blob: Blob, format?: string): Promise<TrackTags> =>
+    mergeTags((await readRawMetadata(blob, await resolveFormat(blob, format).catch(() => null), false)).tags);
+
+/** Embedded lyrics, synced ones first; empty when the file has none. */
+export const readEmbeddedLyrics = async (blob: Blob, format?: string): Promise<string[]> =>
+    (await readRawMetadata(blob, await resolveFormat(blob, format).catch(() => null), false)).lyrics;
+
+export interface TrackMetadata {
+    /** Format key the file was read as (MP3, FLAC, ...), null when unrecognised. */
+    format: string | null;
+    tags: TrackTags;
+    /** Front cover when present, else the first embedded picture. */
+    picture: EmbeddedPicture | null;
+    stream: StreamInfo | null;
+    /** Embedded lyrics, synced ones first. */
+    lyrics: string[];
+}
+
+/**
+ * Tags, cover art and stream properties in one pass. Pictures can be
+ * several megabytes, so they are only loaded when asked for.
+ */
+export const readTrackMetadata = async (blob: Blob, format?: string, options: { picture?: boolean } = {}): Promise<TrackMetadata> => {
+    const resolved = await resolveFormat(blob, format).catch(() => null);
+    const [raw, stream] = await Promise.all([
+        readRawMetadata(blob, resolved, !!options.picture),
+        resolved ? readStreamInfo(blob, resolved) : Promise.resolve(null),
+    ]);
+    return { format: resolved, tags: mergeTags(raw.tags), picture: pickCover(raw.pictures), stream, lyrics: raw.lyrics };
+};
@@ -0,0 +1,38 @@
+/**
+ * Vorbis comment parser (FLAC VORBIS_COMMENT block, Ogg Vorbis and Opus tags).
+ * Keys are upper-cased; a key may repeat (e.g. several ARTIST entries).
+ */
+
+export type VorbisComments = Map<string, string[]>;
+
+export const parseVorbisComments = (bytes: Uint8Array): VorbisComments => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const decoder = new TextDecoder('utf-8');
+    const comments: VorbisComments = new Map();
+
+    let offset = 4 + view.getUint32(0, true); // vendor string
+    const count = view.getUint32(offset, true);
+    offset += 4;
+
+    for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+        const length = view.getUint32(offset, true);
+        const entry = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+
+        const separator = entry.indexOf('=');
+        if (separator <= 0) continue;
+        const key = entry.slice(0, separator).toUpperCase();
+        const values = comments.get(key) || [];
+        values.push(entry.slice(separator + 1));
+        comments.set(key, values);
+    }
+    return comments;
+};
+
+export const firstComment = (comments: VorbisComments, ...keys: string[]): string | undefined => {
+    for (const key of keys) {
+        const value = comments.get(key)?.[0];
+        if (value) return value;
+    }
+    return undefined;
+};
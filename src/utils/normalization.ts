@@ -0,0 +1,82 @@
+import type { ReplayGainInfo } from './metadata/replayGain';
+import { combineLoudness, LoudnessInfo } from './loudness';
+
+/**
+ * Loudness normalization gain.
+ * ReplayGain tags win when present; otherwise the locally measured
+ * BS.1770 loudness of the track (or of its album) is used.
+ */
+
+export type NormalizationMode = 'off' | 'track' | 'album' | 'auto';
+
+export const NORMALIZATION_MODES: { id: NormalizationMode; label: string }[] = [
+    { id: 'off', label: 'Off' },
+    { id: 'track', label: 'Track' },
+    { id: 'album', label: 'Album' },
+    { id: 'auto', label: 'Auto' },
+];
+
+export interface NormalizationSettings {
+    normalizationMode: NormalizationMode;
+    targetLufs: number;
+    preamp: number;
+    preventClipping: boolean;
+}
+
+export interface NormalizableTrack {
+    replayGain?: ReplayGainInfo;
+    loudness?: LoudnessInfo;
+}
+
+/** ReplayGain 2.0 gains bring tracks to -18 LUFS. */
+const REPLAYGAIN_REFERENCE = -18;
+
+/** Headroom kept below 0 dBFS when clipping prevention caps the gain. */
+const PEAK_CEILING = -0.5;
+
+export const normalizationGain = (
+    settings: NormalizationSettings,
+    track: NormalizableTrack,
+    album: NormalizableTrack[] | null
+): number => {
+    if (settings.normalizationMode === 'off') return 0;
+
+    const tags = track.replayGain || {};
+    const albumLoudness = album ? combineLoudness(album.map(t => t.loudness).filter((l): l is LoudnessInfo => !!l)) : null;
+
+    let gain: number | undefined;
+    let peak: number | undefined;
+    if (album && tags.albumGain !== undefined) {
+        gain = tags.albumGain + settings.targetLufs - REPLAYGAIN_REFERENCE;
+        peak = tags.albumPeak;
+    } else if (album && albumLoudness && album.every(t => t.loudness)) {
+        gain = settings.targetLufs - albumLoudness.integrated;
+        peak = albumLoudness.truePeak;
+    } else if (tags.trackGain !== undefined) {
+        gain = tags.trackGain + settings.targetLufs - REPLAYGAIN_REFERENCE;
+        peak = tags.trackPeak;
+    } else if (track.loudness) {
+        gain = settings.targetLufs - track.loudness.integrated;
+        peak = track.loudness.truePeak;
+    }
+    if (gain === undefined) return 0;
+
+    gain += settings.preamp;
+    if (settings.preventClipping) {
+        const measuredPeak = peak ?? track.loudness?.truePeak;
+        if (measuredPeak !== undefined && gain + measuredPeak > PEAK_CEILING) {
+            gain = PEAK_CEILING - measuredPeak;
+        }
+    }
+    return Math.round(gain * 100) / 100;
+};
+
+/** True when the track still needs tags read or loudness measured for the current mode. */
+export const needsLoudnessAnalysis = (settings: NormalizationSettings, track: NormalizableTrack): boolean => {
+    if (settings.normalizationMode === 'off') return false;
+    if (track.replayGain === undefined) return true;
+    if (track.loudness) return false;
+    return settings.normalizationMode === 'track'
+        ? track.replayGain.trackGain === undefined
+        : track.replayGain.albumGain === undefined;
+};
@@ -0,0 +1,53 @@
+/**
+ * Audio output device helpers.
+ * Device labels are only exposed after the page has been granted media
+ * permission; without them the browser still reports the default output.
+ */
+
+export interface OutputDevice {
+    deviceId: string;
+    groupId: string;
+    label: string;
+}
+
+export const DEFAULT_OUTPUT = 'default';
+
+export const supportsOutputSelection = (): boolean =>
+    !!navigator.mediaDevices?.enumerateDevices && typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export const listOutputDevices = async (): Promise<OutputDevice[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter(d => d.kind === 'audiooutput')
+        .map((d, i) => ({
+            deviceId: d.deviceId || DEFAULT_OUTPUT,
+            groupId: d.groupId,
+            label: d.label || (d.deviceId === DEFAULT_OUTPUT ? 'System default' : `Output ${i + 1}`),
+        }));
+};
+
+/**
+ * Stable key for the physical device behind a sink id. The "default" entry
+ * shares its groupId with the real device it currently points at, so
+ * bindings follow the hardware rather than the "default" alias.
+ */
+export const physicalDeviceKey = (devices: OutputDevice[], sinkId: string): string => {
+    const selected = devices.find(d => d.deviceId === (sinkId || DEFAULT_OUTPUT));
+    if (!selected) return sinkId || DEFAULT_OUTPUT;
+    if (selected.deviceId !== DEFAULT_OUTPUT && selected.deviceId !== 'communications') return selected.deviceId;
+    const physical = devices.find(d => d.groupId === selected.groupId && d.deviceId !== DEFAULT_OUTPUT && d.deviceId !== 'communications');
+    return physical?.deviceId || selected.deviceId;
+};
+
+export const setOutputDevice = async (context: AudioContext, deviceId: string): Promise<void> => {
+    if (!('setSinkId' in context)) throw new Error('This browser cannot choose the audio output device');
+    await (context as any).setSinkId(deviceId === DEFAULT_OUTPUT ? '' : deviceId);
+};
+
+export const onDeviceChange = (listener: () => void): (() => void) => {
+    const devices = navigator.mediaDevices;
+    if (!devices?.addEventListener) return () => {};
+    devices.addEventListener('devicechange', listener);
+    return () => devices.removeEventListener('devicechange', listener);
+};
@@ -0,0 +1,415 @@
+import { readGaplessInfo, trimRegion } from './metadata/gapless';
+import { createCrossfadeMixer, FadeCurve } from './crossfade';
+import { TempoAnalysis } from './beatDetection';
+import { readStreamInfo } from './metadata/streamInfo';
+import { ResamplerQuality, RateConversion, decodeForContext } from './resampler';
+
+/**
+ * Sample-accurate playback engine built on AudioBufferSourceNode.
+ *
+ * Tracks are decoded up front and the upcoming one is scheduled on the
+ * AudioContext clock at the exact end of the current one, so album
+ * transitions have no gap. With a crossfade set, the upcoming track starts
+ * early on a fader of its own in the mixer instead, shifted so the incoming
+ * track's first downbeat lands on a downbeat of the outgoing one when both
+ * beat grids are known (an alignment of that one beat, not tempo matching). The engine mimics the bits of HTMLMediaElement
+ * the UI relies on (currentTime, duration, paused and the
+ * loadstart/loadedmetadata/timeupdate/ended events) and adds a
+ * `trackchange` event fired when playback rolls over to the scheduled track.
+ * Sample-rate conversion happens once at decode time (see resampler.ts).
+ */
+
+export interface EngineTrack {
+    id: number;
+    file: Blob;
+    format?: string;
+    tempo?: TempoAnalysis;
+    /** Loudness normalization gain applied to this track only. */
+    gainDb?: number;
+}
+
+interface Segment {
+    track: EngineTrack;
+    buffer: AudioBuffer;
+    conversion: RateConversion | null;
+    /** Seconds of encoder delay to skip at the start of the buffer. */
+    trimStart: number;
+    /** Playable length in seconds once delay and padding are removed. */
+    duration: number;
+    source: AudioBufferSourceNode | null;
+    /** Per-track gain stage between the source and its fader. */
+    trim: GainNode | null;
+    /** Mixer channel the segment fades in and out on, one per start. */
+    fader: GainNode | null;
+    /** Context time that corresponds to track position 0. */
+    origin: number;
+}
+
+export interface PlaybackEngine {
+    readonly context: AudioContext;
+    /** Last node of the engine; the DSP chain is connected after it. */
+    readonly output: GainNode;
+    readonly paused: boolean;
+    readonly duration: number;
+    /** Rate conversion applied to the current track; null when it plays at its own rate. */
+    readonly conversion: RateConversion | null;
+    currentTime: number;
+    load: (track: EngineTrack, options?: { autoplay?: boolean; position?: number }) => Promise<void>;
+    /** `crossfade: false` keeps this particular transition gapless. */
+    setNext: (track: EngineTrack | null, options?: { crossfade?: boolean }) => void;
+    setCrossfade: (seconds: number, curve: FadeCurve) => void;
+    /** Re-decodes the current and upcoming tracks with the new filter. */
+    setResampler: (quality: ResamplerQuality) => void;
+    /** Hands over a beat grid that finished analysing after the track was queued. */
+    setBeatGrid: (trackId: number, tempo: TempoAnalysis) => void;
+    setTrackGain: (trackId: number, gainDb: number) => void;
+    setVolume: (volume: number) => void;
+    play: () => Promise<void>;
+    pause: () => Promise<void>;
+    stop: () => void;
+    addEventListener: EventTarget['addEventListener'];
+    removeEventListener: EventTarget['removeEventListener'];
+}
+
+const TICK_MS = 250;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const createPlaybackEngine = (context: AudioContext): PlaybackEngine => {
+    const events = new EventTarget();
+    const output = context.createGain();
+    const mixer = createCrossfadeMixer(context, output);
+
+    let current: Segment | null = null;
+    let next: Segment | null = null;
+    let nextTrack: EngineTrack | null = null;
+    let fading: Segment[] = [];
+    let crossfade = 0;
+    let curve: FadeCurve = 'equal-power';
+    let nextCrossfades = true;
+    let resampler: ResamplerQuality = 'bypass';
+    let paused = true;
+    let loadGeneration = 0;
+    let nextGeneration = 0;
+    let ticker: ReturnType<typeof setInterval> | undefined;
+
+    const emit = (type: string, detail?: unknown) => {
+        events.dispatchEvent(detail === undefined ? new Event(type) : new CustomEvent(type, { detail }));
+    };
+
+    const decode = async (track: EngineTrack): Promise<Segment> => {
+        const [data, info, stream] = await Promise.all([
+            track.file.arrayBuffer(),
+            readGaplessInfo(track.file, track.format),
+            readStreamInfo(track.file, track.format),
+        ]);
+        const { buffer, conversion } = await decodeForContext(context, data, stream?.sampleRate, resampler);
+        const { start, duration } = trimRegion(info, buffer.duration);
+        return { track, buffer, conversion, trimStart: start, duration, source: null, trim: null, fader: null, origin: 0 };
+    };
+
+    const silence = (seg: Segment) => {
+        if (seg.source) {
+            seg.source.onended = null;
+            try { seg.source.stop(); } catch { /* never started */ }
+            seg.source.disconnect();
+            seg.source = null;
+        }
+        seg.trim?.disconnect();
+        seg.trim = null;
+        seg.fader?.disconnect();
+        seg.fader = null;
+    };
+
+    const start = (seg: Segment, when: number, offset: number) => {
+        const source = context.createBufferSource();
+        source.buffer = seg.buffer;
+        const trim = context.createGain();
+        trim.gain.value = dbToGain(seg.track.gainDb || 0);
+        const fader = mixer.channel();
+        source.connect(trim);
+        trim.connect(fader);
+        source.onended = () => handleEnded(seg);
+        source.start(when, seg.trimStart + offset, Math.max(0, seg.duration - offset));
+        seg.source = source;
+        seg.trim = trim;
+        seg.fader = fader;
+        seg.origin = when - offset;
+    };
+
+    const overlapFor = (a: Segment, b: Segment) =>
+        nextCrossfades ? Math.min(crossfade, a.duration / 2, b.duration / 2) : 0;
+
+    /**
+     * Start time that puts the incoming track's first downbeat on a
+     * (down)beat of the outgoing track, as close as possible to `nominal`
+     * and never more than two bars away from it. Only the start moves: no
+     * tempo is matched, so tracks at different tempos drift apart during
+     * the fade.
+     */
+    const beatAlignedStart = (outgoing: Segment, incoming: Segment, nominal: number, end: number): number => {
+        const from = outgoing.track.tempo;
+        const to = incoming.track.tempo;
+        const lead = to?.downbeats[0] ?? to?.beats[0];
+        if (!from || !to || lead === undefined || !from.bpm) return nominal;
+
+        const maxShift = (60 / from.bpm) * 8;
+        for (const grid of [from.downbeats, from.beats]) {
+            let best = nominal;
+            let bestDistance = Infinity;
+            for (const beat of grid) {
+                const candidate = outgoing.origin + beat - lead;
+                if (candidate < context.currentTime || candidate >= end) continue;
+                const distance = Math.abs(candidate - nominal);
+                if (distance < bestDistance) {
+                    best = candidate;
+                    bestDistance = distance;
+                }
+            }
+            if (bestDistance <= maxShift) return best;
+        }
+        return nominal;
+    };
+
+    const scheduleNext = () => {
+        if (!current || !current.source || !next || next.source) return;
+        const overlap = overlapFor(current, next);
+        const end = current.origin + current.duration;
+        let when = Math.max(end - overlap, context.currentTime);
+        if (overlap > 0) when = beatAlignedStart(current, next, when, end);
+        start(next, when, 0);
+
+        if (overlap > 0 && when < end) {
+            mixer.crossfade(current.fader!, next.fader!, when, end - when, curve);
+        }
+    };
+
+    /** Moves the scheduled track into the current slot once it is audible. */
+    const promote = () => {
+        if (!next || !next.source || context.currentTime < next.origin) return;
+        if (current) fading.push(current);
+        current = next;
+        next = null;
+        nextTrack = null;
+        emit('trackchange', current.track);
+        emit('loadedmetadata');
+    };
+
+    const handleEnded = (seg: Segment) => {
+        if (fading.includes(seg)) {
+            fading = fading.filter(s => s !== seg);
+            silence(seg);
+            return;
+        }
+        if (seg !== current) return;
+        promote();
+        if (seg === current) {
+            // Nothing was ready to take over
+            silence(seg);
+            stopTicker();
+            paused = true;
+            context.suspend();
+            emit('timeupdate');
+            emit('ended');
+        }
+    };
+
+    const startTicker = () => {
+        if (ticker !== undefined) return;
+        ticker = setInterval(() => {
+            promote();
+            emit('timeupdate');
+        }, TICK_MS);
+    };
+
+    const stopTicker = () => {
+        clearInterval(ticker);
+        ticker = undefined;
+    };
+
+    const unscheduleNext = () => {
+        if (next && next.source && next.origin > context.currentTime) silence(next);
+        if (current?.fader) mixer.reset(current.fader);
+    };
+
+    const clearAll = () => {
+        [current, next, ...fading].forEach(seg => seg && silence(seg));
+        current = null;
+        next = null;
+        fading = [];
+    };
+
+    const engine: PlaybackEngine = {
+        context,
+        output,
+
+        get paused() {
+            return paused;
+        },
+
+        get duration() {
+            return current ? current.duration : 0;
+        },
+
+        get conversion() {
+            return current ? current.conversion : null;
+        },
+
+        get currentTime() {
+            if (!current) return 0;
+            if (!current.source) return current.duration;
+            return Math.min(current.duration, Math.max(0, context.currentTime - current.origin));
+        },
+
+        set currentTime(position: number) {
+            if (!current) return;
+            const target = Math.min(Math.max(0, position), current.duration);
+            fading.forEach(silence);
+            fading = [];
+            unscheduleNext();
+            silence(current);
+            start(current, context.currentTime, target);
+            scheduleNext();
+            if (!paused) startTicker();
+            emit('timeupdate');
+        },
+
+        load: async (track, options = {}) => {
+            const generation = ++loadGeneration;
+            const ready = next && next.track.id === track.id && next.track.file === track.file ? next : null;
+            if (next) silence(next);
+            if (ready) {
+                next = null;
+                nextTrack = null;
+            }
+            [current, ...fading].forEach(seg => seg && silence(seg));
+            current = null;
+            fading = [];
+            stopTicker();
+            emit('loadstart');
+
+            let seg: Segment;
+            try {
+                seg = ready || await decode(track);
+            } catch (err) {
+                if (generation === loadGeneration) emit('error', err);
+                return;
+            }
+            if (generation !== loadGeneration) return;
+
+            if (!options.autoplay) {
+                paused = true;
+                await context.suspend();
+            }
+            current = seg;
+            start(seg, context.currentTime, options.position || 0);
+            emit('loadedmetadata');
+            emit('timeupdate');
+            scheduleNext();
+            if (options.autoplay) await engine.play();
+        },
+
+        setNext: (track, options = {}) => {
+            const crossfades = options.crossfade !== false;
+            // Already audible (crossfade in progress): let it play out
+            if (next && next.source && next.origin <= context.currentTime) return;
+            if (track === nextTrack || (track && nextTrack && track.id === nextTrack.id && track.file === nextTrack.file)) {
+                if (crossfades !== nextCrossfades) {
+                    nextCrossfades = crossfades;
+                    unscheduleNext();
+                    scheduleNext();
+                }
+                return;
+            }
+
+            if (next) silence(next);
+            next = null;
+            nextTrack = track;
+            nextCrossfades = crossfades;
+            if (current?.fader) mixer.reset(current.fader);
+            if (!track) return;
+
+            const generation = ++nextGeneration;
+            decode(track).then(seg => {
+                if (generation !== nextGeneration || nextTrack !== track) return;
+                next = seg;
+                scheduleNext();
+            }).catch(err => console.warn('Failed to decode next track:', err));
+        },
+
+        setCrossfade: (seconds, fadeCurve) => {
+            crossfade = Math.max(0, seconds);
+            curve = fadeCurve;
+            if (next && next.source && next.origin > context.currentTime) {
+                unscheduleNext();
+                scheduleNext();
+            }
+        },
+
+        setResampler: (quality) => {
+            if (quality === resampler) return;
+            resampler = quality;
+            const upcoming = nextTrack;
+            if (upcoming) {
+                nextTrack = null;
+                engine.setNext(upcoming, { crossfade: nextCrossfades });
+            }
+            // Reload in place so filters can be compared on the same passage
+            if (current) engine.load(current.track, { autoplay: !paused, position: engine.currentTime });
+        },
+
+        setBeatGrid: (trackId, tempo) => {
+            [current?.track, next?.track, nextTrack].forEach(track => {
+                if (track && track.id === trackId) track.tempo = tempo;
+            });
+            if (next && next.source && next.origin > context.currentTime) {
+                unscheduleNext();
+                scheduleNext();
+            }
+        },
+
+        setTrackGain: (trackId, gainDb) => {
+            [current, next].forEach(seg => {
+                if (!seg || seg.track.id !== trackId || seg.track.gainDb === gainDb) return;
+                seg.track.gainDb = gainDb;
+                seg.trim?.gain.setTargetAtTime(dbToGain(gainDb), context.currentTime, 0.05);
+            });
+            if (nextTrack && nextTrack.id === trackId) nextTrack.gainDb = gainDb;
+        },
+
+        setVolume: (volume) => {
+            output.gain.setTargetAtTime(volume, context.currentTime, 0.01);
+        },
+
+        play: async () => {
+            if (current && !current.source) {
+                start(current, context.currentTime, 0);
+                scheduleNext();
+            }
+            paused = false;
+            await context.resume();
+            startTicker();
+            emit('play');
+        },
+
+        pause: async () => {
+            paused = true;
+            stopTicker();
+            await context.suspend();
+            emit('pause');
+        },
+
+        stop: () => {
+            loadGeneration++;
+            clearAll();
+            stopTicker();
+            paused = true;
+            emit('emptied');
+        },
+
+        addEventListener: events.addEventListener.bind(events),
+        removeEventListener: events.removeEventListener.bind(events),
+    };
+
+    return engine;
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { addToPlaylist, createPlaylist, removePlaylistEntry, resolveEntries, parseM3u } from './playlists';
+
+const track = (id: number, path: string) => ({ id, title: path, artist: 'Artist', path });
+
+describe('playlist entries', () => {
+    it('keeps a track listed more than once', () => {
+        const playlist = addToPlaylist(createPlaylist('Mix', [1, 2, 1]), [2]);
+        expect(playlist.trackIds).toEqual([1, 2, 1, 2]);
+    });
+
+    it('removes one entry by position, leaving the track’s other entries', () => {
+        expect(removePlaylistEntry(createPlaylist('Mix', [1, 2, 1]), 2).trackIds).toEqual([1, 2]);
+    });
+});
+
+describe('resolveEntries', () => {
+    const tracks = [
+        track(1, 'Rock/Album/01 Intro.mp3'),
+        track(2, 'Jazz/Album/01 Intro.mp3'),
+        track(3, 'Rock/Album/02 Song.flac'),
+    ];
+
+    it('matches relative paths against the playlist folder and keeps repeats', () => {
+        const entries = parseM3u('01 Intro.mp3\n02 Song.flac\n01 Intro.mp3\n');
+        expect(resolveEntries(entries, tracks, 'Rock/Album/mix.m3u')).toEqual({ trackIds: [1, 3, 1], missing: 0 });
+    });
+
+    it('falls back to the file name only when one track has it', () => {
+        const entries = parseM3u('C:\\Music\\Other\\02 Song.flac\nC:\\Music\\Other\\01 Intro.mp3\n');
+        expect(resolveEntries(entries, tracks)).toEqual({ trackIds: [3], missing: 1 });
+    });
+
+    it('counts a bare or partial path shared by several tracks as missing', () => {
+        const entries = parseM3u('01 Intro.mp3\nAlbum/01 Intro.mp3\nRock/Album/01 Intro.mp3\n');
+        expect(resolveEntries(entries, tracks)).toEqual({ trackIds: [1], missing: 2 });
+    });
+
+    it('counts remote URLs as missing', () => {
+        expect(resolveEntries(parseM3u('https://example.com/stream.mp3'), tracks)).toEqual({ trackIds: [], missing: 1 });
+    });
+});
@@ -0,0 +1,301 @@
+/**
+ * User playlists.
+ * Playlists are ordered lists of library track ids stored in IndexedDB. They
+ * can be imported from and exported to M3U/M3U8, PLS and XSPF files; entries
+ * are matched against imported tracks by relative path, then by file name.
+ * A track may be listed more than once.
+ */
+
+export interface Playlist {
+    id: string;
+    name: string;
+    trackIds: number[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type PlaylistFormat = 'm3u8' | 'pls' | 'xspf';
+
+export const PLAYLIST_FORMATS: PlaylistFormat[] = ['m3u8', 'pls', 'xspf'];
+
+/** One entry of a playlist file, before it is matched against the library. */
+export interface PlaylistEntry {
+    location: string;
+    title?: string;
+    /** Seconds. */
+    duration?: number;
+}
+
+interface PlaylistTrack {
+    id: number;
+    title: string;
+    artist: string;
+    path?: string;
+    file?: Blob;
+    stream?: { duration?: number } | null;
+}
+
+export const PLAYLIST_EXTENSION = /\.(m3u8?|pls|xspf)$/i;
+
+export const isPlaylistFile = (file: File) => PLAYLIST_EXTENSION.test(file.name);
+
+export const createPlaylistId = () => `playlist-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPlaylist = (name: string, trackIds: number[] = []): Playlist => {
+    const now = Date.now();
+    return { id: createPlaylistId(), name, trackIds: [...trackIds], createdAt: now, updatedAt: now };
+};
+
+export const duplicatePlaylist = (playlist: Playlist): Playlist =>
+    createPlaylist(`${playlist.name} (cópia)`, playlist.trackIds);
+
+/** Adds tracks at the end, even ones already in the playlist. */
+export const addToPlaylist = (playlist: Playlist, trackIds: number[]): Playlist => ({
+    ...playlist,
+    trackIds: [...playlist.trackIds, ...trackIds],
+    updatedAt: Date.now(),
+});
+
+/** Drops the entry at `index`; other entries of the same track stay. */
+export const removePlaylistEntry = (playlist: Playlist, index: number): Playlist => ({
+    ...playlist,
+    trackIds: playlist.trackIds.filter((_, i) => i !== index),
+    updatedAt: Date.now(),
+});
+
+/** Moves the track at `from` to index `to`. */
+export const movePlaylistTrack = (playlist: Playlist, from: number, to: number): Playlist => {
+    const trackIds = [...playlist.trackIds];
+    const [moved] = trackIds.splice(from, 1);
+    trackIds.splice(Math.max(0, Math.min(trackIds.length, to)), 0, moved);
+    return { ...playlist, trackIds, updatedAt: Date.now() };
+};
+
+/** Path of a track as it is written to and matched from playlist files. */
+export const trackPath = (track: PlaylistTrack): string =>
+    track.path || (track.file instanceof File ? track.file.name : '') || track.title;
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+const parseDuration = (value: string | null | undefined): number | undefined => {
+    const seconds = parseFloat(value ?? '');
+    return isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/** M3U and M3U8, with the `#EXTINF:<seconds>,<title>` extension. Other directives are skipped. */
+export const parseM3u = (text: string): PlaylistEntry[] => {
+    const entries: PlaylistEntry[] = [];
+    let info: Omit<PlaylistEntry, 'location'> = {};
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+        const extinf = line.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+        if (extinf) {
+            info = { duration: parseDuration(extinf[1]), title: extinf[2].trim() || undefined };
+        } else if (!line.startsWith('#')) {
+            entries.push({ location: line, ...info });
+            info = {};
+        }
+    }
+    return entries;
+};
+
+/** PLS: numbered `FileN`, `TitleN` and `LengthN` keys in a `[playlist]` section. */
+export const parsePls = (text: string): PlaylistEntry[] => {
+    const entries = new Map<number, Partial<PlaylistEntry>>();
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const match = rawLine.trim().match(/^(File|Title|Length)(\d+)\s*=(.*)$/i);
+        if (!match) continue;
+        const index = parseInt(match[2], 10);
+        const entry = entries.get(index) || {};
+        const value = match[3].trim();
+        switch (match[1].toLowerCase()) {
+            case 'file': entry.location = value; break;
+            case 'title': entry.title = value || undefined; break;
+            case 'length': entry.duration = parseDuration(value); break;
+        }
+        entries.set(index, entry);
+    }
+    return Array.from(entries.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, entry]) => entry)
+        .filter((entry): entry is PlaylistEntry => !!entry.location);
+};
+
+/** XSPF: `<track>` elements with a `<location>` URI; durations are in milliseconds. */
+export const parseXspf = (text: string): { name?: string; entries: PlaylistEntry[] } => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XSPF file');
+    const child = (parent: Element, name: string) =>
+        Array.from(parent.children).find(el => el.localName === name)?.textContent?.trim() || undefined;
+
+    const entries = Array.from(doc.getElementsByTagNameNS('*', 'track')).flatMap((track): PlaylistEntry[] => {
+        const location = child(track, 'location');
+        if (!location) return [];
+        const creator = child(track, 'creator');
+        const title = child(track, 'title');
+        const duration = parseDuration(child(track, 'duration'));
+        return [{
+            location: decodeLocation(location, true),
+            title: title && creator ? `${creator} - ${title}` : title,
+            duration: duration !== undefined ? duration / 1000 : undefined,
+        }];
+    });
+    const playlist = doc.documentElement;
+    return { name: playlist ? child(playlist, 'title') : undefined, entries };
+};
+
+const isRemote = (location: string) => /^[a-z][a-z\d+.-]+:\/\//i.test(location) && !/^file:/i.test(location);
+
+/**
+ * File URIs as plain paths. XSPF locations are always URIs, so relative ones
+ * are percent-decoded too; M3U and PLS paths are only decoded when they are
+ * file URIs. Remote URLs are kept as-is.
+ */
+const decodeLocation = (location: string, uri = false) => {
+    if (isRemote(location) || (!uri && !/^file:/i.test(location))) return location;
+    try {
+        return decodeURIComponent(location.replace(/^file:\/\/[^/]*/i, ''));
+    } catch {
+        return location;
+    }
+};
+
+/** Playlist files without a BOM may be in the system code page; M3U8 is always UTF-8. */
+const readText = async (file: File) => {
+    const buffer = await file.arrayBuffer();
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('windows-1252').decode(buffer);
+    }
+};
+
+/** Reads a playlist file into its name and entries; the format is picked by extension. */
+export const readPlaylistFile = async (file: File): Promise<{ name: string; entries: PlaylistEntry[] }> => {
+    const text = await readText(file);
+    const name = file.name.replace(PLAYLIST_EXTENSION, '').trim() || 'Playlist';
+    const extension = file.name.split('.').pop()!.toLowerCase();
+    if (extension === 'xspf') {
+        const parsed = parseXspf(text);
+        return { name: parsed.name || name, entries: parsed.entries };
+    }
+    const entries = extension === 'pls' ? parsePls(text) : parseM3u(text);
+    return { name, entries: entries.map(e => ({ ...e, location: decodeLocation(e.location) })) };
+};
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/** Path segments with `.`/`..` applied and separators unified, lower-cased for matching. */
+const pathSegments = (path: string): string[] => {
+    const segments: string[] = [];
+    for (const segment of path.replace(/\\/g, '/').toLowerCase().split('/')) {
+        if (!segment || segment === '.') continue;
+        if (segment === '..') segments.pop();
+        else segments.push(segment);
+    }
+    return segments;
+};
+
+const isAbsolute = (path: string) => /^([a-z]:)?[\\/]/i.test(path);
+
+/** True when `suffix` is the tail of `segments`. */
+const endsWith = (segments: string[], suffix: string[]) =>
+    suffix.length > 0 && suffix.length <= segments.length
+    && suffix.every((segment, i) => segments[segments.length - suffix.length + i] === segment);
+
+const onlyOne = <T>(matches: T[]): T | undefined => matches.length === 1 ? matches[0] : undefined;
+
+/**
+ * Matches playlist entries against library tracks. Relative entries are
+ * first resolved against the folder of the playlist file; an entry matches a
+ * track whose path equals it, else the one track whose path ends with it (or
+ * the other way round, for absolute paths from another machine), else the
+ * one track with the same file name. Remote URLs, entries nothing matches
+ * and entries several tracks match equally are counted as missing.
+ * Repeated entries are kept.
+ */
+export const resolveEntries = (
+    entries: PlaylistEntry[],
+    tracks: PlaylistTrack[],
+    playlistPath = ''
+): { trackIds: number[]; missing: number } => {
+    const indexed = tracks.map(track => ({ id: track.id, segments: pathSegments(trackPath(track)) }));
+    const base = pathSegments(playlistPath).slice(0, -1);
+    const trackIds: number[] = [];
+    let missing = 0;
+
+    for (const entry of entries) {
+        if (isRemote(entry.location)) {
+            missing++;
+            continue;
+        }
+        const location = pathSegments(entry.location);
+        const joined = isAbsolute(entry.location) ? location : pathSegments([...base, entry.location].join('/'));
+        const fileName = location[location.length - 1];
+        const match = indexed.find(t => endsWith(t.segments, joined) && t.segments.length === joined.length)
+            || onlyOne(indexed.filter(t => endsWith(t.segments, joined) || endsWith(joined, t.segments)))
+            || onlyOne(indexed.filter(t => endsWith(t.segments, location)))
+            || onlyOne(indexed.filter(t => t.segments[t.segments.length - 1] === fileName));
+        if (match) trackIds.push(match.id);
+        else missing++;
+    }
+    return { trackIds, missing };
+};
+
+// ─── Export ─────────────────────────────────────────────────────────────────
+
+const entryTitle = (track: PlaylistTrack) => track.artist && track.artist !== 'Local File'
+    ? `${track.artist} - ${track.title}`
+    : track.title;
+
+const entryDuration = (track: PlaylistTrack) => track.stream?.duration !== undefined ? Math.round(track.stream.duration) : -1;
+
+export const formatM3u = (playlist: Playlist, tracks: PlaylistTrack[]): string => [
+    '#EXTM3U',
+    `#PLAYLIST:${playlist.name}`,
+    ...tracks.flatMap(track => [`#EXTINF:${entryDuration(track)},${entryTitle(track)}`, trackPath(track)]),
+].join('\n') + '\n';
+
+export const formatPls = (playlist: Playlist, tracks: PlaylistTrack[]): string => [
+    '[playlist]',
+    ...tracks.flatMap((track, i) => [
+        `File${i + 1}=${trackPath(track)}`,
+        `Title${i + 1}=${entryTitle(track)}`,
+        `Length${i + 1}=${entryDuration(track)}`,
+    ]),
+    `NumberOfEntries=${tracks.length}`,
+    'Version=2',
+].join('\n') + '\n';
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&${({ '<': 'lt', '>': 'gt', '&': 'amp', '"': 'quot', "'": 'apos' } as Record<string, string>)[c]};`);
+
+export const formatXspf = (playlist: Playlist, tracks: PlaylistTrack[]): string => {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(playlist.name)}</title>`,
+        '  <trackList>',
+    ];
+    for (const track of tracks) {
+        const location = trackPath(track).split('/').map(encodeURIComponent).join('/');
+        lines.push('    <track>', `      <location>${escapeXml(location)}</location>`, `      <title>${escapeXml(track.title)}</title>`);
+        if (track.artist && track.artist !== 'Local File') lines.push(`      <creator>${escapeXml(track.artist)}</creator>`);
+        if (track.stream?.duration !== undefined) lines.push(`      <duration>${Math.round(track.stream.duration * 1000)}</duration>`);
+        lines.push('    </track>');
+    }
+    lines.push('  </trackList>', '</playlist>');
+    return lines.join('\n') + '\n';
+};
+
+const MIME_TYPES: Record<PlaylistFormat, string> = {
+    m3u8: 'audio/x-mpegurl',
+    pls: 'audio/x-scpls',
+    xspf: 'application/xspf+xml',
+};
+
+/** The playlist's tracks, in order, as a file of the given format. */
+export const exportPlaylist = (playlist: Playlist, tracks: PlaylistTrack[], format: PlaylistFormat): { blob: Blob; fileName: string } => {
+    const text = format === 'pls' ? formatPls(playlist, tracks) : format === 'xspf' ? formatXspf(playlist, tracks) : formatM3u(playlist, tracks);
+    return { blob: new Blob([text], { type: MIME_TYPES[format] }), fileName: `${playlist.name}.${format}` };
+};
@@ -0,0 +1,106 @@
+/**
+ * Play queue.
+ * Entries are library tracks, or copies of them with ids of their own
+ * (`libraryId` points back) so a track can be queued more than once. The
+ * entries before the current one are what this queue has already played.
+ */
+
+import type { ShuffleState } from './shuffle';
+
+export interface QueueEntry {
+    id: number;
+    libraryId?: number;
+}
+
+export interface QueueState<T extends QueueEntry = QueueEntry> {
+    entries: T[];
+    /** The current entry, -1 when there is none. */
+    index: number;
+}
+
+/** What survives a reload: which tracks were queued and where playback stood. */
+export interface SavedQueue {
+    entries: { id: number; libraryId: number }[];
+    index: number;
+    /** Seconds into the current entry. */
+    position: number;
+    /** ms since the epoch. */
+    savedAt: number;
+    shuffle?: ShuffleState;
+}
+
+/** The queue around its current entry. */
+export const splitQueue = <T extends QueueEntry>({ entries, index }: QueueState<T>) => ({
+    played: entries.slice(0, Math.max(0, index)),
+    current: index >= 0 ? entries[index] as T | undefined : undefined,
+    upcoming: entries.slice(index + 1),
+});
+
+/** Puts the upcoming entries in the order of `ids`; any left out keep their order after them. */
+export const reorderUpcoming = <T extends QueueEntry>(state: QueueState<T>, ids: number[]): QueueState<T> => {
+    const { upcoming } = splitQueue(state);
+    const byId = new Map(upcoming.map(entry => [entry.id, entry]));
+    const ordered = ids.flatMap(id => byId.has(id) ? [byId.get(id)!] : []);
+    const rest = upcoming.filter(entry => !ordered.includes(entry));
+    return { entries: [...state.entries.slice(0, state.index + 1), ...ordered, ...rest], index: state.index };
+};
+
+/**
+ * Drops entries by id. When the current entry goes, the index falls back to
+ * the entry before it, so "next" still leads to what followed.
+ */
+export const removeEntries = <T extends QueueEntry>(state: QueueState<T>, ids: Set<number>): QueueState<T> => {
+    const entries = state.entries.filter(entry => !ids.has(entry.id));
+    if (state.index < 0) return { entries, index: -1 };
+    const before = state.entries.slice(0, state.index).filter(entry => !ids.has(entry.id)).length;
+    const currentRemoved = ids.has(state.entries[state.index]?.id);
+    return { entries, index: currentRemoved ? before - 1 : before };
+};
+
+/**
+ * The list as queue entries: a track that comes up again (listed twice in a
+ * playlist) gets a copy with an id of its own.
+ */
+export const distinctEntries = <T extends QueueEntry>(tracks: T[]): T[] => {
+    const seen = new Set<number>();
+    return tracks.map(track => {
+        if (!seen.has(track.id)) {
+            seen.add(track.id);
+            return track;
+        }
+        return { ...track, id: Math.random() + Date.now(), libraryId: track.libraryId ?? track.id };
+    });
+};
+
+/** Keeps what was played and the current entry. */
+export const clearUpcoming = <T extends QueueEntry>(state: QueueState<T>): QueueState<T> =>
+    ({ entries: state.entries.slice(0, state.index + 1), index: state.index });
+
+/** Forgets what was played before the current entry. */
+export const clearPlayed = <T extends QueueEntry>(state: QueueState<T>): QueueState<T> =>
+    state.index <= 0 ? state : { entries: state.entries.slice(state.index), index: 0 };
+
+export const toSavedQueue = (state: QueueState, position: number, shuffle: ShuffleState): SavedQueue => ({
+    entries: state.entries.map(entry => ({ id: entry.id, libraryId: entry.libraryId ?? entry.id })),
+    index: state.index,
+    position,
+    savedAt: Date.now(),
+    shuffle,
+});
+
+/**
+ * Rebuilds a saved queue from the library. Entries whose track is gone are
+ * dropped; the index is -1 when the current one was.
+ */
+export const restoreQueue = <T extends QueueEntry>(saved: SavedQueue, library: T[]): QueueState<T> => {
+    const byId = new Map(library.map(track => [track.id, track]));
+    const entries: T[] = [];
+    let index = -1;
+    saved.entries.forEach((entry, i) => {
+        const track = byId.get(entry.libraryId);
+        if (!track) return;
+        if (i === saved.index) index = entries.length;
+        entries.push(entry.id === entry.libraryId ? track : { ...track, id: entry.id, libraryId: entry.libraryId });
+    });
+    return { entries, index };
+};
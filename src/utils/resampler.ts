@@ -0,0 +1,108 @@
+import type { ResamplerFilter, ResamplerMeasurement } from './sincResampler';
+
+/**
+ * Offline sample-rate conversion for playback.
+ * With a filter selected, tracks are decoded at their own rate (an
+ * OfflineAudioContext at the source rate does no conversion) and converted
+ * to the output rate in a worker. Bypass hands the file straight to the
+ * output context's decodeAudioData, which is bit-exact when the rates match
+ * and uses the browser's own resampler when they do not.
+ */
+
+export type { ResamplerFilter, ResamplerMeasurement };
+
+export type ResamplerQuality = 'bypass' | ResamplerFilter;
+
+export const RESAMPLER_QUALITIES: { id: ResamplerQuality; label: string; description: string }[] = [
+    { id: 'bypass', label: 'Bypass', description: 'Browser decoder, no extra stage' },
+    { id: 'fast', label: 'Fast', description: '24 taps · ~47 dB stopband' },
+    { id: 'balanced', label: 'Balanced', description: '64 taps · ~80 dB stopband' },
+    { id: 'steep', label: 'Steep', description: '128 taps · linear phase · ~99 dB' },
+    { id: 'minimum-phase', label: 'Min Phase', description: '128 taps · no pre-ringing · ~98 dB' },
+];
+
+/** AudioContext rates offered in settings; 0 keeps the device default. */
+export const OUTPUT_RATES = [0, 44100, 48000, 88200, 96000, 176400, 192000];
+
+/** How a decoded track got to the context rate. */
+export interface RateConversion {
+    from: number;
+    to: number;
+    /** 'bypass' means the browser decoder did the conversion. */
+    resampler: ResamplerQuality;
+}
+
+/** A message from resampler.worker.ts: converted channels or a measurement, else an error. */
+interface ResamplerReply {
+    id: number;
+    result?: Float32Array[] | ResamplerMeasurement;
+    error?: string;
+}
+
+type ResamplerResult = NonNullable<ResamplerReply['result']>;
+
+let worker: Worker | null = null;
+let requestId = 0;
+const pending = new Map<number, { resolve: (result: ResamplerResult) => void; reject: (e: Error) => void }>();
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./resampler.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ResamplerReply>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if (e.data.error || !e.data.result) request.reject(new Error(e.data.error || 'Resampler worker sent no result'));
+        else request.resolve(e.data.result);
+    };
+    return worker;
+};
+
+const request = <T extends ResamplerResult>(message: Record<string, unknown>, transfer: Transferable[] = []): Promise<T> => {
+    const id = ++requestId;
+    return new Promise((resolve, reject) => {
+        // The reply's kind follows the request's
+        pending.set(id, { resolve: result => resolve(result as T), reject });
+        getWorker().postMessage({ id, ...message }, transfer);
+    });
+};
+
+export const resampleChannels = (channels: Float32Array[], from: number, to: number, filter: ResamplerFilter): Promise<Float32Array[]> =>
+    request({ kind: 'resample', filter, from, to, channels }, channels.map(c => c.buffer));
+
+export const measureResampler = (filter: ResamplerFilter, from: number, to: number): Promise<ResamplerMeasurement> =>
+    request({ kind: 'measure', filter, from, to });
+
+/**
+ * Decodes a file for the given context at its rate, converting with the
+ * chosen filter when the source rate differs. Falls back to the browser
+ * decoder when the source rate is unknown or cannot be decoded natively.
+ */
+export const decodeForContext = async (
+    context: BaseAudioContext,
+    data: ArrayBuffer,
+    sourceRate: number | undefined,
+    quality: ResamplerQuality
+): Promise<{ buffer: AudioBuffer; conversion: RateConversion | null }> => {
+    const to = context.sampleRate;
+    if (!sourceRate || sourceRate === to) {
+        return { buffer: await context.decodeAudioData(data), conversion: null };
+    }
+    if (quality !== 'bypass') {
+        let native: AudioBuffer | null = null;
+        try {
+            // decodeAudioData detaches its input, so the fallback below needs its own copy
+            native = await new OfflineAudioContext(1, 1, sourceRate).decodeAudioData(data.slice(0));
+        } catch (err) {
+            console.warn(`Native-rate decode at ${sourceRate} Hz failed, using the browser resampler:`, err);
+        }
+        if (native) {
+            const channels = Array.from({ length: native.numberOfChannels }, (_, ch) => native!.getChannelData(ch).slice());
+            const converted = await resampleChannels(channels, sourceRate, to, quality);
+            const buffer = context.createBuffer(converted.length, converted[0].length, to);
+            converted.forEach((channel, ch) => buffer.copyToChannel(channel, ch));
+            return { buffer, conversion: { from: sourceRate, to, resampler: quality } };
+        }
+    }
+    return { buffer: await context.decodeAudioData(data), conversion: { from: sourceRate, to, resampler: 'bypass' } };
+};
@@ -0,0 +1,33 @@
+import { designKernels, resampleChannel, measureFilter, ResamplerFilter, ResamplerKernels } from './sincResampler';
+
+type ResamplerRequest =
+    | { id: number; kind: 'resample'; filter: ResamplerFilter; from: number; to: number; channels: Float32Array[] }
+    | { id: number; kind: 'measure'; filter: ResamplerFilter; from: number; to: number };
+
+/** Kernels for the rate pairs seen so far; an album usually needs one. */
+const designs = new Map<string, ResamplerKernels>();
+
+const designFor = (filter: ResamplerFilter, from: number, to: number): ResamplerKernels => {
+    const key = `${filter}:${from}:${to}`;
+    let design = designs.get(key);
+    if (!design) {
+        design = designKernels(filter, from, to);
+        designs.set(key, design);
+    }
+    return design;
+};
+
+self.onmessage = (e: MessageEvent<ResamplerRequest>) => {
+    const request = e.data;
+    try {
+        if (request.kind === 'measure') {
+            self.postMessage({ id: request.id, result: measureFilter(request.filter, request.from, request.to) });
+            return;
+        }
+        const design = designFor(request.filter, request.from, request.to);
+        const channels = request.channels.map(channel => resampleChannel(channel, design));
+        self.postMessage({ id: request.id, result: channels }, { transfer: channels.map(c => c.buffer) });
+    } catch (err) {
+        self.postMessage({ id: request.id, error: String(err) });
+    }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { shuffleTracks, shuffleUpcoming, startShuffled, unshuffleUpcoming } from './shuffle';
+
+const albumTrack = (id: number, album: string, trackNumber: number) => ({ id, album, trackNumber, title: `${album} ${trackNumber}` });
+
+// Three albums of four tracks, listed in album order
+const library = ['A', 'B', 'C'].flatMap((album, a) => [1, 2, 3, 4].map(n => albumTrack(a * 10 + n, album, n)));
+const ids = (tracks: { id: number }[]) => tracks.map(t => t.id);
+
+describe('shuffleTracks', () => {
+    it('gives the same order for the same seed', () => {
+        expect(ids(shuffleTracks(library, 42, 'tracks', 'none'))).toEqual(ids(shuffleTracks(library, 42, 'tracks', 'none')));
+        expect(ids(shuffleTracks(library, 42, 'tracks', 'none'))).not.toEqual(ids(shuffleTracks(library, 43, 'tracks', 'none')));
+    });
+
+    it('moves whole albums in album mode, each in track order', () => {
+        const order = ids(shuffleTracks([...library].reverse(), 7, 'albums', 'none'));
+        const albums = [0, 4, 8].map(i => order.slice(i, i + 4));
+        albums.forEach(album => expect(album).toEqual([...album].sort((a, b) => a - b)));
+        expect(albums.map(album => Math.floor(album[0] / 10)).sort()).toEqual([0, 1, 2]);
+    });
+});
+
+describe('startShuffled', () => {
+    it('plays the rest of the current album next in album mode, then the other albums', () => {
+        const { entries, index } = startShuffled(library, 2, 5, 'albums', 'none');
+        expect(index).toBe(0);
+        expect(ids(entries).slice(0, 2)).toEqual([3, 4]);
+        // Tracks 1 and 2 come back later as an album of their own
+        const later = ids(entries).slice(2);
+        expect(later.indexOf(2)).toBe(later.indexOf(1) + 1);
+        expect([...later].sort((a, b) => a - b)).toEqual([1, 2, 11, 12, 13, 14, 21, 22, 23, 24]);
+    });
+
+    it('starts at the chosen track in track mode', () => {
+        const { entries } = startShuffled(library, 5, 9, 'tracks', 'none');
+        expect(entries[0].id).toBe(12);
+        expect(entries).toHaveLength(library.length);
+    });
+});
+
+describe('shuffleUpcoming', () => {
+    it('keeps "play next" entries and the rest of the current album ahead', () => {
+        const queued = { id: 99, album: 'Z', trackNumber: 1, title: 'queued', playNext: true };
+        const entries = [library[0], queued, ...library.slice(1)];
+        const state = shuffleUpcoming({ entries, index: 0 }, 3, 'albums', 'none');
+        expect(ids(state.entries).slice(0, 5)).toEqual([1, 99, 2, 3, 4]);
+    });
+
+    it('is undone by unshuffleUpcoming', () => {
+        const state = { entries: library, index: 0 };
+        const shuffled = shuffleUpcoming(state, 11, 'tracks', 'none');
+        expect(ids(unshuffleUpcoming(shuffled, ids(library)).entries)).toEqual(ids(library));
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Shuffle orders for the play queue.
+ * Shuffling reorders the queue's upcoming entries once, from a seed, so next
+ * and previous simply walk the queue and nothing repeats until it runs out.
+ * Album shuffle moves whole albums, each kept in disc and track order; the
+ * rest of the album playing now comes first.
+ * Weighting favours higher rated or more played tracks without ruling any
+ * out. Entries queued with "play next" stay ahead of the shuffled ones.
+ */
+
+import { albumKey, compareAlbumOrder } from './library';
+import { QueueEntry, QueueState } from './queue';
+
+export type ShuffleMode = 'off' | 'tracks' | 'albums';
+export type ShuffleWeight = 'none' | 'rating' | 'plays';
+
+export interface ShuffleState {
+    mode: ShuffleMode;
+    weight: ShuffleWeight;
+    /** Seed of the current order. */
+    seed: number;
+    /** Entry ids in the order they had before shuffling, put back when shuffle goes off. */
+    unshuffled: number[];
+}
+
+export interface ShuffleTrack extends QueueEntry {
+    /** Queued with "play next". */
+    playNext?: boolean;
+    rating?: number;
+    playCount?: number;
+    title?: string;
+    album?: string;
+    folder?: string;
+    discNumber?: number;
+    trackNumber?: number;
+}
+
+export const SHUFFLE_OFF: ShuffleState = { mode: 'off', weight: 'none', seed: 0, unshuffled: [] };
+
+export const newSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+/** mulberry32: a small seeded generator, plenty for ordering a queue. */
+const seededRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** Unrated or unplayed tracks weigh 1; five stars weigh 6, plays add on a log scale. */
+const weightOf = (track: ShuffleTrack, weight: ShuffleWeight): number => {
+    switch (weight) {
+        case 'rating': return 1 + (track.rating || 0);
+        case 'plays': return 1 + Math.log2(1 + (track.playCount || 0));
+        default: return 1;
+    }
+};
+
+/**
+ * Random order of `items`: Fisher–Yates when all weigh the same, else
+ * weighted sampling without replacement (each item keyed by u^(1/w), so
+ * heavier items tend to come first).
+ */
+const randomOrder = <T>(items: T[], random: () => number, weights?: number[]): T[] => {
+    if (!weights) {
+        const order = [...items];
+        for (let i = order.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [order[i], order[j]] = [order[j], order[i]];
+        }
+        return order;
+    }
+    return items
+        .map((item, i) => ({ item, key: Math.pow(random(), 1 / weights[i]) }))
+        .sort((a, b) => b.key - a.key)
+        .map(({ item }) => item);
+};
+
+/** Shuffled copy of `tracks`; tracks without an album shuffle as albums of their own. */
+export const shuffleTracks = <T extends ShuffleTrack>(tracks: T[], seed: number, mode: ShuffleMode, weight: ShuffleWeight): T[] => {
+    if (mode === 'off') return [...tracks];
+    const random = seededRandom(seed);
+    const groups = mode === 'albums' ? groupByAlbum(tracks) : tracks.map(track => [track]);
+    const weights = weight === 'none' ? undefined
+        : groups.map(group => group.reduce((sum, track) => sum + weightOf(track, weight), 0) / group.length);
+    return randomOrder(groups, random, weights).flat();
+};
+
+const groupByAlbum = <T extends ShuffleTrack>(tracks: T[]): T[][] => {
+    const albums = new Map<string, T[]>();
+    const groups: T[][] = [];
+    for (const track of tracks) {
+        const key = albumKey(track);
+        if (!key) {
+            groups.push([track]);
+        } else if (albums.has(key)) {
+            albums.get(key)!.push(track);
+        } else {
+            const album = [track];
+            albums.set(key, album);
+            groups.push(album);
+        }
+    }
+    return groups.map(group => group.length > 1 ? [...group].sort(compareAlbumOrder) : group);
+};
+
+/** Entries queued with "play next" right after the current one stay there. */
+const splitPlayNext = <T extends ShuffleTrack>({ entries, index }: QueueState<T>) => {
+    let end = index + 1;
+    while (end < entries.length && entries[end].playNext) end++;
+    return { head: entries.slice(0, end), rest: entries.slice(end) };
+};
+
+/**
+ * `tracks` shuffled to follow `current`. In album mode the tracks of the
+ * current album that come after it stay next, in album order; the ones
+ * before it are shuffled in as an album of their own.
+ */
+const shuffleAfter = <T extends ShuffleTrack>(current: T | undefined, tracks: T[], seed: number, mode: ShuffleMode, weight: ShuffleWeight): T[] => {
+    const key = current && mode === 'albums' ? albumKey(current) : '';
+    if (!key) return shuffleTracks(tracks, seed, mode, weight);
+    const album = [current!, ...tracks.filter(track => albumKey(track) === key)].sort(compareAlbumOrder);
+    const remainder = album.slice(album.indexOf(current!) + 1);
+    return [...remainder, ...shuffleTracks(tracks.filter(track => !remainder.includes(track)), seed, mode, weight)];
+};
+
+/** Shuffles what comes after the current entry (and its "play next" entries). */
+export const shuffleUpcoming = <T extends ShuffleTrack>(state: QueueState<T>, seed: number, mode: ShuffleMode, weight: ShuffleWeight): QueueState<T> => {
+    const { head, rest } = splitPlayNext(state);
+    return { entries: [...head, ...shuffleAfter(state.entries[state.index], rest, seed, mode, weight)], index: state.index };
+};
+
+/** A new queue starting at `index`, with every other entry shuffled after it. */
+export const startShuffled = <T extends ShuffleTrack>(entries: T[], index: number, seed: number, mode: ShuffleMode, weight: ShuffleWeight): QueueState<T> => {
+    const first = entries[index];
+    if (!first) return { entries, index };
+    return { entries: [first, ...shuffleAfter(first, entries.filter((_, i) => i !== index), seed, mode, weight)], index: 0 };
+};
+
+/**
+ * Puts the upcoming entries back in their order before shuffling; entries
+ * queued since then follow in the order they are in.
+ */
+export const unshuffleUpcoming = <T extends ShuffleTrack>(state: QueueState<T>, unshuffled: number[]): QueueState<T> => {
+    const { head, rest } = splitPlayNext(state);
+    const position = new Map(unshuffled.map((id, i) => [id, i]));
+    const ordered = [...rest].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+    return { entries: [...head, ...ordered], index: state.index };
+};
@@ -0,0 +1,243 @@
+import { fft, nextPowerOfTwo } from './fft';
+
+/**
+ * Kaiser-windowed sinc sample-rate conversion.
+ *
+ * Filters are defined once as a continuous prototype in units of the lower
+ * of the two rates, then sampled into one kernel per output phase. For the
+ * usual rates the ratio is a small fraction (44.1 → 96 kHz is 320/147), so
+ * every phase gets an exact kernel; odd ratios fall back to the nearest of
+ * MAX_PHASES phases.
+ */
+
+export type ResamplerFilter = 'fast' | 'balanced' | 'steep' | 'minimum-phase';
+
+interface FilterSpec {
+    /** Sinc zero crossings on each side of the centre. */
+    zeroCrossings: number;
+    /** Kaiser window shape; sets the stopband attenuation. */
+    beta: number;
+    /** Centre of the transition band, as a fraction of the lower Nyquist. */
+    cutoff: number;
+    minimumPhase: boolean;
+}
+
+const SPECS: Record<ResamplerFilter, FilterSpec> = {
+    fast: { zeroCrossings: 12, beta: 4.55, cutoff: 0.88, minimumPhase: false },
+    balanced: { zeroCrossings: 32, beta: 7.86, cutoff: 0.92, minimumPhase: false },
+    steep: { zeroCrossings: 64, beta: 10.06, cutoff: 0.95, minimumPhase: false },
+    'minimum-phase': { zeroCrossings: 64, beta: 10.06, cutoff: 0.95, minimumPhase: true },
+};
+
+const MAX_PHASES = 4096;
+/** Table resolution of the minimum-phase prototype, in points per zero crossing. */
+const TABLE_OVERSAMPLING = 512;
+
+/** Zeroth-order modified Bessel function, for the Kaiser window. */
+const besselI0 = (x: number): number => {
+    let sum = 1;
+    let term = 1;
+    for (let k = 1; k < 50; k++) {
+        term *= (x / (2 * k)) * (x / (2 * k));
+        sum += term;
+        if (term < sum * 1e-12) break;
+    }
+    return sum;
+};
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+/** Linear-phase prototype centred on 0, supported on [-zeroCrossings, zeroCrossings]. */
+const linearPrototype = (spec: FilterSpec) => {
+    const norm = besselI0(spec.beta);
+    return (t: number): number => {
+        const r = t / spec.zeroCrossings;
+        if (r <= -1 || r >= 1) return 0;
+        return spec.cutoff * sinc(spec.cutoff * t) * besselI0(spec.beta * Math.sqrt(1 - r * r)) / norm;
+    };
+};
+
+const minimumPhaseTables = new Map<ResamplerFilter, Float64Array>();
+
+/**
+ * Minimum-phase version of the linear prototype (same magnitude, energy
+ * moved to the front) by the cepstral method, tabulated on [0, 2 * zeroCrossings].
+ */
+const minimumPhaseTable = (filter: ResamplerFilter, spec: FilterSpec): Float64Array => {
+    const cached = minimumPhaseTables.get(filter);
+    if (cached) return cached;
+
+    const proto = linearPrototype(spec);
+    const length = 2 * spec.zeroCrossings * TABLE_OVERSAMPLING + 1;
+    // Generous padding keeps cepstral aliasing below the stopband
+    const size = nextPowerOfTwo(length * 4);
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+    for (let k = 0; k < length; k++) re[k] = proto(k / TABLE_OVERSAMPLING - spec.zeroCrossings);
+
+    fft(re, im);
+    for (let k = 0; k < size; k++) {
+        re[k] = Math.log(Math.max(Math.hypot(re[k], im[k]), 1e-12));
+        im[k] = 0;
+    }
+    fft(re, im, true);
+    // Fold the real cepstrum onto positive quefrencies
+    for (let k = 1; k < size / 2; k++) {
+        re[k] *= 2;
+        re[size - k] = 0;
+    }
+    im.fill(0);
+    fft(re, im);
+    for (let k = 0; k < size; k++) {
+        const magnitude = Math.exp(re[k]);
+        re[k] = magnitude * Math.cos(im[k]);
+        im[k] = magnitude * Math.sin(im[k]);
+    }
+    fft(re, im, true);
+
+    const table = re.slice(0, length);
+    minimumPhaseTables.set(filter, table);
+    return table;
+};
+
+/** Causal prototype read from the table with linear interpolation. */
+const minimumPrototype = (filter: ResamplerFilter, spec: FilterSpec) => {
+    const table = minimumPhaseTable(filter, spec);
+    return (t: number): number => {
+        const x = t * TABLE_OVERSAMPLING;
+        if (x < 0 || x >= table.length - 1) return 0;
+        const i = Math.floor(x);
+        return table[i] + (table[i + 1] - table[i]) * (x - i);
+    };
+};
+
+const prototypeFor = (filter: ResamplerFilter) => {
+    const spec = SPECS[filter];
+    return spec.minimumPhase ? minimumPrototype(filter, spec) : linearPrototype(spec);
+};
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+export interface ResamplerKernels {
+    /** Input samples per output sample. */
+    step: number;
+    phases: number;
+    /** Kernel length per phase. */
+    taps: number;
+    /** Taps before the output instant; 0 for the causal minimum-phase filter. */
+    lead: number;
+    /** `phases` kernels of `taps` coefficients, back to back. */
+    kernels: Float32Array;
+}
+
+export const designKernels = (filter: ResamplerFilter, from: number, to: number): ResamplerKernels => {
+    const spec = SPECS[filter];
+    const proto = prototypeFor(filter);
+    // Downsampling stretches the prototype over more input samples
+    const scale = Math.min(1, to / from);
+    const side = Math.ceil(spec.zeroCrossings / scale);
+    const taps = 2 * side;
+    const lead = spec.minimumPhase ? 0 : side;
+    const phases = Math.min(MAX_PHASES, to / gcd(from, to));
+    const kernels = new Float32Array(phases * taps);
+
+    for (let p = 0; p < phases; p++) {
+        const frac = p / phases;
+        let sum = 0;
+        for (let j = 0; j < taps; j++) {
+            // Distance from input sample j of the window to the output instant
+            const value = proto((frac + taps - 1 - j - lead) * scale);
+            kernels[p * taps + j] = value;
+            sum += value;
+        }
+        // Unity gain at DC on every phase, so there is no phase-dependent ripple
+        for (let j = 0; j < taps; j++) kernels[p * taps + j] /= sum;
+    }
+    return { step: from / to, phases, taps, lead, kernels };
+};
+
+export const resampleChannel = (input: Float32Array, design: ResamplerKernels): Float32Array => {
+    const { step, phases, taps, lead, kernels } = design;
+    const padded = new Float32Array(input.length + 2 * taps);
+    padded.set(input, taps);
+    const output = new Float32Array(Math.ceil(input.length / step));
+
+    for (let n = 0; n < output.length; n++) {
+        const t = n * step;
+        let i0 = Math.floor(t);
+        let phase = Math.round((t - i0) * phases);
+        if (phase === phases) {
+            i0++;
+            phase = 0;
+        }
+        const base = i0 - (taps - 1) + lead + taps;
+        const k = phase * taps;
+        let acc = 0;
+        for (let j = 0; j < taps; j++) acc += padded[base + j] * kernels[k + j];
+        output[n] = acc;
+    }
+    return output;
+};
+
+export interface ResamplerMeasurement {
+    taps: number;
+    phase: 'linear' | 'minimum';
+    /** Highest frequency still within 0.1 dB of unity, in Hz. */
+    passband: number;
+    /** -3 dB point, in Hz. */
+    cutoff: number;
+    /** Worst leakage at or above the lower Nyquist (aliases and images), in dB. */
+    stopband: number;
+}
+
+/** Measurement grid: points per zero crossing and frequency resolution. */
+const MEASURE_OVERSAMPLING = 8;
+const MEASURE_POINTS = 512;
+
+/**
+ * Magnitude response of the prototype evaluated numerically, so the
+ * figures shown are those of the filter that actually runs.
+ */
+export const measureFilter = (filter: ResamplerFilter, from: number, to: number): ResamplerMeasurement => {
+    const spec = SPECS[filter];
+    const proto = prototypeFor(filter);
+    const low = Math.min(from, to);
+    const start = spec.minimumPhase ? 0 : -spec.zeroCrossings;
+    const length = 2 * spec.zeroCrossings * MEASURE_OVERSAMPLING + 1;
+    const h = new Float64Array(length);
+    for (let k = 0; k < length; k++) h[k] = proto(start + k / MEASURE_OVERSAMPLING);
+
+    const response = (f: number) => {
+        // f in cycles per low-rate sample
+        const w = 2 * Math.PI * f / MEASURE_OVERSAMPLING;
+        let re = 0;
+        let im = 0;
+        for (let k = 0; k < length; k++) {
+            re += h[k] * Math.cos(w * k);
+            im -= h[k] * Math.sin(w * k);
+        }
+        return Math.hypot(re, im);
+    };
+
+    const dc = response(0);
+    let passband = 0;
+    let cutoff = 0;
+    let stopband = -Infinity;
+    let inPassband = true;
+    for (let i = 1; i <= MEASURE_POINTS; i++) {
+        const f = i / MEASURE_POINTS;
+        const db = 20 * Math.log10(Math.max(response(f) / dc, 1e-12));
+        if (inPassband && Math.abs(db) <= 0.1) passband = f * low;
+        else inPassband = false;
+        if (!cutoff && db <= -3) cutoff = f * low;
+        if (f >= 0.5) stopband = Math.max(stopband, db);
+    }
+
+    return {
+        taps: 2 * Math.ceil(spec.zeroCrossings / Math.min(1, to / from)),
+        phase: spec.minimumPhase ? 'minimum' : 'linear',
+        passband,
+        cutoff,
+        stopband,
+    };
+};
@@ -0,0 +1,284 @@
+import type { TrackTags } from './metadata/tags';
+import { VALUE_SEPARATOR } from './metadata/tags';
+
+/**
+ * Smart playlists.
+ * A smart playlist is a list of rules (all or any must hold) plus a sort
+ * order and an optional limit. It is stored as plain JSON in IndexedDB and
+ * re-evaluated against the library whenever the tracks change.
+ */
+
+export type FieldType = 'text' | 'number' | 'date' | 'boolean';
+
+export type RuleField =
+    | 'title' | 'artist' | 'albumArtist' | 'album' | 'genre' | 'composer' | 'format'
+    | 'year' | 'duration' | 'sampleRate' | 'bitDepth' | 'lossless'
+    | 'playCount' | 'skipCount' | 'rating' | 'favourite' | 'lastPlayed' | 'added';
+
+export type RuleOperator =
+    | 'is' | 'isNot' | 'contains' | 'notContains' | 'in' | 'notIn'
+    | 'gt' | 'gte' | 'lt' | 'lte'
+    | 'inLast' | 'notInLast';
+
+export type TimeUnit = 'days' | 'weeks' | 'months';
+
+export interface SmartRule {
+    field: RuleField;
+    operator: RuleOperator;
+    /** Text or number; a list for `in`/`notIn`; a count of `unit` for `inLast`/`notInLast`. */
+    value: string | number | boolean | string[];
+    unit?: TimeUnit;
+}
+
+export type SortField = RuleField | 'random';
+
+export interface SmartPlaylist {
+    id: string;
+    name: string;
+    match: 'all' | 'any';
+    rules: SmartRule[];
+    sort: { field: SortField; direction: 'asc' | 'desc' };
+    /** Maximum number of tracks, after sorting; none when unset. */
+    limit?: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/** The track fields rules can read. Play stats are absent until a track has been played or rated. */
+export interface SmartTrack extends TrackTags {
+    id: number;
+    title: string;
+    artist: string;
+    format?: string;
+    stream?: { duration?: number; sampleRate?: number; bitDepth?: number; lossless?: boolean } | null;
+    playCount?: number;
+    skipCount?: number;
+    rating?: number;
+    favourite?: boolean;
+    lastPlayedAt?: number;
+    addedAt?: number;
+}
+
+interface FieldDefinition {
+    label: string;
+    type: FieldType;
+    get: (track: SmartTrack) => string | number | boolean | undefined;
+}
+
+export const RULE_FIELDS: Record<RuleField, FieldDefinition> = {
+    title: { label: 'Título', type: 'text', get: t => t.title },
+    artist: { label: 'Artista', type: 'text', get: t => t.artist },
+    albumArtist: { label: 'Artista do álbum', type: 'text', get: t => t.albumArtist },
+    album: { label: 'Álbum', type: 'text', get: t => t.album },
+    genre: { label: 'Gênero', type: 'text', get: t => t.genre },
+    composer: { label: 'Compositor', type: 'text', get: t => t.composer },
+    format: { label: 'Formato', type: 'text', get: t => t.format },
+    year: { label: 'Ano', type: 'number', get: t => t.year },
+    duration: { label: 'Duração (s)', type: 'number', get: t => t.stream?.duration },
+    sampleRate: { label: 'Taxa (Hz)', type: 'number', get: t => t.stream?.sampleRate },
+    bitDepth: { label: 'Bits', type: 'number', get: t => t.stream?.bitDepth },
+    lossless: { label: 'Sem perdas', type: 'boolean', get: t => t.stream?.lossless },
+    playCount: { label: 'Reproduções', type: 'number', get: t => t.playCount ?? 0 },
+    skipCount: { label: 'Pulos', type: 'number', get: t => t.skipCount ?? 0 },
+    rating: { label: 'Avaliação', type: 'number', get: t => t.rating ?? 0 },
+    favourite: { label: 'Favorita', type: 'boolean', get: t => !!t.favourite },
+    lastPlayed: { label: 'Última reprodução', type: 'date', get: t => t.lastPlayedAt },
+    // Track ids are import timestamps, which covers tracks added before addedAt existed
+    added: { label: 'Adicionada', type: 'date', get: t => t.addedAt ?? Math.floor(t.id) },
+};
+
+export const OPERATORS: Record<FieldType, { operator: RuleOperator; label: string }[]> = {
+    text: [
+        { operator: 'is', label: 'é' },
+        { operator: 'isNot', label: 'não é' },
+        { operator: 'contains', label: 'contém' },
+        { operator: 'notContains', label: 'não contém' },
+        { operator: 'in', label: 'é um de' },
+        { operator: 'notIn', label: 'não é um de' },
+    ],
+    number: [
+        { operator: 'is', label: '=' },
+        { operator: 'isNot', label: '≠' },
+        { operator: 'gt', label: '>' },
+        { operator: 'gte', label: '≥' },
+        { operator: 'lt', label: '<' },
+        { operator: 'lte', label: '≤' },
+    ],
+    date: [
+        { operator: 'inLast', label: 'nos últimos' },
+        { operator: 'notInLast', label: 'não nos últimos' },
+    ],
+    boolean: [
+        { operator: 'is', label: 'é' },
+    ],
+};
+
+export const TIME_UNITS: { unit: TimeUnit; label: string }[] = [
+    { unit: 'days', label: 'dias' },
+    { unit: 'weeks', label: 'semanas' },
+    { unit: 'months', label: 'meses' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_MS: Record<TimeUnit, number> = { days: DAY_MS, weeks: 7 * DAY_MS, months: 30 * DAY_MS };
+
+export const createSmartPlaylistId = () => `smart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** A new rule on `field`, with the usual operator and value for its type. */
+export const defaultRule = (field: RuleField = 'genre'): SmartRule => {
+    const type = RULE_FIELDS[field].type;
+    switch (type) {
+        case 'date': return { field, operator: 'inLast', value: 30, unit: 'days' };
+        case 'boolean': return { field, operator: 'is', value: true };
+        case 'number': return { field, operator: 'gte', value: 0 };
+        default: return { field, operator: 'is', value: '' };
+    }
+};
+
+export const createSmartPlaylist = (name: string, template?: Partial<SmartPlaylist>): SmartPlaylist => {
+    const now = Date.now();
+    return {
+        match: 'all',
+        rules: [defaultRule()],
+        sort: { field: 'artist', direction: 'asc' },
+        ...template,
+        id: createSmartPlaylistId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/** Starting points offered when creating a smart playlist. */
+export const SMART_TEMPLATES: { name: string; playlist: Partial<SmartPlaylist> }[] = [
+    {
+        name: 'Jazz esquecido',
+        playlist: {
+            match: 'all',
+            rules: [
+                { field: 'genre', operator: 'is', value: 'Jazz' },
+                { field: 'playCount', operator: 'gt', value: 5 },
+                { field: 'lastPlayed', operator: 'notInLast', value: 30, unit: 'days' },
+            ],
+            sort: { field: 'playCount', direction: 'desc' },
+        },
+    },
+    {
+        name: 'Sem perdas',
+        playlist: {
+            rules: [{ field: 'format', operator: 'in', value: ['FLAC', 'WAV'] }],
+            sort: { field: 'album', direction: 'asc' },
+        },
+    },
+    {
+        name: 'Mais bem avaliadas',
+        playlist: {
+            rules: [{ field: 'rating', operator: 'gte', value: 4 }],
+            sort: { field: 'rating', direction: 'desc' },
+        },
+    },
+    {
+        name: 'Favoritas',
+        playlist: {
+            rules: [{ field: 'favourite', operator: 'is', value: true }],
+            sort: { field: 'artist', direction: 'asc' },
+        },
+    },
+    {
+        name: 'Adicionadas na semana',
+        playlist: {
+            rules: [{ field: 'added', operator: 'inLast', value: 1, unit: 'weeks' }],
+            sort: { field: 'added', direction: 'desc' },
+        },
+    },
+];
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+/** Multi-valued tags ("Jazz; Blues") match on any of their values. */
+const textValues = (value: unknown) => normalize(value).split(VALUE_SEPARATOR.trim()).map(v => v.trim()).filter(Boolean);
+
+const listValue = (value: SmartRule['value']) =>
+    (Array.isArray(value) ? value : String(value).split(',')).map(normalize).filter(Boolean);
+
+export const matchesRule = (track: SmartTrack, rule: SmartRule, now = Date.now()): boolean => {
+    const definition = RULE_FIELDS[rule.field];
+    if (!definition) return false;
+    const actual = definition.get(track);
+
+    switch (definition.type) {
+        case 'text': {
+            const values = textValues(actual);
+            const expected = normalize(rule.value);
+            switch (rule.operator) {
+                case 'is': return values.includes(expected);
+                case 'isNot': return !values.includes(expected);
+                case 'contains': return normalize(actual).includes(expected);
+                case 'notContains': return !normalize(actual).includes(expected);
+                case 'in': return listValue(rule.value).some(v => values.includes(v));
+                case 'notIn': return !listValue(rule.value).some(v => values.includes(v));
+                default: return false;
+            }
+        }
+        case 'number': {
+            const expected = Number(rule.value);
+            if (typeof actual !== 'number' || !isFinite(expected)) return rule.operator === 'isNot';
+            switch (rule.operator) {
+                case 'is': return actual === expected;
+                case 'isNot': return actual !== expected;
+                case 'gt': return actual > expected;
+                case 'gte': return actual >= expected;
+                case 'lt': return actual < expected;
+                case 'lte': return actual <= expected;
+                default: return false;
+            }
+        }
+        case 'date': {
+            const since = now - Number(rule.value) * UNIT_MS[rule.unit || 'days'];
+            const within = typeof actual === 'number' && actual >= since;
+            // Never played counts as "not played in the last N days"
+            return rule.operator === 'notInLast' ? !within : within;
+        }
+        case 'boolean':
+            return !!actual === !!rule.value;
+    }
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/** Sorts by a field; tracks missing the field stay last in either direction. */
+const compareBy = (field: RuleField, direction: number) => (a: SmartTrack, b: SmartTrack): number => {
+    const get = RULE_FIELDS[field].get;
+    const x = get(a), y = get(b);
+    if (x === undefined || y === undefined) return (x === undefined ? 1 : 0) - (y === undefined ? 1 : 0);
+    return direction * (typeof x === 'string' || typeof y === 'string' ? collator.compare(String(x), String(y)) : Number(x) - Number(y));
+};
+
+/** The tracks a smart playlist currently holds, sorted and limited. */
+export const evaluateSmartPlaylist = <T extends SmartTrack>(playlist: SmartPlaylist, tracks: T[], now = Date.now()): T[] => {
+    const test = (track: T) => playlist.rules.length === 0 || (playlist.match === 'any'
+        ? playlist.rules.some(rule => matchesRule(track, rule, now))
+        : playlist.rules.every(rule => matchesRule(track, rule, now)));
+    let result = tracks.filter(test);
+
+    const { field, direction } = playlist.sort;
+    if (field === 'random') {
+        result = result.map(track => ({ track, key: Math.random() })).sort((a, b) => a.key - b.key).map(e => e.track);
+    } else {
+        result.sort(compareBy(field, direction === 'desc' ? -1 : 1));
+    }
+    return playlist.limit && playlist.limit > 0 ? result.slice(0, playlist.limit) : result;
+};
+
+/** One-line summary of the rules, for the playlist card. */
+export const describeRules = (playlist: SmartPlaylist): string => playlist.rules.map(rule => {
+    const definition = RULE_FIELDS[rule.field];
+    const operator = OPERATORS[definition.type].find(o => o.operator === rule.operator)?.label || rule.operator;
+    const value = Array.isArray(rule.value) ? rule.value.join(', ')
+        : definition.type === 'date' ? `${rule.value} ${TIME_UNITS.find(u => u.unit === rule.unit)?.label || 'dias'}`
+        : definition.type === 'boolean' ? (rule.value ? 'sim' : 'não')
+        : String(rule.value);
+    return `${definition.label} ${operator} ${value}`;
+}).join(playlist.match === 'any' ? ' ou ' : ' e ');
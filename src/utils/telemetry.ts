@@ -0,0 +1,57 @@
+import type { StreamInfo } from './metadata/streamInfo';
+import type { RateConversion } from './resampler';
+
+/**
+ * Live figures for the DSP panel: what the file is, what the output runs at,
+ * how much delay the chain adds and how busy the worklets are.
+ * Everything here is measured or read from headers; nothing is estimated.
+ */
+
+export interface DspTelemetry {
+    /** Stream properties of the loaded track, null when unknown. */
+    source: StreamInfo | null;
+    outputRate: number;
+    /** Seconds; AudioContext.baseLatency, 0 when the browser does not report it. */
+    baseLatency: number;
+    /** Seconds; AudioContext.outputLatency, 0 when the browser does not report it. */
+    outputLatency: number;
+    /** Seconds of delay added by the FIR EQ and the limiter lookahead. */
+    processingLatency: number;
+    /** True when the source is converted to a different output rate. */
+    resampling: boolean;
+    /** Which converter handled the current track, when it was converted. */
+    conversion: RateConversion | null;
+    /** Summed worklet render load as a fraction of real time; null when only native nodes run. */
+    renderLoad: number | null;
+}
+
+interface DspStage {
+    renderLoad: () => number | null;
+    latency: () => number;
+}
+
+export const readTelemetry = (
+    context: AudioContext,
+    source: StreamInfo | null,
+    conversion: RateConversion | null,
+    stages: (DspStage | null)[]
+): DspTelemetry => {
+    const active = stages.filter((s): s is DspStage => !!s);
+    const loads = active.map(s => s.renderLoad()).filter((l): l is number => l !== null);
+    return {
+        source,
+        outputRate: context.sampleRate,
+        baseLatency: context.baseLatency || 0,
+        outputLatency: context.outputLatency || 0,
+        processingLatency: active.reduce((sum, s) => sum + s.latency(), 0),
+        resampling: !!conversion || (!!source && source.sampleRate !== context.sampleRate),
+        conversion,
+        renderLoad: loads.length > 0 ? loads.reduce((a, b) => a + b, 0) : null,
+    };
+};
+
+export const formatSampleRate = (rate: number): string =>
+    `${Math.round(rate / 100) / 10} kHz`;
+
+export const formatChannels = (channels: number): string =>
+    channels === 1 ? 'Mono' : channels === 2 ? 'Stereo' : `${channels} ch`;